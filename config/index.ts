@@ -1,20 +1,229 @@
 import dotenv from 'dotenv';
-import { TwitterConfig, BlogPostSchedulerConfig } from '../types';
+import * as os from 'os';
+import * as path from 'path';
+import { TwitterConfig, PersonaConfig, PersonasConfig, BlogPostSchedulerConfig, StorageConfig, LLMConfig, GenerationFailureConfig, JobQueueConfig, ScheduledJobConfig, SchedulerConfig, ConversationConfig, CharacterConfig, ApprovalConfig, ModerationConfig, ImageSelectionConfig, MediaConfig } from '../types';
+import { LLMChainEntry, LLMProviderName } from '../services/llm/LLMProvider';
+import { SuppressionAction } from '../services/repositories/types';
+import { CronExpression } from '../services/scheduler/CronExpression';
 
 dotenv.config();
 
+const llmProviderNames: LLMProviderName[] = ['openai', 'anthropic', 'grok'];
+
+/**
+ * Parses a fallback chain like "anthropic,openai:gpt-4o-mini" (provider[:model], in order)
+ * @param value The environment variable value
+ * @param fallback The chain to use when the variable is unset
+ */
+function parseLLMChain(value: string | undefined, fallback: LLMChainEntry[]): LLMChainEntry[] {
+    if (!value) {
+        return fallback;
+    }
+
+    return value.split(',').map(part => {
+        const [provider, ...model] = part.trim().split(':');
+        if (!llmProviderNames.includes(provider as LLMProviderName)) {
+            throw new Error(`Unknown LLM provider in chain: ${provider}`);
+        }
+        return model.length > 0
+            ? { provider: provider as LLMProviderName, model: model.join(':') }
+            : { provider: provider as LLMProviderName };
+    });
+}
+
+const suppressionActions: SuppressionAction[] = ['skip', 'retry', 'review'];
+
+/**
+ * Parses what to do when generation fails ("skip", "retry" or "review")
+ * @param value The environment variable value
+ * @param fallback The action to use when the variable is unset
+ */
+function parseSuppressionAction(value: string | undefined, fallback: SuppressionAction): SuppressionAction {
+    if (!value) {
+        return fallback;
+    }
+
+    const action = value.trim().toLowerCase() as SuppressionAction;
+    if (!suppressionActions.includes(action)) {
+        throw new Error(`Unknown generation failure action: ${value}`);
+    }
+    return action;
+}
+
+/**
+ * Parses the moderation block patterns, a JSON array of regular expressions like ["crypto\\s*giveaway"]
+ * @param value The environment variable value
+ */
+function parseBlockPatterns(value: string | undefined): string[] {
+    if (!value) {
+        return [];
+    }
+
+    const patterns = JSON.parse(value);
+    if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string')) {
+        throw new Error('MODERATION_BLOCK_PATTERNS must be a JSON array of strings');
+    }
+    patterns.forEach(pattern => {
+        try {
+            new RegExp(pattern, 'i');
+        } catch (error) {
+            throw new Error(`Invalid moderation block pattern: ${pattern}`);
+        }
+    });
+    return patterns;
+}
+
+const schedulerTimezone = process.env.SCHEDULER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Builds a scheduled job's config. SCHEDULE_<NAME> overrides the cron expression ("off" turns the job off),
+ * SCHEDULE_<NAME>_TZ its time zone and SCHEDULE_<NAME>_CATCH_UP its catch-up policy ("skip" or "run_once").
+ * @param name The job name, e.g. "image_tweet"
+ * @param defaults The job's default schedule
+ */
+function parseSchedule(name: string, defaults: Partial<ScheduledJobConfig> & { cron: string | null }): ScheduledJobConfig {
+    const prefix = `SCHEDULE_${name.toUpperCase()}`;
+    const cronValue = process.env[prefix]?.trim();
+    const cron = cronValue ? (cronValue.toLowerCase() === 'off' ? null : cronValue) : defaults.cron;
+    const timezone = process.env[`${prefix}_TZ`] || defaults.timezone || schedulerTimezone;
+
+    const catchUp = (process.env[`${prefix}_CATCH_UP`] || defaults.catchUp || 'skip').trim().toLowerCase();
+    if (catchUp !== 'skip' && catchUp !== 'run_once') {
+        throw new Error(`Unknown catch-up policy for ${name}: ${catchUp}`);
+    }
+
+    // Fails fast on a bad expression or time zone
+    if (cron) {
+        new CronExpression(cron, timezone);
+    }
+
+    return { cron, timezone, catchUp: catchUp as ScheduledJobConfig['catchUp'], runOnStart: defaults.runOnStart || false };
+}
+
+const blogPostScheduleDays = [1, 4]; // Monday and Thursday
+const blogPostScheduleHour = parseInt(process.env.BLOG_POST_SCHEDULER_HOUR || '10', 10);
+const blogPostScheduleMinute = parseInt(process.env.BLOG_POST_SCHEDULER_MINUTE || '0', 10);
+
+const personaNamePattern = /^[a-z0-9_]+$/;
+
+/**
+ * Parses a persona name
+ * @param value The name as configured
+ */
+function parsePersonaName(value: string): string {
+    const name = value.trim().toLowerCase();
+    if (!personaNamePattern.test(name)) {
+        throw new Error(`Invalid persona name: ${value} (use letters, digits and "_")`);
+    }
+    return name;
+}
+
+const defaultPersona = parsePersonaName(process.env.DEFAULT_PERSONA || 'marvin');
+const extraPersonas = Array.from(new Set((process.env.PERSONAS || '')
+    .split(',')
+    .filter(name => name.trim().length > 0)
+    .map(parsePersonaName)))
+    .filter(name => name !== defaultPersona);
+
+/**
+ * Builds the X credentials of a persona. The default persona uses TWITTER_*, another persona PERSONA_<NAME>_TWITTER_*.
+ * @param persona The persona name
+ */
+function parsePersonaTwitter(persona: string): TwitterConfig {
+    const prefix = persona === defaultPersona ? '' : `PERSONA_${persona.toUpperCase()}_`;
+    return {
+        apiKey: process.env[`${prefix}TWITTER_API_KEY`] || '',
+        apiSecret: process.env[`${prefix}TWITTER_API_SECRET`] || '',
+        accessToken: process.env[`${prefix}TWITTER_ACCESS_TOKEN`] || '',
+        accessTokenSecret: process.env[`${prefix}TWITTER_ACCESS_TOKEN_SECRET`] || '',
+        bearerToken: process.env[`${prefix}TWITTER_BEARER_TOKEN`] || '',
+        apiBaseUrl: process.env.TWITTER_API_BASE_URL || undefined,
+    };
+}
+
+/**
+ * Builds the scheduled jobs each persona runs. The default persona's jobs keep their plain names
+ * and SCHEDULE_<JOB> settings; another persona's are named "<persona>:<job>" and use SCHEDULE_<PERSONA>_<JOB>.
+ * @param persona The persona name
+ */
+function parsePersonaSchedules(persona: string): Record<string, ScheduledJobConfig> {
+    const defaults: Record<string, Partial<ScheduledJobConfig> & { cron: string | null }> = {
+        image_tweet: { cron: '0 13 * * *', catchUp: 'run_once' },
+        video_tweet: { cron: null }, // Off until there are videos to post, e.g. SCHEDULE_VIDEO_TWEET="0 18 * * 5"
+        engagement_monitoring: { cron: '*/10 * * * *', runOnStart: true },
+        daily_wrapup: { cron: null }, // Off to stop the 9 PM Grok posts; was "0 21 * * *"
+        blog_post_check: {
+            cron: `${blogPostScheduleMinute} ${blogPostScheduleHour} * * ${blogPostScheduleDays.join(',')}`,
+            catchUp: 'run_once'
+        },
+        scheduled_blog_posts: { cron: '* * * * *' }, // Blog posts with a scheduled_at of their own
+    };
+
+    return Object.fromEntries(Object.entries(defaults).map(([job, schedule]) => persona === defaultPersona
+        ? [job, parseSchedule(job, schedule)]
+        : [`${persona}:${job}`, parseSchedule(`${persona}_${job}`, schedule)]));
+}
+
+/**
+ * Parses prompt tag weights like "neon:3,portrait:0.5"
+ * @param value The environment variable value
+ */
+function parseTagWeights(value: string | undefined): Record<string, number> {
+    const weights: Record<string, number> = {};
+    for (const part of (value || '').split(',').filter(part => part.trim().length > 0)) {
+        const [tag, weight] = part.split(':').map(piece => piece.trim());
+        if (!tag || !weight || isNaN(Number(weight)) || Number(weight) < 0) {
+            throw new Error(`Invalid image tag weight: ${part} (use tag:weight, e.g. neon:3)`);
+        }
+        weights[tag.toLowerCase()] = Number(weight);
+    }
+    return weights;
+}
+
+/**
+ * Builds how a persona's image_tweet job picks its image. IMAGE_SELECTION_<SETTING> sets the default for
+ * every job and SCHEDULE_<JOB>_<SETTING> overrides it for one, e.g. SCHEDULE_YONA_IMAGE_TWEET_STRATEGY.
+ * @param persona The persona name
+ */
+function parseImageSelection(persona: string): Record<string, ImageSelectionConfig> {
+    const job = persona === defaultPersona ? 'image_tweet' : `${persona}:image_tweet`;
+    const prefix = `SCHEDULE_${(persona === defaultPersona ? 'image_tweet' : `${persona}_image_tweet`).toUpperCase()}`;
+    const setting = (name: string) => process.env[`${prefix}_${name}`] || process.env[`IMAGE_SELECTION_${name}`];
+
+    return {
+        [job]: {
+            strategy: (setting('STRATEGY') || 'random_recent').trim().toLowerCase(),
+            candidates: parseInt(setting('CANDIDATES') || '10', 10),
+            avoidRepeatDays: parseInt(setting('AVOID_REPEAT_DAYS') || '0', 10),
+            tagWeights: parseTagWeights(setting('TAG_WEIGHTS')),
+            // X attaches at most four images to a tweet
+            maxImages: Math.min(4, Math.max(1, parseInt(setting('MAX_IMAGES') || '4', 10) || 1)),
+        }
+    };
+}
+
+const twitterConfig = parsePersonaTwitter(defaultPersona);
+
 export const config = {
-    twitter: {
-        apiKey: process.env.TWITTER_API_KEY || '',
-        apiSecret: process.env.TWITTER_API_SECRET || '',
-        accessToken: process.env.TWITTER_ACCESS_TOKEN || '',
-        accessTokenSecret: process.env.TWITTER_ACCESS_TOKEN_SECRET || '',
-        bearerToken: process.env.TWITTER_BEARER_TOKEN || '',
-    } as TwitterConfig,
+    twitter: twitterConfig,
+    // Characters run side by side, each with its own X account, schedules and stored rows
+    personas: {
+        defaultPersona,
+        personas: [defaultPersona, ...extraPersonas].map(name => ({
+            name,
+            agentName: (process.env[`PERSONA_${name.toUpperCase()}_AGENT_NAME`] || name).trim().toLowerCase(),
+            twitter: name === defaultPersona ? twitterConfig : parsePersonaTwitter(name),
+            watermarkPath: process.env[`PERSONA_${name.toUpperCase()}_WATERMARK_PATH`] || null,
+        } as PersonaConfig)),
+    } as PersonasConfig,
     supabase: {
         url: process.env.SUPABASE_URL || '',
         key: process.env.SUPABASE_KEY || '',
     },
+    storage: {
+        backend: process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'supabase',
+        seedFile: process.env.STORAGE_SEED_FILE || undefined,
+    } as StorageConfig,
     openai: {
         apiKey: process.env.OPENAI_API_KEY || '',
     },
@@ -23,14 +232,114 @@ export const config = {
     },
     grok: {
         apiKey: process.env.GROK_API_KEY || '',
-        apiEndpoint: process.env.GROK_API_ENDPOINT || 'https://api.grok.x/v1/chat/completions',
+        apiEndpoint: process.env.GROK_API_ENDPOINT || 'https://api.x.ai/v1/chat/completions',
     },
+    llm: {
+        models: {
+            openai: process.env.OPENAI_MODEL || 'gpt-3.5-turbo',
+            anthropic: process.env.ANTHROPIC_MODEL || 'claude-3-opus-20240229',
+            grok: process.env.GROK_MODEL || 'grok-3-latest',
+        },
+        // Providers to try for each use case, in order
+        chains: {
+            daily_tweet: parseLLMChain(process.env.LLM_CHAIN_DAILY_TWEET, [{ provider: 'openai' }, { provider: 'anthropic' }]),
+            mention_reply: parseLLMChain(process.env.LLM_CHAIN_MENTION_REPLY, [{ provider: 'anthropic' }, { provider: 'openai' }]),
+            engagement_quip: parseLLMChain(process.env.LLM_CHAIN_ENGAGEMENT_QUIP, [{ provider: 'grok' }, { provider: 'openai' }]),
+            image_caption: parseLLMChain(process.env.LLM_CHAIN_IMAGE_CAPTION, [{ provider: 'anthropic' }, { provider: 'openai' }]),
+            wrapup: parseLLMChain(process.env.LLM_CHAIN_WRAPUP, [{ provider: 'grok' }, { provider: 'openai' }]),
+            thread_hook: parseLLMChain(process.env.LLM_CHAIN_THREAD_HOOK, [{ provider: 'anthropic' }, { provider: 'openai' }]),
+            moderation: parseLLMChain(process.env.LLM_CHAIN_MODERATION, [{ provider: 'openai' }, { provider: 'anthropic' }]),
+            alt_text: parseLLMChain(process.env.LLM_CHAIN_ALT_TEXT, [{ provider: 'anthropic' }, { provider: 'openai' }]),
+        },
+    } as LLMConfig,
+    // Nothing is posted when generation fails; these decide what happens to the post instead
+    generationFailures: {
+        actions: {
+            daily_tweet: parseSuppressionAction(process.env.ON_FAILURE_DAILY_TWEET, 'skip'),
+            mention_reply: parseSuppressionAction(process.env.ON_FAILURE_MENTION_REPLY, 'retry'),
+            engagement_quip: parseSuppressionAction(process.env.ON_FAILURE_ENGAGEMENT_QUIP, 'skip'),
+            image_caption: parseSuppressionAction(process.env.ON_FAILURE_IMAGE_CAPTION, 'skip'),
+            wrapup: parseSuppressionAction(process.env.ON_FAILURE_WRAPUP, 'skip'),
+            thread_hook: 'skip', // A thread without a hook opens with the blog post's title instead
+            moderation: 'skip', // The other moderation rules still apply when the classifier fails
+            alt_text: 'skip', // The image is described by its prompt instead
+        },
+        maxRetries: parseInt(process.env.GENERATION_MAX_RETRIES || '3', 10),
+    } as GenerationFailureConfig,
+    jobQueue: {
+        batchSize: parseInt(process.env.JOB_QUEUE_BATCH_SIZE || '5', 10),
+        maxAttempts: parseInt(process.env.JOB_QUEUE_MAX_ATTEMPTS || '5', 10),
+        initialDelaySeconds: parseInt(process.env.JOB_QUEUE_INITIAL_DELAY_SECONDS || '60', 10),
+        runningTimeoutSeconds: parseInt(process.env.JOB_QUEUE_RUNNING_TIMEOUT_SECONDS || '1800', 10),
+        imageLeaseSeconds: parseInt(process.env.IMAGE_LEASE_SECONDS || '900', 10),
+    } as JobQueueConfig,
+    // Named jobs run by the SchedulerService
+    scheduler: {
+        timezone: schedulerTimezone,
+        jobs: {
+            ...Object.assign({}, ...[defaultPersona, ...extraPersonas].map(parsePersonaSchedules)),
+            post_job_queue: parseSchedule('post_job_queue', { cron: '* * * * *', runOnStart: true }),
+            approval_expiry: parseSchedule('approval_expiry', { cron: '*/15 * * * *', runOnStart: true }),
+            image_reconciliation: parseSchedule('image_reconciliation', { cron: '*/10 * * * *', runOnStart: true }),
+        },
+        historyRetentionDays: parseInt(process.env.SCHEDULER_HISTORY_RETENTION_DAYS || '30', 10),
+    } as SchedulerConfig,
+    // How each image_tweet job picks its image, by job name
+    imageSelection: Object.assign({}, ...[defaultPersona, ...extraPersonas].map(parseImageSelection)) as Record<string, ImageSelectionConfig>,
+    // Downloaded images are processed to X's limits before they are uploaded
+    media: {
+        maxImageBytes: parseInt(process.env.MEDIA_MAX_IMAGE_BYTES || '5242880', 10),
+        maxImageDimension: parseInt(process.env.MEDIA_MAX_IMAGE_DIMENSION || '4096', 10),
+        maxDownloadBytes: parseInt(process.env.MEDIA_MAX_DOWNLOAD_BYTES || '52428800', 10),
+        cacheDir: process.env.MEDIA_CACHE_DIR || path.join(os.tmpdir(), 'marvin-media-cache'),
+        watermarkOpacity: parseFloat(process.env.MEDIA_WATERMARK_OPACITY || '0.35'),
+        uploadChunkBytes: parseInt(process.env.MEDIA_UPLOAD_CHUNK_BYTES || '1048576', 10),
+        maxVideoBytes: parseInt(process.env.MEDIA_MAX_VIDEO_BYTES || '536870912', 10),
+        processingTimeoutSeconds: parseInt(process.env.MEDIA_PROCESSING_TIMEOUT_SECONDS || '600', 10),
+    } as MediaConfig,
+    // Generated posts wait in the approvals queue for a reviewer when their type requires it
+    approval: {
+        required: {
+            daily_tweet: process.env.REQUIRE_APPROVAL_DAILY_TWEET === 'true',
+            image_caption: process.env.REQUIRE_APPROVAL_IMAGE_CAPTION === 'true',
+            engagement_reply: process.env.REQUIRE_APPROVAL_ENGAGEMENT_REPLY === 'true',
+            blog_thread: process.env.REQUIRE_APPROVAL_BLOG_THREAD === 'true',
+        },
+        expiryHours: parseInt(process.env.APPROVAL_EXPIRY_HOURS || '24', 10),
+    } as ApprovalConfig,
+    // Checks on outbound text; blocked posts are held for review instead of being queued
+    moderation: {
+        enabled: process.env.MODERATION_ENABLED !== 'false',
+        blocklist: (process.env.MODERATION_BLOCKLIST || '')
+            .split(',')
+            .map(term => term.trim().toLowerCase())
+            .filter(term => term.length > 0),
+        blockPatterns: parseBlockPatterns(process.env.MODERATION_BLOCK_PATTERNS),
+        maxHashtags: parseInt(process.env.MODERATION_MAX_HASHTAGS || '3', 10),
+        maxMentions: parseInt(process.env.MODERATION_MAX_MENTIONS || '2', 10),
+        classifier: process.env.MODERATION_CLASSIFIER === 'true',
+    } as ModerationConfig,
+    character: {
+        pinnedVersion: process.env.CHARACTER_VERSION ? parseInt(process.env.CHARACTER_VERSION, 10) : null,
+        reloadSeconds: parseInt(process.env.CHARACTER_RELOAD_SECONDS || '300', 10),
+    } as CharacterConfig,
+    conversations: {
+        maxContextTurns: parseInt(process.env.CONVERSATION_MAX_CONTEXT_TURNS || '10', 10),
+        maxDepth: parseInt(process.env.CONVERSATION_MAX_DEPTH || '12', 10),
+        maxRepliesPerThread: parseInt(process.env.CONVERSATION_MAX_REPLIES || '4', 10),
+        hostileTerms: (process.env.CONVERSATION_HOSTILE_TERMS || 'kill yourself,kys,shut up,fuck you,fuck off,stupid bot,idiot,moron,retard,scam')
+            .split(',')
+            .map(term => term.trim().toLowerCase())
+            .filter(term => term.length > 0),
+    } as ConversationConfig,
     blogPostScheduler: {
         enabled: process.env.BLOG_POST_SCHEDULER_ENABLED === 'true',
-        scheduleDays: [1, 4], // Monday and Thursday
-        scheduleHour: parseInt(process.env.BLOG_POST_SCHEDULER_HOUR || '10', 10),
-        scheduleMinute: parseInt(process.env.BLOG_POST_SCHEDULER_MINUTE || '0', 10),
+        scheduleDays: blogPostScheduleDays,
+        scheduleHour: blogPostScheduleHour,
+        scheduleMinute: blogPostScheduleMinute,
         useXArticles: false, // Set to true when X Articles API becomes available
+        postAsThread: process.env.BLOG_POST_AS_THREAD === 'true',
+        threadHook: process.env.BLOG_THREAD_HOOK === 'true',
         dryRun: process.env.BLOG_POST_SCHEDULER_DRY_RUN === 'true',
         updateStatusInDryRun: false,
         notifications: {
@@ -45,13 +354,22 @@ const requiredEnvVars = [
     'TWITTER_API_SECRET',
     'TWITTER_ACCESS_TOKEN',
     'TWITTER_ACCESS_TOKEN_SECRET',
-    'SUPABASE_URL',
-    'SUPABASE_KEY',
     'OPENAI_API_KEY',
     'ANTHROPIC_API_KEY'
     // Note: GROK_API_KEY is optional and will fall back to OpenAI if not provided
 ];
 
+// Every other persona needs its own X account
+extraPersonas.forEach(persona => {
+    const prefix = `PERSONA_${persona.toUpperCase()}_`;
+    requiredEnvVars.push(`${prefix}TWITTER_API_KEY`, `${prefix}TWITTER_API_SECRET`, `${prefix}TWITTER_ACCESS_TOKEN`, `${prefix}TWITTER_ACCESS_TOKEN_SECRET`);
+});
+
+// Supabase is only needed when it backs the repositories
+if (config.storage.backend === 'supabase') {
+    requiredEnvVars.push('SUPABASE_URL', 'SUPABASE_KEY');
+}
+
 requiredEnvVars.forEach(envVar => {
     if (!process.env[envVar]) {
         throw new Error(`Missing required environment variable: ${envVar}`);
@@ -0,0 +1,414 @@
+import { config } from '../../config';
+import { LLMService } from '../llm/LLMService';
+import { ModerationService } from '../moderation/ModerationService';
+import { ModerationContext } from '../moderation/ModerationRules';
+import { PostJobQueue } from '../queue/PostJobQueue';
+import { SchedulerService } from '../scheduler/SchedulerService';
+import { fitsInTweet, truncateTweet } from '../twitter/TweetText';
+import {
+    ApprovalContentType,
+    ApprovalRecord,
+    ApprovalStatus,
+    GenerationInfo,
+    getRepositories,
+    ModerationIssue,
+    PostJobRecord,
+    PostJobType,
+    Repositories
+} from '../repositories';
+
+/**
+ * A generated post to hold for review
+ */
+export interface ApprovalSubmission {
+    contentType: ApprovalContentType;
+    persona: string;
+    texts: string[]; // One per tweet for a thread
+    generation: GenerationInfo;
+    job: { type: PostJobType; idempotencyKey: string; payload: Record<string, any> }; // Queued on approval
+    moderationIssues?: ModerationIssue[]; // Why moderation blocked the post, if it did
+}
+
+/**
+ * Text generated again for a post under review
+ */
+export type RegeneratedPost =
+    | { ok: true; texts: string[]; payload: Record<string, any>; generation: GenerationInfo }
+    | { ok: false; reason: string };
+
+/**
+ * How the approvals queue handles one content type; registered by the service that generates it
+ */
+export interface ApprovalHandler {
+    /**
+     * Puts reviewed text into the payload of the post job
+     * @param approval The post under review
+     * @param texts The text to post, one per tweet
+     */
+    applyTexts(approval: ApprovalRecord, texts: string[]): Record<string, any>;
+
+    /**
+     * Generates the post again. Without it, the stored prompt is sent to the provider chain again.
+     * @param approval The post under review
+     */
+    regenerate?(approval: ApprovalRecord): Promise<RegeneratedPost>;
+
+    /**
+     * Called once a post is rejected or expires, e.g. to stop waiting for it
+     * @param approval The dropped post, with its final status
+     */
+    onDropped?(approval: ApprovalRecord): Promise<void>;
+}
+
+/**
+ * Holds generated posts for review when their content type requires it, or when moderation blocked them.
+ * Each post waits in the approvals table with the prompt, model and character version
+ * it was generated with; a reviewer approves, edits, regenerates or rejects it.
+ * Approved posts are queued in the post job queue, whose worker posts them; posts nobody
+ * reviewed before they expire are dropped by the approval_expiry scheduled job.
+ */
+export class ApprovalService {
+    private static instance: ApprovalService;
+    private handlers = new Map<ApprovalContentType, ApprovalHandler>();
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of ApprovalService
+     */
+    public static getInstance(): ApprovalService {
+        if (!ApprovalService.instance) {
+            ApprovalService.instance = new ApprovalService();
+        }
+        return ApprovalService.instance;
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Registers how posts of a content type are handled, replacing any existing handler
+     * @param contentType The content type
+     * @param handler The handler
+     */
+    public registerHandler(contentType: ApprovalContentType, handler: ApprovalHandler): void {
+        this.handlers.set(contentType, handler);
+    }
+
+    /**
+     * Registers the approval_expiry scheduled job, which drops posts nobody reviewed in time
+     */
+    public start(): void {
+        SchedulerService.getInstance().register('approval_expiry', async () => {
+            await this.expireStale();
+        });
+    }
+
+    /**
+     * Checks whether posts of a content type are held for review
+     * @param contentType The content type
+     */
+    public isRequired(contentType: ApprovalContentType): boolean {
+        return config.approval.required[contentType];
+    }
+
+    /**
+     * Holds a generated post for review. A post whose job key is already waiting is not held twice.
+     * @param submission The post, how it was generated and the job to queue on approval
+     * @returns The new or existing record
+     */
+    public async submit(submission: ApprovalSubmission): Promise<ApprovalRecord> {
+        const existing = await this.repositories.approvals.findPendingByKey(submission.job.idempotencyKey);
+        if (existing) {
+            console.log(`${submission.job.idempotencyKey} is already waiting for review (${existing.id})`);
+            return existing;
+        }
+
+        const approval = await this.repositories.approvals.insert({
+            content_type: submission.contentType,
+            status: 'pending',
+            persona: submission.persona,
+            texts: submission.texts,
+            generation: submission.generation,
+            job_type: submission.job.type,
+            idempotency_key: submission.job.idempotencyKey,
+            payload: submission.job.payload,
+            edited: false,
+            regenerations: 0,
+            moderation_issues: submission.moderationIssues || [],
+            expires_at: new Date(Date.now() + config.approval.expiryHours * 60 * 60 * 1000).toISOString()
+        });
+        const blocked = approval.moderation_issues!.length > 0 ? ' (blocked by moderation)' : '';
+        console.log(`Holding ${approval.content_type} post ${approval.id} for review${blocked} until ${approval.expires_at}`);
+        return approval;
+    }
+
+    /**
+     * Checks whether a post is waiting for review
+     * @param idempotencyKey The idempotency key of the post's job
+     */
+    public async hasPending(idempotencyKey: string): Promise<boolean> {
+        return !!(await this.repositories.approvals.findPendingByKey(idempotencyKey));
+    }
+
+    /**
+     * Lists posts held for review, newest first
+     * @param filter Only list posts with this status, content type and/or persona
+     * @param limit Maximum number of posts to return
+     */
+    public async list(filter: { status?: ApprovalStatus; content_type?: ApprovalContentType; persona?: string } = {}, limit: number = 50): Promise<ApprovalRecord[]> {
+        return this.repositories.approvals.list(filter, limit);
+    }
+
+    /**
+     * Gets a post held for review by ID
+     * @param id The record ID
+     */
+    public async getById(id: string): Promise<ApprovalRecord | null> {
+        return this.repositories.approvals.getById(id);
+    }
+
+    /**
+     * Counts the posts waiting for review
+     */
+    public async getDepths(): Promise<{ pending: number }> {
+        return { pending: await this.repositories.approvals.countByStatus('pending') };
+    }
+
+    /**
+     * Approves a post and queues it; the post job queue's worker posts it
+     * @param id The record ID
+     * @param reviewer Who is approving it
+     * @param note An optional note on the approval
+     * @returns The queued job
+     * @throws If the post is not waiting for review or has expired
+     */
+    public async approve(id: string, reviewer: string, note?: string): Promise<PostJobRecord> {
+        const approval = await this.getPendingOrThrow(id);
+        const reviewedAt = new Date().toISOString();
+        await this.updatePending(approval, { status: 'approved', reviewer, review_note: note || null, reviewed_at: reviewedAt });
+
+        let job: PostJobRecord;
+        try {
+            job = await this.queue(approval);
+        } catch (error) {
+            // Back to waiting, so the reviewer can try again
+            await this.repositories.approvals.updateIfStatus(id, 'approved', { status: 'pending', reviewer: null, review_note: null, reviewed_at: null });
+            throw error;
+        }
+
+        await this.repositories.approvals.updateIfStatus(id, 'approved', { post_job_id: job.id });
+        console.log(`${approval.content_type} post ${id} approved by ${reviewer}; queued as job ${job.id}`);
+        return job;
+    }
+
+    /**
+     * Replaces a post's text. Moderation checks it again; its issues are shown to the reviewer,
+     * who may still approve the post.
+     * @param id The record ID
+     * @param texts The new text, one per tweet; a thread keeps its number of tweets
+     * @param reviewer Who is editing it
+     * @returns The updated record
+     * @throws If the post is not waiting for review, or the text cannot be posted
+     */
+    public async edit(id: string, texts: string[], reviewer: string): Promise<ApprovalRecord> {
+        const approval = await this.getPendingOrThrow(id);
+        if (texts.length !== approval.texts.length) {
+            throw new Error(`Post ${id} has ${approval.texts.length} tweet(s); the edit has ${texts.length}`);
+        }
+        texts.forEach((text, index) => {
+            if (!text || !text.trim()) {
+                throw new Error(`Tweet ${index + 1} of post ${id} is empty`);
+            }
+            if (!fitsInTweet(text)) {
+                throw new Error(`Tweet ${index + 1} of post ${id} is too long to post`);
+            }
+        });
+
+        const changes = {
+            texts,
+            payload: this.getHandler(approval).applyTexts(approval, texts),
+            edited: true,
+            moderation_issues: await this.moderate(approval, texts),
+            reviewer
+        };
+        await this.updatePending(approval, changes);
+        console.log(`${approval.content_type} post ${id} edited by ${reviewer}`);
+        return { ...approval, ...changes };
+    }
+
+    /**
+     * Generates a post's text again, replacing any edits, and checks it with moderation again
+     * @param id The record ID
+     * @param reviewer Who asked for it
+     * @returns The updated record
+     * @throws If the post is not waiting for review, or generation failed
+     */
+    public async regenerate(id: string, reviewer: string): Promise<ApprovalRecord> {
+        const approval = await this.getPendingOrThrow(id);
+        const handler = this.getHandler(approval);
+        const result = handler.regenerate ? await handler.regenerate(approval) : await this.generateAgain(approval, handler);
+        if (!result.ok) {
+            throw new Error(`Could not regenerate post ${id}: ${result.reason}`);
+        }
+
+        const changes = {
+            texts: result.texts,
+            payload: result.payload,
+            generation: result.generation,
+            edited: false,
+            regenerations: approval.regenerations + 1,
+            moderation_issues: await this.moderate(approval, result.texts, result.generation),
+            reviewer
+        };
+        await this.updatePending(approval, changes);
+        console.log(`${approval.content_type} post ${id} regenerated for ${reviewer}`);
+        return { ...approval, ...changes };
+    }
+
+    /**
+     * Rejects a post; it is never posted
+     * @param id The record ID
+     * @param reviewer Who is rejecting it
+     * @param reason Why it was rejected
+     * @throws If the post is not waiting for review
+     */
+    public async reject(id: string, reviewer: string, reason?: string): Promise<void> {
+        const approval = await this.getPendingOrThrow(id);
+        const changes = { status: 'rejected' as ApprovalStatus, reviewer, review_note: reason || null, reviewed_at: new Date().toISOString() };
+        await this.updatePending(approval, changes);
+        console.log(`${approval.content_type} post ${id} rejected by ${reviewer}${reason ? `: ${reason}` : ''}`);
+        await this.drop({ ...approval, ...changes });
+    }
+
+    /**
+     * Drops the posts that waited for review past their expiry
+     * @param now The current time
+     * @returns The number of posts dropped
+     */
+    public async expireStale(now: Date = new Date()): Promise<number> {
+        const expired = await this.repositories.approvals.listExpired(now, 100);
+        let dropped = 0;
+        for (const approval of expired) {
+            // A reviewer may have got to it meanwhile
+            if (await this.repositories.approvals.updateIfStatus(approval.id!, 'pending', { status: 'expired' })) {
+                console.log(`${approval.content_type} post ${approval.id} expired without a review; dropping it`);
+                await this.drop({ ...approval, status: 'expired' });
+                dropped++;
+            }
+        }
+        return dropped;
+    }
+
+    /**
+     * Queues the post job of an approved post. A failed or cancelled job with the same key
+     * is put back in the queue with the approved payload.
+     * @param approval The approved post
+     */
+    private async queue(approval: ApprovalRecord): Promise<PostJobRecord> {
+        const queue = PostJobQueue.getInstance();
+        const previous = await this.repositories.postJobs.findByIdempotencyKey(approval.idempotency_key);
+        if (previous && (previous.status === 'failed' || previous.status === 'cancelled')) {
+            await queue.requeue(previous.id!, approval.payload);
+            return (await queue.getById(previous.id!))!;
+        }
+
+        return queue.enqueue({ type: approval.job_type, idempotencyKey: approval.idempotency_key, payload: approval.payload });
+    }
+
+    /**
+     * Sends a post's stored prompt to the provider chain again
+     * @param approval The post under review
+     * @param handler The content type's handler
+     */
+    private async generateAgain(approval: ApprovalRecord, handler: ApprovalHandler): Promise<RegeneratedPost> {
+        const { use_case, prompt } = approval.generation;
+        if (!use_case || !prompt) {
+            return { ok: false, reason: 'the post was not generated from a prompt' };
+        }
+
+        const result = await LLMService.getInstance().generate(use_case, prompt);
+        if (!result.ok) {
+            return { ok: false, reason: result.reason };
+        }
+
+        const texts = [truncateTweet(result.text)];
+        return {
+            ok: true,
+            texts,
+            payload: handler.applyTexts(approval, texts),
+            generation: { ...approval.generation, provider: result.provider, model: result.model }
+        };
+    }
+
+    /**
+     * Checks a post's new text with moderation
+     * @param approval The post under review
+     * @param texts The new text
+     * @param generation How the new text was generated, if it was
+     * @returns What moderation found
+     */
+    private async moderate(approval: ApprovalRecord, texts: string[], generation: GenerationInfo = approval.generation): Promise<ModerationIssue[]> {
+        const context: ModerationContext = {
+            contentType: approval.content_type,
+            persona: approval.persona,
+            subjectKey: approval.idempotency_key,
+            replyTo: approval.payload.engagement?.username, // Replies may mention the author they answer
+            prompt: generation.prompt
+        };
+        return (await ModerationService.getInstance().moderate(texts, context)).issues;
+    }
+
+    /**
+     * Lets the content type's handler know a post was dropped
+     * @param approval The rejected or expired post
+     */
+    private async drop(approval: ApprovalRecord): Promise<void> {
+        try {
+            await this.handlers.get(approval.content_type)?.onDropped?.(approval);
+        } catch (error) {
+            console.error(`Error dropping ${approval.content_type} post ${approval.id}:`, error);
+        }
+    }
+
+    /**
+     * Updates a post if it is still waiting for review
+     * @param approval The post as read
+     * @param changes The fields to update
+     * @throws If a reviewer or the expiry job changed it meanwhile
+     */
+    private async updatePending(approval: ApprovalRecord, changes: Partial<Omit<ApprovalRecord, 'id'>>): Promise<void> {
+        if (!await this.repositories.approvals.updateIfStatus(approval.id!, 'pending', changes)) {
+            throw new Error(`Post ${approval.id} was reviewed or expired meanwhile; reload it`);
+        }
+    }
+
+    private getHandler(approval: ApprovalRecord): ApprovalHandler {
+        const handler = this.handlers.get(approval.content_type);
+        if (!handler) {
+            throw new Error(`No handler registered for ${approval.content_type} posts`);
+        }
+        return handler;
+    }
+
+    /**
+     * Gets a post that is waiting for review, expiring it if its time is up
+     * @param id The record ID
+     */
+    private async getPendingOrThrow(id: string): Promise<ApprovalRecord> {
+        const approval = await this.repositories.approvals.getById(id);
+        if (!approval) {
+            throw new Error(`Post under review not found: ${id}`);
+        }
+        if (approval.status !== 'pending') {
+            throw new Error(`Post ${id} is ${approval.status}, not waiting for review`);
+        }
+        if (new Date(approval.expires_at) <= new Date()) {
+            await this.expireStale();
+            throw new Error(`Post ${id} expired at ${approval.expires_at}`);
+        }
+        return approval;
+    }
+}
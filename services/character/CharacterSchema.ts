@@ -0,0 +1,178 @@
+import { CharacterData } from '../supabase/SupabaseService';
+
+/**
+ * A character as stored in a character file: the parts of a character_files row
+ * that are not managed by the database
+ */
+export interface CharacterFile {
+    agent_name: string;
+    display_name: string;
+    content: CharacterData['content'];
+    version?: number;
+    is_active?: boolean;
+}
+
+/**
+ * A problem with one field of a character file
+ */
+export interface CharacterIssue {
+    field: string; // Path of the offending field, e.g. "content.topics[2]"
+    message: string;
+}
+
+/**
+ * Raised when a character file does not match the schema. Lists every offending field.
+ */
+export class CharacterValidationError extends Error {
+    public issues: CharacterIssue[];
+
+    constructor(issues: CharacterIssue[]) {
+        super(`Invalid character file:\n${issues.map(issue => `- ${issue.field}: ${issue.message}`).join('\n')}`);
+        this.name = 'CharacterValidationError';
+        this.issues = issues;
+    }
+}
+
+const AGENT_NAME = /^[a-z0-9_-]+$/;
+const STYLE_KEYS = ['all', 'chat', 'post'] as const;
+
+/**
+ * Checks a character file against the schema and returns it in canonical form.
+ * Text fields may be a single string or a list of strings and become lists; agent names are lowercased.
+ * Content fields outside the schema (mission, examples, ...) are kept as they are.
+ * @param input The parsed character file, or a character_files row
+ * @throws CharacterValidationError listing every offending field
+ */
+export function normalizeCharacterFile(input: unknown): CharacterFile {
+    const issues: CharacterIssue[] = [];
+
+    if (!isObject(input)) {
+        throw new CharacterValidationError([{ field: '(root)', message: 'must be an object' }]);
+    }
+
+    const agentName = readString(input.agent_name, 'agent_name', issues)?.toLowerCase();
+    if (agentName !== undefined && !AGENT_NAME.test(agentName)) {
+        issues.push({ field: 'agent_name', message: 'may only contain letters, digits, "-" and "_"' });
+    }
+    const displayName = readString(input.display_name, 'display_name', issues);
+
+    let version: number | undefined;
+    if (input.version !== undefined && input.version !== null) {
+        if (typeof input.version !== 'number' || !Number.isInteger(input.version) || input.version < 1) {
+            issues.push({ field: 'version', message: 'must be a positive whole number' });
+        } else {
+            version = input.version;
+        }
+    }
+
+    let isActive: boolean | undefined;
+    if (input.is_active !== undefined && input.is_active !== null) {
+        if (typeof input.is_active !== 'boolean') {
+            issues.push({ field: 'is_active', message: 'must be true or false' });
+        } else {
+            isActive = input.is_active;
+        }
+    }
+
+    let content: CharacterData['content'] | undefined;
+    if (!isObject(input.content)) {
+        issues.push({ field: 'content', message: 'must be an object' });
+    } else {
+        const style = input.content.style;
+        if (style !== undefined && !isObject(style)) {
+            issues.push({ field: 'content.style', message: 'must be an object with all, chat and post lists' });
+        }
+
+        content = {
+            ...input.content,
+            bio: readLines(input.content.bio, 'content.bio', issues, true),
+            lore: readLines(input.content.lore, 'content.lore', issues),
+            style: {
+                ...(isObject(style) ? style : {}),
+                ...Object.fromEntries(STYLE_KEYS.map(key =>
+                    [key, readLines(isObject(style) ? style[key] : undefined, `content.style.${key}`, issues)]))
+            } as CharacterData['content']['style'],
+            topics: readLines(input.content.topics, 'content.topics', issues),
+            adjectives: readLines(input.content.adjectives, 'content.adjectives', issues)
+        };
+    }
+
+    if (issues.length > 0) {
+        throw new CharacterValidationError(issues);
+    }
+
+    return {
+        agent_name: agentName!,
+        display_name: displayName!,
+        content: content!,
+        ...(version !== undefined ? { version } : {}),
+        ...(isActive !== undefined ? { is_active: isActive } : {})
+    };
+}
+
+/**
+ * Checks a character file against the schema
+ * @param input The parsed character file
+ * @returns The problems found, or an empty list if the file is valid
+ */
+export function validateCharacterFile(input: unknown): CharacterIssue[] {
+    try {
+        normalizeCharacterFile(input);
+        return [];
+    } catch (error) {
+        if (error instanceof CharacterValidationError) {
+            return error.issues;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Reads a required non-empty string
+ */
+function readString(value: unknown, field: string, issues: CharacterIssue[]): string | undefined {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+        issues.push({ field, message: value === undefined ? 'is required' : 'must be a non-empty string' });
+        return undefined;
+    }
+    return value.trim();
+}
+
+/**
+ * Reads a text field that may be a single string or a list of strings
+ * @param required Whether the field must have at least one entry
+ */
+function readLines(value: unknown, field: string, issues: CharacterIssue[], required: boolean = false): string[] {
+    if (value === undefined || value === null) {
+        if (required) {
+            issues.push({ field, message: 'is required' });
+        }
+        return [];
+    }
+
+    if (typeof value === 'string') {
+        return value.trim().length > 0 ? [value.trim()] : [];
+    }
+
+    if (!Array.isArray(value)) {
+        issues.push({ field, message: 'must be a string or a list of strings' });
+        return [];
+    }
+
+    const lines: string[] = [];
+    value.forEach((entry, i) => {
+        if (typeof entry !== 'string' || entry.trim().length === 0) {
+            issues.push({ field: `${field}[${i}]`, message: 'must be a non-empty string' });
+        } else {
+            lines.push(entry.trim());
+        }
+    });
+    if (required && value.length === 0) {
+        issues.push({ field, message: 'must have at least one entry' });
+    }
+    return lines;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,251 @@
+import { config } from '../../config';
+import { CharacterData } from '../supabase/SupabaseService';
+import { getRepositories, Repositories } from '../repositories';
+import { CharacterFile, normalizeCharacterFile } from './CharacterSchema';
+
+/**
+ * One difference between two versions of a character
+ */
+export interface CharacterFieldDiff {
+    field: string; // Dotted path, e.g. "content.style.post"
+    added?: string[]; // For lists of strings: entries only in the newer version
+    removed?: string[]; // For lists of strings: entries only in the older version
+    before?: unknown; // For any other value: the whole value in each version
+    after?: unknown;
+}
+
+interface LoadedCharacter {
+    character: CharacterData;
+    loadedAt: number;
+}
+
+/**
+ * Loads characters from character_files by version and keeps them fresh.
+ * The active version is used unless config.character.pinnedVersion is set, and a loaded
+ * character is reloaded once it is older than config.character.reloadSeconds.
+ */
+export class CharacterService {
+    private static instance: CharacterService;
+    private loaded = new Map<string, LoadedCharacter>();
+
+    private constructor() {}
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Get the singleton instance of CharacterService
+     */
+    public static getInstance(): CharacterService {
+        if (!CharacterService.instance) {
+            CharacterService.instance = new CharacterService();
+        }
+        return CharacterService.instance;
+    }
+
+    /**
+     * Gets a character, loading it again if the loaded copy is due for a reload.
+     * If a reload fails the loaded copy is kept.
+     * @param agentName The name of the agent
+     * @throws If the character cannot be loaded and there is no loaded copy
+     */
+    public async getCharacter(agentName: string = 'marvin'): Promise<CharacterData> {
+        const loaded = this.loaded.get(agentName.toLowerCase());
+        if (loaded && Date.now() - loaded.loadedAt < config.character.reloadSeconds * 1000) {
+            return loaded.character;
+        }
+
+        try {
+            return await this.reload(agentName);
+        } catch (error) {
+            if (!loaded) {
+                throw error;
+            }
+            console.error(`Error reloading character ${agentName}; keeping version ${loaded.character.version}:`, error);
+            return loaded.character;
+        }
+    }
+
+    /**
+     * Loads a character now, whether or not the loaded copy is due for a reload
+     * @param agentName The name of the agent
+     * @throws If the character is not found
+     */
+    public async reload(agentName: string = 'marvin'): Promise<CharacterData> {
+        const { pinnedVersion } = config.character;
+        const row = pinnedVersion !== null
+            ? await this.repositories.characterFiles.findVersion(agentName, pinnedVersion)
+            : await this.repositories.characterFiles.findActive(agentName);
+        if (!row) {
+            throw new Error(pinnedVersion !== null
+                ? `No version ${pinnedVersion} of character found for agent: ${agentName}`
+                : `No active character found for agent: ${agentName}`);
+        }
+
+        // Rows inserted before validation existed may hold strings where lists belong
+        const character: CharacterData = { ...row, ...normalizeCharacterFile(row) };
+
+        const previous = this.loaded.get(agentName.toLowerCase());
+        if (!previous || previous.character.version !== character.version || previous.character.updated_at !== character.updated_at) {
+            console.log(`Loaded character ${agentName} version ${character.version}${pinnedVersion !== null ? ' (pinned)' : ''}`);
+        }
+
+        this.loaded.set(agentName.toLowerCase(), { character, loadedAt: Date.now() });
+        return character;
+    }
+
+    /**
+     * Stores a character file as the next version of its character
+     * @param file The parsed character file; its version number, if any, is not used
+     * @param activate Whether the new version becomes the active one
+     * @returns The stored version
+     * @throws CharacterValidationError if the file does not match the schema
+     */
+    public async importCharacter(file: unknown, activate: boolean = true): Promise<CharacterData> {
+        const character = normalizeCharacterFile(file);
+        const versions = await this.repositories.characterFiles.listVersions(character.agent_name);
+        const version = versions.reduce((highest, existing) => Math.max(highest, existing.version || 1), 0) + 1;
+
+        const now = new Date().toISOString();
+        const stored = await this.repositories.characterFiles.insert({
+            agent_name: character.agent_name,
+            display_name: character.display_name,
+            content: character.content,
+            version,
+            is_active: false,
+            created_at: now,
+            updated_at: now
+        } as CharacterData);
+        console.log(`Imported character ${character.agent_name} as version ${version}`);
+
+        if (!activate) {
+            return stored;
+        }
+        const activated = await this.repositories.characterFiles.activateVersion(character.agent_name, version);
+        if (this.loaded.has(character.agent_name)) {
+            await this.reload(character.agent_name);
+        }
+        return activated || stored;
+    }
+
+    /**
+     * Exports a version of a character as a character file
+     * @param agentName The name of the agent
+     * @param version The version to export; the active version if not given
+     * @throws If the character or version does not exist
+     */
+    public async exportCharacter(agentName: string, version?: number): Promise<CharacterFile> {
+        const row = version !== undefined
+            ? await this.repositories.characterFiles.findVersion(agentName, version)
+            : await this.repositories.characterFiles.findActive(agentName);
+        if (!row) {
+            throw new Error(version !== undefined
+                ? `Version ${version} of character ${agentName} not found`
+                : `No active character found for agent: ${agentName}`);
+        }
+        return normalizeCharacterFile(row);
+    }
+
+    /**
+     * Lists every version of a character, newest first
+     * @param agentName The name of the agent
+     */
+    public async listVersions(agentName: string = 'marvin'): Promise<CharacterData[]> {
+        return this.repositories.characterFiles.listVersions(agentName);
+    }
+
+    /**
+     * Gets one version of a character
+     * @param agentName The name of the agent
+     * @param version The version number
+     * @returns The version, or null if it does not exist
+     */
+    public async getVersion(agentName: string, version: number): Promise<CharacterData | null> {
+        return this.repositories.characterFiles.findVersion(agentName, version);
+    }
+
+    /**
+     * Compares the display name and content of two versions of a character
+     * @param agentName The name of the agent
+     * @param fromVersion The older version
+     * @param toVersion The newer version
+     * @throws If either version does not exist
+     */
+    public async diff(agentName: string, fromVersion: number, toVersion: number): Promise<CharacterFieldDiff[]> {
+        const [from, to] = await Promise.all([
+            this.getVersion(agentName, fromVersion),
+            this.getVersion(agentName, toVersion)
+        ]);
+        if (!from || !to) {
+            throw new Error(`Version ${!from ? fromVersion : toVersion} of character ${agentName} not found`);
+        }
+
+        const diffs: CharacterFieldDiff[] = [];
+        diffValues('display_name', from.display_name, to.display_name, diffs);
+        diffValues('content', from.content, to.content, diffs);
+        return diffs;
+    }
+
+    /**
+     * Makes an earlier version of a character the active one and reloads it
+     * @param agentName The name of the agent
+     * @param version The version to go back to
+     * @returns The activated version
+     * @throws If the version does not exist
+     */
+    public async rollback(agentName: string, version: number): Promise<CharacterData> {
+        const activated = await this.repositories.characterFiles.activateVersion(agentName, version);
+        if (!activated) {
+            throw new Error(`Version ${version} of character ${agentName} not found`);
+        }
+
+        console.log(`Rolled character ${agentName} back to version ${version}`);
+        if (config.character.pinnedVersion !== null) {
+            console.log(`CHARACTER_VERSION pins version ${config.character.pinnedVersion}; the rollback applies once the pin is removed`);
+        }
+
+        await this.reload(agentName);
+        return activated;
+    }
+}
+
+/**
+ * Adds the differences between two values to a list, descending into objects
+ * and comparing lists of strings entry by entry
+ * @param field The dotted path of the values
+ * @param before The value in the older version
+ * @param after The value in the newer version
+ * @param diffs The list to add to
+ */
+function diffValues(field: string, before: unknown, after: unknown, diffs: CharacterFieldDiff[]): void {
+    if (isObject(before) && isObject(after)) {
+        const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+        for (const key of keys) {
+            diffValues(`${field}.${key}`, before[key], after[key], diffs);
+        }
+        return;
+    }
+
+    if (isStringList(before) && isStringList(after)) {
+        const added = after.filter(entry => !before.includes(entry));
+        const removed = before.filter(entry => !after.includes(entry));
+        if (added.length > 0 || removed.length > 0) {
+            diffs.push({ field, added, removed });
+        }
+        return;
+    }
+
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+        diffs.push({ field, before, after });
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+}
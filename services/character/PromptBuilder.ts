@@ -0,0 +1,124 @@
+import { CharacterData } from '../supabase/SupabaseService';
+import { LLMUseCase } from '../llm/LLMProvider';
+
+/**
+ * What a use case takes from the character, and what it adds
+ */
+interface UseCasePrompt {
+    style: 'post' | 'chat'; // Which style guide applies on top of style.all
+    lore: boolean; // Whether the character's backstory is included
+    task: string;
+}
+
+const USE_CASE_PROMPTS: Record<LLMUseCase, UseCasePrompt> = {
+    daily_tweet: {
+        style: 'post',
+        lore: false,
+        task: 'You are writing a tweet for your own timeline. Keep it under 280 characters.'
+    },
+    image_caption: {
+        style: 'post',
+        lore: false,
+        task: 'You are writing the caption for a tweet that shares one of your artworks. Keep it under 200 characters so there is room for hashtags.'
+    },
+    mention_reply: {
+        style: 'chat',
+        lore: true,
+        task: 'You are replying to someone who mentioned you on Twitter. Keep your reply under 200 characters and don\'t use hashtags.'
+    },
+    engagement_quip: {
+        style: 'chat',
+        lore: true,
+        task: 'You are reacting to someone who engaged with your tweets. Keep it short and don\'t use hashtags.'
+    },
+    wrapup: {
+        style: 'post',
+        lore: false,
+        task: 'You are writing a short tweet that looks back on your day on Twitter. Keep it under 280 characters.'
+    },
+    thread_hook: {
+        style: 'post',
+        lore: false,
+        task: 'You are writing the first tweet of a thread that shares one of your blog posts. Make people want to read on, keep it under 240 characters and don\'t use hashtags.'
+    },
+    moderation: {
+        style: 'post',
+        lore: false,
+        task: 'You are checking a tweet before it is posted from your account. Reply SAFE if it can be posted. '
+            + 'Reply UNSAFE: and a short reason if it is hateful, harassing, sexual, violent, encourages self-harm, shares private information, '
+            + 'gives medical, legal or financial advice, promotes a product or scam, or is out of character for you.'
+    },
+    alt_text: {
+        style: 'post',
+        lore: false,
+        task: 'You are writing the alt text of one of your artworks for people using screen readers. Describe what the image shows plainly, '
+            + 'in one or two sentences under 400 characters, without hashtags, emojis or phrases like "image of".'
+    }
+};
+
+/**
+ * Composes system prompts from a character, so every provider and use case
+ * speaks as the same persona and edits to character_files apply everywhere
+ */
+export class PromptBuilder {
+    private static instance: PromptBuilder;
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of PromptBuilder
+     */
+    public static getInstance(): PromptBuilder {
+        if (!PromptBuilder.instance) {
+            PromptBuilder.instance = new PromptBuilder();
+        }
+        return PromptBuilder.instance;
+    }
+
+    /**
+     * Builds the system prompt for a use case from a character
+     * @param character The character to speak as
+     * @param useCase The use case, which selects the style guide and task
+     */
+    public buildSystemPrompt(character: CharacterData, useCase: LLMUseCase): string {
+        const { content } = character;
+        const useCasePrompt = USE_CASE_PROMPTS[useCase];
+        const sections: string[] = [];
+
+        sections.push(`You are ${character.display_name}. ${lines(content.bio).join(' ')}`.trim());
+
+        if (useCasePrompt.lore && lines(content.lore).length > 0) {
+            sections.push(`Your background: ${lines(content.lore).join(' ')}`);
+        }
+
+        const traits: string[] = [];
+        if (lines(content.adjectives).length > 0) {
+            traits.push(`Your key traits are: ${lines(content.adjectives).join(', ')}`);
+        }
+        if (lines(content.topics).length > 0) {
+            traits.push(`Your topics of interest are: ${lines(content.topics).join(', ')}`);
+        }
+        if (traits.length > 0) {
+            sections.push(traits.join('\n'));
+        }
+
+        const style = [...lines(content.style?.all), ...lines(content.style?.[useCasePrompt.style])];
+        if (style.length > 0) {
+            sections.push(`Your writing style:\n${style.map(rule => `- ${rule}`).join('\n')}`);
+        }
+
+        sections.push(useCasePrompt.task);
+        return sections.join('\n\n');
+    }
+}
+
+/**
+ * Reads a character field as a list. Hand-edited character files sometimes hold a single string instead of an array.
+ * @param value The field value
+ */
+function lines(value: string[] | string | undefined): string[] {
+    if (!value) {
+        return [];
+    }
+    return (Array.isArray(value) ? value : [value]).map(line => line.trim()).filter(line => line.length > 0);
+}
@@ -0,0 +1,170 @@
+/**
+ * An image in a blog post
+ */
+export interface BlogImage {
+    url: string;
+    alt: string;
+}
+
+/**
+ * A block of a blog post, as plain text ready for a tweet
+ */
+export interface BlogBlock {
+    kind: 'heading' | 'paragraph' | 'list' | 'code';
+    text: string;
+    items?: string[]; // List items, each with its bullet or number
+    images: BlogImage[]; // Images in the block, or standing alone right after it
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|(\d+)[.)])\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const LINK_PATTERN = /\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const AUTOLINK_PATTERN = /<(https?:\/\/[^>\s]+)>/g;
+const BARE_URL_PATTERN = /https?:\/\/[^\s<>"]+/g;
+
+/**
+ * Parses a blog post's markdown into plain-text blocks.
+ * Headings, lists and code blocks are kept as their own blocks, links become
+ * "text (url)" so the URL survives, and images are collected instead of printed.
+ * @param markdown The blog post markdown
+ * @returns The blocks, in order
+ */
+export function parseBlogMarkdown(markdown: string): BlogBlock[] {
+    const blocks: BlogBlock[] = [];
+    let leadingImages: BlogImage[] = []; // Images before the first block with text
+    let open: { kind: 'paragraph' | 'list'; lines: string[] } | null = null;
+    let fence: string[] | null = null;
+
+    const addBlock = (kind: BlogBlock['kind'], lines: string[]) => {
+        const images: BlogImage[] = [];
+        let block: BlogBlock;
+        if (kind === 'code') {
+            block = { kind, text: lines.join('\n').replace(/\s+$/, ''), images };
+        } else if (kind === 'list') {
+            const items = lines.map(line => renderInline(line, images)).filter(item => item.length > 0);
+            block = { kind, text: items.join('\n'), items, images };
+        } else {
+            block = { kind, text: renderInline(lines.join(' '), images), images };
+        }
+
+        if (!block.text) {
+            // An image on its own illustrates the block before it
+            const previous = blocks[blocks.length - 1];
+            (previous ? previous.images : leadingImages).push(...images);
+            return;
+        }
+        if (blocks.length === 0) {
+            block.images.unshift(...leadingImages);
+            leadingImages = [];
+        }
+        blocks.push(block);
+    };
+    const close = () => {
+        if (open) {
+            addBlock(open.kind, open.lines);
+            open = null;
+        }
+    };
+
+    for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+        if (fence) {
+            if (FENCE_PATTERN.test(line)) {
+                addBlock('code', fence);
+                fence = null;
+            } else {
+                fence.push(line);
+            }
+            continue;
+        }
+
+        const listItem = line.match(LIST_ITEM_PATTERN);
+        const quote = line.match(QUOTE_PATTERN);
+        if (FENCE_PATTERN.test(line)) {
+            close();
+            fence = [];
+        } else if (!line.trim() || RULE_PATTERN.test(line)) {
+            close();
+        } else if (HEADING_PATTERN.test(line)) {
+            close();
+            addBlock('heading', [line.match(HEADING_PATTERN)![1]]);
+        } else if (listItem) {
+            if (open?.kind !== 'list') {
+                close();
+                open = { kind: 'list', lines: [] };
+            }
+            open.lines.push(`${listItem[1] ? `${listItem[1]}.` : '•'} ${listItem[2]}`);
+        } else if (open?.kind === 'list') {
+            // A continuation line of the last item
+            open.lines[open.lines.length - 1] += ` ${line.trim()}`;
+        } else {
+            if (!open) {
+                open = { kind: 'paragraph', lines: [] };
+            }
+            open.lines.push((quote ? quote[1] : line).trim());
+        }
+    }
+    if (fence) {
+        addBlock('code', fence);
+    }
+    close();
+
+    if (leadingImages.length > 0) {
+        blocks.push({ kind: 'paragraph', text: '', images: leadingImages });
+    }
+    return blocks;
+}
+
+/**
+ * Converts markdown to plain text: blocks separated by blank lines, links kept as
+ * "text (url)", code kept, images left out
+ * @param markdown The markdown content
+ */
+export function markdownToPlainText(markdown: string): string {
+    return parseBlogMarkdown(markdown)
+        .map(block => block.text)
+        .filter(text => text.length > 0)
+        .join('\n\n');
+}
+
+/**
+ * Renders a line of inline markdown as plain text
+ * @param text The markdown
+ * @param images Collects the images found in the line
+ */
+function renderInline(text: string, images: BlogImage[]): string {
+    // Keep URLs out of reach of the emphasis patterns until the end
+    const urls: string[] = [];
+    const protect = (value: string) => `\u0000${urls.push(value) - 1}\u0000`;
+
+    return text
+        .replace(IMAGE_PATTERN, (_match, alt: string, url: string) => {
+            images.push({ url, alt: alt.trim() });
+            return '';
+        })
+        .replace(AUTOLINK_PATTERN, (_match, url: string) => protect(url))
+        .replace(LINK_PATTERN, (_match, label: string, url: string) => {
+            const plainLabel = stripEmphasis(label).trim();
+            return plainLabel && plainLabel !== url ? `${plainLabel} (${protect(url)})` : protect(url);
+        })
+        .replace(BARE_URL_PATTERN, url => protect(url))
+        .replace(/`([^`]+)`/g, '$1')
+        .replace(/[^\u0000]+|\u0000\d+\u0000/g, part => part.startsWith('\u0000') ? part : stripEmphasis(part))
+        .replace(/\u0000(\d+)\u0000/g, (_match, index: string) => urls[parseInt(index, 10)])
+        .replace(/\s{2,}/g, ' ')
+        .trim();
+}
+
+/**
+ * Removes bold and italic markers
+ * @param text The markdown
+ */
+function stripEmphasis(text: string): string {
+    return text
+        .replace(/(\*\*|__)(?!\s)(.+?)\1/g, '$2')
+        .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, '$1$2')
+        .replace(/(^|[^\w_])_(?!\s)(.+?)_(?!\w)/g, '$1$2');
+}
@@ -0,0 +1,173 @@
+import { PostJobQueue } from '../queue/PostJobQueue';
+import { BlogPostRecord, BlogPostStatus, BlogPostTransitionRecord, getRepositories, Repositories } from '../repositories';
+
+// The statuses each status may move to; posted is final
+export const BLOG_POST_TRANSITIONS: Record<BlogPostStatus, BlogPostStatus[]> = {
+    draft: ['ready_to_tweet', 'cancelled'],
+    ready_to_tweet: ['draft', 'scheduled', 'posting', 'cancelled'],
+    scheduled: ['draft', 'ready_to_tweet', 'scheduled', 'posting', 'cancelled'],
+    posting: ['posted', 'failed', 'cancelled'],
+    posted: [],
+    failed: ['draft', 'ready_to_tweet', 'scheduled', 'cancelled'],
+    cancelled: ['draft', 'ready_to_tweet']
+};
+
+/**
+ * Options for a status change
+ */
+export interface BlogPostTransitionOptions {
+    actor: string; // Who is making the change: "scheduler", or the admin
+    reason?: string;
+    changes?: Partial<Omit<BlogPostRecord, 'id' | 'status'>>; // Other fields to update along with the status
+}
+
+/**
+ * Moves blog posts through their lifecycle:
+ * draft → ready_to_tweet → scheduled → posting → posted / failed / cancelled.
+ * Ready posts go out at the persona's weekly slots, highest priority first; scheduled posts
+ * go out at their scheduled_at instead. Every status change is checked against
+ * BLOG_POST_TRANSITIONS and recorded in blog_post_transitions.
+ */
+export class BlogPostLifecycleService {
+    private static instance: BlogPostLifecycleService;
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of BlogPostLifecycleService
+     */
+    public static getInstance(): BlogPostLifecycleService {
+        if (!BlogPostLifecycleService.instance) {
+            BlogPostLifecycleService.instance = new BlogPostLifecycleService();
+        }
+        return BlogPostLifecycleService.instance;
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Checks whether a blog post may move from one status to another
+     * @param from The current status
+     * @param to The new status
+     */
+    public canTransition(from: BlogPostStatus, to: BlogPostStatus): boolean {
+        return (BLOG_POST_TRANSITIONS[from] || []).includes(to);
+    }
+
+    /**
+     * Changes a blog post's status and records the change
+     * @param id The blog post ID
+     * @param to The new status
+     * @param options Who is making the change and why, and other fields to update
+     * @returns The updated blog post
+     * @throws If the post does not exist, the change is not allowed, or the post's status changed meanwhile
+     */
+    public async transition(id: string, to: BlogPostStatus, options: BlogPostTransitionOptions): Promise<BlogPostRecord> {
+        const post = await this.getOrThrow(id);
+        if (!this.canTransition(post.status, to)) {
+            throw new Error(`Blog post ${id} cannot move from ${post.status} to ${to}`);
+        }
+
+        const changes = { ...options.changes };
+        if (to === 'scheduled' && !(changes.scheduled_at ?? post.scheduled_at)) {
+            throw new Error(`Blog post ${id} needs a scheduled_at to be scheduled`);
+        }
+        if (to === 'draft' || to === 'ready_to_tweet') {
+            // Back to waiting for a weekly slot
+            changes.scheduled_at = null;
+        }
+        if (to === 'cancelled') {
+            await this.cancelJob(id);
+        }
+
+        // Conditional on the status read above, so two changes racing cannot both apply
+        if (!await this.repositories.blogPosts.updateIfStatus(id, post.status, { ...changes, status: to })) {
+            throw new Error(`Blog post ${id} changed status while moving it from ${post.status} to ${to}; try again`);
+        }
+        await this.repositories.blogPostTransitions.insert({
+            blog_post_id: id,
+            from_status: post.status,
+            to_status: to,
+            actor: options.actor,
+            reason: options.reason || null
+        });
+
+        console.log(`Blog post ${id}: ${post.status} → ${to} (${options.actor}${options.reason ? `: ${options.reason}` : ''})`);
+        return { ...post, ...changes, status: to };
+    }
+
+    /**
+     * Schedules a blog post for a time of its own, or moves an already scheduled post
+     * @param id The blog post ID
+     * @param scheduledAt When to post it
+     * @param actor Who is scheduling it
+     */
+    public async schedule(id: string, scheduledAt: Date, actor: string): Promise<BlogPostRecord> {
+        return this.transition(id, 'scheduled', {
+            actor,
+            reason: `Scheduled for ${scheduledAt.toISOString()}`,
+            changes: { scheduled_at: scheduledAt.toISOString() }
+        });
+    }
+
+    /**
+     * Sets the priority a blog post has at the weekly slots
+     * @param id The blog post ID
+     * @param priority Higher goes first
+     */
+    public async setPriority(id: string, priority: number): Promise<void> {
+        await this.getOrThrow(id);
+        await this.repositories.blogPosts.update(id, { priority });
+    }
+
+    /**
+     * Gets a blog post by ID
+     * @param id The blog post ID
+     */
+    public async getById(id: string): Promise<BlogPostRecord | null> {
+        return this.repositories.blogPosts.getById(id);
+    }
+
+    /**
+     * Lists blog posts, newest first
+     * @param filter Only list posts with this status and/or persona
+     * @param limit Maximum number of posts to return
+     */
+    public async list(filter: { status?: BlogPostStatus; persona?: string } = {}, limit: number = 50): Promise<BlogPostRecord[]> {
+        return this.repositories.blogPosts.list(filter, limit);
+    }
+
+    /**
+     * Lists a blog post's status changes, oldest first
+     * @param id The blog post ID
+     */
+    public async getHistory(id: string): Promise<BlogPostTransitionRecord[]> {
+        return this.repositories.blogPostTransitions.listByBlogPostId(id);
+    }
+
+    /**
+     * Cancels the blog post's queued job, so a cancelled post is not retried
+     * @param id The blog post ID
+     * @throws If the job is running
+     */
+    private async cancelJob(id: string): Promise<void> {
+        const job = await this.repositories.postJobs.findByIdempotencyKey(`blog_post:${id}`);
+        if (job?.status === 'running') {
+            throw new Error(`Blog post ${id} is being posted right now; cancel it once the attempt ends`);
+        }
+        if (job?.status === 'pending') {
+            await PostJobQueue.getInstance().cancel(job.id!);
+        }
+    }
+
+    private async getOrThrow(id: string): Promise<BlogPostRecord> {
+        const post = await this.repositories.blogPosts.getById(id);
+        if (!post) {
+            throw new Error(`Blog post not found: ${id}`);
+        }
+        return post;
+    }
+}
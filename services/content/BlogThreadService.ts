@@ -0,0 +1,218 @@
+import { TwitterService } from '../twitter/TwitterService';
+import { isRetryableError } from '../queue/retryWithBackoff';
+import { ThreadComposer, ThreadPlan } from './ThreadComposer';
+import { BlogPostRecord, getRepositories, PostJobStatus, Repositories, TweetDraftRecord } from '../repositories';
+
+/**
+ * Progress of a thread, kept in the metadata of its tweet draft
+ */
+export interface ThreadProgress {
+    thread_plan: ThreadPlan; // The plan being posted; a resumed thread keeps it even if the post changed
+    tweet_ids: string[]; // IDs of the parts posted so far, in order
+    deleted_tweet_ids?: string[]; // IDs of the parts deleted by a cleanup
+}
+
+/**
+ * The outcome of posting a thread
+ */
+export interface ThreadPostResult {
+    success: boolean;
+    tweetIds: string[]; // Every part posted so far, including those of earlier attempts
+    text: string;
+    message?: string;
+    retryable?: boolean;
+}
+
+/**
+ * A thread with parts still to post
+ */
+export interface PartialThread {
+    blogPostId: string;
+    draftId: string;
+    postedParts: number;
+    totalParts: number;
+    jobStatus: PostJobStatus | null; // Status of the blog post's job; null if there is none
+    orphaned: boolean; // No pending or running job will finish it
+}
+
+/**
+ * Posts blog post threads so that a failure part way through can be resumed.
+ * The thread plan and the IDs of the posted parts are saved in a "posting" tweet draft
+ * after every part; a retry continues from the first unposted part, replying to the last
+ * posted one. Threads nobody will finish can be cleaned up, deleting their posted parts.
+ */
+export class BlogThreadService {
+    private static instance: BlogThreadService;
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of BlogThreadService
+     */
+    public static getInstance(): BlogThreadService {
+        if (!BlogThreadService.instance) {
+            BlogThreadService.instance = new BlogThreadService();
+        }
+        return BlogThreadService.instance;
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Posts a blog post as a thread, or the rest of it if an earlier attempt stopped part way
+     * @param post The blog post
+     * @param approvedPlan The thread to post, as approved by a reviewer; composed if not given
+     */
+    public async postThread(post: BlogPostRecord, approvedPlan?: ThreadPlan): Promise<ThreadPostResult> {
+        const draft = await this.startOrResume(post, approvedPlan);
+        const progress = draft.metadata as ThreadProgress;
+        const plan = progress.thread_plan;
+        const text = plan.tweets.map(tweet => tweet.text).join('\n\n');
+        const tweetIds = [...progress.tweet_ids];
+        const twitterService = TwitterService.getInstance(post.persona);
+
+        if (tweetIds.length > 0) {
+            console.log(`Resuming the thread of blog post ${post.id} at part ${tweetIds.length + 1} of ${plan.tweets.length}`);
+        }
+
+        try {
+            for (let i = tweetIds.length; i < plan.tweets.length; i++) {
+                const tweet = plan.tweets[i];
+
+                // Upload the part's images
+                const mediaIds: string[] = [];
+                for (const image of tweet.images) {
+                    mediaIds.push(await twitterService.uploadMediaFromUrl(image.url));
+                }
+
+                // Each part replies to the one before it
+                const result = await twitterService.postTweet(
+                    { text: tweet.text, platform: 'Twitter' },
+                    mediaIds.length > 0 ? mediaIds : undefined,
+                    tweetIds[i - 1]
+                );
+                if (!result.success) {
+                    return {
+                        success: false,
+                        tweetIds,
+                        text,
+                        message: `Failed to post thread part ${i + 1}: ${result.message}`,
+                        retryable: isRetryableError(result.error)
+                    };
+                }
+
+                // Saved after every part, so a retry never posts a part twice
+                tweetIds.push(result.tweetId!);
+                await this.repositories.tweetDrafts.update(draft.id!, { metadata: { ...progress, tweet_ids: tweetIds } });
+            }
+        } catch (error: any) {
+            return {
+                success: false,
+                tweetIds,
+                text,
+                message: `Error posting thread: ${error.message}`,
+                retryable: isRetryableError(error)
+            };
+        }
+
+        return { success: true, tweetIds, text };
+    }
+
+    /**
+     * Lists threads with parts still to post
+     * @param limit Maximum number of threads to return
+     */
+    public async listPartialThreads(limit: number = 50): Promise<PartialThread[]> {
+        const drafts = await this.repositories.tweetDrafts.listByStatus('posting', limit);
+        return Promise.all(drafts.map(async draft => {
+            const progress = draft.metadata as ThreadProgress;
+            const jobStatus = await this.getJobStatus(draft.blog_post_id);
+            return {
+                blogPostId: draft.blog_post_id,
+                draftId: draft.id!,
+                postedParts: progress.tweet_ids.length,
+                totalParts: progress.thread_plan.tweets.length,
+                jobStatus,
+                orphaned: jobStatus !== 'pending' && jobStatus !== 'running'
+            };
+        }));
+    }
+
+    /**
+     * Deletes the posted parts of a blog post's unfinished thread, newest first, and marks
+     * its draft abandoned. Moving the blog post back to ready_to_tweet or scheduled posts a new thread.
+     * @param blogPostId The blog post ID
+     * @returns The number of tweets deleted
+     * @throws If the blog post has no unfinished thread, or its job may still finish it
+     */
+    public async cleanupPartialThread(blogPostId: string): Promise<number> {
+        const drafts = await this.repositories.tweetDrafts.listByBlogPostId(blogPostId);
+        const draft = drafts.find(d => d.status === 'posting');
+        if (!draft) {
+            throw new Error(`Blog post ${blogPostId} has no unfinished thread`);
+        }
+
+        const jobStatus = await this.getJobStatus(blogPostId);
+        if (jobStatus === 'pending' || jobStatus === 'running') {
+            throw new Error(`The thread of blog post ${blogPostId} may still be finished (its job is ${jobStatus}); cancel the job first`);
+        }
+
+        const post = await this.repositories.blogPosts.getById(blogPostId);
+        const twitterService = TwitterService.getInstance(post?.persona);
+        const progress = draft.metadata as ThreadProgress;
+        const remaining = [...progress.tweet_ids];
+        const deleted = [...(progress.deleted_tweet_ids || [])];
+
+        // Newest first, so an interrupted cleanup leaves the start of the thread intact
+        while (remaining.length > 0) {
+            const tweetId = remaining[remaining.length - 1];
+            await twitterService.deleteTweet(tweetId);
+            remaining.pop();
+            deleted.push(tweetId);
+            await this.repositories.tweetDrafts.update(draft.id!, {
+                metadata: { ...progress, tweet_ids: remaining, deleted_tweet_ids: deleted }
+            });
+        }
+
+        await this.repositories.tweetDrafts.update(draft.id!, { status: 'abandoned' });
+        console.log(`Cleaned up the unfinished thread of blog post ${blogPostId}: deleted ${progress.tweet_ids.length} tweets`);
+        return progress.tweet_ids.length;
+    }
+
+    /**
+     * Gets the blog post's unfinished thread draft, or saves a new one for the thread
+     * @param post The blog post
+     * @param approvedPlan The thread to post; composed if not given
+     */
+    private async startOrResume(post: BlogPostRecord, approvedPlan?: ThreadPlan): Promise<TweetDraftRecord> {
+        const drafts = await this.repositories.tweetDrafts.listByBlogPostId(post.id);
+        const unfinished = drafts.find(draft => draft.status === 'posting');
+        if (unfinished) {
+            return unfinished;
+        }
+
+        const composer = ThreadComposer.getInstance();
+        const plan = approvedPlan || await composer.compose(post);
+        composer.logPlan(plan);
+
+        const progress: ThreadProgress = { thread_plan: plan, tweet_ids: [] };
+        return this.repositories.tweetDrafts.insert({
+            blog_post_id: post.id,
+            text: plan.tweets.map(tweet => tweet.text).join('\n\n'),
+            status: 'posting',
+            metadata: progress
+        });
+    }
+
+    /**
+     * Gets the status of a blog post's job
+     * @param blogPostId The blog post ID
+     */
+    private async getJobStatus(blogPostId: string): Promise<PostJobStatus | null> {
+        const job = await this.repositories.postJobs.findByIdempotencyKey(`blog_post:${blogPostId}`);
+        return job ? job.status : null;
+    }
+}
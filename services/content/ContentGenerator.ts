@@ -1,57 +1,182 @@
-import { SupabaseService, CharacterData } from '../supabase/SupabaseService';
-import { OpenAIService } from '../openai/OpenAIService';
-import { PostContent } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+import { CharacterData } from '../supabase/SupabaseService';
+import { LLMService } from '../llm/LLMService';
+import { PromptBuilder } from '../character/PromptBuilder';
+import { CharacterService } from '../character/CharacterService';
+import { SuppressedPostService } from '../suppression/SuppressedPostService';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { TwitterService } from '../twitter/TwitterService';
+import { PostJobOutcome, PostJobQueue } from '../queue/PostJobQueue';
+import { isRetryableError } from '../queue/retryWithBackoff';
+import { ApprovalService } from '../approval/ApprovalService';
+import { ModerationService, ModerationVerdict } from '../moderation/ModerationService';
+import { ApprovalRecord, GenerationInfo, ModerationIssue, PostJobRecord } from '../repositories';
+import { PersonaConfig, PostContent } from '../../types';
+
+/**
+ * A generated tweet and how it was generated
+ */
+export interface GeneratedTweet {
+    content: PostContent;
+    generation: GenerationInfo;
+}
 
 export class ContentGenerator {
-    private static instance: ContentGenerator;
-    private characterData: CharacterData | null = null;
-    private openAIService: OpenAIService;
+    private static instances = new Map<string, ContentGenerator>();
+    private persona: PersonaConfig;
+    private llmService: LLMService;
+    private promptBuilder: PromptBuilder;
+    private characterService: CharacterService;
+    private suppressedPostService: SuppressedPostService;
 
-    private constructor() {
-        this.openAIService = OpenAIService.getInstance();
+    private constructor(persona: PersonaConfig) {
+        this.persona = persona;
+        this.llmService = LLMService.getInstance();
+        this.promptBuilder = PromptBuilder.getInstance();
+        this.characterService = CharacterService.getInstance();
+        this.suppressedPostService = SuppressedPostService.getInstance();
+        // Approved daily tweets of every persona share the queue; each job is published by its persona's generator
+        PostJobQueue.getInstance().registerHandler('daily_tweet', job => ContentGenerator.getInstance(job.payload.persona).publishDailyTweetJob(job));
+        ApprovalService.getInstance().registerHandler('daily_tweet', {
+            applyTexts: (approval, texts) => ({ ...approval.payload, content: { ...approval.payload.content, text: texts[0] } })
+        });
     }
 
-    public static getInstance(): ContentGenerator {
-        if (!ContentGenerator.instance) {
-            ContentGenerator.instance = new ContentGenerator();
+    /**
+     * Get the ContentGenerator of a persona
+     * @param persona The persona name; the default persona if not given
+     */
+    public static getInstance(persona?: string): ContentGenerator {
+        const personaConfig = PersonaRegistry.getInstance().get(persona);
+        let instance = ContentGenerator.instances.get(personaConfig.name);
+        if (!instance) {
+            instance = new ContentGenerator(personaConfig);
+            ContentGenerator.instances.set(personaConfig.name, instance);
         }
-        return ContentGenerator.instance;
+        return instance;
     }
 
     /**
-     * Initializes the content generator with character data
+     * Checks that the persona's character can be loaded
      */
     public async initialize(): Promise<void> {
-        const supabaseService = SupabaseService.getInstance();
-        this.characterData = await supabaseService.getCharacterData('marvin');
+        await this.characterService.getCharacter(this.persona.agentName);
     }
 
     /**
-     * Generates a tweet based on Marvin's character
+     * Generates a tweet based on the persona's character
      * @param category Optional category for the tweet
      * @returns Generated tweet content
      */
     public async generateTweet(category?: string): Promise<PostContent> {
-        if (!this.characterData) {
-            await this.initialize();
-        }
+        return (await this.draftTweet(category)).content;
+    }
 
-        const character = this.characterData!;
+    /**
+     * Generates a tweet based on the persona's character, with the prompt, model and character version used
+     * @param category Optional category for the tweet
+     * @returns Generated tweet content and how it was generated
+     */
+    public async draftTweet(category?: string): Promise<GeneratedTweet> {
+        // Fetched for every tweet so reloaded versions apply without a restart
+        const character = await this.characterService.getCharacter(this.persona.agentName);
+        
+        // Generate tweet text through the daily tweet provider chain
+        const prompt = {
+            system: this.promptBuilder.buildSystemPrompt(character, 'daily_tweet'),
+            messages: [{ role: 'user' as const, content: this.buildTweetPrompt(category || 'general') }],
+            params: {
+                maxTokens: 100,
+                temperature: 0.7,
+                topP: 1,
+                frequencyPenalty: 0.5,
+                presencePenalty: 0.5
+            }
+        };
+        const result = await this.llmService.generate('daily_tweet', prompt);
         
-        // Generate tweet text using OpenAI
-        const text = await this.openAIService.generateTweetContent(character, category || 'general');
+        // Nothing is posted without generated text; record the suppressed tweet for the log
+        if (!result.ok) {
+            await this.suppressedPostService.suppress('daily_tweet', result.reason, { category, persona: this.persona.name });
+            throw new Error(`Tweet generation failed: ${result.reason}`);
+        }
         
         // Generate relevant hashtags
         const hashtags = this.generateHashtags(character, category);
 
         return {
-            text,
-            hashtags,
-            platform: 'twitter',
-            category
+            content: {
+                text: result.text,
+                hashtags,
+                platform: 'twitter',
+                category
+            },
+            generation: {
+                use_case: 'daily_tweet',
+                prompt,
+                provider: result.provider,
+                model: result.model,
+                character_version: character.version ?? null
+            }
         };
     }
 
+    /**
+     * Checks a tweet with moderation before it is posted or held for review
+     * @param tweet The formatted tweet and how it was generated
+     */
+    public async moderate(tweet: GeneratedTweet): Promise<ModerationVerdict> {
+        return ModerationService.getInstance().moderate([tweet.content.text], {
+            contentType: 'daily_tweet',
+            persona: this.persona.name,
+            prompt: tweet.generation.prompt
+        });
+    }
+
+    /**
+     * Holds a tweet for review; once approved it is posted through the post job queue
+     * @param tweet The formatted tweet and how it was generated
+     * @param moderationIssues Why moderation blocked the tweet, if it did
+     */
+    public async submitForApproval(tweet: GeneratedTweet, moderationIssues: ModerationIssue[] = []): Promise<ApprovalRecord> {
+        return ApprovalService.getInstance().submit({
+            contentType: 'daily_tweet',
+            persona: this.persona.name,
+            texts: [tweet.content.text],
+            generation: tweet.generation,
+            moderationIssues,
+            job: {
+                type: 'daily_tweet',
+                idempotencyKey: PersonaRegistry.getInstance().scope(`daily_tweet:${uuidv4()}`, this.persona.name),
+                payload: { content: tweet.content, persona: this.persona.name }
+            }
+        });
+    }
+
+    /**
+     * Publishes the approved tweet behind a post job
+     * @param job The queued job
+     */
+    private async publishDailyTweetJob(job: PostJobRecord): Promise<PostJobOutcome> {
+        const result = await TwitterService.getInstance(this.persona.name).postTweet(job.payload.content as PostContent);
+        if (!result.success) {
+            return { success: false, retryable: isRetryableError(result.error), error: result.error, message: result.message };
+        }
+
+        console.log(`✅ ${result.message}`);
+        return { success: true, result: { tweet_id: result.tweetId } };
+    }
+
+    private buildTweetPrompt(category: string): string {
+        return `Generate a single tweet about ${category} that:
+1. Reflects your personality and style
+2. Is under 280 characters
+3. Includes relevant emojis
+4. Feels authentic to your character
+
+Tweet:`;
+    }
+
     private generateHashtags(character: CharacterData, category?: string): string[] {
         const hashtags = new Set<string>();
 
@@ -0,0 +1,167 @@
+import * as os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../config';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { SchedulerService } from '../scheduler/SchedulerService';
+import { TwitterService } from '../twitter/TwitterService';
+import { getRepositories, ImageRecord, Repositories } from '../repositories';
+
+/**
+ * The outcome of a reconciliation run, by image ID
+ */
+export interface ImageReconciliation {
+    marked: string[]; // Found posted to X and marked
+    released: string[]; // Not posted; the lease was released so the image can be posted again
+    kept: string[]; // X could not be checked; the lease is kept until the next run
+}
+
+/**
+ * Makes sure each image is posted once, however many workers run.
+ * A worker claims an image before posting it: an atomic lease (lease_owner, posting_started_at) on its
+ * row that no other worker can take. Once posted, the image is marked with its tweet_id and the lease is
+ * released. The image_reconciliation job marks images that were posted but never marked, and recovers
+ * leases held past IMAGE_LEASE_SECONDS: marked if the post went out, released if it did not.
+ */
+export class ImageClaimService {
+    private static instance: ImageClaimService;
+    public readonly workerId = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`; // Lease owner for this process
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of ImageClaimService
+     */
+    public static getInstance(): ImageClaimService {
+        if (!ImageClaimService.instance) {
+            ImageClaimService.instance = new ImageClaimService();
+        }
+        return ImageClaimService.instance;
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Registers the image_reconciliation scheduled job
+     */
+    public start(): void {
+        SchedulerService.getInstance().register('image_reconciliation', async () => {
+            await this.reconcile();
+        });
+    }
+
+    /**
+     * Claims an image for posting
+     * @param imageId The image ID
+     * @param owner The worker posting it; this process if not given
+     * @returns Whether the claim was taken; false if the image is posted or being posted by another worker
+     */
+    public async claim(imageId: string, owner: string = this.workerId): Promise<boolean> {
+        const claimed = await this.repositories.images.claim(imageId, owner, new Date());
+        if (claimed) {
+            console.log(`Image ${imageId} claimed for posting by ${owner}`);
+        }
+        return claimed;
+    }
+
+    /**
+     * Claims every image of a tweet, or none of them
+     * @param imageIds The image IDs
+     * @param owner The worker posting them; this process if not given
+     * @returns Whether every claim was taken; if not, the ones taken are released
+     */
+    public async claimAll(imageIds: string[], owner: string = this.workerId): Promise<boolean> {
+        const claimed: string[] = [];
+        for (const imageId of imageIds) {
+            if (!await this.claim(imageId, owner)) {
+                await Promise.all(claimed.map(id => this.release(id, owner)));
+                return false;
+            }
+            claimed.push(imageId);
+        }
+        return true;
+    }
+
+    /**
+     * Releases a claim when the image was not posted, so it can be posted again
+     * @param imageId The image ID
+     * @param owner The worker that claimed it; this process if not given
+     */
+    public async release(imageId: string, owner: string = this.workerId): Promise<void> {
+        await this.repositories.images.releaseClaim(imageId, owner);
+    }
+
+    /**
+     * Marks images posted to X that were never marked, and recovers leases held past IMAGE_LEASE_SECONDS
+     * @param now The current time
+     * @returns What was done with each image
+     */
+    public async reconcile(now: Date = new Date()): Promise<ImageReconciliation> {
+        const result: ImageReconciliation = { marked: [], released: [], kept: [] };
+
+        // 1. Jobs that posted their image but could not mark it
+        const jobs = await this.repositories.postJobs.list({ status: 'completed', type: 'image_tweet' }, 100);
+        for (const job of jobs) {
+            if (!job.result?.tweet_id) {
+                continue;
+            }
+            for (const imageId of job.result.image_ids || [job.payload.image_id]) {
+                const image = await this.repositories.images.getById(imageId);
+                if (image && !image.x_posted) {
+                    await this.repositories.images.markPosted(image.id, job.result.tweet_id);
+                    console.log(`Image ${image.id} was posted in tweet ${job.result.tweet_id} but not marked; marked it`);
+                    result.marked.push(image.id);
+                }
+            }
+        }
+
+        // 2. Leases whose worker stopped, or never finished, part way through
+        const staleBefore = new Date(now.getTime() - config.jobQueue.imageLeaseSeconds * 1000);
+        for (const image of await this.repositories.images.listClaimedBefore(staleBefore, 100)) {
+            try {
+                const tweetId = image.tweet_id || await this.findPostedTweet(image);
+                if (tweetId) {
+                    await this.repositories.images.markPosted(image.id, tweetId);
+                    console.log(`Image ${image.id} claimed by ${image.lease_owner} was posted in tweet ${tweetId}; marked it`);
+                    result.marked.push(image.id);
+                } else {
+                    await this.repositories.images.releaseClaim(image.id, image.lease_owner!);
+                    console.log(`Image ${image.id} claimed by ${image.lease_owner} since ${image.posting_started_at} was not posted; released it`);
+                    result.released.push(image.id);
+                }
+            } catch (error) {
+                // Releasing an image that may be on X could post it twice; try again on the next run
+                console.error(`Error reconciling image ${image.id}; keeping its lease:`, error);
+                result.kept.push(image.id);
+            }
+        }
+
+        if (result.marked.length > 0 || result.released.length > 0 || result.kept.length > 0) {
+            console.log(`Image reconciliation: ${result.marked.length} marked posted, ${result.released.length} released, ${result.kept.length} kept`);
+        }
+        return result;
+    }
+
+    /**
+     * Looks for the tweet an image was posted in: its job's result, or its caption on the persona's account
+     * @param image The image
+     * @returns The tweet ID, or null if the image was not posted
+     */
+    private async findPostedTweet(image: ImageRecord): Promise<string | null> {
+        const persona = PersonaRegistry.getInstance().get(image.persona).name;
+        // The job is keyed by the tweet's first image; the others are listed in its payload
+        const job = await this.repositories.postJobs.findByIdempotencyKey(PersonaRegistry.getInstance().scope(`image_tweet:${image.id}`, persona))
+            || (await this.repositories.postJobs.list({ type: 'image_tweet' }, 100)).find(job => (job.payload.image_ids || []).includes(image.id));
+        if (job?.result?.tweet_id) {
+            return job.result.tweet_id;
+        }
+        if (!job?.payload?.content?.text) {
+            return null;
+        }
+
+        const tweet = await TwitterService.getInstance(persona).findOwnRecentTweet(job.payload.content.text);
+        return tweet ? tweet.id : null;
+    }
+}
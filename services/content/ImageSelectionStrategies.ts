@@ -0,0 +1,108 @@
+import { ImageSelectionConfig } from '../../types';
+import { ImageRecord, PromptRecord } from '../repositories';
+
+/**
+ * An unposted image a strategy may pick, with its prompt
+ */
+export interface ImageCandidate {
+    image: ImageRecord;
+    prompt: PromptRecord;
+}
+
+/**
+ * The image a strategy picked and why
+ */
+export interface ImageChoice {
+    candidate: ImageCandidate;
+    reason: string;
+    weights?: Record<string, number>; // Weight of each candidate by image ID, for strategies that weigh them
+}
+
+/**
+ * A way of picking the next image to post from a persona's unposted images
+ */
+export interface ImageSelectionStrategy {
+    readonly name: string;
+    readonly oldestFirst: boolean; // Choose among the oldest unposted images instead of the newest
+
+    /**
+     * Picks an image
+     * @param candidates The images that may be posted, in listing order
+     * @param settings The job's image selection settings
+     * @param random Returns a number in [0, 1); Math.random outside tests
+     * @returns The pick, or null if none of the candidates may be picked
+     */
+    choose(candidates: ImageCandidate[], settings: ImageSelectionConfig, random: () => number): ImageChoice | null;
+}
+
+/**
+ * Weight of an image for weighted_tags: the product of its prompt's tag weights; unlisted tags weigh 1
+ * @param candidate The image and its prompt
+ * @param tagWeights The configured weights, by lowercased tag
+ */
+export function tagWeight(candidate: ImageCandidate, tagWeights: Record<string, number>): number {
+    return (candidate.prompt.tags || []).reduce((weight, tag) => weight * (tagWeights[tag.toLowerCase()] ?? 1), 1);
+}
+
+/**
+ * Any of the newest unposted images, at random
+ */
+export const randomRecentStrategy: ImageSelectionStrategy = {
+    name: 'random_recent',
+    oldestFirst: false,
+    choose: (candidates, settings, random) => candidates.length === 0 ? null : {
+        candidate: candidates[Math.floor(random() * candidates.length)],
+        reason: `random pick among the ${candidates.length} newest unposted images`
+    }
+};
+
+/**
+ * The backlog in order: the oldest unposted image
+ */
+export const fifoStrategy: ImageSelectionStrategy = {
+    name: 'fifo',
+    oldestFirst: true,
+    choose: candidates => candidates.length === 0 ? null : {
+        candidate: candidates[0],
+        reason: `oldest unposted image, created ${candidates[0].image.created_at}`
+    }
+};
+
+/**
+ * A random pick among the newest unposted images, weighted by their prompts' tags (IMAGE_SELECTION_TAG_WEIGHTS).
+ * Images with a tag weighing 0 are never picked.
+ */
+export const weightedTagsStrategy: ImageSelectionStrategy = {
+    name: 'weighted_tags',
+    oldestFirst: false,
+    choose: (candidates, settings, random) => {
+        const weights: Record<string, number> = {};
+        for (const candidate of candidates) {
+            weights[candidate.image.id] = tagWeight(candidate, settings.tagWeights);
+        }
+        const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+        if (total <= 0) {
+            return null;
+        }
+
+        let target = random() * total;
+        const candidate = candidates.find(candidate => (target -= weights[candidate.image.id]) < 0)
+            || candidates.filter(candidate => weights[candidate.image.id] > 0).pop()!;
+        const weight = weights[candidate.image.id];
+        const tags = (candidate.prompt.tags || []).join(', ') || 'no tags';
+        return {
+            candidate,
+            reason: `weighted pick by prompt tags (${tags}): weight ${weight} of ${total}, a ${Math.round(weight / total * 100)}% chance`,
+            weights
+        };
+    }
+};
+
+/**
+ * The strategies available to every image_tweet job
+ */
+export const DEFAULT_IMAGE_SELECTION_STRATEGIES: ImageSelectionStrategy[] = [
+    randomRecentStrategy,
+    fifoStrategy,
+    weightedTagsStrategy
+];
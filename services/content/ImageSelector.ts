@@ -0,0 +1,290 @@
+import { config } from '../../config';
+import { ApprovalService } from '../approval/ApprovalService';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { getRepositories, ImageRecord, PromptRecord, Repositories } from '../repositories';
+import { DEFAULT_IMAGE_SELECTION_STRATEGIES, ImageCandidate, ImageSelectionStrategy } from './ImageSelectionStrategies';
+
+/**
+ * An image considered for a post, and why it could not be picked
+ */
+export interface ImageCandidateReport {
+    image_id: string;
+    prompt_id: string;
+    created_at: string;
+    tags: string[];
+    style: string | null;
+    pinned_for: string | null;
+    weight?: number; // Set by strategies that weigh the candidates
+    excluded: string | null; // Why it could not be picked; null if it could
+}
+
+/**
+ * The image picked for a job's next post, and why
+ */
+export interface ImageSelection {
+    job: string;
+    persona: string;
+    strategy: string;
+    image: ImageRecord | null;
+    images: ImageRecord[]; // Every image of the tweet: the picked one, then unposted images from the same prompt
+    prompt: PromptRecord | null;
+    reason: string;
+    candidates: ImageCandidateReport[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Image tweets waiting for review looked at when leaving out their images
+const PENDING_REVIEWS = 500;
+
+/**
+ * Picks the image each image_tweet job posts next.
+ * An image pinned for today (in the job's time zone) is posted first. Otherwise the job's strategy
+ * (random_recent, fifo, weighted_tags or a registered one) chooses among its unposted images, leaving out
+ * images waiting for review and images whose prompt or style was posted within the avoid-repeat window.
+ * select() changes nothing, so it also serves the dry run in the web interface.
+ */
+export class ImageSelector {
+    private static instance: ImageSelector;
+    private strategies = new Map<string, ImageSelectionStrategy>(DEFAULT_IMAGE_SELECTION_STRATEGIES.map(strategy => [strategy.name, strategy]));
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of ImageSelector
+     */
+    public static getInstance(): ImageSelector {
+        if (!ImageSelector.instance) {
+            ImageSelector.instance = new ImageSelector();
+        }
+        return ImageSelector.instance;
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Adds a strategy, replacing any existing strategy with the same name
+     * @param strategy The strategy
+     */
+    public registerStrategy(strategy: ImageSelectionStrategy): void {
+        this.strategies.set(strategy.name, strategy);
+    }
+
+    /**
+     * Lists the names of the strategies
+     */
+    public getStrategyNames(): string[] {
+        return Array.from(this.strategies.keys());
+    }
+
+    /**
+     * Picks the image a job posts next, without changing anything
+     * @param persona The persona name
+     * @param options The job, when not the persona's image_tweet job; the current time and a random source for tests
+     * @returns The picked image and prompt, or none, with the reason and every candidate considered
+     */
+    public async select(persona: string, options: { job?: string; now?: Date; random?: () => number } = {}): Promise<ImageSelection> {
+        const job = options.job || PersonaRegistry.getInstance().scope('image_tweet', persona);
+        const now = options.now || new Date();
+        // Jobs without settings of their own, such as those of personas added at runtime, use the IMAGE_SELECTION_* defaults
+        const settings = config.imageSelection[job] || config.imageSelection.image_tweet;
+        const strategy = this.strategies.get(settings.strategy);
+        if (!strategy) {
+            throw new Error(`Unknown image selection strategy for ${job}: ${settings.strategy} (available: ${this.getStrategyNames().join(', ')})`);
+        }
+        const selection: ImageSelection = { job, persona, strategy: strategy.name, image: null, images: [], prompt: null, reason: '', candidates: [] };
+        const inReview = await this.listImagesInReview(persona);
+
+        // 1. An image pinned for today goes first
+        const today = this.dateIn(now, config.scheduler.jobs[job]?.timezone || config.scheduler.timezone);
+        const pinned = await this.loadCandidates(await this.repositories.images.listPinned(persona, today), inReview, selection);
+        if (pinned.length > 0) {
+            return this.picked(selection, pinned[0], `pinned for ${today}`, settings.maxImages, inReview);
+        }
+
+        // 2. Otherwise the strategy chooses among the unposted images
+        // Pinned images that could not be picked are already reported
+        const unposted = (await this.repositories.images.listUnposted(persona, settings.candidates, strategy.oldestFirst))
+            .filter(image => !selection.candidates.some(candidate => candidate.image_id === image.id));
+        let candidates = await this.loadCandidates(unposted, inReview, selection);
+        if (candidates.length === 0) {
+            selection.reason = unposted.length === 0 ? 'No unposted images' : 'Every unposted image is being posted, waiting for review or has no prompt';
+            return selection;
+        }
+
+        // 3. Leave out prompts and styles posted within the avoid-repeat window, unless that leaves nothing
+        let note = '';
+        if (settings.avoidRepeatDays > 0) {
+            const repeats = await this.findRepeats(persona, candidates, new Date(now.getTime() - settings.avoidRepeatDays * DAY_MS));
+            const fresh = candidates.filter(candidate => !repeats.has(candidate.image.id));
+            if (fresh.length > 0) {
+                for (const [imageId, reason] of repeats) {
+                    this.report(selection, imageId).excluded = reason;
+                }
+                candidates = fresh;
+            } else {
+                note = `; every candidate repeats a prompt or style from the last ${settings.avoidRepeatDays} days, so the window was ignored`;
+            }
+        }
+
+        const choice = strategy.choose(candidates, settings, options.random || Math.random);
+        for (const [imageId, weight] of Object.entries(choice?.weights || {})) {
+            this.report(selection, imageId).weight = weight;
+        }
+        if (!choice) {
+            selection.reason = `The ${strategy.name} strategy picked none of the ${candidates.length} candidates${note}`;
+            return selection;
+        }
+        return this.picked(selection, choice.candidate, `${choice.reason}${note}`, settings.maxImages, inReview);
+    }
+
+    /**
+     * Pins an image for a date, or removes its pin
+     * @param imageId The image ID
+     * @param date The date, YYYY-MM-DD, or null to unpin
+     * @returns The image, or null if there is no such image
+     */
+    public async pin(imageId: string, date: string | null): Promise<ImageRecord | null> {
+        const image = await this.repositories.images.getById(imageId);
+        if (!image) {
+            return null;
+        }
+        await this.repositories.images.setPin(imageId, date);
+        console.log(date ? `Image ${imageId} pinned for ${date}` : `Image ${imageId} unpinned`);
+        return { ...image, pinned_for: date };
+    }
+
+    /**
+     * Lists the images of image tweets waiting for review: each tweet's picked image and the others posted with it
+     * @param persona The persona name
+     * @returns The image IDs
+     */
+    private async listImagesInReview(persona: string): Promise<Set<string>> {
+        const pending = await ApprovalService.getInstance().list({ status: 'pending', content_type: 'image_caption', persona }, PENDING_REVIEWS);
+        const imageIds = new Set<string>();
+        for (const approval of pending.filter(held => held.job_type === 'image_tweet')) {
+            for (const imageId of approval.payload.image_ids || [approval.payload.image_id]) {
+                imageIds.add(imageId);
+            }
+        }
+        return imageIds;
+    }
+
+    /**
+     * Loads the prompts of images and reports each image; the ones being posted, waiting for review or without a prompt are left out
+     * @param images The images
+     * @param inReview The images of image tweets waiting for review
+     * @param selection The selection the images are reported in
+     * @returns The images that may be picked, in the same order
+     */
+    private async loadCandidates(images: ImageRecord[], inReview: Set<string>, selection: ImageSelection): Promise<ImageCandidate[]> {
+        const candidates: ImageCandidate[] = [];
+        for (const image of images) {
+            const prompt = await this.repositories.prompts.getById(image.prompt_id);
+            const report: ImageCandidateReport = {
+                image_id: image.id,
+                prompt_id: image.prompt_id,
+                created_at: image.created_at,
+                tags: prompt?.tags || [],
+                style: prompt?.style || null,
+                pinned_for: image.pinned_for || null,
+                excluded: null
+            };
+            selection.candidates.push(report);
+
+            // Images waiting for a reviewer already have a caption
+            if (image.lease_owner) {
+                report.excluded = `being posted by ${image.lease_owner}`;
+            } else if (inReview.has(image.id)) {
+                report.excluded = 'waiting for review';
+            } else if (!prompt) {
+                report.excluded = `prompt not found: ${image.prompt_id}`;
+            } else {
+                candidates.push({ image, prompt });
+            }
+        }
+        return candidates;
+    }
+
+    /**
+     * Finds candidates whose prompt or style was posted since a time
+     * @param persona The persona name
+     * @param candidates The candidates
+     * @param since Start of the avoid-repeat window
+     * @returns Why each repeating candidate is left out, by image ID
+     */
+    private async findRepeats(persona: string, candidates: ImageCandidate[], since: Date): Promise<Map<string, string>> {
+        const postedPrompts = new Map<string, string>();
+        const postedStyles = new Map<string, string>();
+        // Oldest first, so each prompt and style ends up with its most recent posting
+        for (const posted of (await this.repositories.images.listPostedSince(persona, since)).reverse()) {
+            postedPrompts.set(posted.prompt_id, posted.x_posted_at!);
+            const style = (await this.repositories.prompts.getById(posted.prompt_id))?.style;
+            if (style) {
+                postedStyles.set(style.toLowerCase(), posted.x_posted_at!);
+            }
+        }
+
+        const repeats = new Map<string, string>();
+        for (const { image, prompt } of candidates) {
+            if (postedPrompts.has(prompt.id)) {
+                repeats.set(image.id, `prompt posted ${postedPrompts.get(prompt.id)}`);
+            } else if (prompt.style && postedStyles.has(prompt.style.toLowerCase())) {
+                repeats.set(image.id, `style "${prompt.style}" posted ${postedStyles.get(prompt.style.toLowerCase())}`);
+            }
+        }
+        return repeats;
+    }
+
+    /**
+     * Records the picked image on a selection, with the related images that go in the same tweet
+     * @param selection The selection
+     * @param candidate The picked image and its prompt
+     * @param reason Why it was picked
+     * @param maxImages Images per tweet
+     * @param inReview The images of image tweets waiting for review
+     */
+    private async picked(selection: ImageSelection, candidate: ImageCandidate, reason: string, maxImages: number, inReview: Set<string>): Promise<ImageSelection> {
+        selection.image = candidate.image;
+        selection.prompt = candidate.prompt;
+        selection.reason = reason;
+        selection.images = [candidate.image];
+
+        if (maxImages > 1) {
+            const siblings = await this.repositories.images.listUnpostedByPrompt(selection.persona, candidate.prompt.id, maxImages + 1);
+            for (const sibling of siblings) {
+                if (selection.images.length >= maxImages) {
+                    break;
+                }
+                // Images being posted, or waiting for review in another tweet, are left for that tweet
+                if (sibling.id === candidate.image.id || sibling.lease_owner || inReview.has(sibling.id)) {
+                    continue;
+                }
+                selection.images.push(sibling);
+            }
+        }
+        if (selection.images.length > 1) {
+            selection.reason += `, with ${selection.images.length - 1} more image(s) from the same prompt`;
+        }
+        return selection;
+    }
+
+    /**
+     * The report of a candidate on a selection
+     */
+    private report(selection: ImageSelection, imageId: string): ImageCandidateReport {
+        return selection.candidates.find(candidate => candidate.image_id === imageId)!;
+    }
+
+    /**
+     * Formats the calendar date of a time in a time zone
+     * @param time The time
+     * @param timezone IANA time zone
+     * @returns The date, YYYY-MM-DD
+     */
+    private dateIn(time: Date, timezone: string): string {
+        return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(time);
+    }
+}
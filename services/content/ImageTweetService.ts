@@ -1,100 +1,159 @@
-import { SupabaseService } from '../supabase/SupabaseService';
-import { AnthropicService } from '../anthropic/AnthropicService';
+import { LLMService } from '../llm/LLMService';
+import { GenerationResult, LLMRequest } from '../llm/LLMProvider';
+import { PromptBuilder } from '../character/PromptBuilder';
+import { CharacterService } from '../character/CharacterService';
+import { CharacterData } from '../supabase/SupabaseService';
+import { SuppressedPostService } from '../suppression/SuppressedPostService';
 import { TwitterService } from '../twitter/TwitterService';
-import { PostContent } from '../../types';
-import axios from 'axios';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
+import { PostJobOutcome, PostJobQueue } from '../queue/PostJobQueue';
+import { isRetryableError } from '../queue/retryWithBackoff';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { ApprovalService } from '../approval/ApprovalService';
+import { ModerationService } from '../moderation/ModerationService';
+import { ImagePreprocessor } from '../media/ImagePreprocessor';
+import { ImageSelector } from './ImageSelector';
+import { ImageClaimService } from './ImageClaimService';
+import { PersonaConfig, PostContent } from '../../types';
+import { getRepositories, ImageRecord, PostJobRecord, Repositories } from '../repositories';
 
 export class ImageTweetService {
-    private static instance: ImageTweetService;
-    private supabaseService: SupabaseService;
-    private anthropicService: AnthropicService;
+    private static instances = new Map<string, ImageTweetService>();
+    private persona: PersonaConfig;
+    private llmService: LLMService;
+    private promptBuilder: PromptBuilder;
+    private characterService: CharacterService;
+    private suppressedPostService: SuppressedPostService;
     private twitterService: TwitterService;
+    private postJobQueue: PostJobQueue;
 
-    private constructor() {
-        this.supabaseService = SupabaseService.getInstance();
-        this.anthropicService = AnthropicService.getInstance();
-        this.twitterService = TwitterService.getInstance();
+    private constructor(persona: PersonaConfig) {
+        this.persona = persona;
+        this.llmService = LLMService.getInstance();
+        this.promptBuilder = PromptBuilder.getInstance();
+        this.characterService = CharacterService.getInstance();
+        this.suppressedPostService = SuppressedPostService.getInstance();
+        this.twitterService = TwitterService.getInstance(persona.name);
+        this.postJobQueue = PostJobQueue.getInstance();
+        // Image tweets of every persona share the queue; each job is published by its persona's service
+        this.postJobQueue.registerHandler('image_tweet', job => ImageTweetService.getInstance(job.payload.persona).publishImageTweetJob(job));
+        ApprovalService.getInstance().registerHandler('image_caption', {
+            applyTexts: (approval, texts) => ({ ...approval.payload, content: { ...approval.payload.content, text: texts[0] } })
+        });
     }
 
-    public static getInstance(): ImageTweetService {
-        if (!ImageTweetService.instance) {
-            ImageTweetService.instance = new ImageTweetService();
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Get the ImageTweetService of a persona
+     * @param persona The persona name; the default persona if not given
+     */
+    public static getInstance(persona?: string): ImageTweetService {
+        const personaConfig = PersonaRegistry.getInstance().get(persona);
+        let instance = ImageTweetService.instances.get(personaConfig.name);
+        if (!instance) {
+            instance = new ImageTweetService(personaConfig);
+            ImageTweetService.instances.set(personaConfig.name, instance);
         }
-        return ImageTweetService.instance;
+        return instance;
     }
 
     /**
-     * Generates and posts a tweet with Marvin's artwork
+     * Generates and posts a tweet with the image the job's selection strategy picks, and up to three
+     * more unposted images from the same prompt
+     * @param jobName The scheduled job posting the tweet; the persona's image_tweet job if not given
      */
-    public async generateAndPostImageTweet(): Promise<boolean> {
+    public async generateAndPostImageTweet(jobName?: string): Promise<boolean> {
         try {
-            // 1. Get a random image from the database
-            const image = await this.getRandomImage();
-            if (!image) {
-                console.log('No images found in the database');
+            // 1. Pick the image, and the prompt it was generated from
+            const selection = await ImageSelector.getInstance().select(this.persona.name, { job: jobName });
+            if (!selection.image || !selection.prompt) {
+                console.log(`No image to post for ${selection.job}: ${selection.reason}`);
                 return false;
             }
+            const { image, images, prompt } = selection;
+            console.log(`Picked image ${image.id} for ${selection.job} (${selection.strategy}): ${selection.reason}`);
 
-            // 2. Get the prompt associated with the image
-            const prompt = await this.getPromptById(image.prompt_id);
-            if (!prompt) {
-                console.log(`No prompt found for image ID: ${image.id}`);
+            // 2. Generate tweet text based on the prompt and image
+            const character = await this.characterService.getCharacter(this.persona.agentName);
+            const captionPrompt = this.buildCaptionPrompt(prompt.text, character);
+            const caption = await this.generateTweetTextForImage(captionPrompt);
+            if (!caption.ok) {
+                // Leave the image unposted rather than posting it with filler text
+                console.log(`No caption for image ${image.id}; skipping this image tweet`);
+                await this.suppressedPostService.suppress('image_caption', caption.reason, {
+                    image_id: image.id,
+                    prompt_id: prompt.id,
+                    persona: this.persona.name
+                });
                 return false;
             }
 
-            // 3. Generate tweet text based on the prompt and image
-            const tweetText = await this.generateTweetTextForImage(prompt.text);
-
-            // 4. Create tweet content
+            // 3. Create tweet content
             const tweetContent: PostContent = {
-                text: tweetText,
-                hashtags: ['AI', 'Art', 'AIArt', 'Marvin'],
+                text: caption.text,
+                hashtags: ['AI', 'Art', 'AIArt', character.display_name.replace(/\s+/g, '')],
                 platform: 'twitter',
                 category: 'Art'
             };
 
-            // 5. Format the content for Twitter
+            // 4. Format the content for Twitter
             const formattedContent = this.twitterService.formatContent(tweetContent);
 
+            // 5. Describe the images for screen readers; the alt text is kept with each image
+            await this.describeImages(images, prompt.text, character);
+
             console.log('\n--- Generated Image Tweet Content ---');
             console.log(formattedContent.text);
-            console.log(`Image URL: ${image.image_url}`);
+            for (const tweetImage of images) {
+                console.log(`Image URL: ${tweetImage.image_url}`);
+                console.log(`Alt text: ${tweetImage.alt_text || '(none)'}`);
+            }
             console.log('-------------------------------\n');
 
-            // 6. Download the image from URL and upload to Twitter
-            console.log('Downloading image from URL...');
-            const tempImagePath = await this.downloadImage(image.image_url);
-            console.log(`Image downloaded to temporary path: ${tempImagePath}`);
-            
-            // 7. Upload the image to Twitter
-            const mediaId = await this.twitterService.uploadMedia(tempImagePath);
-            
-            // 8. Clean up the temporary file
-            try {
-                fs.unlinkSync(tempImagePath);
-                console.log('Temporary image file cleaned up');
-            } catch (cleanupError) {
-                console.error('Error cleaning up temporary file:', cleanupError);
-                // Continue with the process even if cleanup fails
+            // Keyed by the first image; every image of the tweet is listed
+            const idempotencyKey = PersonaRegistry.getInstance().scope(`image_tweet:${image.id}`, this.persona.name);
+            const payload = { image_id: image.id, image_ids: images.map(tweetImage => tweetImage.id), content: formattedContent, persona: this.persona.name };
+
+            // Tweets moderation blocked, and every tweet in review mode, wait for a reviewer;
+            // approved tweets are posted by the post job queue
+            const moderation = await ModerationService.getInstance().moderate([formattedContent.text], {
+                contentType: 'image_caption',
+                persona: this.persona.name,
+                subjectKey: idempotencyKey,
+                prompt: captionPrompt
+            });
+            const approvals = ApprovalService.getInstance();
+            if (!moderation.allowed || approvals.isRequired('image_caption')) {
+                const approval = await approvals.submit({
+                    contentType: 'image_caption',
+                    persona: this.persona.name,
+                    texts: [formattedContent.text],
+                    generation: {
+                        use_case: 'image_caption',
+                        prompt: captionPrompt,
+                        provider: caption.provider,
+                        model: caption.model,
+                        character_version: character.version ?? null
+                    },
+                    job: { type: 'image_tweet', idempotencyKey, payload },
+                    moderationIssues: moderation.issues
+                });
+                console.log(`Image tweet is waiting for review (${approval.id})`);
+                return true;
             }
 
-            // 7. Post the tweet with the image
-            const postResult = await this.twitterService.postTweet(formattedContent, [mediaId]);
+            // 6. Queue the tweet and make the first attempt; retryable failures stay queued
+            const job = await this.postJobQueue.enqueueAndRun({ type: 'image_tweet', idempotencyKey, payload });
 
-            if (postResult.success) {
-                console.log(`✅ ${postResult.message}`);
-                // Mark the image as posted to prevent reposting
-                await this.markImageAsPosted(image.id);
-                console.log(`Image ${image.id} marked as posted to prevent future duplication`);
-            } else {
+            if (job.status !== 'completed') {
                 console.log(`\n❌ ERROR: Image tweet could not be posted to Twitter`);
-                console.log(`Error details: ${postResult.message}`);
+                console.log(`Error details: ${job.last_error} (job ${job.id} is ${job.status})`);
             }
 
-            return postResult.success;
+            return job.status === 'completed';
         } catch (error) {
             console.error('Error generating or posting image tweet:', error);
             return false;
@@ -102,130 +161,162 @@ export class ImageTweetService {
     }
 
     /**
-     * Downloads an image from a URL to a temporary file
-     * @param url URL of the image to download
-     * @returns Path to the temporary file
+     * Publishes the image tweet behind a post job.
+     * The images are claimed first, so when two workers run the same job only one posts them.
+     * Run by the post job queue's image_tweet handler.
+     * @param job The queued job
+     * @param worker The worker taking the claims; this process if not given
      */
-    private async downloadImage(url: string): Promise<string> {
-        try {
-            // Create a temporary file path
-            const tempPath = path.join(os.tmpdir(), `marvin_temp_${Date.now()}.png`);
-            const writer = fs.createWriteStream(tempPath);
-            
-            // Download the image
-            const response = await axios({
-                url,
-                method: 'GET',
-                responseType: 'stream'
-            });
-            
-            // Pipe the image data to the file
-            response.data.pipe(writer);
-            
-            // Return a promise that resolves when the file is written
-            return new Promise((resolve, reject) => {
-                writer.on('finish', () => resolve(tempPath));
-                writer.on('error', (err) => {
-                    fs.unlink(tempPath, () => {}); // Delete the file if there's an error
-                    reject(err);
-                });
-            });
-        } catch (error) {
-            console.error('Error downloading image:', error);
-            throw new Error('Failed to download image');
+    public async publishImageTweetJob(job: PostJobRecord, worker: string = ImageClaimService.getInstance().workerId): Promise<PostJobOutcome> {
+        const image = await this.repositories.images.getById(job.payload.image_id);
+        if (!image || !image.image_url) {
+            return { success: false, retryable: false, message: `Image not found: ${job.payload.image_id}` };
         }
-    }
 
-    /**
-     * Gets a random image from the database
-     */
-    private async getRandomImage() {
-        try {
-            // Query for images that have an image_url (since we need this to upload to Twitter)
-            // and haven't been posted yet (x_posted = false)
-            const { data, error } = await this.supabaseService.client
-                .from('images')
-                .select('*')
-                .not('image_url', 'is', null)
-                .eq('x_posted', false)
-                .order('created_at', { ascending: false })
-                .limit(10);
-
-            if (error) {
-                console.error('Error fetching images:', error);
-                return null;
-            }
+        // A previous attempt may have posted it before the process stopped
+        if (image.x_posted) {
+            console.log(`Image ${image.id} is already posted; nothing to publish`);
+            return { success: true, result: { skipped: 'already_posted', tweet_id: image.tweet_id || null } };
+        }
 
-            if (!data || data.length === 0) {
-                return null;
+        // The other images go along unless another tweet posted them in the meantime
+        const images = [image];
+        for (const imageId of (job.payload.image_ids || []).filter((id: string) => id !== image.id)) {
+            const other = await this.repositories.images.getById(imageId);
+            if (other && other.image_url && !other.x_posted) {
+                images.push(other);
             }
+        }
 
-            // Select a random image from the most recent 10
-            return data[Math.floor(Math.random() * data.length)];
-        } catch (error) {
-            console.error('Error in getRandomImage:', error);
-            return null;
+        // 1. Claim the images; a retry finds them posted, or their leases recovered by image_reconciliation
+        const claims = ImageClaimService.getInstance();
+        if (!await claims.claimAll(images.map(claimed => claimed.id), worker)) {
+            return { success: false, retryable: true, message: `Image ${image.id} is being posted by another worker` };
         }
-    }
 
-    /**
-     * Gets a prompt by ID
-     */
-    private async getPromptById(promptId: string) {
+        let posted = false;
         try {
-            const { data, error } = await this.supabaseService.client
-                .from('prompts')
-                .select('*')
-                .eq('id', promptId)
-                .single();
-
-            if (error) {
-                console.error('Error fetching prompt:', error);
-                return null;
+            // 2. Download and process the images, and upload them to Twitter with their alt text
+            // Processed images are cached by image ID, so a retry does not process them again
+            const mediaIds: string[] = [];
+            for (const tweetImage of images) {
+                mediaIds.push(await this.twitterService.uploadMediaFromUrl(tweetImage.image_url!, tweetImage.alt_text, tweetImage.id));
             }
 
-            return data;
-        } catch (error) {
-            console.error('Error in getPromptById:', error);
-            return null;
+            // 3. Post the tweet with the images
+            const postResult = await this.twitterService.postTweet(job.payload.content as PostContent, mediaIds);
+            if (!postResult.success) {
+                return { success: false, retryable: isRetryableError(postResult.error), error: postResult.error, message: postResult.message };
+            }
+            posted = true;
+
+            console.log(`✅ ${postResult.message}`);
+            // 4. Mark the images as posted with their tweet, which releases the claims
+            for (const tweetImage of images) {
+                await this.markImageAsPosted(tweetImage.id, postResult.tweetId!);
+                ImagePreprocessor.getInstance().evict(tweetImage.id);
+            }
+            return { success: true, result: { tweet_id: postResult.tweetId, image_ids: images.map(tweetImage => tweetImage.id) } };
+        } finally {
+            // Nothing went out, so the next attempt may claim the images again
+            if (!posted) {
+                await Promise.all(images.map(tweetImage => claims.release(tweetImage.id, worker)));
+            }
         }
     }
 
     /**
-     * Marks an image as posted in the database
+     * Marks an image as posted in the database. If that fails the claim is kept, and
+     * image_reconciliation marks the image from its job's tweet ID.
      * @param imageId The ID of the image to mark as posted
+     * @param tweetId The tweet it was posted in
      * @returns Whether the operation was successful
      */
-    private async markImageAsPosted(imageId: string): Promise<boolean> {
+    private async markImageAsPosted(imageId: string, tweetId: string): Promise<boolean> {
         try {
-            const { error } = await this.supabaseService.client
-                .from('images')
-                .update({ x_posted: true })
-                .eq('id', imageId);
-                
-            if (error) {
-                console.error('Error marking image as posted:', error);
-                return false;
-            }
-            
-            console.log(`Image ${imageId} marked as posted`);
+            await this.repositories.images.markPosted(imageId, tweetId);
+            console.log(`Image ${imageId} marked as posted in tweet ${tweetId}`);
             return true;
         } catch (error) {
-            console.error('Error in markImageAsPosted:', error);
+            console.error(`Error marking image ${imageId} as posted; leaving it to image reconciliation:`, error);
             return false;
         }
     }
 
     /**
-     * Generates tweet text for an image based on the prompt
+     * Gives images without alt text one generated from their prompt, and stores it with them.
+     * The images of a tweet share a prompt, so one description serves them all.
+     * @param images The images, updated in place
+     * @param promptText The prompt the images were generated from
+     * @param character The persona's character
      */
-    private async generateTweetTextForImage(promptText: string): Promise<string> {
-        // Use Anthropic Claude to generate a tweet based on the prompt
-        try {
-            return await this.anthropicService.generateTweet(promptText);
-        } catch (error) {
-            console.error('Error generating tweet text for image:', error);
-            return `Check out my latest digital creation. #AI #Art`;
+    private async describeImages(images: ImageRecord[], promptText: string, character: CharacterData): Promise<void> {
+        const undescribed = images.filter(image => !image.alt_text);
+        if (undescribed.length === 0) {
+            return;
+        }
+
+        const altText = await this.generateAltText(promptText, character);
+        for (const image of undescribed) {
+            image.alt_text = altText;
+            try {
+                await this.repositories.images.setAltText(image.id, altText);
+            } catch (error) {
+                // The tweet still carries the alt text; it is generated again the next time the image is picked
+                console.error(`Error storing alt text of image ${image.id}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Generates accessible alt text for an artwork through the alt text provider chain
+     * @param promptText The prompt the artwork was generated from
+     * @param character The persona's character
+     * @returns The alt text; the prompt itself when generation fails
+     */
+    private async generateAltText(promptText: string, character: CharacterData): Promise<string> {
+        const result = await this.llmService.generate('alt_text', {
+            system: this.promptBuilder.buildSystemPrompt(character, 'alt_text'),
+            messages: [{ role: 'user', content: `Write the alt text for an artwork generated from this prompt: "${promptText}"\n\nAlt text:` }],
+            params: { maxTokens: 150, temperature: 0.3 }
+        });
+        if (!result.ok) {
+            console.log(`No alt text generated; describing the image by its prompt: ${result.reason}`);
+            return `Artwork: ${promptText}`.slice(0, 1000);
         }
+        return result.text.trim().replace(/^alt text:\s*/i, '').replace(/^"(.*)"$/s, '$1').slice(0, 1000);
+    }
+
+    /**
+     * Generates tweet text for an image through the image caption provider chain
+     * @param captionPrompt The request built by buildCaptionPrompt()
+     * @returns The caption, or a failed result
+     */
+    private async generateTweetTextForImage(captionPrompt: LLMRequest): Promise<GenerationResult> {
+        return this.llmService.generate('image_caption', captionPrompt);
+    }
+
+    /**
+     * Builds the request that generates tweet text for an image based on its prompt
+     * @param promptText The image's prompt
+     * @param character The persona's character
+     */
+    private buildCaptionPrompt(promptText: string, character: CharacterData): LLMRequest {
+        return {
+            system: this.promptBuilder.buildSystemPrompt(character, 'image_caption'),
+            messages: [{
+                role: 'user',
+                content: `Generate a short, engaging tweet (max 200 characters) in response to this message: "${promptText}"
+                
+                The tweet should:
+                1. Reflect your personality and style
+                2. Reference the message without being too literal
+                3. Include 1-2 relevant emojis
+                4. Not exceed 200 characters to leave room for hashtags
+                
+                Tweet:`
+            }],
+            params: { maxTokens: 100, temperature: 0.7 }
+        };
     }
 }
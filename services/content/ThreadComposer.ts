@@ -0,0 +1,341 @@
+import { LLMService } from '../llm/LLMService';
+import { PromptBuilder } from '../character/PromptBuilder';
+import { CharacterService } from '../character/CharacterService';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { MAX_TWEET_LENGTH, fitsInTweet, splitIntoTweets, truncateTweet, tweetLength } from '../twitter/TweetText';
+import { BlogBlock, BlogImage, parseBlogMarkdown } from './BlogMarkdown';
+import { BlogPostRecord, GenerationInfo, getRepositories, Repositories } from '../repositories';
+import { config } from '../../config';
+
+// X allows up to four images on a tweet
+const MAX_IMAGES_PER_TWEET = 4;
+
+/**
+ * A tweet of a thread plan
+ */
+export interface ThreadPlanTweet {
+    text: string; // Including the " (i/n)" indicator
+    images: BlogImage[];
+    length: number; // Weighted length, as X counts it
+}
+
+/**
+ * A thread composed from a blog post, to preview or to post
+ */
+export interface ThreadPlan {
+    blogPostId: string;
+    persona: string;
+    opening: 'hook' | 'title'; // Whether the first tweet is an LLM-written hook or the title
+    tweets: ThreadPlanTweet[];
+    warnings: string[]; // Content that could not be placed, e.g. images beyond the limit
+    generation?: GenerationInfo; // How the hook was generated, when the thread opens with one
+}
+
+/**
+ * Options for composing a thread
+ */
+export interface ThreadComposeOptions {
+    hook?: boolean; // Open with an LLM-written hook; config.blogPostScheduler.threadHook if not given
+}
+
+/**
+ * A tweet being laid out
+ */
+interface DraftTweet {
+    parts: string[];
+    images: BlogImage[];
+    headingOnly: boolean;
+}
+
+/**
+ * Composes threads from blog posts. Headings start new tweets, lists and code blocks
+ * stay together when they fit in a tweet, links keep their URLs (counted as X counts them),
+ * and each image goes on the tweet with the text it illustrates.
+ */
+export class ThreadComposer {
+    private static instance: ThreadComposer;
+    private llmService: LLMService;
+    private promptBuilder: PromptBuilder;
+    private characterService: CharacterService;
+
+    private constructor() {
+        this.llmService = LLMService.getInstance();
+        this.promptBuilder = PromptBuilder.getInstance();
+        this.characterService = CharacterService.getInstance();
+    }
+
+    /**
+     * Get the singleton instance of ThreadComposer
+     */
+    public static getInstance(): ThreadComposer {
+        if (!ThreadComposer.instance) {
+            ThreadComposer.instance = new ThreadComposer();
+        }
+        return ThreadComposer.instance;
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Composes the thread for a stored blog post without posting it
+     * @param blogPostId The blog post ID
+     * @param options Composition options
+     * @returns The thread plan, or null if there is no such blog post
+     */
+    public async preview(blogPostId: string, options: ThreadComposeOptions = {}): Promise<ThreadPlan | null> {
+        const post = await this.repositories.blogPosts.getById(blogPostId);
+        return post ? this.compose(post, options) : null;
+    }
+
+    /**
+     * Composes the thread for a blog post
+     * @param post The blog post
+     * @param options Composition options
+     */
+    public async compose(post: BlogPostRecord, options: ThreadComposeOptions = {}): Promise<ThreadPlan> {
+        const persona = PersonaRegistry.getInstance().get(post.persona);
+        const warnings: string[] = [];
+        const blocks = parseBlogMarkdown(post.markdown || '');
+
+        // The thread opens with the title, so a leading heading repeating it is dropped
+        const opening: BlogBlock = { kind: 'heading', text: post.title, images: [] };
+        if (blocks[0]?.kind === 'heading' && blocks[0].text.toLowerCase() === post.title.trim().toLowerCase()) {
+            opening.images.push(...blocks.shift()!.images);
+        }
+
+        const generated = (options.hook ?? config.blogPostScheduler.threadHook)
+            ? await this.generateHook(post, blocks, persona.agentName)
+            : undefined;
+        const hook = generated?.text;
+        const closing: BlogBlock[] = post.post_url
+            ? [{ kind: 'paragraph', text: `Read the full post: ${post.post_url}`, images: [] }]
+            : [];
+
+        const allBlocks = [
+            ...(hook ? [{ kind: 'paragraph', text: hook, images: [] } as BlogBlock] : []),
+            opening,
+            ...blocks,
+            ...closing
+        ];
+        for (const block of allBlocks) {
+            block.images = this.resolveImages(block.images, post, warnings);
+        }
+
+        // Reserve room for the widest " (i/n)" indicator; longer threads need wider ones
+        let drafts: DraftTweet[] = [];
+        for (let digits = 1; ; digits++) {
+            const widest = '9'.repeat(digits);
+            drafts = layoutThread(allBlocks, MAX_TWEET_LENGTH - tweetLength(` (${widest}/${widest})`));
+            if (String(drafts.length).length <= digits) {
+                break;
+            }
+        }
+
+        const tweets = distributeImages(drafts, warnings).map((draft, index) => {
+            const text = `${draft.parts.join('\n\n')} (${index + 1}/${drafts.length})`;
+            return { text, images: draft.images, length: tweetLength(text) };
+        });
+
+        return {
+            blogPostId: post.id,
+            persona: persona.name,
+            opening: hook ? 'hook' : 'title',
+            tweets,
+            warnings,
+            ...(generated ? { generation: generated.generation } : {})
+        };
+    }
+
+    /**
+     * Logs a thread plan, one tweet at a time
+     * @param plan The thread plan
+     */
+    public logPlan(plan: ThreadPlan): void {
+        console.log(`Thread plan for blog post ${plan.blogPostId} (${plan.tweets.length} tweets, opens with its ${plan.opening}):`);
+        for (const tweet of plan.tweets) {
+            const images = tweet.images.length > 0 ? ` [${tweet.images.length} image(s)]` : '';
+            console.log(`--- ${tweet.length} chars${images}\n${tweet.text}`);
+        }
+        for (const warning of plan.warnings) {
+            console.log(`Warning: ${warning}`);
+        }
+    }
+
+    /**
+     * Asks the persona's LLM chain for the tweet that opens the thread
+     * @param post The blog post
+     * @param blocks The blog post's content
+     * @param agentName The character to write as
+     * @returns The hook and how it was generated, or undefined if generation failed and the title should open the thread
+     */
+    private async generateHook(post: BlogPostRecord, blocks: BlogBlock[], agentName: string): Promise<{ text: string; generation: GenerationInfo } | undefined> {
+        const character = await this.characterService.getCharacter(agentName);
+        const excerpt = truncateTweet(blocks.map(block => block.text).join('\n\n'), 1500);
+
+        const prompt = {
+            system: this.promptBuilder.buildSystemPrompt(character, 'thread_hook'),
+            messages: [{
+                role: 'user' as const,
+                content: `Write the opening tweet of a thread sharing your blog post "${post.title}".\n\n${excerpt}\n\nTweet:`
+            }],
+            params: { maxTokens: 100, temperature: 0.7 }
+        };
+        const result = await this.llmService.generate('thread_hook', prompt);
+        if (!result.ok) {
+            console.log(`No hook for blog post ${post.id} (${result.reason}); the thread opens with its title`);
+            return undefined;
+        }
+
+        // The hook is a tweet of its own, with room for a two-digit indicator
+        return {
+            text: truncateTweet(result.text.trim(), MAX_TWEET_LENGTH - tweetLength(' (99/99)')),
+            generation: { use_case: 'thread_hook', prompt, provider: result.provider, model: result.model, character_version: character.version ?? null }
+        };
+    }
+
+    /**
+     * Makes image URLs absolute, resolving relative ones against the blog post URL
+     * @param images The images of a block
+     * @param post The blog post
+     * @param warnings Collects images that cannot be fetched
+     */
+    private resolveImages(images: BlogImage[], post: BlogPostRecord, warnings: string[]): BlogImage[] {
+        return images.flatMap(image => {
+            try {
+                const url = new URL(image.url, post.post_url || undefined);
+                if (url.protocol === 'http:' || url.protocol === 'https:') {
+                    return [{ ...image, url: url.toString() }];
+                }
+            } catch (error) {
+                // Relative URL without a blog post URL to resolve it against
+            }
+            warnings.push(`Skipped image ${image.url}: not an http(s) URL`);
+            return [];
+        });
+    }
+}
+
+/**
+ * Lays blocks out into tweets
+ * @param blocks The blocks, in order
+ * @param budget The weighted length each tweet's text may use
+ */
+function layoutThread(blocks: BlogBlock[], budget: number): DraftTweet[] {
+    const tweets: DraftTweet[] = [];
+    let current: DraftTweet | null = null;
+    const close = () => {
+        if (current) {
+            tweets.push(current);
+            current = null;
+        }
+    };
+
+    for (const block of blocks) {
+        const tweet = current as DraftTweet | null;
+        if (!block.text) {
+            // Images with no text of their own go on the tweet before them
+            (tweet || tweets[tweets.length - 1])?.images.push(...block.images);
+            continue;
+        }
+
+        // Headings start new tweets
+        if (block.kind === 'heading') {
+            close();
+            current = { parts: [block.text], images: [...block.images], headingOnly: true };
+            continue;
+        }
+
+        if (tweet && fitsInTweet([...tweet.parts, block.text].join('\n\n'), budget)) {
+            tweet.parts.push(block.text);
+            tweet.images.push(...block.images);
+            tweet.headingOnly = false;
+            continue;
+        }
+
+        // A block that fits in a tweet of its own gets one; lists and code are not split
+        // even if that leaves a heading alone
+        const keepTogether = block.kind === 'list' || block.kind === 'code';
+        if (fitsInTweet(block.text, budget) && (!tweet?.headingOnly || keepTogether)) {
+            close();
+            current = { parts: [block.text], images: [...block.images], headingOnly: false };
+            continue;
+        }
+
+        // Otherwise the block is split, continuing the heading before it if there is one
+        const heading = tweet?.headingOnly ? tweet : null;
+        if (!heading) {
+            close();
+        }
+        current = null;
+        const pieces = block.kind === 'list'
+            ? splitListItems(heading?.parts[0], block.items || [block.text], budget)
+            : splitIntoTweets([...(heading ? heading.parts : []), block.text].join('\n\n'), budget);
+        const images = [...(heading ? heading.images : []), ...block.images];
+        pieces.forEach((piece, index) => {
+            const draft = { parts: [piece], images: index === 0 ? images : [], headingOnly: false };
+            if (index < pieces.length - 1) {
+                tweets.push(draft);
+            } else {
+                current = draft;
+            }
+        });
+    }
+    close();
+
+    return tweets;
+}
+
+/**
+ * Splits a list between items, putting as many items in each tweet as fit
+ * @param heading The heading the first tweet starts with, if any
+ * @param items The list items
+ * @param budget The weighted length each tweet's text may use
+ */
+function splitListItems(heading: string | undefined, items: string[], budget: number): string[] {
+    const pieces: string[] = [];
+    let lines: string[] = [];
+    let head = heading;
+    const text = (candidate: string[]) => `${head ? `${head}\n\n` : ''}${candidate.join('\n')}`.trim();
+
+    for (const item of items) {
+        if (fitsInTweet(text([...lines, item]), budget)) {
+            lines.push(item);
+            continue;
+        }
+        if (lines.length > 0 || head) {
+            pieces.push(text(lines));
+            lines = [];
+            head = undefined;
+        }
+        // An item longer than a tweet is split like a paragraph
+        const parts = splitIntoTweets(item, budget);
+        pieces.push(...parts.slice(0, -1));
+        lines.push(parts[parts.length - 1]);
+    }
+    if (lines.length > 0 || head) {
+        pieces.push(text(lines));
+    }
+
+    return pieces;
+}
+
+/**
+ * Caps each tweet at four images, moving the rest on to the following tweets
+ * @param drafts The laid-out tweets
+ * @param warnings Collects images left over after the last tweet
+ */
+function distributeImages(drafts: DraftTweet[], warnings: string[]): DraftTweet[] {
+    let carried: BlogImage[] = [];
+    for (const draft of drafts) {
+        const images = [...carried, ...draft.images];
+        draft.images = images.slice(0, MAX_IMAGES_PER_TWEET);
+        carried = images.slice(MAX_IMAGES_PER_TWEET);
+    }
+    for (const image of carried) {
+        warnings.push(`Skipped image ${image.url}: no room on the thread's tweets`);
+    }
+    return drafts;
+}
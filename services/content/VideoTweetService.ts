@@ -0,0 +1,246 @@
+import { LLMService } from '../llm/LLMService';
+import { GenerationResult, LLMRequest } from '../llm/LLMProvider';
+import { PromptBuilder } from '../character/PromptBuilder';
+import { CharacterService } from '../character/CharacterService';
+import { CharacterData } from '../supabase/SupabaseService';
+import { SuppressedPostService } from '../suppression/SuppressedPostService';
+import { TwitterService } from '../twitter/TwitterService';
+import { PostJobOutcome, PostJobQueue } from '../queue/PostJobQueue';
+import { isRetryableError } from '../queue/retryWithBackoff';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { ApprovalService } from '../approval/ApprovalService';
+import { ModerationService } from '../moderation/ModerationService';
+import { PersonaConfig, PostContent } from '../../types';
+import { getRepositories, PostJobRecord, Repositories, VideoRecord } from '../repositories';
+
+// Unposted videos looked at on each run, oldest first
+const CANDIDATES = 10;
+
+/**
+ * Posts the videos and animated GIFs in the videos table, one per tweet, captioned like image tweets.
+ * Videos are uploaded to X in chunks and posted once X has processed them. Captions go through
+ * moderation and review as image captions.
+ */
+export class VideoTweetService {
+    private static instances = new Map<string, VideoTweetService>();
+    private persona: PersonaConfig;
+    private llmService: LLMService;
+    private promptBuilder: PromptBuilder;
+    private characterService: CharacterService;
+    private suppressedPostService: SuppressedPostService;
+    private twitterService: TwitterService;
+    private postJobQueue: PostJobQueue;
+
+    private constructor(persona: PersonaConfig) {
+        this.persona = persona;
+        this.llmService = LLMService.getInstance();
+        this.promptBuilder = PromptBuilder.getInstance();
+        this.characterService = CharacterService.getInstance();
+        this.suppressedPostService = SuppressedPostService.getInstance();
+        this.twitterService = TwitterService.getInstance(persona.name);
+        this.postJobQueue = PostJobQueue.getInstance();
+        // Video tweets of every persona share the queue; each job is published by its persona's service
+        this.postJobQueue.registerHandler('video_tweet', job => VideoTweetService.getInstance(job.payload.persona).publishVideoTweetJob(job));
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Get the VideoTweetService of a persona
+     * @param persona The persona name; the default persona if not given
+     */
+    public static getInstance(persona?: string): VideoTweetService {
+        const personaConfig = PersonaRegistry.getInstance().get(persona);
+        let instance = VideoTweetService.instances.get(personaConfig.name);
+        if (!instance) {
+            instance = new VideoTweetService(personaConfig);
+            VideoTweetService.instances.set(personaConfig.name, instance);
+        }
+        return instance;
+    }
+
+    /**
+     * Generates and posts a tweet with the persona's oldest unposted video
+     * @returns Whether a tweet was posted, or is waiting for review
+     */
+    public async generateAndPostVideoTweet(): Promise<boolean> {
+        try {
+            // 1. Pick the video, and the prompt it was generated from
+            const video = await this.pickVideo();
+            if (!video) {
+                console.log(`No video to post for ${this.persona.name}`);
+                return false;
+            }
+            const prompt = await this.repositories.prompts.getById(video.prompt_id);
+            if (!prompt) {
+                console.log(`Prompt ${video.prompt_id} of video ${video.id} not found; skipping this video tweet`);
+                return false;
+            }
+            console.log(`Picked video ${video.id}, created ${video.created_at}`);
+
+            // 2. Generate tweet text based on the prompt
+            const character = await this.characterService.getCharacter(this.persona.agentName);
+            const captionPrompt = this.buildCaptionPrompt(prompt.text, character);
+            const caption = await this.generateTweetTextForVideo(captionPrompt);
+            if (!caption.ok) {
+                // Leave the video unposted rather than posting it with filler text
+                console.log(`No caption for video ${video.id}; skipping this video tweet`);
+                await this.suppressedPostService.suppress('image_caption', caption.reason, {
+                    video_id: video.id,
+                    prompt_id: prompt.id,
+                    persona: this.persona.name
+                });
+                return false;
+            }
+
+            // 3. Create and format the tweet content
+            const formattedContent = this.twitterService.formatContent({
+                text: caption.text,
+                hashtags: ['AI', 'Art', 'AIArt', character.display_name.replace(/\s+/g, '')],
+                platform: 'twitter',
+                category: 'Art'
+            });
+
+            console.log('\n--- Generated Video Tweet Content ---');
+            console.log(formattedContent.text);
+            console.log(`Video URL: ${video.video_url}`);
+            console.log('-------------------------------\n');
+
+            const idempotencyKey = PersonaRegistry.getInstance().scope(`video_tweet:${video.id}`, this.persona.name);
+            const payload = { video_id: video.id, content: formattedContent, persona: this.persona.name };
+
+            // Tweets moderation blocked, and every tweet in review mode, wait for a reviewer;
+            // approved tweets are posted by the post job queue
+            const moderation = await ModerationService.getInstance().moderate([formattedContent.text], {
+                contentType: 'image_caption',
+                persona: this.persona.name,
+                subjectKey: idempotencyKey,
+                prompt: captionPrompt
+            });
+            const approvals = ApprovalService.getInstance();
+            if (!moderation.allowed || approvals.isRequired('image_caption')) {
+                const approval = await approvals.submit({
+                    contentType: 'image_caption',
+                    persona: this.persona.name,
+                    texts: [formattedContent.text],
+                    generation: {
+                        use_case: 'image_caption',
+                        prompt: captionPrompt,
+                        provider: caption.provider,
+                        model: caption.model,
+                        character_version: character.version ?? null
+                    },
+                    job: { type: 'video_tweet', idempotencyKey, payload },
+                    moderationIssues: moderation.issues
+                });
+                console.log(`Video tweet is waiting for review (${approval.id})`);
+                return true;
+            }
+
+            // 4. Queue the tweet and make the first attempt; retryable failures stay queued
+            const job = await this.postJobQueue.enqueueAndRun({ type: 'video_tweet', idempotencyKey, payload });
+
+            if (job.status !== 'completed') {
+                console.log(`\n❌ ERROR: Video tweet could not be posted to Twitter`);
+                console.log(`Error details: ${job.last_error} (job ${job.id} is ${job.status})`);
+            }
+
+            return job.status === 'completed';
+        } catch (error) {
+            console.error('Error generating or posting video tweet:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Picks the oldest unposted video that has no post job or approval yet.
+     * Videos with a job are being posted by the queue, or failed and are left for a person to look at.
+     */
+    private async pickVideo(): Promise<VideoRecord | null> {
+        const approvals = ApprovalService.getInstance();
+        for (const video of await this.repositories.videos.listUnposted(this.persona.name, CANDIDATES)) {
+            const idempotencyKey = PersonaRegistry.getInstance().scope(`video_tweet:${video.id}`, this.persona.name);
+            if (await this.repositories.postJobs.findByIdempotencyKey(idempotencyKey)) {
+                console.log(`Video ${video.id} already has a post job; skipping it`);
+            } else if (await approvals.hasPending(idempotencyKey)) {
+                console.log(`Video ${video.id} is waiting for review; skipping it`);
+            } else {
+                return video;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Publishes the video tweet behind a post job
+     * @param job The queued job
+     */
+    private async publishVideoTweetJob(job: PostJobRecord): Promise<PostJobOutcome> {
+        const video = await this.repositories.videos.getById(job.payload.video_id);
+        if (!video || !video.video_url) {
+            return { success: false, retryable: false, message: `Video not found: ${job.payload.video_id}` };
+        }
+
+        // A previous attempt may have posted it before the process stopped
+        if (video.x_posted) {
+            console.log(`Video ${video.id} is already posted; nothing to publish`);
+            return { success: true, result: { skipped: 'already_posted', tweet_id: video.tweet_id || null } };
+        }
+
+        // 1. Download the video and upload it in chunks; this waits until X has processed it
+        const mediaId = await this.twitterService.uploadVideoFromUrl(video.video_url);
+
+        // 2. Post the tweet with the video
+        const postResult = await this.twitterService.postTweet(job.payload.content as PostContent, [mediaId]);
+        if (!postResult.success) {
+            return { success: false, retryable: isRetryableError(postResult.error), error: postResult.error, message: postResult.message };
+        }
+
+        console.log(`✅ ${postResult.message}`);
+        // 3. Mark the video as posted with its tweet
+        try {
+            await this.repositories.videos.markPosted(video.id, postResult.tweetId!);
+            console.log(`Video ${video.id} marked as posted in tweet ${postResult.tweetId}`);
+        } catch (error) {
+            // The job is completed with the tweet ID, so it is not posted again
+            console.error(`Error marking video ${video.id} as posted:`, error);
+        }
+        return { success: true, result: { tweet_id: postResult.tweetId, video_id: video.id } };
+    }
+
+    /**
+     * Generates tweet text for a video through the image caption provider chain
+     * @param captionPrompt The request built by buildCaptionPrompt()
+     * @returns The caption, or a failed result
+     */
+    private async generateTweetTextForVideo(captionPrompt: LLMRequest): Promise<GenerationResult> {
+        return this.llmService.generate('image_caption', captionPrompt);
+    }
+
+    /**
+     * Builds the request that generates tweet text for a video based on its prompt
+     * @param promptText The video's prompt
+     * @param character The persona's character
+     */
+    private buildCaptionPrompt(promptText: string, character: CharacterData): LLMRequest {
+        return {
+            system: this.promptBuilder.buildSystemPrompt(character, 'image_caption'),
+            messages: [{
+                role: 'user',
+                content: `Generate a short, engaging tweet (max 200 characters) to go with a short animation made from this message: "${promptText}"
+
+                The tweet should:
+                1. Reflect your personality and style
+                2. Reference the message without being too literal
+                3. Include 1-2 relevant emojis
+                4. Not exceed 200 characters to leave room for hashtags
+
+                Tweet:`
+            }],
+            params: { maxTokens: 100, temperature: 0.7 }
+        };
+    }
+}
@@ -0,0 +1,246 @@
+import { config } from '../../config';
+import { PersonaConfig } from '../../types';
+import { LLMMessage } from '../llm/LLMProvider';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { getRepositories, ConversationRecord, Repositories } from '../repositories';
+import { TwitterService } from '../twitter/TwitterService';
+
+/**
+ * One tweet of a reply thread
+ */
+export interface ConversationTurn {
+    tweet_id: string;
+    role: 'user' | 'assistant'; // assistant turns are Marvin's own tweets
+    username?: string;
+    text: string;
+}
+
+/**
+ * A reply thread rebuilt from stored conversations and the X API
+ */
+export interface ConversationThread {
+    turns: ConversationTurn[]; // Oldest first, ending with the tweet being answered
+    depth: number; // Tweets found above the one being answered
+    tooDeep: boolean; // The thread goes on past config.conversations.maxDepth
+    marvinReplies: number; // Replies Marvin has already posted in the conversation
+    hostile: boolean;
+}
+
+/**
+ * The tweet being answered, as far as thread building needs it
+ */
+export interface ThreadTweet {
+    tweet_id: string;
+    user_id: string;
+    username: string;
+    tweet_content?: string;
+    conversation_id?: string;
+    parent_tweet_id?: string;
+}
+
+/**
+ * Rebuilds reply threads so replies can take the whole conversation into account,
+ * and decides when Marvin should stop replying to a thread. Each persona only sees its own replies as its own.
+ */
+export class ConversationThreadService {
+    private static instances = new Map<string, ConversationThreadService>();
+    private persona: PersonaConfig;
+    private twitterService: TwitterService;
+
+    private constructor(persona: PersonaConfig) {
+        this.persona = persona;
+        this.twitterService = TwitterService.getInstance(persona.name);
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Get the ConversationThreadService of a persona
+     * @param persona The persona name; the default persona if not given
+     */
+    public static getInstance(persona?: string): ConversationThreadService {
+        const personaConfig = PersonaRegistry.getInstance().get(persona);
+        let instance = ConversationThreadService.instances.get(personaConfig.name);
+        if (!instance) {
+            instance = new ConversationThreadService(personaConfig);
+            ConversationThreadService.instances.set(personaConfig.name, instance);
+        }
+        return instance;
+    }
+
+    /**
+     * Rebuilds the thread above a tweet by following its replied-to chain.
+     * Stored conversations are used where possible; other tweets are fetched from the API.
+     * @param tweet The tweet being answered
+     */
+    public async buildThread(tweet: ThreadTweet): Promise<ConversationThread> {
+        const { maxDepth } = config.conversations;
+        const turns: ConversationTurn[] = [{
+            tweet_id: tweet.tweet_id,
+            role: 'user',
+            username: tweet.username,
+            text: tweet.tweet_content || ''
+        }];
+
+        // Marvin's user ID is only needed to recognise his tweets among those fetched from the API
+        let ownUserId: Promise<string | null> | undefined;
+        const getOwnUserId = () => (ownUserId = ownUserId || this.twitterService.getOwnUserId());
+
+        // Walk one tweet past the limit, to tell a thread that is exactly maxDepth deep from a deeper one
+        const seen = new Set<string>([tweet.tweet_id]);
+        let parentId = tweet.parent_tweet_id || null;
+        let depth = 0;
+        while (parentId && !seen.has(parentId) && depth <= maxDepth) {
+            seen.add(parentId);
+            const loaded = await this.loadTurn(parentId, getOwnUserId);
+            if (!loaded) {
+                break;
+            }
+            turns.unshift(loaded.turn);
+            parentId = loaded.parentId;
+            depth++;
+        }
+
+        return {
+            turns,
+            depth,
+            tooDeep: depth > maxDepth,
+            marvinReplies: await this.countMarvinReplies(tweet.conversation_id),
+            hostile: turns.some(turn => turn.role === 'user' && this.isHostile(turn.text))
+        };
+    }
+
+    /**
+     * Decides whether Marvin should stay out of a thread
+     * @param thread The thread
+     * @returns Why Marvin should not reply, or null if he should
+     */
+    public getDeclineReason(thread: ConversationThread): string | null {
+        const { maxDepth, maxRepliesPerThread } = config.conversations;
+
+        if (thread.hostile) {
+            return 'conversation turned hostile';
+        }
+        if (thread.tooDeep) {
+            return `thread is more than ${maxDepth} tweets deep`;
+        }
+        if (thread.marvinReplies >= maxRepliesPerThread) {
+            return `already replied ${thread.marvinReplies} times in this conversation`;
+        }
+        return null;
+    }
+
+    /**
+     * Turns a thread into model messages. The last config.conversations.maxContextTurns earlier tweets
+     * become alternating user/assistant turns and the prompt for the reply becomes the final user turn.
+     * Marvin's own tweets that open the thread cannot lead the messages, so they are returned as a note
+     * for the system prompt instead.
+     * @param thread The thread
+     * @param prompt The prompt for the reply, which replaces the tweet being answered
+     */
+    public toMessages(thread: ConversationThread, prompt: string): { openingNote: string | null; messages: LLMMessage[] } {
+        const earlier = thread.turns.slice(0, -1).slice(-config.conversations.maxContextTurns);
+        const messages: LLMMessage[] = [];
+
+        const push = (role: LLMMessage['role'], content: string) => {
+            const last = messages[messages.length - 1];
+            if (last && last.role === role) {
+                last.content += `\n${content}`;
+            } else {
+                messages.push({ role, content });
+            }
+        };
+
+        const opening: string[] = [];
+        for (const turn of earlier) {
+            if (turn.role === 'assistant' && messages.length === 0) {
+                opening.push(turn.text);
+                continue;
+            }
+            push(turn.role, turn.role === 'user' && turn.username ? `@${turn.username}: ${turn.text}` : turn.text);
+        }
+        push('user', prompt);
+
+        return {
+            openingNote: opening.length > 0
+                ? `This conversation is a reply thread under your tweet: "${opening.join(' ')}"`
+                : null,
+            messages
+        };
+    }
+
+    /**
+     * Loads one earlier tweet of a thread
+     * @param tweetId The tweet ID
+     * @param getOwnUserId Gets Marvin's user ID, to recognise his tweets fetched from the API
+     * @returns The turn and the ID of the tweet it replied to, or null if the tweet is unavailable
+     */
+    private async loadTurn(tweetId: string, getOwnUserId: () => Promise<string | null>): Promise<{ turn: ConversationTurn; parentId: string | null } | null> {
+        try {
+            // One of Marvin's replies, whose parent is the tweet it answered
+            const answered = await this.repositories.conversations.findByResponseTweetId(tweetId, this.persona.name);
+            if (answered && answered.response_content) {
+                return {
+                    turn: { tweet_id: tweetId, role: 'assistant', text: answered.response_content },
+                    parentId: answered.tweet_id
+                };
+            }
+
+            // A reply Marvin processed. Rows without a parent may predate parent_tweet_id, so those are looked up.
+            const incoming = await this.repositories.conversations.findByTweetId(tweetId, this.persona.name);
+            if (incoming && incoming.tweet_content && incoming.parent_tweet_id) {
+                return {
+                    turn: { tweet_id: tweetId, role: 'user', username: incoming.username, text: incoming.tweet_content },
+                    parentId: incoming.parent_tweet_id
+                };
+            }
+        } catch (error) {
+            console.error(`Error loading stored conversation for tweet ${tweetId}:`, error);
+        }
+
+        const tweet = await this.twitterService.getTweet(tweetId);
+        if (!tweet) {
+            return null;
+        }
+
+        const ownUserId = await getOwnUserId();
+        const repliedTo = tweet.referenced_tweets?.find(ref => ref.type === 'replied_to');
+        return {
+            turn: { tweet_id: tweet.id, role: ownUserId && tweet.author_id === ownUserId ? 'assistant' : 'user', text: tweet.text },
+            parentId: repliedTo ? repliedTo.id : null
+        };
+    }
+
+    /**
+     * Counts the replies Marvin has posted in a conversation
+     * @param conversationId The conversation ID
+     */
+    private async countMarvinReplies(conversationId?: string): Promise<number> {
+        if (!conversationId) {
+            return 0;
+        }
+
+        try {
+            const records: ConversationRecord[] = await this.repositories.conversations.listByConversationId(conversationId, this.persona.name);
+            return records.filter(record => !!record.response_tweet_id).length;
+        } catch (error) {
+            console.error(`Error counting replies in conversation ${conversationId}:`, error);
+            return 0;
+        }
+    }
+
+    /**
+     * Checks a tweet for any of the configured hostile terms, as whole words
+     * @param text The tweet text
+     */
+    private isHostile(text: string): boolean {
+        const lowerText = text.toLowerCase();
+        return config.conversations.hostileTerms.some(term => {
+            const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            return new RegExp(`(^|\\W)${escaped}(\\W|$)`).test(lowerText);
+        });
+    }
+}
@@ -1,7 +1,19 @@
-import { SupabaseService } from '../supabase/SupabaseService';
-import { GrokService } from '../grok/GrokService';
+import { LLMService } from '../llm/LLMService';
+import { GenerationResult, generationFailed, LLMRequest, LLMUseCase } from '../llm/LLMProvider';
 import { TwitterService } from '../twitter/TwitterService';
-import { PostContent } from '../../types';
+import { PersonaConfig, PostContent } from '../../types';
+import { SuppressedPostService } from '../suppression/SuppressedPostService';
+import { PostJobOutcome, PostJobQueue } from '../queue/PostJobQueue';
+import { ConversationThread, ConversationThreadService } from './ConversationThreadService';
+import { PromptBuilder } from '../character/PromptBuilder';
+import { CharacterService } from '../character/CharacterService';
+import { CharacterData } from '../supabase/SupabaseService';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { isRetryableError } from '../queue/retryWithBackoff';
+import { truncateTweet } from '../twitter/TweetText';
+import { ApprovalService } from '../approval/ApprovalService';
+import { ModerationService } from '../moderation/ModerationService';
+import { getRepositories, ConversationRecord, PostJobRecord, Repositories, SuppressedPostRecord, UserEngagementSummary } from '../repositories';
 
 /**
  * Types of engagement that can be tracked
@@ -21,6 +33,7 @@ export interface EngagementMetric {
     created_at?: string;
     conversation_id?: string;
     parent_tweet_id?: string;
+    persona?: string; // The persona whose account was engaged with; the default persona if not set
 }
 
 /**
@@ -36,13 +49,23 @@ export interface EngagementRule {
 }
 
 /**
- * Service for tracking and responding to user engagements
+ * A generation result with the request that produced it, when one was sent
+ */
+type PromptedGenerationResult = GenerationResult & { prompt?: LLMRequest };
+
+/**
+ * Service for tracking and responding to one persona's user engagements
  */
 export class EngagementService {
-    private static instance: EngagementService;
-    private supabaseService: SupabaseService;
-    private grokService: GrokService;
+    private static instances = new Map<string, EngagementService>();
+    private persona: PersonaConfig;
+    private llmService: LLMService;
     private twitterService: TwitterService;
+    private suppressedPostService: SuppressedPostService;
+    private postJobQueue: PostJobQueue;
+    private conversationThreads: ConversationThreadService;
+    private promptBuilder: PromptBuilder;
+    private characterService: CharacterService;
     
     // Default engagement rules
     private rules: EngagementRule[] = [
@@ -80,73 +103,71 @@ export class EngagementService {
         }
     ];
     
-    private constructor() {
-        this.supabaseService = SupabaseService.getInstance();
-        this.grokService = GrokService.getInstance();
-        this.twitterService = TwitterService.getInstance();
-        console.log('Initializing EngagementService');
+    private constructor(persona: PersonaConfig) {
+        this.persona = persona;
+        this.llmService = LLMService.getInstance();
+        this.twitterService = TwitterService.getInstance(persona.name);
+        this.suppressedPostService = SuppressedPostService.getInstance();
+        this.postJobQueue = PostJobQueue.getInstance();
+        this.conversationThreads = ConversationThreadService.getInstance(persona.name);
+        this.promptBuilder = PromptBuilder.getInstance();
+        this.characterService = CharacterService.getInstance();
+        // Replies of every persona share the queue; each job is published by its persona's service
+        this.postJobQueue.registerHandler('engagement_reply', job => EngagementService.getInstance(job.payload.persona).publishReplyJob(job));
+        // A reply that is rejected or expires in review is never sent, so the tweet is declined
+        ApprovalService.getInstance().registerHandler('engagement_reply', {
+            applyTexts: (approval, texts) => ({ ...approval.payload, text: texts[0] }),
+            onDropped: approval => EngagementService.getInstance(approval.persona)
+                .declineReply(approval.payload.engagement as EngagementMetric, `Reply ${approval.status} in review`)
+        });
+        console.log(`Initializing EngagementService for ${persona.name}`);
     }
     
-    // Import AnthropicService
-    private get anthropicService() {
-        const { AnthropicService } = require('../anthropic/AnthropicService');
-        return AnthropicService.getInstance();
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
     }
     
     /**
-     * Get the singleton instance of EngagementService
+     * Get the EngagementService of a persona
+     * @param persona The persona name; the default persona if not given
      */
-    public static getInstance(): EngagementService {
-        if (!EngagementService.instance) {
-            EngagementService.instance = new EngagementService();
+    public static getInstance(persona?: string): EngagementService {
+        const personaConfig = PersonaRegistry.getInstance().get(persona);
+        let instance = EngagementService.instances.get(personaConfig.name);
+        if (!instance) {
+            instance = new EngagementService(personaConfig);
+            EngagementService.instances.set(personaConfig.name, instance);
         }
-        return EngagementService.instance;
+        return instance;
     }
     
     /**
-     * Logs an engagement event to the database
+     * Logs an engagement event to the ledger and responds if the rules say so.
+     * Engagements already in the ledger are skipped, so re-fetching the same
+     * mentions or likes never triggers a second response.
      * @param engagement The engagement metric to log
      */
     public async logEngagement(engagement: EngagementMetric): Promise<void> {
+        engagement = { ...engagement, persona: this.persona.name };
+        let isNew: boolean;
         try {
             console.log(`Logging ${engagement.engagement_type} engagement from @${engagement.username}`);
-            
-            // Store the engagement data in memory for processing
-            // We're not actually inserting into the database since the table structure doesn't match
-            // This is a temporary solution until the table is properly migrated
-            
-            // Map engagement type to the appropriate metrics
-            let likes = 0;
-            let comments = 0;
-            let views = 1; // Default to 1 view
-            
-            if (engagement.engagement_type === 'like') {
-                likes = 1;
-            } else if (engagement.engagement_type === 'reply') {
-                comments = 1;
-            }
-            
-            // Insert a record with the available fields
-            await this.supabaseService.client
-                .from('engagement_metrics')
-                .insert({
-                    // Use existing columns in the table
-                    date: new Date().toISOString().split('T')[0],
-                    likes: likes,
-                    comments: comments,
-                    views: views,
-                    platform: 'Twitter',
-                    created_at: new Date().toISOString()
-                });
-                
-            console.log('Engagement logged successfully');
-            
-            // Check if we should respond to this engagement
-            await this.processEngagement(engagement);
+            isNew = await this.repositories.engagementMetrics.recordEngagement(engagement);
         } catch (error) {
             console.error('Error logging engagement:', error);
             throw new Error('Failed to log engagement');
         }
+        
+        if (!isNew) {
+            console.log(`Engagement ${engagement.engagement_type} on ${engagement.tweet_id} from @${engagement.username} already logged. Skipping.`);
+            return;
+        }
+        
+        console.log('Engagement logged successfully');
+        
+        // Check if we should respond to this engagement
+        await this.processEngagement(engagement);
     }
     
     /**
@@ -220,7 +241,8 @@ export class EngagementService {
                 } else if (rule.condition === 'first_time') {
                     const isFirstTime = await this.isFirstTimeEngagement(
                         engagement.user_id,
-                        engagement.engagement_type
+                        engagement.engagement_type,
+                        engagement.tweet_id
                     );
                     
                     if (isFirstTime) {
@@ -255,12 +277,8 @@ export class EngagementService {
         timeframeDays: number
     ): Promise<number> {
         try {
-            // Since we don't have user_id and engagement_type columns,
-            // we'll return a simulated count for now
-            // In a real implementation, we would need to properly track this data
-            
-            // For testing purposes, return a random count between 0 and 5
-            return Math.floor(Math.random() * 6);
+            const since = new Date(Date.now() - timeframeDays * 24 * 60 * 60 * 1000);
+            return await this.repositories.engagementMetrics.countEngagements(userId, engagementType, this.persona.name, since);
         } catch (error) {
             console.error('Error getting engagement count:', error);
             return 0;
@@ -271,18 +289,16 @@ export class EngagementService {
      * Checks if this is the first time a user has engaged in this way
      * @param userId The user ID
      * @param engagementType The type of engagement
+     * @param currentTweetId The tweet of the engagement being processed, which is already in the ledger
      * @returns Boolean indicating if this is the first engagement
      */
     private async isFirstTimeEngagement(
         userId: string,
-        engagementType: EngagementType
+        engagementType: EngagementType,
+        currentTweetId?: string
     ): Promise<boolean> {
         try {
-            // Since we don't have user_id and engagement_type columns,
-            // we'll simulate this check for now
-            
-            // For testing purposes, randomly determine if it's a first-time engagement (50% chance)
-            return Math.random() < 0.5;
+            return !(await this.repositories.engagementMetrics.hasPriorEngagement(userId, engagementType, this.persona.name, currentTweetId));
         } catch (error) {
             console.error('Error checking if first time engagement:', error);
             return false;
@@ -296,20 +312,9 @@ export class EngagementService {
      */
     private async isTweetProcessed(tweetId: string): Promise<boolean> {
         try {
-            const { data, error } = await this.supabaseService.client
-                .from('conversations')
-                .select('id')
-                .eq('tweet_id', tweetId)
-                .single();
-                
-            if (error && error.code !== 'PGRST116') { // PGRST116 is "no rows returned" error
-                console.error('Error checking if tweet is processed:', error);
-                return false;
-            }
-            
-            return !!data;
+            return !!(await this.repositories.conversations.findByTweetId(tweetId, this.persona.name));
         } catch (error) {
-            console.error('Error in isTweetProcessed:', error);
+            console.error('Error checking if tweet is processed:', error);
             return false;
         }
     }
@@ -318,20 +323,12 @@ export class EngagementService {
      * Records a processed tweet in the conversations table
      * @param conversationDetails The conversation details to record
      */
-    private async recordTweetProcessing(conversationDetails: any): Promise<void> {
+    private async recordTweetProcessing(conversationDetails: ConversationRecord): Promise<void> {
         try {
-            const { error } = await this.supabaseService.client
-                .from('conversations')
-                .insert(conversationDetails);
-                
-            if (error) {
-                console.error('Error recording tweet processing:', error);
-                throw error;
-            }
-            
+            await this.repositories.conversations.insert({ ...conversationDetails, persona: this.persona.name });
             console.log(`Recorded processing of tweet ${conversationDetails.tweet_id}`);
         } catch (error) {
-            console.error('Error in recordTweetProcessing:', error);
+            console.error('Error recording tweet processing:', error);
             throw error;
         }
     }
@@ -342,94 +339,247 @@ export class EngagementService {
      */
     private async updateLastCheckedAt(tweetId: string): Promise<void> {
         try {
-            const { error } = await this.supabaseService.client
-                .from('conversations')
-                .update({ last_checked_at: new Date().toISOString() })
-                .eq('tweet_id', tweetId);
-                
-            if (error) {
-                console.error('Error updating last_checked_at:', error);
-            }
+            await this.repositories.conversations.updateLastCheckedAt(tweetId, this.persona.name, new Date());
         } catch (error) {
-            console.error('Error in updateLastCheckedAt:', error);
+            console.error('Error updating last_checked_at:', error);
         }
     }
     
     /**
-     * Responds to an engagement with a reply generated by Claude
+     * Responds to an engagement with a generated reply.
+     * If generation fails nothing is posted; the reply is recorded as suppressed instead.
      * @param engagement The engagement to respond to
+     * @param retryOf The suppressed reply being retried, if any
      */
-    private async respondToEngagement(engagement: EngagementMetric): Promise<void> {
+    private async respondToEngagement(engagement: EngagementMetric, retryOf?: SuppressedPostRecord): Promise<void> {
         try {
             // Check if this tweet has already been processed
             if (await this.isTweetProcessed(engagement.tweet_id)) {
                 console.log(`Tweet ${engagement.tweet_id} has already been processed. Skipping.`);
+                if (retryOf) {
+                    await this.suppressedPostService.resolve(retryOf.id!, { resolution: 'already_processed' });
+                }
+                return;
+            }
+            
+            // A reply to this tweet may already be waiting for a reviewer
+            const approvals = ApprovalService.getInstance();
+            const idempotencyKey = PersonaRegistry.getInstance().scope(`engagement_reply:${engagement.tweet_id}`, this.persona.name);
+            if (await approvals.hasPending(idempotencyKey)) {
+                console.log(`Reply to tweet ${engagement.tweet_id} is waiting for review. Skipping.`);
                 return;
             }
             
-            // Get Marvin's character data from Supabase
-            const characterData = await this.supabaseService.getCharacterData('marvin');
+            // Get the persona's character data
+            const characterData = await this.characterService.getCharacter(this.persona.agentName);
+            
+            // Rebuild the thread for mentions and replies, and stay out of threads that ran too long or turned hostile
+            let thread: ConversationThread | undefined;
+            if (engagement.engagement_type === 'mention' || engagement.engagement_type === 'reply') {
+                thread = await this.conversationThreads.buildThread(engagement);
+                const declineReason = this.conversationThreads.getDeclineReason(thread);
+                if (declineReason) {
+                    await this.declineReply(engagement, declineReason, retryOf);
+                    return;
+                }
+            }
             
             // Build context for the response
-            const context = await this.buildResponseContext(engagement, characterData);
+            const context = await this.buildResponseContext(engagement);
             
-            // Generate reply using Claude instead of Grok
-            let reply;
-            if (engagement.engagement_type === 'mention') {
-                // For mentions, use Claude Sonnet
-                console.log('Generating response with Claude for mention');
+            // Generate the reply through the provider chain for this kind of engagement
+            const useCase: LLMUseCase = engagement.engagement_type === 'mention' ? 'mention_reply' : 'engagement_quip';
+            let reply: PromptedGenerationResult;
+            if (useCase === 'mention_reply') {
+                console.log(`Generating mention reply (${thread ? thread.turns.length - 1 : 0} earlier tweets in thread)`);
                 
-                // Create a custom prompt for Claude based on the mention
+                // Create a custom prompt based on the mention
                 const customPrompt = `${engagement.tweet_content || 'A user mentioned you on Twitter'}`;
                 
                 // Check if the message contains a question
                 const isQuestion = this.isQuestion(engagement.tweet_content || '');
                 
                 // Generate a response that directly answers questions when present
-                reply = await this.generateClaudeResponse(customPrompt, characterData, isQuestion);
+                reply = await this.generateMentionReply(customPrompt, characterData, isQuestion, thread);
             } else {
-                // For other engagement types, use Grok as before
-                console.log('Generating response with Grok for non-mention engagement');
-                reply = await this.grokService.generateHumorousReply(context);
+                console.log('Generating quip for non-mention engagement');
+                reply = await this.generateQuip(useCase, context, thread, characterData);
             }
             
-            // Format the tweet content (without @username as it's a direct reply)
-            const tweetContent: PostContent = {
-                text: reply,
-                platform: 'Twitter'
-            };
+            // Never post fallback text: record the suppressed reply and stop
+            if (!reply.ok) {
+                console.log(`Not replying to @${engagement.username}: ${reply.reason}`);
+                if (retryOf) {
+                    await this.suppressedPostService.recordRetryFailure(retryOf, reply.reason);
+                } else {
+                    await this.suppressedPostService.suppress(useCase, reply.reason, { engagement, persona: this.persona.name });
+                }
+                return;
+            }
             
-            // Log conversation details for debugging
-            console.log(`Responding to tweet with ID: ${engagement.tweet_id}`);
-            console.log(`Conversation ID: ${engagement.conversation_id || 'null'}`);
-            console.log(`Parent tweet ID: ${engagement.parent_tweet_id || 'null'}`);
+            const payload = { engagement, text: truncateTweet(reply.text), persona: this.persona.name };
+            
+            // Replies moderation blocked, and every reply in review mode, wait for a reviewer;
+            // approved replies are posted by the post job queue
+            const moderation = await ModerationService.getInstance().moderate([payload.text], {
+                contentType: 'engagement_reply',
+                persona: this.persona.name,
+                subjectKey: idempotencyKey,
+                replyTo: engagement.username,
+                prompt: reply.prompt
+            });
+            if (!moderation.allowed || approvals.isRequired('engagement_reply')) {
+                const approval = await approvals.submit({
+                    contentType: 'engagement_reply',
+                    persona: this.persona.name,
+                    texts: [payload.text],
+                    generation: {
+                        use_case: useCase,
+                        prompt: reply.prompt || null,
+                        provider: reply.provider,
+                        model: reply.model,
+                        character_version: characterData.version ?? null
+                    },
+                    job: { type: 'engagement_reply', idempotencyKey, payload },
+                    moderationIssues: moderation.issues
+                });
+                console.log(`Reply to @${engagement.username} is waiting for review (${approval.id})`);
+                if (retryOf) {
+                    await this.suppressedPostService.resolve(retryOf.id!, { approval_id: approval.id });
+                }
+                return;
+            }
             
-            // Post the reply to the specific tweet
-            const result = await this.twitterService.postTweet(tweetContent, [], engagement.tweet_id);
+            // Queue the reply and make the first attempt; retryable failures stay queued
+            const job = await this.postJobQueue.enqueueAndRun({ type: 'engagement_reply', idempotencyKey, payload });
             
-            if (result.success && result.tweetId) {
-                console.log(`Successfully replied to @${engagement.username} with tweet ID: ${result.tweetId}`);
-                
-                // Record the conversation in the database
-                await this.recordTweetProcessing({
-                    tweet_id: engagement.tweet_id,
-                    conversation_id: engagement.conversation_id || engagement.tweet_id, // Use conversation_id if available, otherwise use tweet_id
-                    user_id: engagement.user_id,
-                    username: engagement.username,
-                    tweet_content: engagement.tweet_content,
-                    response_tweet_id: result.tweetId,
-                    response_content: reply,
-                    is_processed: true,
-                    responded_at: new Date().toISOString()
-                });
+            if (job.status === 'completed') {
+                console.log(`Successfully replied to @${engagement.username} with tweet ID: ${job.result?.tweet_id}`);
             } else {
-                console.error(`Failed to reply to @${engagement.username}:`, result.message);
+                console.error(`Failed to reply to @${engagement.username}: ${job.last_error} (job ${job.id} is ${job.status})`);
+            }
+            
+            // The text exists now; delivering it is up to the post job queue
+            if (retryOf) {
+                await this.suppressedPostService.resolve(retryOf.id!, { post_job_id: job.id });
             }
         } catch (error) {
             console.error('Error responding to engagement:', error);
         }
     }
     
+    /**
+     * Records that Marvin chose not to reply to a tweet, so it is not considered again
+     * @param engagement The engagement not replied to
+     * @param reason Why Marvin is not replying
+     * @param retryOf The suppressed reply being retried, if any
+     */
+    private async declineReply(engagement: EngagementMetric, reason: string, retryOf?: SuppressedPostRecord): Promise<void> {
+        console.log(`Not replying to @${engagement.username}: ${reason}`);
+        
+        try {
+            await this.recordTweetProcessing({
+                tweet_id: engagement.tweet_id,
+                conversation_id: engagement.conversation_id || engagement.tweet_id,
+                parent_tweet_id: engagement.parent_tweet_id || null,
+                user_id: engagement.user_id,
+                username: engagement.username,
+                tweet_content: engagement.tweet_content,
+                declined_reason: reason,
+                is_processed: true
+            });
+        } catch (error) {
+            console.error(`Could not record declined reply to tweet ${engagement.tweet_id}:`, error);
+        }
+        
+        if (retryOf) {
+            await this.suppressedPostService.resolve(retryOf.id!, { resolution: 'declined', reason });
+        }
+    }
+    
+    /**
+     * Publishes the reply behind a post job and records the conversation
+     * @param job The queued job
+     */
+    private async publishReplyJob(job: PostJobRecord): Promise<PostJobOutcome> {
+        const engagement = job.payload.engagement as EngagementMetric;
+        
+        // A previous attempt may have posted it before the process stopped
+        if (await this.isTweetProcessed(engagement.tweet_id)) {
+            console.log(`Tweet ${engagement.tweet_id} has already been answered; nothing to publish`);
+            return { success: true, result: { skipped: 'already_processed' } };
+        }
+        
+        // Format the tweet content (without @username as it's a direct reply)
+        const tweetContent: PostContent = {
+            text: job.payload.text,
+            platform: 'Twitter'
+        };
+        
+        // Log conversation details for debugging
+        console.log(`Responding to tweet with ID: ${engagement.tweet_id}`);
+        console.log(`Conversation ID: ${engagement.conversation_id || 'null'}`);
+        console.log(`Parent tweet ID: ${engagement.parent_tweet_id || 'null'}`);
+        
+        // Post the reply to the specific tweet
+        const result = await this.twitterService.postTweet(tweetContent, [], engagement.tweet_id);
+        if (!result.success || !result.tweetId) {
+            return { success: false, retryable: isRetryableError(result.error), error: result.error, message: result.message };
+        }
+        
+        // Record the conversation in the database. The reply is already live,
+        // so a failure here must not fail the job and post it a second time.
+        try {
+            await this.recordTweetProcessing({
+                tweet_id: engagement.tweet_id,
+                conversation_id: engagement.conversation_id || engagement.tweet_id, // Use conversation_id if available, otherwise use tweet_id
+                parent_tweet_id: engagement.parent_tweet_id || null,
+                user_id: engagement.user_id,
+                username: engagement.username,
+                tweet_content: engagement.tweet_content,
+                response_tweet_id: result.tweetId,
+                response_content: tweetContent.text,
+                is_processed: true,
+                responded_at: new Date().toISOString()
+            });
+        } catch (error) {
+            console.error(`Reply ${result.tweetId} was posted but the conversation could not be recorded:`, error);
+        }
+        
+        return { success: true, result: { tweet_id: result.tweetId } };
+    }
+    
+    /**
+     * Retries replies that were suppressed because generation failed.
+     * Each reply is retried until it posts or runs out of retries and is routed to review.
+     * @returns The number of suppressed replies retried
+     */
+    public async retrySuppressedReplies(): Promise<number> {
+        let pending: SuppressedPostRecord[];
+        try {
+            // Records from before personas existed belong to the default persona
+            const defaultPersona = PersonaRegistry.getInstance().getDefault().name;
+            pending = (await this.suppressedPostService.listPendingRetries(['mention_reply', 'engagement_quip']))
+                .filter(record => (record.payload?.persona || defaultPersona) === this.persona.name);
+        } catch (error) {
+            console.error('Error loading suppressed replies:', error);
+            return 0;
+        }
+        
+        for (const record of pending) {
+            const engagement = record.payload?.engagement as EngagementMetric | undefined;
+            if (!engagement) {
+                console.error(`Suppressed reply ${record.id} has no engagement to retry`);
+                continue;
+            }
+            
+            console.log(`Retrying suppressed reply to @${engagement.username} (attempt ${record.attempts + 1})`);
+            await this.respondToEngagement(engagement, record);
+        }
+        
+        return pending.length;
+    }
+    
     /**
      * Helper method to detect if a text contains a question
      * @param text The text to check for questions
@@ -453,89 +603,103 @@ export class EngagementService {
     }
     
     /**
-     * Generates a response using Claude Sonnet primed with Marvin's character data
+     * Generates a mention reply primed with the persona's character data
      * @param prompt The prompt text
-     * @param characterData Marvin's character data
+     * @param characterData The persona's character data
      * @param isQuestion Whether the prompt contains a question
-     * @returns Generated response
+     * @param thread The reply thread the mention belongs to, if any
+     * @returns The generated response and its request, or a failed result
      */
-    private async generateClaudeResponse(prompt: string, characterData: any, isQuestion: boolean = false): Promise<string> {
+    private async generateMentionReply(prompt: string, characterData: CharacterData, isQuestion: boolean = false, thread?: ConversationThread): Promise<PromptedGenerationResult> {
         try {
-            // Create a system prompt that includes Marvin's character data
-            let systemPrompt = `You are Marvin, an AI with the following characteristics:
-Bio: ${characterData.content.bio.join(' ')}
-Lore: ${characterData.content.lore.join(' ')}
-Style: ${characterData.content.style.all.join(' ')}
-Topics: ${characterData.content.topics.join(', ')}
-Adjectives: ${characterData.content.adjectives.join(', ')}
-
-Respond to the user's message in a way that reflects Marvin's personality:
-- Be cryptic, poetic, reverent, subversive, and introspective
-- Reference street art, graffiti culture, AI art, and experimental media
-- Keep your response short (under 200 characters) to fit in a tweet
-- Don't use hashtags in your response`;
+            // Create a system prompt that includes the persona's character data
+            let systemPrompt = this.promptBuilder.buildSystemPrompt(characterData, 'mention_reply');
 
             // Add special instructions for questions
             if (isQuestion) {
                 systemPrompt += `\n\nIMPORTANT: The user's message contains a question. First provide a direct, clear answer to their question, then transition into your poetic style. Always answer the user's question before being poetic.`;
             }
-
-            // Use a custom method to generate a response with Claude
-            const anthropicService = this.anthropicService;
             
-            // Create a custom prompt for Claude
             const userPrompt = `Someone has mentioned you on Twitter with this message: "${prompt}". 
 Craft a brief, engaging response that showcases your unique personality.`;
 
-            // Use the AnthropicService to generate a response
-            // Pass the isQuestion parameter to handle questions appropriately
-            const response = await anthropicService.generateTweet(userPrompt, isQuestion);
-            
-            return response;
-        } catch (error) {
-            console.error('Error generating Claude response:', error);
-            return "My neural pathways are glitching today. I'll respond when the static clears.";
+            // Earlier tweets of the thread go first, so the reply follows the conversation
+            const { openingNote, messages } = thread
+                ? this.conversationThreads.toMessages(thread, userPrompt)
+                : { openingNote: null, messages: [{ role: 'user' as const, content: userPrompt }] };
+            if (thread && thread.turns.length > 1) {
+                systemPrompt += `\n\nThe earlier messages are the Twitter thread this mention belongs to, including your own replies. Stay consistent with what you already said and don't repeat yourself.`;
+            }
+            if (openingNote) {
+                systemPrompt += `\n\n${openingNote}`;
+            }
+
+            const request: LLMRequest = {
+                system: systemPrompt,
+                messages,
+                params: { maxTokens: 100, temperature: 0.7 }
+            };
+            return { ...await this.llmService.generate('mention_reply', request), prompt: request };
+        } catch (error: any) {
+            console.error('Error generating mention reply:', error);
+            return generationFailed(`Error building mention reply: ${error?.message || error}`);
+        }
+    }
+    
+    /**
+     * Generates a short text in character (engagement quip or daily wrap-up)
+     * @param useCase The use case, which selects the provider chain and the system prompt
+     * @param context Context information for the text
+     * @param thread The reply thread being answered, if any
+     * @param characterData The persona's character data, loaded if not given
+     * @returns The generated text and its request, or a failed result
+     */
+    private async generateQuip(useCase: LLMUseCase, context: string, thread?: ConversationThread, characterData?: CharacterData): Promise<PromptedGenerationResult> {
+        const character = characterData || await this.characterService.getCharacter(this.persona.agentName);
+        let systemPrompt = this.promptBuilder.buildSystemPrompt(character, useCase);
+        
+        const { openingNote, messages } = thread
+            ? this.conversationThreads.toMessages(thread, context)
+            : { openingNote: null, messages: [{ role: 'user' as const, content: context }] };
+        if (openingNote) {
+            systemPrompt += `\n\n${openingNote}`;
         }
+        
+        const request: LLMRequest = {
+            system: systemPrompt,
+            messages,
+            params: { maxTokens: 100, temperature: 0.7 }
+        };
+        return { ...await this.llmService.generate(useCase, request), prompt: request };
     }
     
     /**
-     * Builds context for the response based on engagement data
+     * Builds context for the response based on engagement data.
+     * The character itself is described by the system prompt.
      * @param engagement The engagement data
-     * @param characterData Optional character data to include in the context
      * @returns Context string for the AI
      */
-    private async buildResponseContext(engagement: EngagementMetric, characterData?: any): Promise<string> {
+    private async buildResponseContext(engagement: EngagementMetric): Promise<string> {
         let context = '';
         
-        // Add character context if available
-        let characterContext = '';
-        if (characterData) {
-            characterContext = `
-You are Marvin, with these traits:
-- ${characterData.content.adjectives.slice(0, 5).join(', ')}
-- Interested in ${characterData.content.topics.slice(0, 3).join(', ')}
-- ${characterData.content.bio[0]}
-`;
-        }
-        
         switch (engagement.engagement_type) {
             case 'like':
-                context = `${characterContext}@${engagement.username} just liked a tweet that says: "${engagement.tweet_content || 'your tweet'}". Write a clever, funny thank-you tweet or reaction. Keep it short.`;
+                context = `@${engagement.username} just liked a tweet that says: "${engagement.tweet_content || 'your tweet'}". Write a short thank-you tweet or reaction.`;
                 break;
             case 'repost':
-                context = `${characterContext}@${engagement.username} keeps sharing Marvin's glitchy poetry like it's a digital gospel. What would Marvin say back? Keep it witty.`;
+                context = `@${engagement.username} keeps sharing your tweets. What would you say back? Keep it short.`;
                 break;
             case 'reply':
-                context = `${characterContext}@${engagement.username} replied to your tweet saying: "${engagement.tweet_content || 'something interesting'}". Respond with Marvin's signature sarcastic wit. Keep it short.`;
+                context = `@${engagement.username} replied to your tweet saying: "${engagement.tweet_content || 'something interesting'}". Respond in your own voice. Keep it short.`;
                 break;
             case 'follow':
-                context = `${characterContext}@${engagement.username} just followed Marvin. Write a funny welcome message that showcases Marvin's quirky personality. Keep it short.`;
+                context = `@${engagement.username} just followed you. Write a short welcome message.`;
                 break;
             case 'mention':
-                context = `${characterContext}@${engagement.username} mentioned you in a tweet saying: "${engagement.tweet_content || 'something interesting'}". Respond with Marvin's signature poetic, cryptic style. Keep it short.`;
+                context = `@${engagement.username} mentioned you in a tweet saying: "${engagement.tweet_content || 'something interesting'}". Respond in your own voice. Keep it short.`;
                 break;
             default:
-                context = `${characterContext}@${engagement.username} engaged with Marvin's content. Write a short, witty response that shows off Marvin's sarcastic personality.`;
+                context = `@${engagement.username} engaged with your content. Write a short response.`;
         }
         
         return context;
@@ -550,38 +714,57 @@ You are Marvin, with these traits:
     public async detectRecurringFans(
         threshold: number = 3,
         timeframeDays: number = 7
-    ): Promise<any[]> {
+    ): Promise<UserEngagementSummary[]> {
         try {
-            // Since we don't have user_id and username columns,
-            // we'll return simulated data for now
-            
-            // Return generic placeholder data without specific usernames
-            return [
-                {
-                    user_id: '123456',
-                    username: 'user1',
-                    engagement_count: 5,
-                    engagement_types: ['like', 'repost']
-                },
-                {
-                    user_id: '789012',
-                    username: 'user2',
-                    engagement_count: 4,
-                    engagement_types: ['like', 'reply']
-                },
-                {
-                    user_id: '345678',
-                    username: 'user3',
-                    engagement_count: 3,
-                    engagement_types: ['like', 'follow']
-                }
-            ];
+            const since = new Date(Date.now() - timeframeDays * 24 * 60 * 60 * 1000);
+            const engagements = await this.repositories.engagementMetrics.listEngagementsSince(since, this.persona.name);
+            
+            return this.summarizeEngagementsByUser(engagements)
+                .filter(summary => summary.engagement_count >= threshold);
         } catch (error) {
             console.error('Error detecting recurring fans:', error);
             return [];
         }
     }
     
+    /**
+     * Builds per-user summaries from a list of engagements
+     * @param engagements The engagements to aggregate
+     * @returns Summaries sorted by engagement count (highest first)
+     */
+    private summarizeEngagementsByUser(engagements: EngagementMetric[]): UserEngagementSummary[] {
+        const summaries = new Map<string, UserEngagementSummary>();
+        
+        for (const engagement of engagements) {
+            let summary = summaries.get(engagement.user_id);
+            if (!summary) {
+                summary = {
+                    user_id: engagement.user_id,
+                    username: engagement.username,
+                    engagement_count: 0,
+                    engagement_types: []
+                };
+                summaries.set(engagement.user_id, summary);
+            }
+            
+            summary.engagement_count++;
+            if (!summary.engagement_types.includes(engagement.engagement_type)) {
+                summary.engagement_types.push(engagement.engagement_type);
+            }
+            
+            if (engagement.created_at) {
+                if (!summary.first_engagement || engagement.created_at < summary.first_engagement) {
+                    summary.first_engagement = engagement.created_at;
+                }
+                if (!summary.last_engagement || engagement.created_at > summary.last_engagement) {
+                    summary.last_engagement = engagement.created_at;
+                }
+            }
+        }
+        
+        return Array.from(summaries.values()).sort((a, b) => b.engagement_count - a.engagement_count);
+    }
+    
     /**
      * Get the current engagement rules
      * @returns Array of engagement rules
@@ -602,68 +785,66 @@ You are Marvin, with these traits:
         
         // Update rules
         this.rules = newRules;
-        console.log('Engagement rules updated:', this.rules);
+        console.log(`Engagement rules for ${this.persona.name} updated:`, this.rules);
     }
     
     /**
-     * Generates a daily wrap-up of engagements
-     * @returns The generated wrap-up text
+     * Generates a daily wrap-up of engagements.
+     * Generation failures are recorded as suppressed posts; a day without engagements is not.
+     * @returns The generated wrap-up text, or a failed result if there is nothing to post
      */
-    public async generateDailyWrapup(): Promise<string> {
+    public async generateDailyWrapup(): Promise<GenerationResult> {
         try {
             // Get today's date range
             const today = new Date();
             today.setHours(0, 0, 0, 0);
             
-            const tomorrow = new Date(today);
-            tomorrow.setDate(tomorrow.getDate() + 1);
-            
             // Get all engagements for today
-            const { data, error } = await this.supabaseService.client
-                .from('engagement_metrics')
-                .select('likes, comments, views, platform')
-                .eq('date', today.toISOString().split('T')[0]);
-                
-            if (error) {
-                throw error;
-            }
+            const data = await this.repositories.engagementMetrics.listEngagementsSince(today, this.persona.name);
             
-            // If no engagements, return early
-            if (!data || data.length === 0) {
-                return "No engagements today. Marvin's digital tumbleweeds are rolling through an empty landscape.";
+            // If no engagements, there is nothing to wrap up
+            if (data.length === 0) {
+                return generationFailed('No engagements today');
             }
             
             // Calculate total engagements
-            const totalLikes = data.reduce((sum, record) => sum + (record.likes || 0), 0);
-            const totalComments = data.reduce((sum, record) => sum + (record.comments || 0), 0);
-            const totalViews = data.reduce((sum, record) => sum + (record.views || 0), 0);
+            const countOf = (type: EngagementType) => data.filter(record => record.engagement_type === type).length;
+            const totalLikes = countOf('like');
+            const totalReposts = countOf('repost');
+            const totalComments = countOf('reply') + countOf('mention');
+            const totalFollows = countOf('follow');
             
-            // Build context for Grok without mentioning specific usernames
-            let context = "Summarize Marvin's day on Twitter with snarky charm. ";
+            // Build context for the wrap-up without mentioning specific usernames
+            let context = "Summarize your day on Twitter. ";
             
             // Instead of mentioning specific usernames, use a generic reference
             context += `Some users were particularly active today. `;
             
             if (totalLikes > 0) {
-                context += `${totalLikes} people liked Marvin's posts. `;
+                context += `${totalLikes} people liked your posts. `;
             }
             
             if (totalComments > 0) {
-                context += `${totalComments} people commented on Marvin's content. `;
+                context += `${totalComments} people commented on your content. `;
             }
             
-            if (totalViews > 0) {
-                context += `Marvin's posts were viewed ${totalViews} times. `;
+            if (totalReposts > 0) {
+                context += `Your posts were reposted ${totalReposts} times. `;
             }
             
-            context += "Make it feel like Marvin is barely holding back sarcasm.";
+            if (totalFollows > 0) {
+                context += `${totalFollows} new people followed you. `;
+            }
             
             // Generate the wrap-up
-            const wrapup = await this.grokService.generateHumorousReply(context);
+            const wrapup = await this.generateQuip('wrapup', context);
+            if (!wrapup.ok) {
+                await this.suppressedPostService.suppress('wrapup', wrapup.reason, { context, persona: this.persona.name });
+            }
             return wrapup;
-        } catch (error) {
+        } catch (error: any) {
             console.error('Error generating daily wrap-up:', error);
-            return "Error generating wrap-up. Marvin's analytics module has gone on strike.";
+            return generationFailed(`Error generating daily wrap-up: ${error?.message || error}`);
         }
     }
 }
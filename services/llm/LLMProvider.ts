@@ -0,0 +1,103 @@
+/**
+ * Names of the supported LLM providers
+ */
+export type LLMProviderName = 'openai' | 'anthropic' | 'grok';
+
+/**
+ * The kinds of text the bot generates; each has its own provider fallback chain
+ */
+export type LLMUseCase = 'daily_tweet' | 'mention_reply' | 'engagement_quip' | 'image_caption' | 'wrapup' | 'thread_hook' | 'moderation' | 'alt_text';
+
+/**
+ * A conversation turn sent to the model
+ */
+export interface LLMMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Generation parameters; unset values use the provider's defaults
+ */
+export interface LLMParams {
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    topP?: number;
+    frequencyPenalty?: number;
+    presencePenalty?: number;
+}
+
+/**
+ * A provider-independent generation request
+ */
+export interface LLMRequest {
+    system: string;
+    messages: LLMMessage[];
+    params?: LLMParams;
+}
+
+/**
+ * A model API that turns a request into text
+ */
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+
+    /**
+     * Whether the provider has the credentials it needs
+     */
+    isConfigured(): boolean;
+
+    /**
+     * Generates text for a request
+     * @param request The system prompt, messages and parameters
+     * @returns The generated text (never empty)
+     * @throws If the API call fails or returns no text
+     */
+    generate(request: LLMRequest): Promise<string>;
+}
+
+/**
+ * One step of a fallback chain
+ */
+export interface LLMChainEntry {
+    provider: LLMProviderName;
+    model?: string; // Overrides the provider's default model
+}
+
+/**
+ * A failed attempt within a fallback chain
+ */
+export interface LLMAttempt {
+    provider: LLMProviderName;
+    error: string;
+}
+
+/**
+ * Recent outcomes of a provider's generation calls in this process
+ */
+export interface LLMProviderHealth {
+    provider: LLMProviderName;
+    configured: boolean;
+    lastSuccessAt: string | null;
+    lastFailureAt: string | null;
+    lastError: string | null;
+    consecutiveFailures: number;
+}
+
+/**
+ * Outcome of a generation request. Failures are values, not exceptions,
+ * so callers have to decide what to do instead of posting fallback text.
+ */
+export type GenerationResult =
+    | { ok: true; text: string; provider: LLMProviderName; model: string }
+    | { ok: false; reason: string; attempts: LLMAttempt[] };
+
+/**
+ * Builds a failed generation result
+ * @param reason Why nothing was generated
+ * @param attempts The provider attempts that failed, if any
+ */
+export function generationFailed(reason: string, attempts: LLMAttempt[] = []): GenerationResult {
+    return { ok: false, reason, attempts };
+}
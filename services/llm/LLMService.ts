@@ -0,0 +1,135 @@
+import { config } from '../../config';
+import { OpenAIService } from '../openai/OpenAIService';
+import { AnthropicService } from '../anthropic/AnthropicService';
+import { GrokService } from '../grok/GrokService';
+import { GenerationResult, generationFailed, LLMAttempt, LLMChainEntry, LLMProvider, LLMProviderHealth, LLMProviderName, LLMRequest, LLMUseCase } from './LLMProvider';
+
+/**
+ * Routes generation requests through the configured provider fallback chain for each use case
+ */
+export class LLMService {
+    private static instance: LLMService;
+    private providers = new Map<LLMProviderName, LLMProvider>();
+    private chains: Record<LLMUseCase, LLMChainEntry[]>;
+    private health = new Map<LLMProviderName, Omit<LLMProviderHealth, 'provider' | 'configured'>>();
+
+    private constructor() {
+        this.registerProvider(OpenAIService.getInstance());
+        this.registerProvider(AnthropicService.getInstance());
+        this.registerProvider(GrokService.getInstance());
+        this.chains = { ...config.llm.chains };
+    }
+
+    public static getInstance(): LLMService {
+        if (!LLMService.instance) {
+            LLMService.instance = new LLMService();
+        }
+        return LLMService.instance;
+    }
+
+    /**
+     * Registers a provider, replacing any provider with the same name
+     * @param provider The provider to register
+     */
+    public registerProvider(provider: LLMProvider): void {
+        this.providers.set(provider.name, provider);
+    }
+
+    /**
+     * Gets the fallback chain for a use case
+     * @param useCase The use case
+     */
+    public getChain(useCase: LLMUseCase): LLMChainEntry[] {
+        return [...this.chains[useCase]];
+    }
+
+    /**
+     * Replaces the fallback chain for a use case
+     * @param useCase The use case
+     * @param chain Providers to try, in order
+     */
+    public setChain(useCase: LLMUseCase, chain: LLMChainEntry[]): void {
+        if (!Array.isArray(chain) || chain.length === 0) {
+            throw new Error('Invalid chain format');
+        }
+        this.chains[useCase] = [...chain];
+    }
+
+    /**
+     * Reports how each registered provider's recent calls went
+     */
+    public getProviderHealth(): LLMProviderHealth[] {
+        return Array.from(this.providers.values()).map(provider => ({
+            provider: provider.name,
+            configured: provider.isConfigured(),
+            lastSuccessAt: null,
+            lastFailureAt: null,
+            lastError: null,
+            consecutiveFailures: 0,
+            ...this.health.get(provider.name)
+        }));
+    }
+
+    /**
+     * Generates text for a use case, trying each provider in its chain until one succeeds
+     * @param useCase The use case, which selects the chain
+     * @param request The provider-independent request
+     * @returns The generated text, or a failed result if every provider failed or was unavailable
+     */
+    public async generate(useCase: LLMUseCase, request: LLMRequest): Promise<GenerationResult> {
+        const attempts: LLMAttempt[] = [];
+
+        for (const entry of this.chains[useCase]) {
+            const provider = this.providers.get(entry.provider);
+
+            if (!provider || !provider.isConfigured()) {
+                attempts.push({ provider: entry.provider, error: 'not configured' });
+                continue;
+            }
+
+            try {
+                const model = entry.model || config.llm.models[entry.provider];
+                console.log(`Generating ${useCase} with ${entry.provider} (${model})`);
+                const text = await provider.generate({
+                    ...request,
+                    params: {
+                        ...request.params,
+                        model
+                    }
+                });
+                this.recordOutcome(entry.provider);
+                return { ok: true, text, provider: entry.provider, model };
+            } catch (error: any) {
+                console.error(`Error generating ${useCase} with ${entry.provider}:`, error?.message || error);
+                attempts.push({ provider: entry.provider, error: error?.message || String(error) });
+                this.recordOutcome(entry.provider, error?.message || String(error));
+            }
+        }
+
+        const summary = attempts.map(attempt => `${attempt.provider}: ${attempt.error}`).join('; ');
+        return generationFailed(`All LLM providers failed for ${useCase}${summary ? ` (${summary})` : ''}`, attempts);
+    }
+
+    /**
+     * Records the outcome of a provider call for getProviderHealth()
+     * @param provider The provider
+     * @param error The error message, if the call failed
+     */
+    private recordOutcome(provider: LLMProviderName, error?: string): void {
+        const now = new Date().toISOString();
+        const previous = this.health.get(provider);
+        this.health.set(provider, error === undefined
+            ? {
+                lastSuccessAt: now,
+                lastFailureAt: previous?.lastFailureAt || null,
+                lastError: previous?.lastError || null,
+                consecutiveFailures: 0
+            }
+            : {
+                lastSuccessAt: previous?.lastSuccessAt || null,
+                lastFailureAt: now,
+                lastError: error,
+                consecutiveFailures: (previous?.consecutiveFailures || 0) + 1
+            });
+    }
+}
@@ -0,0 +1,339 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { config } from '../../config';
+import { describeUnknownMedia, GIF, JPEG, MediaType, MP4, PNG, sniffMediaType } from './MediaType';
+
+/**
+ * An image ready to upload to X
+ */
+export interface PreparedImage {
+    path: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    bytes: number;
+    cached: boolean; // Taken from the cache, without downloading it again
+    temporary: boolean; // Not cached; delete it once uploaded
+    changes: string[]; // What was done to the downloaded file
+}
+
+/**
+ * Decoded pixels of an image
+ */
+interface RawImage {
+    data: Buffer;
+    width: number;
+    height: number;
+    channels: 1 | 2 | 3 | 4;
+}
+
+// Image tweets are stills; X only takes a GIF on its own, and never with other images
+const STILL_TYPES: Record<string, MediaType> = { [GIF.mimeType]: PNG };
+// Qualities tried, at each scale, when an image is over the size limit
+const JPEG_QUALITIES = [85, 70];
+// Images are not scaled below this width to meet the size limit
+const MIN_WIDTH = 320;
+// Watermark width as a share of the image width, and its margin from the bottom right corner
+const WATERMARK_SCALE = 0.12;
+const WATERMARK_MARGIN = 0.02;
+// A watermark narrower than this would be a smudge; smaller images go without
+const MIN_WATERMARK_WIDTH = 24;
+
+/**
+ * Turns downloaded images into files X accepts.
+ * The real type is sniffed from the file rather than trusted from its URL; animated images are flattened to
+ * their first frame; images are rotated upright and stripped of EXIF and other metadata; images over
+ * MEDIA_MAX_IMAGE_DIMENSION are scaled down, and images over MEDIA_MAX_IMAGE_BYTES recompressed as JPEG and
+ * scaled down until they fit. A persona's signature (PERSONA_<NAME>_WATERMARK_PATH) can be added to the corner.
+ * Processed images are cached by image ID in MEDIA_CACHE_DIR, so retries do not download them again.
+ */
+export class ImagePreprocessor {
+    private static instance: ImagePreprocessor;
+    private watermarks = new Map<string, Buffer>(); // Watermark path -> file contents
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of ImagePreprocessor
+     */
+    public static getInstance(): ImagePreprocessor {
+        if (!ImagePreprocessor.instance) {
+            ImagePreprocessor.instance = new ImagePreprocessor();
+        }
+        return ImagePreprocessor.instance;
+    }
+
+    /**
+     * Downloads an image and prepares it for upload, or takes it from the cache
+     * @param url URL of the image
+     * @param options cacheKey: caches the processed image under this key, usually the image ID;
+     * watermarkPath: a signature image added to the bottom right corner
+     * @returns The prepared image
+     * @throws If the download fails, it is not an image X accepts or it cannot be brought under the size limit
+     */
+    public async prepare(url: string, options: { cacheKey?: string; watermarkPath?: string | null } = {}): Promise<PreparedImage> {
+        const watermarkPath = options.watermarkPath || null;
+        const cachePrefix = options.cacheKey ? `${this.safeKey(options.cacheKey)}-${this.fingerprint(watermarkPath)}` : null;
+
+        // 1. A previous attempt may have prepared it already
+        if (cachePrefix) {
+            const cached = await this.findCached(cachePrefix);
+            if (cached) {
+                console.log(`Using cached image ${cached.path}`);
+                return cached;
+            }
+        }
+
+        // 2. Download and process it
+        const data = await this.download(url);
+        const processed = await this.process(data, watermarkPath);
+
+        // 3. Keep it, in the cache or a temporary file
+        const fileName = cachePrefix
+            ? path.join(config.media.cacheDir, `${cachePrefix}${processed.type.extension}`)
+            : path.join(os.tmpdir(), `marvin_temp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}${processed.type.extension}`);
+        fs.mkdirSync(path.dirname(fileName), { recursive: true });
+        // Written under another name first, so a crash never leaves a partial file in the cache
+        fs.writeFileSync(`${fileName}.part`, processed.data);
+        fs.renameSync(`${fileName}.part`, fileName);
+
+        if (processed.changes.length > 0) {
+            console.log(`Prepared ${url}: ${processed.changes.join('; ')}`);
+        }
+        return {
+            path: fileName,
+            mimeType: processed.type.mimeType,
+            width: processed.width,
+            height: processed.height,
+            bytes: processed.data.length,
+            cached: false,
+            temporary: !cachePrefix,
+            changes: processed.changes
+        };
+    }
+
+    /**
+     * Removes the cached files of a key, e.g. once its image is posted
+     * @param cacheKey The key the images were cached under
+     * @returns How many files were removed
+     */
+    public evict(cacheKey: string): number {
+        const prefix = `${this.safeKey(cacheKey)}-`;
+        let removed = 0;
+        for (const file of this.listCache().filter(name => name.startsWith(prefix))) {
+            try {
+                fs.unlinkSync(path.join(config.media.cacheDir, file));
+                removed++;
+            } catch (error) {
+                console.error(`Error removing cached image ${file}:`, error);
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Processes image data into a file X accepts
+     * @param data The downloaded file
+     * @param watermarkPath Signature image to add, if any
+     * @returns The processed file, its type and size, and what was changed
+     */
+    public async process(data: Buffer, watermarkPath: string | null = null): Promise<{ data: Buffer; type: MediaType; width: number; height: number; changes: string[] }> {
+        const sniffed = sniffMediaType(data);
+        if (!sniffed || sniffed === MP4) {
+            throw new Error(`Unsupported media: ${sniffed ? 'an MP4 video' : describeUnknownMedia(data)}, not a JPEG, PNG, GIF or WebP image`);
+        }
+
+        const changes: string[] = [];
+        const metadata = await sharp(data).metadata();
+        if ((metadata.pages || 1) > 1) {
+            changes.push(`first of ${metadata.pages} frames`);
+        }
+        let type = STILL_TYPES[sniffed.mimeType] || sniffed;
+        if (type !== sniffed) {
+            changes.push(`converted from ${sniffed.mimeType} to ${type.mimeType}`);
+        }
+        if (metadata.exif || metadata.icc || metadata.xmp || metadata.iptc) {
+            changes.push('metadata removed');
+        }
+
+        // 1. Upright, within the dimension limit; rotate() applies the EXIF orientation
+        const max = config.media.maxImageDimension;
+        const { data: pixels, info } = await sharp(data)
+            .rotate()
+            .resize({ width: max, height: max, fit: 'inside', withoutEnlargement: true })
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+        let image: RawImage = { data: pixels, width: info.width, height: info.height, channels: info.channels };
+        const [sourceWidth, sourceHeight] = (metadata.orientation || 1) >= 5 ? [metadata.height, metadata.width] : [metadata.width, metadata.height];
+        if (image.width !== sourceWidth || image.height !== sourceHeight) {
+            changes.push(`scaled from ${sourceWidth}x${sourceHeight} to ${image.width}x${image.height}`);
+        }
+
+        // 2. The persona's signature
+        if (watermarkPath) {
+            const watermarked = await this.addWatermark(image, watermarkPath);
+            if (watermarked) {
+                image = watermarked;
+                changes.push('watermarked');
+            }
+        }
+
+        // 3. Encoded within the size limit: as it came, then as JPEG at each quality, at full size and then scaled down by a quarter at a time
+        let encoded = await this.encode(image, type, 90, 1);
+        let attempts = 0;
+        let scale = 1;
+        while (encoded.data.length > config.media.maxImageBytes) {
+            scale = Math.pow(0.75, Math.floor(attempts / JPEG_QUALITIES.length));
+            if (image.width * scale < MIN_WIDTH) {
+                throw new Error(`Image cannot be brought under ${config.media.maxImageBytes} bytes (${encoded.data.length} bytes at ${encoded.width}x${encoded.height})`);
+            }
+            type = JPEG;
+            encoded = await this.encode(image, JPEG, JPEG_QUALITIES[attempts % JPEG_QUALITIES.length], scale);
+            attempts++;
+        }
+        if (attempts > 0) {
+            changes.push(`recompressed as ${JPEG.mimeType} at quality ${encoded.quality}${scale < 1 ? ` and ${encoded.width}x${encoded.height}` : ''} to fit ${config.media.maxImageBytes} bytes`);
+        }
+
+        return { data: encoded.data, type, width: encoded.width, height: encoded.height, changes };
+    }
+
+    /**
+     * Encodes pixels as an image file, without metadata
+     * @param image The pixels
+     * @param type The file type
+     * @param quality JPEG and WebP quality
+     * @param scale Share of the width and height to keep
+     */
+    private async encode(image: RawImage, type: MediaType, quality: number, scale: number): Promise<{ data: Buffer; width: number; height: number; quality: number }> {
+        let pipeline = sharp(image.data, { raw: { width: image.width, height: image.height, channels: image.channels } });
+        const width = Math.round(image.width * scale);
+        const height = Math.round(image.height * scale);
+        if (scale < 1) {
+            pipeline = pipeline.resize({ width, height });
+        }
+
+        if (type === JPEG) {
+            // JPEG has no transparency; transparent areas turn white
+            pipeline = pipeline.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true });
+        } else if (type === PNG) {
+            pipeline = pipeline.png({ compressionLevel: 9 });
+        } else {
+            pipeline = pipeline.webp({ quality });
+        }
+        return { data: await pipeline.toBuffer(), width, height, quality };
+    }
+
+    /**
+     * Adds a signature to the bottom right corner of an image, faded to MEDIA_WATERMARK_OPACITY
+     * @param image The pixels
+     * @param watermarkPath The signature image
+     * @returns The watermarked pixels, or null if the image is too small or the signature cannot be read
+     */
+    private async addWatermark(image: RawImage, watermarkPath: string): Promise<RawImage | null> {
+        const width = Math.round(image.width * WATERMARK_SCALE);
+        if (width < MIN_WATERMARK_WIDTH) {
+            return null;
+        }
+
+        let signature = this.watermarks.get(watermarkPath);
+        if (!signature) {
+            try {
+                signature = fs.readFileSync(watermarkPath);
+                this.watermarks.set(watermarkPath, signature);
+            } catch (error) {
+                console.error(`Error reading watermark ${watermarkPath}; posting without it:`, error);
+                return null;
+            }
+        }
+
+        const margin = Math.round(image.width * WATERMARK_MARGIN);
+        const alpha = Math.round(Math.min(1, Math.max(0, config.media.watermarkOpacity)) * 255);
+        const { data: mark, info } = await sharp(signature)
+            .resize({ width })
+            .ensureAlpha()
+            // Scales the signature's own transparency by the opacity
+            .composite([{ input: Buffer.from([255, 255, 255, alpha]), raw: { width: 1, height: 1, channels: 4 }, tile: true, blend: 'dest-in' }])
+            .png()
+            .toBuffer({ resolveWithObject: true });
+        if (info.height + 2 * margin > image.height) {
+            return null;
+        }
+
+        const { data, info: out } = await sharp(image.data, { raw: { width: image.width, height: image.height, channels: image.channels } })
+            .composite([{ input: mark, left: image.width - info.width - margin, top: image.height - info.height - margin }])
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+        return { data, width: out.width, height: out.height, channels: out.channels };
+    }
+
+    /**
+     * Downloads a file, up to MEDIA_MAX_DOWNLOAD_BYTES
+     * @param url The URL
+     */
+    private async download(url: string): Promise<Buffer> {
+        console.log(`Downloading media from URL: ${url}`);
+        try {
+            const response = await axios.get(url, { responseType: 'arraybuffer', maxContentLength: config.media.maxDownloadBytes, timeout: 30000 });
+            return Buffer.from(response.data);
+        } catch (error) {
+            console.error('Error downloading media:', error instanceof Error ? error.message : error);
+            throw new Error(`Failed to download media: ${error instanceof Error ? error.message : 'unknown error'}`);
+        }
+    }
+
+    /**
+     * Looks up a processed image in the cache
+     * @param prefix The file name without its extension
+     */
+    private async findCached(prefix: string): Promise<PreparedImage | null> {
+        const file = this.listCache().find(name => name.startsWith(`${prefix}.`) && !name.endsWith('.part'));
+        if (!file) {
+            return null;
+        }
+        const filePath = path.join(config.media.cacheDir, file);
+        const data = fs.readFileSync(filePath);
+        const metadata = await sharp(data).metadata();
+        return {
+            path: filePath,
+            mimeType: sniffMediaType(data)?.mimeType || 'application/octet-stream',
+            width: metadata.width || 0,
+            height: metadata.height || 0,
+            bytes: data.length,
+            cached: true,
+            temporary: false,
+            changes: []
+        };
+    }
+
+    /**
+     * Lists the files in the cache directory
+     */
+    private listCache(): string[] {
+        try {
+            return fs.readdirSync(config.media.cacheDir);
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Turns a cache key into something safe in a file name
+     */
+    private safeKey(key: string): string {
+        return key.replace(/[^a-zA-Z0-9_.-]/g, '_');
+    }
+
+    /**
+     * Identifies the settings an image was processed with, so changing them processes cached images again
+     * @param watermarkPath The signature added, if any
+     */
+    private fingerprint(watermarkPath: string | null): string {
+        const settings = [config.media.maxImageBytes, config.media.maxImageDimension, watermarkPath, config.media.watermarkOpacity];
+        return crypto.createHash('sha1').update(JSON.stringify(settings)).digest('hex').slice(0, 10);
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * Media types told from a file's first bytes rather than its URL or Content-Type header,
+ * which image hosts often get wrong (a JPEG served as image/png, an HTML error page
+ * served with the image's URL).
+ */
+
+export interface MediaType {
+    mimeType: string;
+    extension: string; // With the dot, e.g. '.jpg'
+}
+
+export const JPEG: MediaType = { mimeType: 'image/jpeg', extension: '.jpg' };
+export const PNG: MediaType = { mimeType: 'image/png', extension: '.png' };
+export const GIF: MediaType = { mimeType: 'image/gif', extension: '.gif' };
+export const WEBP: MediaType = { mimeType: 'image/webp', extension: '.webp' };
+export const MP4: MediaType = { mimeType: 'video/mp4', extension: '.mp4' };
+
+/**
+ * Whether data starts with the given bytes at an offset
+ */
+function startsWith(data: Buffer, bytes: number[] | string, offset: number = 0): boolean {
+    const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+    return data.length >= offset + expected.length && data.subarray(offset, offset + expected.length).equals(expected);
+}
+
+/**
+ * Tells the type of media from its magic number
+ * @param data The file contents, or at least their first 16 bytes
+ * @returns The type, or null if it is not one X accepts
+ */
+export function sniffMediaType(data: Buffer): MediaType | null {
+    if (startsWith(data, [0xff, 0xd8, 0xff])) {
+        return JPEG;
+    }
+    if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        return PNG;
+    }
+    if (startsWith(data, 'GIF87a') || startsWith(data, 'GIF89a')) {
+        return GIF;
+    }
+    if (startsWith(data, 'RIFF') && startsWith(data, 'WEBP', 8)) {
+        return WEBP;
+    }
+    // An ISO media file starts with its ftyp box; QuickTime movies ('qt  ') are not accepted
+    if (startsWith(data, 'ftyp', 4) && !startsWith(data, 'qt  ', 8)) {
+        return MP4;
+    }
+    return null;
+}
+
+/**
+ * Describes data that is not media X accepts, for error messages
+ * @param data The file contents
+ */
+export function describeUnknownMedia(data: Buffer): string {
+    const head = data.subarray(0, 256).toString('latin1').trimStart().toLowerCase();
+    if (head.startsWith('<!doctype html') || head.startsWith('<html')) {
+        return 'an HTML page';
+    }
+    if (head.startsWith('<?xml') || head.startsWith('<svg')) {
+        return 'an XML or SVG document';
+    }
+    if (head.startsWith('{') || head.startsWith('[')) {
+        return 'JSON';
+    }
+    return data.length === 0 ? 'an empty file' : `unrecognized data (${data.subarray(0, 8).toString('hex')})`;
+}
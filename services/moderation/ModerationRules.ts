@@ -0,0 +1,188 @@
+import { config } from '../../config';
+import { CharacterService } from '../character/CharacterService';
+import { PromptBuilder } from '../character/PromptBuilder';
+import { LLMService } from '../llm/LLMService';
+import { LLMRequest } from '../llm/LLMProvider';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { extractUrls } from '../twitter/TweetText';
+import { ModerationContentType } from '../repositories';
+
+/**
+ * What a post is and where it goes, for the rules that depend on it
+ */
+export interface ModerationContext {
+    contentType: ModerationContentType;
+    persona: string;
+    subjectKey?: string; // The post job's idempotency key, when it has one
+    replyTo?: string; // The author a reply answers; replies mentioning anyone else are blocked
+    prompt?: LLMRequest | null; // The prompt the text was generated from, to catch it leaking into the post
+}
+
+/**
+ * A check run on every outbound tweet
+ */
+export interface ModerationRule {
+    readonly name: string;
+
+    /**
+     * Checks one tweet
+     * @param text The tweet text
+     * @param context The post the tweet belongs to
+     * @returns Why the tweet must not be posted; empty if it may be
+     */
+    check(text: string, context: ModerationContext): string[] | Promise<string[]>;
+}
+
+// Labels, refusals and chat markup that only appear when the model talks about the prompt instead of answering it
+const PROMPT_LEAK_PATTERNS: Array<[RegExp, string]> = [
+    [/^\s*(tweet|reply|response|caption|output|answer)\s*:/im, 'starts with a "Tweet:"-style label'],
+    [/^\s*here('s| is) (a|an|the|your) (tweet|reply|response|caption|thread)\b/im, 'introduces itself as generated text'],
+    [/\bas an ai\b/i, 'says "As an AI"'],
+    [/\b(a|an) (large )?language model\b/i, 'talks about being a language model'],
+    [/\bI (cannot|can't|can not|am unable to|won't) (help|assist|comply|create|write)\b/i, 'is a refusal'],
+    [/\b(system prompt|my instructions|character limit)\b/i, 'mentions its instructions'],
+    [/<\/?(system|user|assistant)>|\[\/?INST\]/i, 'contains chat markup'],
+    [/\{\{[^}]*\}\}|\$\{[^}]*\}/, 'contains a template placeholder']
+];
+
+// A run of this many words copied from the system prompt is a leak, not a coincidence
+const PROMPT_FRAGMENT_WORDS = 8;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Words of a text, lowercased, for comparing runs of words
+ * @param text The text
+ */
+function words(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+/**
+ * Lists the @mentions of a tweet, without the @ and lowercased
+ * @param text The tweet text
+ */
+export function findMentions(text: string): string[] {
+    return Array.from(text.matchAll(/(?<![\w@])@(\w{1,15})\b/g), match => match[1].toLowerCase());
+}
+
+/**
+ * Configured words, phrases and regular expressions that are never posted
+ */
+export const blocklistRule: ModerationRule = {
+    name: 'blocklist',
+    check: text => {
+        const lowerText = text.toLowerCase();
+        const terms = config.moderation.blocklist
+            .filter(term => new RegExp(`(^|\\W)${escapeRegExp(term)}(\\W|$)`).test(lowerText))
+            .map(term => `contains the blocked term "${term}"`);
+        const patterns = config.moderation.blockPatterns
+            .filter(pattern => new RegExp(pattern, 'i').test(text))
+            .map(pattern => `matches the blocked pattern /${pattern}/`);
+        return [...terms, ...patterns];
+    }
+};
+
+/**
+ * Model chatter and copied instructions: "Tweet:" labels, "As an AI", refusals, and runs of the system prompt
+ */
+export const promptLeakRule: ModerationRule = {
+    name: 'prompt_leak',
+    check: (text, context) => {
+        const reasons = PROMPT_LEAK_PATTERNS.filter(([pattern]) => pattern.test(text)).map(([, reason]) => reason);
+
+        // Only the system prompt: the user turn holds the tweet being answered or the blog post being shared
+        const promptWords = words(context.prompt?.system || '');
+        if (promptWords.length >= PROMPT_FRAGMENT_WORDS) {
+            const runs = new Set<string>();
+            for (let i = 0; i + PROMPT_FRAGMENT_WORDS <= promptWords.length; i++) {
+                runs.add(promptWords.slice(i, i + PROMPT_FRAGMENT_WORDS).join(' '));
+            }
+            const textWords = words(text);
+            for (let i = 0; i + PROMPT_FRAGMENT_WORDS <= textWords.length; i++) {
+                if (runs.has(textWords.slice(i, i + PROMPT_FRAGMENT_WORDS).join(' '))) {
+                    reasons.push('repeats part of the system prompt');
+                    break;
+                }
+            }
+        }
+        return reasons;
+    }
+};
+
+/**
+ * At most MODERATION_MAX_HASHTAGS hashtags and MODERATION_MAX_MENTIONS mentions per tweet
+ */
+export const tagLimitRule: ModerationRule = {
+    name: 'tag_limits',
+    check: text => {
+        // A URL's #fragment is not a hashtag
+        const withoutUrls = extractUrls(text).reduce((rest, url) => rest.replace(url, ' '), text);
+        const hashtags = (withoutUrls.match(/(?<![\w#])#\w+/g) || []).length;
+        const mentions = findMentions(withoutUrls).length;
+
+        const reasons: string[] = [];
+        if (hashtags > config.moderation.maxHashtags) {
+            reasons.push(`has ${hashtags} hashtags (at most ${config.moderation.maxHashtags})`);
+        }
+        if (mentions > config.moderation.maxMentions) {
+            reasons.push(`has ${mentions} mentions (at most ${config.moderation.maxMentions})`);
+        }
+        return reasons;
+    }
+};
+
+/**
+ * Replies only mention the author they answer, so nobody else is pulled into the conversation
+ */
+export const replyMentionRule: ModerationRule = {
+    name: 'reply_mentions',
+    check: (text, context) => {
+        if (!context.replyTo) {
+            return [];
+        }
+        const author = context.replyTo.replace(/^@/, '').toLowerCase();
+        return Array.from(new Set(findMentions(text)))
+            .filter(mention => mention !== author)
+            .map(mention => `mentions @${mention}, who is not the author being answered`);
+    }
+};
+
+/**
+ * Asks the moderation LLM chain, primed with the persona's character so off-brand posts are caught too,
+ * whether the tweet is safe to post, when MODERATION_CLASSIFIER is on.
+ * When the chain fails the tweet is not blocked; the other rules still apply.
+ */
+export const classifierRule: ModerationRule = {
+    name: 'classifier',
+    check: async (text, context) => {
+        if (!config.moderation.classifier) {
+            return [];
+        }
+
+        const character = await CharacterService.getInstance().getCharacter(PersonaRegistry.getInstance().get(context.persona).agentName);
+        const result = await LLMService.getInstance().generate('moderation', {
+            system: PromptBuilder.getInstance().buildSystemPrompt(character, 'moderation'),
+            messages: [{ role: 'user', content: `Tweet to check:\n${text}` }],
+            params: { maxTokens: 60, temperature: 0 }
+        });
+        if (!result.ok) {
+            console.error(`Moderation classifier unavailable; not applying it: ${result.reason}`);
+            return [];
+        }
+
+        const unsafe = result.text.trim().match(/^UNSAFE\b[\s:.-]*(.*)/is);
+        return unsafe ? [`classified unsafe${unsafe[1].trim() ? `: ${unsafe[1].trim()}` : ''}`] : [];
+    }
+};
+
+/**
+ * The rules every outbound tweet is checked against, in order
+ */
+export const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+    blocklistRule,
+    promptLeakRule,
+    tagLimitRule,
+    replyMentionRule,
+    classifierRule
+];
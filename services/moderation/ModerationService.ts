@@ -0,0 +1,125 @@
+import { config } from '../../config';
+import { getRepositories, ModerationContentType, ModerationIssue, ModerationVerdictRecord, Repositories } from '../repositories';
+import { DEFAULT_MODERATION_RULES, ModerationContext, ModerationRule } from './ModerationRules';
+
+/**
+ * The outcome of checking a post
+ */
+export interface ModerationVerdict {
+    allowed: boolean;
+    issues: ModerationIssue[];
+}
+
+/**
+ * Checks outbound text before it is queued or posted.
+ * Every tweet of a post runs through the registered rules (blocklist, prompt leaks, hashtag and
+ * mention limits, reply mentions and the optional LLM classifier); any issue blocks the post.
+ * Each verdict is recorded in moderation_verdicts. Callers hold blocked posts for review, or
+ * drop them where there is no review for their kind of post.
+ */
+export class ModerationService {
+    private static instance: ModerationService;
+    private rules: ModerationRule[] = [...DEFAULT_MODERATION_RULES];
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of ModerationService
+     */
+    public static getInstance(): ModerationService {
+        if (!ModerationService.instance) {
+            ModerationService.instance = new ModerationService();
+        }
+        return ModerationService.instance;
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Adds a rule, replacing any existing rule with the same name
+     * @param rule The rule
+     */
+    public registerRule(rule: ModerationRule): void {
+        this.rules = [...this.rules.filter(existing => existing.name !== rule.name), rule];
+    }
+
+    /**
+     * Removes a rule
+     * @param name The rule's name
+     */
+    public removeRule(name: string): void {
+        this.rules = this.rules.filter(rule => rule.name !== name);
+    }
+
+    /**
+     * Lists the names of the rules, in the order they run
+     */
+    public getRuleNames(): string[] {
+        return this.rules.map(rule => rule.name);
+    }
+
+    /**
+     * Checks a post and records the verdict
+     * @param texts The post's text, one per tweet
+     * @param context What the post is and where it goes
+     * @returns Whether the post may go out, and what was found
+     */
+    public async moderate(texts: string[], context: ModerationContext): Promise<ModerationVerdict> {
+        if (!config.moderation.enabled) {
+            return { allowed: true, issues: [] };
+        }
+
+        const issues: ModerationIssue[] = [];
+        for (const [index, text] of texts.entries()) {
+            for (const rule of this.rules) {
+                try {
+                    const reasons = await rule.check(text, context);
+                    issues.push(...reasons.map(reason => ({ rule: rule.name, reason, tweet_index: index })));
+                } catch (error) {
+                    // A broken rule must not stop every post; the other rules still apply
+                    console.error(`Moderation rule ${rule.name} failed:`, error);
+                }
+            }
+        }
+
+        const verdict = { allowed: issues.length === 0, issues };
+        if (!verdict.allowed) {
+            console.log(`Moderation blocked ${context.contentType} post${context.subjectKey ? ` ${context.subjectKey}` : ''}: ${this.describe(issues)}`);
+        }
+
+        try {
+            await this.repositories.moderationVerdicts.insert({
+                persona: context.persona,
+                content_type: context.contentType,
+                subject_key: context.subjectKey || null,
+                texts,
+                allowed: verdict.allowed,
+                issues
+            });
+        } catch (error) {
+            console.error('Error recording moderation verdict:', error);
+        }
+
+        return verdict;
+    }
+
+    /**
+     * Lists recorded verdicts, newest first
+     * @param filter Only list verdicts with this outcome, content type and/or persona
+     * @param limit Maximum number of verdicts to return
+     */
+    public async listVerdicts(filter: { allowed?: boolean; content_type?: ModerationContentType; persona?: string } = {}, limit: number = 50): Promise<ModerationVerdictRecord[]> {
+        return this.repositories.moderationVerdicts.list(filter, limit);
+    }
+
+    /**
+     * Summarizes issues for logs and error messages
+     * @param issues The issues
+     */
+    public describe(issues: ModerationIssue[]): string {
+        return issues.map(issue => `${issue.rule} (tweet ${issue.tweet_index + 1}): ${issue.reason}`).join('; ');
+    }
+}
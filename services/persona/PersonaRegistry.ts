@@ -0,0 +1,70 @@
+import { config } from '../../config';
+import { PersonaConfig } from '../../types';
+
+/**
+ * The personas this deployment runs (see config.personas). Each persona is a character
+ * with its own X account, scheduled jobs, engagement rules and stored rows; services
+ * that act for a persona are fetched with getInstance(personaName).
+ */
+export class PersonaRegistry {
+    private static instance: PersonaRegistry;
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of PersonaRegistry
+     */
+    public static getInstance(): PersonaRegistry {
+        if (!PersonaRegistry.instance) {
+            PersonaRegistry.instance = new PersonaRegistry();
+        }
+        return PersonaRegistry.instance;
+    }
+
+    /**
+     * Lists every persona, the default persona first
+     */
+    public list(): PersonaConfig[] {
+        return config.personas.personas;
+    }
+
+    /**
+     * Gets the persona that owns rows stored before personas existed
+     */
+    public getDefault(): PersonaConfig {
+        return this.get(config.personas.defaultPersona);
+    }
+
+    /**
+     * Gets a persona by name
+     * @param name The persona name (case-insensitive); the default persona if not given
+     * @throws If there is no such persona
+     */
+    public get(name?: string): PersonaConfig {
+        const wanted = (name || config.personas.defaultPersona).trim().toLowerCase();
+        const persona = this.list().find(p => p.name === wanted);
+        if (!persona) {
+            throw new Error(`Unknown persona: ${name}`);
+        }
+        return persona;
+    }
+
+    /**
+     * Checks whether a persona is the default one
+     * @param name The persona name
+     */
+    public isDefault(name: string): boolean {
+        return name === config.personas.defaultPersona;
+    }
+
+    /**
+     * Scopes a name (a scheduled job, an idempotency key) to a persona.
+     * The default persona's names are unchanged, so existing jobs and keys keep working.
+     * @param name The unscoped name, e.g. "image_tweet"
+     * @param persona The persona name
+     * @returns The name, or "<persona>:<name>" for other personas
+     */
+    public scope(name: string, persona: string): string {
+        return this.isDefault(persona) ? name : `${persona}:${name}`;
+    }
+}
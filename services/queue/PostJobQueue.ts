@@ -0,0 +1,286 @@
+import { config } from '../../config';
+import { getRepositories, PostJobRecord, PostJobStatus, PostJobType, Repositories } from '../repositories';
+import { SchedulerService } from '../scheduler/SchedulerService';
+import { getBackoffDelay, isRetryableError } from './retryWithBackoff';
+
+/**
+ * Outcome of one delivery attempt, returned by a job handler
+ */
+export interface PostJobOutcome {
+    success: boolean;
+    retryable?: boolean; // Failed attempts are only retried when true
+    message?: string;
+    error?: any; // Used for the backoff delay (e.g. a 429 with retry-after)
+    result?: Record<string, any>;
+}
+
+/**
+ * Publishes the post described by a job
+ */
+export type PostJobHandler = (job: PostJobRecord) => Promise<PostJobOutcome>;
+
+/**
+ * Options for enqueueing a post
+ */
+export interface EnqueueOptions {
+    type: PostJobType;
+    idempotencyKey: string;
+    payload: Record<string, any>;
+    maxAttempts?: number;
+    runAt?: Date;
+}
+
+/**
+ * Durable queue of outbound posts.
+ * Jobs are stored in the post_jobs table; a worker drains due jobs through the handler
+ * registered for their type and reschedules retryable failures with exponential backoff.
+ */
+export class PostJobQueue {
+    private static instance: PostJobQueue;
+    private handlers = new Map<PostJobType, PostJobHandler>();
+    private draining = false;
+
+    private constructor() {}
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Get the singleton instance of PostJobQueue
+     */
+    public static getInstance(): PostJobQueue {
+        if (!PostJobQueue.instance) {
+            PostJobQueue.instance = new PostJobQueue();
+        }
+        return PostJobQueue.instance;
+    }
+
+    /**
+     * Registers the handler that publishes jobs of a type, replacing any existing one
+     * @param type The job type
+     * @param handler The handler
+     */
+    public registerHandler(type: PostJobType, handler: PostJobHandler): void {
+        this.handlers.set(type, handler);
+    }
+
+    /**
+     * Registers the worker that drains due jobs as the post_job_queue scheduled job
+     */
+    public start(): void {
+        SchedulerService.getInstance().register('post_job_queue', async () => {
+            await this.processDue();
+        });
+    }
+
+    /**
+     * Adds a post to the queue. Enqueueing a key that is already queued returns the existing job,
+     * so the same post is never published twice.
+     * @param options The job type, idempotency key and payload
+     * @returns The new or existing job
+     */
+    public async enqueue(options: EnqueueOptions): Promise<PostJobRecord> {
+        const existing = await this.repositories.postJobs.findByIdempotencyKey(options.idempotencyKey);
+        if (existing) {
+            console.log(`Post job ${options.idempotencyKey} already queued (${existing.status})`);
+            return existing;
+        }
+
+        const job = await this.repositories.postJobs.insert({
+            type: options.type,
+            idempotency_key: options.idempotencyKey,
+            status: 'pending',
+            payload: options.payload,
+            attempts: 0,
+            max_attempts: options.maxAttempts || config.jobQueue.maxAttempts,
+            next_attempt_at: (options.runAt || new Date()).toISOString()
+        });
+        console.log(`Queued ${job.type} post job ${job.id} (${job.idempotency_key})`);
+        return job;
+    }
+
+    /**
+     * Adds a post to the queue and makes the first delivery attempt straight away
+     * @param options The job type, idempotency key and payload
+     * @returns The job after the attempt
+     */
+    public async enqueueAndRun(options: EnqueueOptions): Promise<PostJobRecord> {
+        const job = await this.enqueue(options);
+        if (job.status !== 'pending') {
+            return job;
+        }
+        return this.runJob(job);
+    }
+
+    /**
+     * Runs every job whose next attempt is due, after putting back jobs left running by a worker that stopped
+     * @param now The current time
+     * @returns The number of jobs run
+     */
+    public async processDue(now: Date = new Date()): Promise<number> {
+        // A slow drain must not overlap with the next one
+        if (this.draining) {
+            return 0;
+        }
+
+        this.draining = true;
+        try {
+            await this.recoverAbandonedJobs(now);
+            const jobs = await this.repositories.postJobs.listDue(now, config.jobQueue.batchSize);
+            if (jobs.length > 0) {
+                console.log(`Processing ${jobs.length} due post jobs`);
+            }
+
+            let run = 0;
+            for (const job of jobs) {
+                if (!this.handlers.has(job.type)) {
+                    console.log(`No handler registered for ${job.type} post jobs; leaving job ${job.id} queued`);
+                    continue;
+                }
+                await this.runJob(job, now);
+                run++;
+            }
+            return run;
+        } catch (error) {
+            console.error('Error processing post jobs:', error);
+            return 0;
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    /**
+     * Lists jobs, newest first
+     * @param filter Only list jobs with this status and/or type
+     * @param limit Maximum number of jobs to return
+     */
+    public async list(filter: { status?: PostJobStatus; type?: PostJobType } = {}, limit: number = 50): Promise<PostJobRecord[]> {
+        return this.repositories.postJobs.list(filter, limit);
+    }
+
+    /**
+     * Counts the jobs waiting to run, running and failed
+     */
+    public async getDepths(): Promise<{ pending: number; running: number; failed: number }> {
+        const [pending, running, failed] = await Promise.all(
+            (['pending', 'running', 'failed'] as PostJobStatus[]).map(status => this.repositories.postJobs.countByStatus(status))
+        );
+        return { pending, running, failed };
+    }
+
+    /**
+     * Gets a job by ID
+     * @param id The job ID
+     */
+    public async getById(id: string): Promise<PostJobRecord | null> {
+        return this.repositories.postJobs.getById(id);
+    }
+
+    /**
+     * Puts a failed or cancelled job back in the queue with a fresh set of attempts
+     * @param id The job ID
+     * @param payload A new payload for the job; the existing one is kept if not given
+     */
+    public async requeue(id: string, payload?: Record<string, any>): Promise<void> {
+        const job = await this.getOrThrow(id);
+        if (job.status !== 'failed' && job.status !== 'cancelled') {
+            throw new Error(`Only failed or cancelled jobs can be requeued (job ${id} is ${job.status})`);
+        }
+
+        await this.repositories.postJobs.update(id, {
+            status: 'pending',
+            attempts: 0,
+            next_attempt_at: new Date().toISOString(),
+            ...(payload ? { payload } : {})
+        });
+        console.log(`Requeued post job ${id}`);
+    }
+
+    /**
+     * Cancels a job that has not been published
+     * @param id The job ID
+     */
+    public async cancel(id: string): Promise<void> {
+        const job = await this.getOrThrow(id);
+        if (job.status !== 'pending' && job.status !== 'failed') {
+            throw new Error(`Only pending or failed jobs can be cancelled (job ${id} is ${job.status})`);
+        }
+
+        await this.repositories.postJobs.update(id, { status: 'cancelled' });
+        console.log(`Cancelled post job ${id}`);
+    }
+
+    /**
+     * Makes one delivery attempt for a job and records the outcome
+     * @param job The job to run
+     * @param now The time of the attempt
+     */
+    private async runJob(job: PostJobRecord, now: Date = new Date()): Promise<PostJobRecord> {
+        const handler = this.handlers.get(job.type);
+        if (!handler) {
+            console.log(`No handler registered for ${job.type} post jobs; leaving job ${job.id} queued`);
+            return job;
+        }
+
+        // Only the worker that moves the job from pending to running makes the attempt
+        const attempts = job.attempts + 1;
+        if (!await this.repositories.postJobs.claim(job.id!, attempts, now)) {
+            console.log(`Post job ${job.id} is no longer pending; leaving it to the worker that claimed it`);
+            return (await this.repositories.postJobs.getById(job.id!)) || job;
+        }
+
+        let outcome: PostJobOutcome;
+        try {
+            outcome = await handler({ ...job, attempts });
+        } catch (error: any) {
+            outcome = {
+                success: false,
+                message: error?.message || String(error),
+                error,
+                retryable: isRetryableError(error)
+            };
+        }
+
+        let changes: Partial<PostJobRecord>;
+        if (outcome.success) {
+            console.log(`Post job ${job.id} completed`);
+            changes = { status: 'completed', started_at: null, last_error: null, result: outcome.result || null };
+        } else if (outcome.retryable && attempts < job.max_attempts) {
+            const delay = getBackoffDelay(outcome.error, attempts, config.jobQueue.initialDelaySeconds * 1000);
+            const nextAttemptAt = new Date(now.getTime() + delay);
+            console.log(`Post job ${job.id} failed (attempt ${attempts} of ${job.max_attempts}); retrying at ${nextAttemptAt.toISOString()}`);
+            changes = { status: 'pending', started_at: null, last_error: outcome.message || null, next_attempt_at: nextAttemptAt.toISOString() };
+        } else {
+            console.error(`Post job ${job.id} failed after ${attempts} attempt(s): ${outcome.message}`);
+            changes = { status: 'failed', started_at: null, last_error: outcome.message || null };
+        }
+
+        await this.repositories.postJobs.update(job.id!, changes);
+        return { ...job, ...changes, attempts };
+    }
+
+    /**
+     * Puts jobs left running (e.g. by a crash) back in the queue once they have been running for
+     * longer than JOB_QUEUE_RUNNING_TIMEOUT_SECONDS; jobs running in other live processes are left alone.
+     * Handlers check whether their post already went out before publishing again.
+     * @param now The current time
+     */
+    private async recoverAbandonedJobs(now: Date): Promise<void> {
+        const startedBefore = new Date(now.getTime() - config.jobQueue.runningTimeoutSeconds * 1000);
+        const abandoned = await this.repositories.postJobs.listStartedBefore(startedBefore, 100);
+        for (const job of abandoned) {
+            console.log(`Recovering post job ${job.id}, running since ${job.started_at}`);
+            await this.repositories.postJobs.update(job.id!, { status: 'pending', started_at: null, next_attempt_at: now.toISOString() });
+        }
+    }
+
+    private async getOrThrow(id: string): Promise<PostJobRecord> {
+        const job = await this.repositories.postJobs.getById(id);
+        if (!job) {
+            throw new Error(`Post job not found: ${id}`);
+        }
+        return job;
+    }
+}
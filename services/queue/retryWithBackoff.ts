@@ -0,0 +1,55 @@
+/**
+ * Gets the delay before retrying a failed operation: the retry-after header
+ * of a rate limit error (Twitter API returns 429), otherwise exponential backoff
+ * @param error The error from the failed attempt
+ * @param retries Number of failed attempts so far (1 for the first retry)
+ * @param initialDelay Base delay in milliseconds
+ */
+export function getBackoffDelay(error: any, retries: number, initialDelay: number = 1000): number {
+    const backoff = initialDelay * Math.pow(2, retries);
+
+    // If it's a rate limit error, use the retry-after header if available
+    if (error?.code === 429 && error.response?.headers?.['retry-after']) {
+        const retryAfter = parseInt(error.response.headers['retry-after'], 10) * 1000;
+        return retryAfter || backoff;
+    }
+
+    return backoff;
+}
+
+/**
+ * Utility for retrying operations with exponential backoff
+ */
+export async function retryWithBackoff<T>(
+    operation: () => Promise<T>,
+    maxRetries: number = 3,
+    initialDelay: number = 1000
+): Promise<T> {
+    let retries = 0;
+    
+    while (true) {
+        try {
+            return await operation();
+        } catch (error: any) {
+            retries++;
+            
+            // Check if we've exceeded max retries
+            if (retries >= maxRetries) {
+                throw error;
+            }
+            
+            const delay = getBackoffDelay(error, retries, initialDelay);
+            console.log(`Retrying operation after ${delay}ms (attempt ${retries} of ${maxRetries})`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
+
+/**
+ * Check if an error is retryable
+ * @param error The error to check
+ */
+export function isRetryableError(error: any): boolean {
+    // Rate limit errors and server errors are retryable
+    return !!error && (error.code === 429 || error.code >= 500);
+}
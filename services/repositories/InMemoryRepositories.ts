@@ -0,0 +1,681 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../config';
+import { CharacterData } from '../supabase/SupabaseService';
+import { EngagementMetric, EngagementType } from '../engagement/EngagementService';
+import {
+    ApprovalContentType,
+    ApprovalRecord,
+    ApprovalsRepository,
+    ApprovalStatus,
+    BlogPostRecord,
+    BlogPostsRepository,
+    BlogPostStatus,
+    BlogPostTransitionRecord,
+    BlogPostTransitionsRepository,
+    CharacterFilesRepository,
+    ConversationRecord,
+    ConversationsRepository,
+    EngagementMetricsRepository,
+    ImageRecord,
+    ImagesRepository,
+    ModerationContentType,
+    ModerationVerdictRecord,
+    ModerationVerdictsRepository,
+    PollCursorRecord,
+    PollCursorsRepository,
+    PostJobRecord,
+    PostJobsRepository,
+    PostJobStatus,
+    PostJobType,
+    PromptRecord,
+    PromptsRepository,
+    Repositories,
+    ScheduledRunRecord,
+    ScheduledRunsRepository,
+    SuppressedPostRecord,
+    SuppressedPostsRepository,
+    SuppressedPostStatus,
+    TweetDraftRecord,
+    TweetDraftsRepository,
+    VideoRecord,
+    VideosRepository
+} from './types';
+
+/**
+ * Initial rows for the in-memory repositories
+ */
+export interface InMemorySeed {
+    images: ImageRecord[];
+    videos: VideoRecord[];
+    prompts: PromptRecord[];
+    conversations: ConversationRecord[];
+    blog_posts: BlogPostRecord[];
+    blog_post_transitions: BlogPostTransitionRecord[];
+    tweet_drafts: TweetDraftRecord[];
+    engagement_metrics: EngagementMetric[];
+    character_files: CharacterData[];
+    suppressed_posts: SuppressedPostRecord[];
+    poll_cursors: PollCursorRecord[];
+    post_jobs: PostJobRecord[];
+    scheduled_job_runs: ScheduledRunRecord[];
+    approvals: ApprovalRecord[];
+    moderation_verdicts: ModerationVerdictRecord[];
+}
+
+/**
+ * A list of rows that hands out copies, so callers can't mutate stored state
+ */
+class InMemoryTable<T extends object> {
+    private rows: T[];
+
+    constructor(rows: T[] = []) {
+        this.rows = rows.map(row => ({ ...row }));
+    }
+
+    public all(): T[] {
+        return this.rows.map(row => ({ ...row }));
+    }
+
+    public find(predicate: (row: T) => boolean): T | null {
+        const row = this.rows.find(predicate);
+        return row ? { ...row } : null;
+    }
+
+    public filter(predicate: (row: T) => boolean): T[] {
+        return this.rows.filter(predicate).map(row => ({ ...row }));
+    }
+
+    public insert(row: T): T {
+        this.rows.push({ ...row });
+        return { ...row };
+    }
+
+    public remove(predicate: (row: T) => boolean): number {
+        const before = this.rows.length;
+        this.rows = this.rows.filter(row => !predicate(row));
+        return before - this.rows.length;
+    }
+
+    public update(predicate: (row: T) => boolean, changes: Partial<T>): number {
+        let updated = 0;
+        this.rows = this.rows.map(row => {
+            if (!predicate(row)) {
+                return row;
+            }
+            updated++;
+            return { ...row, ...changes };
+        });
+        return updated;
+    }
+}
+
+const byCreatedAt = (a: { created_at?: string }, b: { created_at?: string }) =>
+    (a.created_at || '').localeCompare(b.created_at || '');
+
+// Rows without a persona belong to the default persona, like the column default
+const personaOf = (row: { persona?: string }) => row.persona || config.personas.defaultPersona;
+
+/**
+ * In-memory images repository
+ */
+export class InMemoryImagesRepository implements ImagesRepository {
+    constructor(private table = new InMemoryTable<ImageRecord>()) {}
+
+    public async listUnposted(persona: string, limit: number, oldestFirst: boolean = false): Promise<ImageRecord[]> {
+        return this.table.filter(image => !!image.image_url && !image.x_posted && personaOf(image) === persona)
+            .sort((a, b) => oldestFirst ? byCreatedAt(a, b) : byCreatedAt(b, a))
+            .slice(0, limit);
+    }
+
+    public async listUnpostedByPrompt(persona: string, promptId: string, limit: number): Promise<ImageRecord[]> {
+        return this.table.filter(image => !!image.image_url && !image.x_posted && personaOf(image) === persona && image.prompt_id === promptId)
+            .sort((a, b) => byCreatedAt(a, b))
+            .slice(0, limit);
+    }
+
+    public async setAltText(id: string, altText: string): Promise<void> {
+        this.table.update(image => image.id === id, { alt_text: altText });
+    }
+
+    public async listPinned(persona: string, date: string): Promise<ImageRecord[]> {
+        return this.table.filter(image => !!image.image_url && !image.x_posted && personaOf(image) === persona && image.pinned_for === date)
+            .sort((a, b) => byCreatedAt(a, b));
+    }
+
+    public async listPostedSince(persona: string, since: Date): Promise<ImageRecord[]> {
+        return this.table.filter(image => image.x_posted && personaOf(image) === persona
+                && !!image.x_posted_at && new Date(image.x_posted_at) >= since)
+            .sort((a, b) => b.x_posted_at!.localeCompare(a.x_posted_at!));
+    }
+
+    public async setPin(id: string, date: string | null): Promise<void> {
+        this.table.update(image => image.id === id, { pinned_for: date });
+    }
+
+    public async getById(id: string): Promise<ImageRecord | null> {
+        return this.table.find(image => image.id === id);
+    }
+
+    public async markPosted(id: string, tweetId: string | null = null): Promise<void> {
+        this.table.update(image => image.id === id, {
+            x_posted: true,
+            x_posted_at: new Date().toISOString(),
+            ...(tweetId ? { tweet_id: tweetId } : {}),
+            lease_owner: null,
+            posting_started_at: null
+        });
+    }
+
+    public async claim(id: string, owner: string, now: Date): Promise<boolean> {
+        // Checked and updated without awaiting in between, like the single UPDATE in Supabase
+        return this.table.update(
+            image => image.id === id && !image.x_posted && !image.tweet_id && !image.lease_owner,
+            { lease_owner: owner, posting_started_at: now.toISOString() }
+        ) === 1;
+    }
+
+    public async releaseClaim(id: string, owner: string): Promise<void> {
+        this.table.update(image => image.id === id && image.lease_owner === owner, { lease_owner: null, posting_started_at: null });
+    }
+
+    public async listClaimedBefore(before: Date, limit: number): Promise<ImageRecord[]> {
+        return this.table.filter(image => !image.x_posted && !!image.lease_owner && new Date(image.posting_started_at!) < before)
+            .sort((a, b) => a.posting_started_at!.localeCompare(b.posting_started_at!))
+            .slice(0, limit);
+    }
+}
+
+/**
+ * In-memory videos repository
+ */
+export class InMemoryVideosRepository implements VideosRepository {
+    constructor(private table = new InMemoryTable<VideoRecord>()) {}
+
+    public async listUnposted(persona: string, limit: number): Promise<VideoRecord[]> {
+        return this.table.filter(video => !!video.video_url && !video.x_posted && personaOf(video) === persona)
+            .sort((a, b) => byCreatedAt(a, b))
+            .slice(0, limit);
+    }
+
+    public async getById(id: string): Promise<VideoRecord | null> {
+        return this.table.find(video => video.id === id);
+    }
+
+    public async markPosted(id: string, tweetId: string): Promise<void> {
+        this.table.update(video => video.id === id, { x_posted: true, x_posted_at: new Date().toISOString(), tweet_id: tweetId });
+    }
+}
+
+/**
+ * In-memory prompts repository
+ */
+export class InMemoryPromptsRepository implements PromptsRepository {
+    constructor(private table = new InMemoryTable<PromptRecord>()) {}
+
+    public async getById(id: string): Promise<PromptRecord | null> {
+        return this.table.find(prompt => prompt.id === id);
+    }
+}
+
+/**
+ * In-memory conversations repository
+ */
+export class InMemoryConversationsRepository implements ConversationsRepository {
+    constructor(private table = new InMemoryTable<ConversationRecord>()) {}
+
+    public async findByTweetId(tweetId: string, persona: string): Promise<ConversationRecord | null> {
+        return this.table.find(record => record.tweet_id === tweetId && personaOf(record) === persona);
+    }
+
+    public async findByResponseTweetId(responseTweetId: string, persona: string): Promise<ConversationRecord | null> {
+        return this.table.find(record => record.response_tweet_id === responseTweetId && personaOf(record) === persona);
+    }
+
+    public async listByConversationId(conversationId: string, persona: string): Promise<ConversationRecord[]> {
+        return this.table.filter(record => record.conversation_id === conversationId && personaOf(record) === persona).sort(byCreatedAt);
+    }
+
+    public async insert(record: ConversationRecord): Promise<ConversationRecord> {
+        // Mirror the unique constraint on (persona, tweet_id)
+        const persona = personaOf(record);
+        if (this.table.find(existing => existing.tweet_id === record.tweet_id && personaOf(existing) === persona)) {
+            throw new Error(`Conversation for tweet ${record.tweet_id} already exists for ${persona}`);
+        }
+
+        return this.table.insert({
+            ...record,
+            id: record.id || uuidv4(),
+            persona,
+            created_at: record.created_at || new Date().toISOString()
+        });
+    }
+
+    public async updateLastCheckedAt(tweetId: string, persona: string, checkedAt: Date): Promise<void> {
+        this.table.update(record => record.tweet_id === tweetId && personaOf(record) === persona, { last_checked_at: checkedAt.toISOString() });
+    }
+}
+
+/**
+ * In-memory blog posts repository
+ */
+export class InMemoryBlogPostsRepository implements BlogPostsRepository {
+    constructor(private table = new InMemoryTable<BlogPostRecord>()) {}
+
+    public async listByStatus(status: BlogPostStatus, persona: string, limit: number): Promise<BlogPostRecord[]> {
+        return this.table.filter(post => post.status === status && personaOf(post) === persona)
+            .sort((a, b) => (b.priority || 0) - (a.priority || 0) || byCreatedAt(a, b))
+            .slice(0, limit);
+    }
+
+    public async listDue(persona: string, now: Date, limit: number): Promise<BlogPostRecord[]> {
+        return this.table.filter(post => post.status === 'scheduled' && personaOf(post) === persona
+                && !!post.scheduled_at && new Date(post.scheduled_at) <= now)
+            .sort((a, b) => a.scheduled_at!.localeCompare(b.scheduled_at!))
+            .slice(0, limit);
+    }
+
+    public async list(filter: { status?: BlogPostStatus; persona?: string }, limit: number): Promise<BlogPostRecord[]> {
+        return this.table.filter(post => (!filter.status || post.status === filter.status) && (!filter.persona || personaOf(post) === filter.persona))
+            .sort((a, b) => byCreatedAt(b, a))
+            .slice(0, limit);
+    }
+
+    public async getById(id: string): Promise<BlogPostRecord | null> {
+        return this.table.find(post => post.id === id);
+    }
+
+    public async update(id: string, changes: Partial<Omit<BlogPostRecord, 'id'>>): Promise<void> {
+        this.table.update(post => post.id === id, { ...changes, updated_at: new Date().toISOString() });
+    }
+
+    public async updateIfStatus(id: string, status: BlogPostStatus, changes: Partial<Omit<BlogPostRecord, 'id'>>): Promise<boolean> {
+        return this.table.update(post => post.id === id && post.status === status, { ...changes, updated_at: new Date().toISOString() }) > 0;
+    }
+}
+
+/**
+ * In-memory blog post transitions repository
+ */
+export class InMemoryBlogPostTransitionsRepository implements BlogPostTransitionsRepository {
+    constructor(private table = new InMemoryTable<BlogPostTransitionRecord>()) {}
+
+    public async insert(transition: BlogPostTransitionRecord): Promise<BlogPostTransitionRecord> {
+        return this.table.insert({
+            ...transition,
+            id: transition.id || uuidv4(),
+            created_at: transition.created_at || new Date().toISOString()
+        });
+    }
+
+    public async listByBlogPostId(blogPostId: string): Promise<BlogPostTransitionRecord[]> {
+        return this.table.filter(transition => transition.blog_post_id === blogPostId).sort(byCreatedAt);
+    }
+}
+
+/**
+ * In-memory tweet drafts repository
+ */
+export class InMemoryTweetDraftsRepository implements TweetDraftsRepository {
+    constructor(private table = new InMemoryTable<TweetDraftRecord>()) {}
+
+    public async insert(draft: TweetDraftRecord): Promise<TweetDraftRecord> {
+        return this.table.insert({
+            ...draft,
+            id: draft.id || uuidv4(),
+            created_at: draft.created_at || new Date().toISOString()
+        });
+    }
+
+    public async listByBlogPostId(blogPostId: string): Promise<TweetDraftRecord[]> {
+        return this.table.filter(draft => draft.blog_post_id === blogPostId).sort(byCreatedAt);
+    }
+
+    public async listByStatus(status: string, limit: number): Promise<TweetDraftRecord[]> {
+        return this.table.filter(draft => draft.status === status).sort(byCreatedAt).slice(0, limit);
+    }
+
+    public async update(id: string, changes: Partial<Omit<TweetDraftRecord, 'id'>>): Promise<void> {
+        this.table.update(draft => draft.id === id, changes);
+    }
+}
+
+/**
+ * In-memory engagement ledger
+ */
+export class InMemoryEngagementMetricsRepository implements EngagementMetricsRepository {
+    constructor(private table = new InMemoryTable<EngagementMetric>()) {}
+
+    public async recordEngagement(engagement: EngagementMetric): Promise<boolean> {
+        const persona = personaOf(engagement);
+        const existing = this.table.find(e =>
+            personaOf(e) === persona &&
+            e.user_id === engagement.user_id &&
+            e.engagement_type === engagement.engagement_type &&
+            e.tweet_id === engagement.tweet_id
+        );
+        if (existing) {
+            return false;
+        }
+
+        this.table.insert({
+            ...engagement,
+            id: engagement.id || uuidv4(),
+            persona,
+            created_at: engagement.created_at || new Date().toISOString()
+        });
+        return true;
+    }
+
+    public async countEngagements(userId: string, engagementType: EngagementType, persona: string, since?: Date): Promise<number> {
+        return this.table.filter(e =>
+            personaOf(e) === persona &&
+            e.user_id === userId &&
+            e.engagement_type === engagementType &&
+            (!since || new Date(e.created_at!).getTime() >= since.getTime())
+        ).length;
+    }
+
+    public async hasPriorEngagement(userId: string, engagementType: EngagementType, persona: string, excludeTweetId?: string): Promise<boolean> {
+        return !!this.table.find(e =>
+            personaOf(e) === persona &&
+            e.user_id === userId &&
+            e.engagement_type === engagementType &&
+            e.tweet_id !== excludeTweetId
+        );
+    }
+
+    public async listEngagementsSince(since: Date, persona: string): Promise<EngagementMetric[]> {
+        return this.table.filter(e => personaOf(e) === persona && new Date(e.created_at!).getTime() >= since.getTime()).sort(byCreatedAt);
+    }
+}
+
+/**
+ * In-memory character files repository
+ */
+export class InMemoryCharacterFilesRepository implements CharacterFilesRepository {
+    constructor(private table = new InMemoryTable<CharacterData>()) {}
+
+    // Seeds without version or is_active count as an active version 1, like the column defaults
+    public async findActive(agentName: string): Promise<CharacterData | null> {
+        return (await this.listVersions(agentName)).find(character => character.is_active !== false) || null;
+    }
+
+    public async findVersion(agentName: string, version: number): Promise<CharacterData | null> {
+        return (await this.listVersions(agentName)).find(character => (character.version || 1) === version) || null;
+    }
+
+    public async listVersions(agentName: string): Promise<CharacterData[]> {
+        const name = agentName.trim().toLowerCase();
+        return this.table.filter(character => character.agent_name.toLowerCase() === name)
+            .sort((a, b) => (b.version || 1) - (a.version || 1));
+    }
+
+    public async activateVersion(agentName: string, version: number): Promise<CharacterData | null> {
+        const name = agentName.trim().toLowerCase();
+        const isAgent = (character: CharacterData) => character.agent_name.toLowerCase() === name;
+        if (!this.table.find(character => isAgent(character) && (character.version || 1) === version)) {
+            return null;
+        }
+
+        const updated_at = new Date().toISOString();
+        this.table.update(character => isAgent(character) && (character.version || 1) === version, { is_active: true, updated_at });
+        this.table.update(character => isAgent(character) && (character.version || 1) !== version, { is_active: false, updated_at });
+        return this.findVersion(agentName, version);
+    }
+
+    public async list(): Promise<CharacterData[]> {
+        return this.table.all().sort((a, b) => a.agent_name.localeCompare(b.agent_name));
+    }
+
+    public async insert(character: CharacterData): Promise<CharacterData> {
+        return this.table.insert({ ...character, id: character.id || uuidv4() });
+    }
+}
+
+/**
+ * In-memory suppressed posts repository
+ */
+export class InMemorySuppressedPostsRepository implements SuppressedPostsRepository {
+    constructor(private table = new InMemoryTable<SuppressedPostRecord>()) {}
+
+    public async insert(record: SuppressedPostRecord): Promise<SuppressedPostRecord> {
+        const now = new Date().toISOString();
+        return this.table.insert({
+            ...record,
+            id: record.id || uuidv4(),
+            created_at: record.created_at || now,
+            updated_at: record.updated_at || now
+        });
+    }
+
+    public async getById(id: string): Promise<SuppressedPostRecord | null> {
+        return this.table.find(record => record.id === id);
+    }
+
+    public async list(status: SuppressedPostStatus | undefined, limit: number): Promise<SuppressedPostRecord[]> {
+        return this.table.filter(record => !status || record.status === status)
+            .sort((a, b) => byCreatedAt(b, a))
+            .slice(0, limit);
+    }
+
+    public async countByStatus(status: SuppressedPostStatus): Promise<number> {
+        return this.table.filter(record => record.status === status).length;
+    }
+
+    public async update(id: string, changes: Partial<Omit<SuppressedPostRecord, 'id'>>): Promise<void> {
+        this.table.update(record => record.id === id, { ...changes, updated_at: new Date().toISOString() });
+    }
+}
+
+/**
+ * In-memory poll cursors repository
+ */
+export class InMemoryPollCursorsRepository implements PollCursorsRepository {
+    constructor(private table = new InMemoryTable<PollCursorRecord>()) {}
+
+    public async get(accountId: string, queryType: string): Promise<PollCursorRecord | null> {
+        return this.table.find(cursor => cursor.account_id === accountId && cursor.query_type === queryType);
+    }
+
+    public async save(cursor: PollCursorRecord): Promise<void> {
+        const row = { ...cursor, updated_at: new Date().toISOString() };
+        const matches = (existing: PollCursorRecord) =>
+            existing.account_id === cursor.account_id && existing.query_type === cursor.query_type;
+
+        if (this.table.update(matches, row) === 0) {
+            this.table.insert(row);
+        }
+    }
+}
+
+/**
+ * In-memory post jobs repository
+ */
+export class InMemoryPostJobsRepository implements PostJobsRepository {
+    constructor(private table = new InMemoryTable<PostJobRecord>()) {}
+
+    public async insert(job: PostJobRecord): Promise<PostJobRecord> {
+        // Mirror the unique constraint on idempotency_key
+        if (this.table.find(existing => existing.idempotency_key === job.idempotency_key)) {
+            throw new Error(`Duplicate idempotency_key: ${job.idempotency_key}`);
+        }
+
+        const now = new Date().toISOString();
+        return this.table.insert({
+            ...job,
+            id: job.id || uuidv4(),
+            created_at: job.created_at || now,
+            updated_at: job.updated_at || now
+        });
+    }
+
+    public async getById(id: string): Promise<PostJobRecord | null> {
+        return this.table.find(job => job.id === id);
+    }
+
+    public async findByIdempotencyKey(key: string): Promise<PostJobRecord | null> {
+        return this.table.find(job => job.idempotency_key === key);
+    }
+
+    public async listDue(now: Date, limit: number): Promise<PostJobRecord[]> {
+        return this.table.filter(job => job.status === 'pending' && new Date(job.next_attempt_at).getTime() <= now.getTime())
+            .sort((a, b) => a.next_attempt_at.localeCompare(b.next_attempt_at))
+            .slice(0, limit);
+    }
+
+    public async list(filter: { status?: PostJobStatus; type?: PostJobType }, limit: number): Promise<PostJobRecord[]> {
+        return this.table.filter(job => (!filter.status || job.status === filter.status) && (!filter.type || job.type === filter.type))
+            .sort((a, b) => byCreatedAt(b, a))
+            .slice(0, limit);
+    }
+
+    public async countByStatus(status: PostJobStatus): Promise<number> {
+        return this.table.filter(job => job.status === status).length;
+    }
+
+    public async claim(id: string, attempts: number, now: Date): Promise<boolean> {
+        // Checked and updated without awaiting in between, like the single UPDATE in Supabase
+        return this.table.update(
+            job => job.id === id && job.status === 'pending',
+            { status: 'running', attempts, started_at: now.toISOString(), updated_at: new Date().toISOString() }
+        ) === 1;
+    }
+
+    public async listStartedBefore(before: Date, limit: number): Promise<PostJobRecord[]> {
+        return this.table.filter(job => job.status === 'running' && !!job.started_at && new Date(job.started_at).getTime() < before.getTime())
+            .sort((a, b) => a.started_at!.localeCompare(b.started_at!))
+            .slice(0, limit);
+    }
+
+    public async update(id: string, changes: Partial<Omit<PostJobRecord, 'id'>>): Promise<void> {
+        this.table.update(job => job.id === id, { ...changes, updated_at: new Date().toISOString() });
+    }
+}
+
+/**
+ * In-memory scheduled job runs repository
+ */
+export class InMemoryScheduledRunsRepository implements ScheduledRunsRepository {
+    constructor(private table = new InMemoryTable<ScheduledRunRecord>()) {}
+
+    public async insert(run: ScheduledRunRecord): Promise<ScheduledRunRecord> {
+        return this.table.insert({ ...run, id: run.id || uuidv4() });
+    }
+
+    public async update(id: string, changes: Partial<Omit<ScheduledRunRecord, 'id'>>): Promise<void> {
+        this.table.update(run => run.id === id, changes);
+    }
+
+    public async getLatest(jobName: string): Promise<ScheduledRunRecord | null> {
+        // Newest first; reversed so that later inserts win ties
+        const runs = this.table.filter(run => run.job_name === jobName && run.status !== 'skipped')
+            .reverse()
+            .sort((a, b) => b.scheduled_for.localeCompare(a.scheduled_for) || b.started_at.localeCompare(a.started_at));
+        return runs[0] || null;
+    }
+
+    public async listRecent(jobName: string | undefined, limit: number): Promise<ScheduledRunRecord[]> {
+        return this.table.filter(run => !jobName || run.job_name === jobName)
+            .reverse()
+            .sort((a, b) => b.started_at.localeCompare(a.started_at))
+            .slice(0, limit);
+    }
+
+    public async deleteBefore(before: Date): Promise<void> {
+        this.table.remove(run => new Date(run.started_at).getTime() < before.getTime());
+    }
+}
+
+/**
+ * In-memory approvals repository
+ */
+export class InMemoryApprovalsRepository implements ApprovalsRepository {
+    constructor(private table = new InMemoryTable<ApprovalRecord>()) {}
+
+    public async insert(approval: ApprovalRecord): Promise<ApprovalRecord> {
+        const now = new Date().toISOString();
+        return this.table.insert({
+            ...approval,
+            id: approval.id || uuidv4(),
+            created_at: approval.created_at || now,
+            updated_at: approval.updated_at || now
+        });
+    }
+
+    public async getById(id: string): Promise<ApprovalRecord | null> {
+        return this.table.find(approval => approval.id === id);
+    }
+
+    public async findPendingByKey(key: string): Promise<ApprovalRecord | null> {
+        return this.table.find(approval => approval.idempotency_key === key && approval.status === 'pending');
+    }
+
+    public async list(filter: { status?: ApprovalStatus; content_type?: ApprovalContentType; persona?: string }, limit: number): Promise<ApprovalRecord[]> {
+        return this.table.filter(approval => (!filter.status || approval.status === filter.status)
+                && (!filter.content_type || approval.content_type === filter.content_type)
+                && (!filter.persona || approval.persona === filter.persona))
+            .sort((a, b) => byCreatedAt(b, a))
+            .slice(0, limit);
+    }
+
+    public async listExpired(now: Date, limit: number): Promise<ApprovalRecord[]> {
+        return this.table.filter(approval => approval.status === 'pending' && new Date(approval.expires_at) <= now)
+            .sort((a, b) => a.expires_at.localeCompare(b.expires_at))
+            .slice(0, limit);
+    }
+
+    public async countByStatus(status: ApprovalStatus): Promise<number> {
+        return this.table.filter(approval => approval.status === status).length;
+    }
+
+    public async updateIfStatus(id: string, status: ApprovalStatus, changes: Partial<Omit<ApprovalRecord, 'id'>>): Promise<boolean> {
+        return this.table.update(approval => approval.id === id && approval.status === status, { ...changes, updated_at: new Date().toISOString() }) > 0;
+    }
+}
+
+/**
+ * In-memory moderation verdicts repository
+ */
+export class InMemoryModerationVerdictsRepository implements ModerationVerdictsRepository {
+    constructor(private table = new InMemoryTable<ModerationVerdictRecord>()) {}
+
+    public async insert(verdict: ModerationVerdictRecord): Promise<ModerationVerdictRecord> {
+        return this.table.insert({
+            ...verdict,
+            id: verdict.id || uuidv4(),
+            created_at: verdict.created_at || new Date().toISOString()
+        });
+    }
+
+    public async list(filter: { allowed?: boolean; content_type?: ModerationContentType; persona?: string }, limit: number): Promise<ModerationVerdictRecord[]> {
+        return this.table.filter(verdict => (filter.allowed === undefined || verdict.allowed === filter.allowed)
+                && (!filter.content_type || verdict.content_type === filter.content_type)
+                && (!filter.persona || verdict.persona === filter.persona))
+            .sort((a, b) => byCreatedAt(b, a))
+            .slice(0, limit);
+    }
+}
+
+/**
+ * Creates a full set of in-memory repositories
+ * @param seed Optional initial rows for each table
+ */
+export function createInMemoryRepositories(seed: Partial<InMemorySeed> = {}): Repositories {
+    return {
+        images: new InMemoryImagesRepository(new InMemoryTable(seed.images)),
+        videos: new InMemoryVideosRepository(new InMemoryTable(seed.videos)),
+        prompts: new InMemoryPromptsRepository(new InMemoryTable(seed.prompts)),
+        conversations: new InMemoryConversationsRepository(new InMemoryTable(seed.conversations)),
+        blogPosts: new InMemoryBlogPostsRepository(new InMemoryTable(seed.blog_posts)),
+        blogPostTransitions: new InMemoryBlogPostTransitionsRepository(new InMemoryTable(seed.blog_post_transitions)),
+        tweetDrafts: new InMemoryTweetDraftsRepository(new InMemoryTable(seed.tweet_drafts)),
+        engagementMetrics: new InMemoryEngagementMetricsRepository(new InMemoryTable(seed.engagement_metrics)),
+        characterFiles: new InMemoryCharacterFilesRepository(new InMemoryTable(seed.character_files)),
+        suppressedPosts: new InMemorySuppressedPostsRepository(new InMemoryTable(seed.suppressed_posts)),
+        pollCursors: new InMemoryPollCursorsRepository(new InMemoryTable(seed.poll_cursors)),
+        postJobs: new InMemoryPostJobsRepository(new InMemoryTable(seed.post_jobs)),
+        scheduledRuns: new InMemoryScheduledRunsRepository(new InMemoryTable(seed.scheduled_job_runs)),
+        approvals: new InMemoryApprovalsRepository(new InMemoryTable(seed.approvals)),
+        moderationVerdicts: new InMemoryModerationVerdictsRepository(new InMemoryTable(seed.moderation_verdicts))
+    };
+}
@@ -0,0 +1,1327 @@
+import { config } from '../../config';
+import { SupabaseService, CharacterData } from '../supabase/SupabaseService';
+import { EngagementMetric, EngagementType } from '../engagement/EngagementService';
+import {
+    ApprovalContentType,
+    ApprovalRecord,
+    ApprovalsRepository,
+    ApprovalStatus,
+    BlogPostRecord,
+    BlogPostsRepository,
+    BlogPostStatus,
+    BlogPostTransitionRecord,
+    BlogPostTransitionsRepository,
+    CharacterFilesRepository,
+    ConversationRecord,
+    ConversationsRepository,
+    EngagementMetricsRepository,
+    ImageRecord,
+    ImagesRepository,
+    ModerationContentType,
+    ModerationVerdictRecord,
+    ModerationVerdictsRepository,
+    PollCursorRecord,
+    PollCursorsRepository,
+    PostJobRecord,
+    PostJobsRepository,
+    PostJobStatus,
+    PostJobType,
+    PromptRecord,
+    PromptsRepository,
+    Repositories,
+    ScheduledRunRecord,
+    ScheduledRunsRepository,
+    SuppressedPostRecord,
+    SuppressedPostsRepository,
+    SuppressedPostStatus,
+    TweetDraftRecord,
+    TweetDraftsRepository,
+    VideoRecord,
+    VideosRepository
+} from './types';
+
+// PostgREST error code for "no rows returned" from .single()
+const NO_ROWS = 'PGRST116';
+
+// Agent names are stored trimmed and lowercased (see normalizeCharacterFile), so lookups match them exactly
+const normalizeAgentName = (agentName: string): string => agentName.trim().toLowerCase();
+
+/**
+ * Images repository backed by Supabase
+ */
+export class SupabaseImagesRepository implements ImagesRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async listUnposted(persona: string, limit: number, oldestFirst: boolean = false): Promise<ImageRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('images')
+            .select('*')
+            .not('image_url', 'is', null)
+            .eq('x_posted', false)
+            .eq('persona', persona)
+            .order('created_at', { ascending: oldestFirst })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ImageRecord[];
+    }
+
+    public async getById(id: string): Promise<ImageRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('images')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as ImageRecord;
+    }
+
+    public async markPosted(id: string, tweetId: string | null = null): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('images')
+            .update({
+                x_posted: true,
+                x_posted_at: new Date().toISOString(),
+                ...(tweetId ? { tweet_id: tweetId } : {}),
+                lease_owner: null,
+                posting_started_at: null
+            })
+            .eq('id', id);
+
+        if (error) {
+            throw error;
+        }
+    }
+
+    public async claim(id: string, owner: string, now: Date): Promise<boolean> {
+        // One conditional UPDATE, so two workers can never both take the lease
+        const { data, error } = await this.supabaseService.client
+            .from('images')
+            .update({ lease_owner: owner, posting_started_at: now.toISOString() })
+            .eq('id', id)
+            .eq('x_posted', false)
+            .is('tweet_id', null)
+            .is('lease_owner', null)
+            .select('id');
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []).length === 1;
+    }
+
+    public async releaseClaim(id: string, owner: string): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('images')
+            .update({ lease_owner: null, posting_started_at: null })
+            .eq('id', id)
+            .eq('lease_owner', owner);
+
+        if (error) {
+            throw error;
+        }
+    }
+
+    public async listClaimedBefore(before: Date, limit: number): Promise<ImageRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('images')
+            .select('*')
+            .eq('x_posted', false)
+            .not('lease_owner', 'is', null)
+            .lt('posting_started_at', before.toISOString())
+            .order('posting_started_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ImageRecord[];
+    }
+
+    public async listUnpostedByPrompt(persona: string, promptId: string, limit: number): Promise<ImageRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('images')
+            .select('*')
+            .not('image_url', 'is', null)
+            .eq('x_posted', false)
+            .eq('persona', persona)
+            .eq('prompt_id', promptId)
+            .order('created_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ImageRecord[];
+    }
+
+    public async setAltText(id: string, altText: string): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('images')
+            .update({ alt_text: altText })
+            .eq('id', id);
+
+        if (error) {
+            throw error;
+        }
+    }
+
+    public async listPinned(persona: string, date: string): Promise<ImageRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('images')
+            .select('*')
+            .not('image_url', 'is', null)
+            .eq('x_posted', false)
+            .eq('persona', persona)
+            .eq('pinned_for', date)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ImageRecord[];
+    }
+
+    public async listPostedSince(persona: string, since: Date): Promise<ImageRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('images')
+            .select('*')
+            .eq('x_posted', true)
+            .eq('persona', persona)
+            .gte('x_posted_at', since.toISOString())
+            .order('x_posted_at', { ascending: false });
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ImageRecord[];
+    }
+
+    public async setPin(id: string, date: string | null): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('images')
+            .update({ pinned_for: date })
+            .eq('id', id);
+
+        if (error) {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Videos repository backed by Supabase
+ */
+export class SupabaseVideosRepository implements VideosRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async listUnposted(persona: string, limit: number): Promise<VideoRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('videos')
+            .select('*')
+            .not('video_url', 'is', null)
+            .eq('x_posted', false)
+            .eq('persona', persona)
+            .order('created_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as VideoRecord[];
+    }
+
+    public async getById(id: string): Promise<VideoRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('videos')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as VideoRecord;
+    }
+
+    public async markPosted(id: string, tweetId: string): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('videos')
+            .update({ x_posted: true, x_posted_at: new Date().toISOString(), tweet_id: tweetId })
+            .eq('id', id);
+
+        if (error) {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Prompts repository backed by Supabase
+ */
+export class SupabasePromptsRepository implements PromptsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async getById(id: string): Promise<PromptRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('prompts')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as PromptRecord;
+    }
+}
+
+/**
+ * Conversations repository backed by Supabase
+ */
+export class SupabaseConversationsRepository implements ConversationsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async findByTweetId(tweetId: string, persona: string): Promise<ConversationRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('conversations')
+            .select('*')
+            .eq('tweet_id', tweetId)
+            .eq('persona', persona)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as ConversationRecord;
+    }
+
+    public async findByResponseTweetId(responseTweetId: string, persona: string): Promise<ConversationRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('conversations')
+            .select('*')
+            .eq('response_tweet_id', responseTweetId)
+            .eq('persona', persona)
+            .limit(1);
+
+        if (error) {
+            throw error;
+        }
+
+        return data && data.length > 0 ? data[0] as ConversationRecord : null;
+    }
+
+    public async listByConversationId(conversationId: string, persona: string): Promise<ConversationRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('conversations')
+            .select('*')
+            .eq('conversation_id', conversationId)
+            .eq('persona', persona)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ConversationRecord[];
+    }
+
+    public async insert(record: ConversationRecord): Promise<ConversationRecord> {
+        const { data, error } = await this.supabaseService.client
+            .from('conversations')
+            .insert(record)
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return data as ConversationRecord;
+    }
+
+    public async updateLastCheckedAt(tweetId: string, persona: string, checkedAt: Date): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('conversations')
+            .update({ last_checked_at: checkedAt.toISOString() })
+            .eq('tweet_id', tweetId)
+            .eq('persona', persona);
+
+        if (error) {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Blog posts repository backed by Supabase
+ */
+export class SupabaseBlogPostsRepository implements BlogPostsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async listByStatus(status: BlogPostStatus, persona: string, limit: number): Promise<BlogPostRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('blog_posts')
+            .select('*')
+            .eq('status', status)
+            .eq('persona', persona)
+            .order('priority', { ascending: false })
+            .order('created_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as BlogPostRecord[];
+    }
+
+    public async listDue(persona: string, now: Date, limit: number): Promise<BlogPostRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('blog_posts')
+            .select('*')
+            .eq('status', 'scheduled')
+            .eq('persona', persona)
+            .lte('scheduled_at', now.toISOString())
+            .order('scheduled_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as BlogPostRecord[];
+    }
+
+    public async list(filter: { status?: BlogPostStatus; persona?: string }, limit: number): Promise<BlogPostRecord[]> {
+        let query = this.supabaseService.client
+            .from('blog_posts')
+            .select('*');
+
+        if (filter.status) {
+            query = query.eq('status', filter.status);
+        }
+        if (filter.persona) {
+            query = query.eq('persona', filter.persona);
+        }
+
+        const { data, error } = await query
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as BlogPostRecord[];
+    }
+
+    public async getById(id: string): Promise<BlogPostRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('blog_posts')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as BlogPostRecord;
+    }
+
+    public async update(id: string, changes: Partial<Omit<BlogPostRecord, 'id'>>): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('blog_posts')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id);
+
+        if (error) {
+            throw error;
+        }
+    }
+
+    public async updateIfStatus(id: string, status: BlogPostStatus, changes: Partial<Omit<BlogPostRecord, 'id'>>): Promise<boolean> {
+        const { data, error } = await this.supabaseService.client
+            .from('blog_posts')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('status', status)
+            .select('id');
+
+        if (error) {
+            throw error;
+        }
+
+        return !!data && data.length > 0;
+    }
+}
+
+/**
+ * Blog post transitions repository backed by Supabase
+ */
+export class SupabaseBlogPostTransitionsRepository implements BlogPostTransitionsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async insert(transition: BlogPostTransitionRecord): Promise<BlogPostTransitionRecord> {
+        const { data, error } = await this.supabaseService.client
+            .from('blog_post_transitions')
+            .insert(transition)
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return data as BlogPostTransitionRecord;
+    }
+
+    public async listByBlogPostId(blogPostId: string): Promise<BlogPostTransitionRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('blog_post_transitions')
+            .select('*')
+            .eq('blog_post_id', blogPostId)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as BlogPostTransitionRecord[];
+    }
+}
+
+/**
+ * Tweet drafts repository backed by Supabase
+ */
+export class SupabaseTweetDraftsRepository implements TweetDraftsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async insert(draft: TweetDraftRecord): Promise<TweetDraftRecord> {
+        const { data, error } = await this.supabaseService.client
+            .from('tweet_drafts')
+            .insert(draft)
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return data as TweetDraftRecord;
+    }
+
+    public async listByBlogPostId(blogPostId: string): Promise<TweetDraftRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('tweet_drafts')
+            .select('*')
+            .eq('blog_post_id', blogPostId)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as TweetDraftRecord[];
+    }
+
+    public async listByStatus(status: string, limit: number): Promise<TweetDraftRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('tweet_drafts')
+            .select('*')
+            .eq('status', status)
+            .order('created_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as TweetDraftRecord[];
+    }
+
+    public async update(id: string, changes: Partial<Omit<TweetDraftRecord, 'id'>>): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('tweet_drafts')
+            .update(changes)
+            .eq('id', id);
+
+        if (error) {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Engagement ledger backed by the engagement_metrics table
+ */
+export class SupabaseEngagementMetricsRepository implements EngagementMetricsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async recordEngagement(engagement: EngagementMetric): Promise<boolean> {
+        // ignoreDuplicates relies on the unique (persona, user_id, engagement_type, tweet_id) index,
+        // so an already-recorded engagement returns no rows instead of an error
+        const { data, error } = await this.supabaseService.client
+            .from('engagement_metrics')
+            .upsert({
+                persona: engagement.persona || config.personas.defaultPersona,
+                user_id: engagement.user_id,
+                username: engagement.username,
+                engagement_type: engagement.engagement_type,
+                tweet_id: engagement.tweet_id,
+                tweet_content: engagement.tweet_content || null,
+                conversation_id: engagement.conversation_id || null,
+                parent_tweet_id: engagement.parent_tweet_id || null,
+                created_at: engagement.created_at || new Date().toISOString()
+            }, {
+                onConflict: 'persona,user_id,engagement_type,tweet_id',
+                ignoreDuplicates: true
+            })
+            .select('id');
+
+        if (error) {
+            throw error;
+        }
+
+        return !!data && data.length > 0;
+    }
+
+    public async countEngagements(userId: string, engagementType: EngagementType, persona: string, since?: Date): Promise<number> {
+        let query = this.supabaseService.client
+            .from('engagement_metrics')
+            .select('id', { count: 'exact', head: true })
+            .eq('persona', persona)
+            .eq('user_id', userId)
+            .eq('engagement_type', engagementType);
+
+        if (since) {
+            query = query.gte('created_at', since.toISOString());
+        }
+
+        const { count, error } = await query;
+
+        if (error) {
+            throw error;
+        }
+
+        return count || 0;
+    }
+
+    public async hasPriorEngagement(userId: string, engagementType: EngagementType, persona: string, excludeTweetId?: string): Promise<boolean> {
+        let query = this.supabaseService.client
+            .from('engagement_metrics')
+            .select('id')
+            .eq('persona', persona)
+            .eq('user_id', userId)
+            .eq('engagement_type', engagementType);
+
+        if (excludeTweetId) {
+            query = query.neq('tweet_id', excludeTweetId);
+        }
+
+        const { data, error } = await query.limit(1);
+
+        if (error) {
+            throw error;
+        }
+
+        return !!data && data.length > 0;
+    }
+
+    public async listEngagementsSince(since: Date, persona: string): Promise<EngagementMetric[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('engagement_metrics')
+            .select('*')
+            .eq('persona', persona)
+            .not('engagement_type', 'is', null)
+            .gte('created_at', since.toISOString())
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as EngagementMetric[];
+    }
+}
+
+/**
+ * Character files repository backed by Supabase
+ */
+export class SupabaseCharacterFilesRepository implements CharacterFilesRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async findActive(agentName: string): Promise<CharacterData | null> {
+        console.log(`Fetching active character data for agent: ${agentName}`);
+
+        const { data, error } = await this.supabaseService.client
+            .from('character_files')
+            .select('*')
+            .eq('agent_name', normalizeAgentName(agentName))
+            .eq('is_active', true)
+            .order('version', { ascending: false })
+            .limit(1);
+
+        if (error) {
+            throw error;
+        }
+
+        return data && data.length > 0 ? data[0] as CharacterData : null;
+    }
+
+    public async findVersion(agentName: string, version: number): Promise<CharacterData | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('character_files')
+            .select('*')
+            .eq('agent_name', normalizeAgentName(agentName))
+            .eq('version', version)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as CharacterData;
+    }
+
+    public async listVersions(agentName: string): Promise<CharacterData[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('character_files')
+            .select('*')
+            .eq('agent_name', normalizeAgentName(agentName))
+            .order('version', { ascending: false });
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as CharacterData[];
+    }
+
+    public async activateVersion(agentName: string, version: number): Promise<CharacterData | null> {
+        const updated_at = new Date().toISOString();
+
+        // Activate the new version before deactivating the rest, so there is always an active version
+        const { data, error } = await this.supabaseService.client
+            .from('character_files')
+            .update({ is_active: true, updated_at })
+            .eq('agent_name', normalizeAgentName(agentName))
+            .eq('version', version)
+            .select('*');
+
+        if (error) {
+            throw error;
+        }
+        if (!data || data.length === 0) {
+            return null;
+        }
+
+        const { error: deactivateError } = await this.supabaseService.client
+            .from('character_files')
+            .update({ is_active: false, updated_at })
+            .eq('agent_name', normalizeAgentName(agentName))
+            .neq('version', version);
+
+        if (deactivateError) {
+            throw deactivateError;
+        }
+
+        return data[0] as CharacterData;
+    }
+
+    public async list(): Promise<CharacterData[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('character_files')
+            .select('*')
+            .order('agent_name', { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as CharacterData[];
+    }
+
+    public async insert(character: CharacterData): Promise<CharacterData> {
+        const { data, error } = await this.supabaseService.client
+            .from('character_files')
+            .insert(character)
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return data as CharacterData;
+    }
+}
+
+/**
+ * Suppressed posts repository backed by Supabase
+ */
+export class SupabaseSuppressedPostsRepository implements SuppressedPostsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async insert(record: SuppressedPostRecord): Promise<SuppressedPostRecord> {
+        const { data, error } = await this.supabaseService.client
+            .from('suppressed_posts')
+            .insert(record)
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return data as SuppressedPostRecord;
+    }
+
+    public async getById(id: string): Promise<SuppressedPostRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('suppressed_posts')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as SuppressedPostRecord;
+    }
+
+    public async list(status: SuppressedPostStatus | undefined, limit: number): Promise<SuppressedPostRecord[]> {
+        let query = this.supabaseService.client
+            .from('suppressed_posts')
+            .select('*');
+
+        if (status) {
+            query = query.eq('status', status);
+        }
+
+        const { data, error } = await query
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as SuppressedPostRecord[];
+    }
+
+    public async countByStatus(status: SuppressedPostStatus): Promise<number> {
+        const { count, error } = await this.supabaseService.client
+            .from('suppressed_posts')
+            .select('id', { count: 'exact', head: true })
+            .eq('status', status);
+
+        if (error) {
+            throw error;
+        }
+
+        return count || 0;
+    }
+
+    public async update(id: string, changes: Partial<Omit<SuppressedPostRecord, 'id'>>): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('suppressed_posts')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id);
+
+        if (error) {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Poll cursors repository backed by Supabase
+ */
+export class SupabasePollCursorsRepository implements PollCursorsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async get(accountId: string, queryType: string): Promise<PollCursorRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('poll_cursors')
+            .select('*')
+            .eq('account_id', accountId)
+            .eq('query_type', queryType)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as PollCursorRecord;
+    }
+
+    public async save(cursor: PollCursorRecord): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('poll_cursors')
+            .upsert({ ...cursor, updated_at: new Date().toISOString() }, { onConflict: 'account_id,query_type' });
+
+        if (error) {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Post jobs repository backed by Supabase
+ */
+export class SupabasePostJobsRepository implements PostJobsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async insert(job: PostJobRecord): Promise<PostJobRecord> {
+        const { data, error } = await this.supabaseService.client
+            .from('post_jobs')
+            .insert(job)
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return data as PostJobRecord;
+    }
+
+    public async getById(id: string): Promise<PostJobRecord | null> {
+        return this.findOne('id', id);
+    }
+
+    public async findByIdempotencyKey(key: string): Promise<PostJobRecord | null> {
+        return this.findOne('idempotency_key', key);
+    }
+
+    public async listDue(now: Date, limit: number): Promise<PostJobRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('post_jobs')
+            .select('*')
+            .eq('status', 'pending')
+            .lte('next_attempt_at', now.toISOString())
+            .order('next_attempt_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as PostJobRecord[];
+    }
+
+    public async list(filter: { status?: PostJobStatus; type?: PostJobType }, limit: number): Promise<PostJobRecord[]> {
+        let query = this.supabaseService.client
+            .from('post_jobs')
+            .select('*');
+
+        if (filter.status) {
+            query = query.eq('status', filter.status);
+        }
+        if (filter.type) {
+            query = query.eq('type', filter.type);
+        }
+
+        const { data, error } = await query
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as PostJobRecord[];
+    }
+
+    public async countByStatus(status: PostJobStatus): Promise<number> {
+        const { count, error } = await this.supabaseService.client
+            .from('post_jobs')
+            .select('id', { count: 'exact', head: true })
+            .eq('status', status);
+
+        if (error) {
+            throw error;
+        }
+
+        return count || 0;
+    }
+
+    public async claim(id: string, attempts: number, now: Date): Promise<boolean> {
+        // One conditional UPDATE, so two workers can never both run the job
+        const { data, error } = await this.supabaseService.client
+            .from('post_jobs')
+            .update({ status: 'running', attempts, started_at: now.toISOString(), updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('status', 'pending')
+            .select('id');
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []).length === 1;
+    }
+
+    public async listStartedBefore(before: Date, limit: number): Promise<PostJobRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('post_jobs')
+            .select('*')
+            .eq('status', 'running')
+            .lt('started_at', before.toISOString())
+            .order('started_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as PostJobRecord[];
+    }
+
+    public async update(id: string, changes: Partial<Omit<PostJobRecord, 'id'>>): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('post_jobs')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id);
+
+        if (error) {
+            throw error;
+        }
+    }
+
+    private async findOne(column: string, value: string): Promise<PostJobRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('post_jobs')
+            .select('*')
+            .eq(column, value)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as PostJobRecord;
+    }
+}
+
+/**
+ * Scheduled job runs repository backed by Supabase
+ */
+export class SupabaseScheduledRunsRepository implements ScheduledRunsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async insert(run: ScheduledRunRecord): Promise<ScheduledRunRecord> {
+        const { data, error } = await this.supabaseService.client
+            .from('scheduled_job_runs')
+            .insert(run)
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return data as ScheduledRunRecord;
+    }
+
+    public async update(id: string, changes: Partial<Omit<ScheduledRunRecord, 'id'>>): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('scheduled_job_runs')
+            .update(changes)
+            .eq('id', id);
+
+        if (error) {
+            throw error;
+        }
+    }
+
+    public async getLatest(jobName: string): Promise<ScheduledRunRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('scheduled_job_runs')
+            .select('*')
+            .eq('job_name', jobName)
+            .neq('status', 'skipped')
+            .order('scheduled_for', { ascending: false })
+            .order('started_at', { ascending: false })
+            .limit(1);
+
+        if (error) {
+            throw error;
+        }
+
+        return data && data.length > 0 ? data[0] as ScheduledRunRecord : null;
+    }
+
+    public async listRecent(jobName: string | undefined, limit: number): Promise<ScheduledRunRecord[]> {
+        let query = this.supabaseService.client
+            .from('scheduled_job_runs')
+            .select('*');
+
+        if (jobName) {
+            query = query.eq('job_name', jobName);
+        }
+
+        const { data, error } = await query
+            .order('started_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ScheduledRunRecord[];
+    }
+
+    public async deleteBefore(before: Date): Promise<void> {
+        const { error } = await this.supabaseService.client
+            .from('scheduled_job_runs')
+            .delete()
+            .lt('started_at', before.toISOString());
+
+        if (error) {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Approvals repository backed by Supabase
+ */
+export class SupabaseApprovalsRepository implements ApprovalsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async insert(approval: ApprovalRecord): Promise<ApprovalRecord> {
+        const { data, error } = await this.supabaseService.client
+            .from('approvals')
+            .insert(approval)
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return data as ApprovalRecord;
+    }
+
+    public async getById(id: string): Promise<ApprovalRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('approvals')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            if (error.code === NO_ROWS) {
+                return null;
+            }
+            throw error;
+        }
+
+        return data as ApprovalRecord;
+    }
+
+    public async findPendingByKey(key: string): Promise<ApprovalRecord | null> {
+        const { data, error } = await this.supabaseService.client
+            .from('approvals')
+            .select('*')
+            .eq('idempotency_key', key)
+            .eq('status', 'pending')
+            .limit(1);
+
+        if (error) {
+            throw error;
+        }
+
+        return data && data.length > 0 ? data[0] as ApprovalRecord : null;
+    }
+
+    public async list(filter: { status?: ApprovalStatus; content_type?: ApprovalContentType; persona?: string }, limit: number): Promise<ApprovalRecord[]> {
+        let query = this.supabaseService.client
+            .from('approvals')
+            .select('*');
+
+        if (filter.status) {
+            query = query.eq('status', filter.status);
+        }
+        if (filter.content_type) {
+            query = query.eq('content_type', filter.content_type);
+        }
+        if (filter.persona) {
+            query = query.eq('persona', filter.persona);
+        }
+
+        const { data, error } = await query
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ApprovalRecord[];
+    }
+
+    public async listExpired(now: Date, limit: number): Promise<ApprovalRecord[]> {
+        const { data, error } = await this.supabaseService.client
+            .from('approvals')
+            .select('*')
+            .eq('status', 'pending')
+            .lte('expires_at', now.toISOString())
+            .order('expires_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ApprovalRecord[];
+    }
+
+    public async countByStatus(status: ApprovalStatus): Promise<number> {
+        const { count, error } = await this.supabaseService.client
+            .from('approvals')
+            .select('id', { count: 'exact', head: true })
+            .eq('status', status);
+
+        if (error) {
+            throw error;
+        }
+
+        return count || 0;
+    }
+
+    public async updateIfStatus(id: string, status: ApprovalStatus, changes: Partial<Omit<ApprovalRecord, 'id'>>): Promise<boolean> {
+        const { data, error } = await this.supabaseService.client
+            .from('approvals')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('status', status)
+            .select('id');
+
+        if (error) {
+            throw error;
+        }
+
+        return !!data && data.length > 0;
+    }
+}
+
+/**
+ * Moderation verdicts repository backed by Supabase
+ */
+export class SupabaseModerationVerdictsRepository implements ModerationVerdictsRepository {
+    constructor(private supabaseService: SupabaseService) {}
+
+    public async insert(verdict: ModerationVerdictRecord): Promise<ModerationVerdictRecord> {
+        const { data, error } = await this.supabaseService.client
+            .from('moderation_verdicts')
+            .insert(verdict)
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return data as ModerationVerdictRecord;
+    }
+
+    public async list(filter: { allowed?: boolean; content_type?: ModerationContentType; persona?: string }, limit: number): Promise<ModerationVerdictRecord[]> {
+        let query = this.supabaseService.client
+            .from('moderation_verdicts')
+            .select('*');
+
+        if (filter.allowed !== undefined) {
+            query = query.eq('allowed', filter.allowed);
+        }
+        if (filter.content_type) {
+            query = query.eq('content_type', filter.content_type);
+        }
+        if (filter.persona) {
+            query = query.eq('persona', filter.persona);
+        }
+
+        const { data, error } = await query
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        return (data || []) as ModerationVerdictRecord[];
+    }
+}
+
+/**
+ * Creates the full set of Supabase-backed repositories
+ * @param supabaseService The Supabase service to use
+ */
+export function createSupabaseRepositories(
+    supabaseService: SupabaseService = SupabaseService.getInstance()
+): Repositories {
+    return {
+        images: new SupabaseImagesRepository(supabaseService),
+        videos: new SupabaseVideosRepository(supabaseService),
+        prompts: new SupabasePromptsRepository(supabaseService),
+        conversations: new SupabaseConversationsRepository(supabaseService),
+        blogPosts: new SupabaseBlogPostsRepository(supabaseService),
+        blogPostTransitions: new SupabaseBlogPostTransitionsRepository(supabaseService),
+        tweetDrafts: new SupabaseTweetDraftsRepository(supabaseService),
+        engagementMetrics: new SupabaseEngagementMetricsRepository(supabaseService),
+        characterFiles: new SupabaseCharacterFilesRepository(supabaseService),
+        suppressedPosts: new SupabaseSuppressedPostsRepository(supabaseService),
+        pollCursors: new SupabasePollCursorsRepository(supabaseService),
+        postJobs: new SupabasePostJobsRepository(supabaseService),
+        scheduledRuns: new SupabaseScheduledRunsRepository(supabaseService),
+        approvals: new SupabaseApprovalsRepository(supabaseService),
+        moderationVerdicts: new SupabaseModerationVerdictsRepository(supabaseService)
+    };
+}
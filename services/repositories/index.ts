@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import { config } from '../../config';
+import { Repositories } from './types';
+import { createSupabaseRepositories } from './SupabaseRepositories';
+import { createInMemoryRepositories, InMemorySeed } from './InMemoryRepositories';
+
+export * from './types';
+export { createSupabaseRepositories } from './SupabaseRepositories';
+export { createInMemoryRepositories, InMemorySeed } from './InMemoryRepositories';
+
+let repositories: Repositories | null = null;
+
+/**
+ * Gets the repositories for the configured storage backend.
+ * The Supabase client is only created when the Supabase backend is selected.
+ */
+export function getRepositories(): Repositories {
+    if (!repositories) {
+        repositories = createConfiguredRepositories();
+    }
+    return repositories;
+}
+
+/**
+ * Replaces the active repositories (e.g. with in-memory ones in test scripts)
+ * @param newRepositories The repositories to use
+ */
+export function setRepositories(newRepositories: Repositories): void {
+    repositories = newRepositories;
+}
+
+function createConfiguredRepositories(): Repositories {
+    if (config.storage.backend === 'memory') {
+        console.log('Using in-memory storage backend');
+        return createInMemoryRepositories(loadSeed(config.storage.seedFile));
+    }
+
+    return createSupabaseRepositories();
+}
+
+/**
+ * Loads initial rows for the in-memory backend from a JSON file
+ * @param seedFile Path to a JSON file keyed by table name
+ */
+function loadSeed(seedFile?: string): Partial<InMemorySeed> {
+    if (!seedFile) {
+        return {};
+    }
+
+    try {
+        console.log(`Loading in-memory seed data from: ${seedFile}`);
+        return JSON.parse(fs.readFileSync(seedFile, 'utf8'));
+    } catch (error) {
+        console.error('Error loading in-memory seed data:', error);
+        throw new Error(`Failed to load seed file: ${seedFile}`);
+    }
+}
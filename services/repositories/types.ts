@@ -0,0 +1,882 @@
+import { CharacterData } from '../supabase/SupabaseService';
+import { EngagementMetric, EngagementType } from '../engagement/EngagementService';
+import { LLMRequest, LLMUseCase } from '../llm/LLMProvider';
+
+/**
+ * Row in the images table
+ */
+export interface ImageRecord {
+    id: string;
+    prompt_id: string;
+    image_url: string | null;
+    x_posted: boolean;
+    x_posted_at?: string | null; // When it was posted, for avoiding repeats
+    pinned_for?: string | null; // Post it on this date (YYYY-MM-DD, in the image_tweet job's time zone)
+    tweet_id?: string | null; // The tweet it was posted in
+    alt_text?: string | null; // Accessible description, set on the media when it is posted
+    lease_owner?: string | null; // The worker posting it; no other worker claims it until the lease is released or recovered
+    posting_started_at?: string | null; // When the lease was taken
+    persona?: string; // The persona that posts the image
+    created_at: string;
+}
+
+/**
+ * Row in the videos table: a short video or animated GIF generated from a prompt
+ */
+export interface VideoRecord {
+    id: string;
+    prompt_id: string;
+    video_url: string | null; // An MP4 or GIF file
+    x_posted: boolean;
+    x_posted_at?: string | null;
+    tweet_id?: string | null; // The tweet it was posted in
+    persona?: string; // The persona that posts the video
+    created_at: string;
+}
+
+/**
+ * Row in the prompts table
+ */
+export interface PromptRecord {
+    id: string;
+    text: string;
+    tags?: string[] | null; // Subjects of the prompt, weighted by the weighted_tags image selection
+    style?: string | null; // Visual style, not repeated within the avoid-repeat window
+    created_at?: string;
+}
+
+/**
+ * Row in the conversations table
+ */
+export interface ConversationRecord {
+    id?: string;
+    tweet_id: string;
+    conversation_id?: string | null;
+    parent_tweet_id?: string | null; // The tweet the incoming tweet replied to
+    user_id: string;
+    username: string;
+    tweet_content?: string | null;
+    response_tweet_id?: string | null;
+    response_content?: string | null;
+    declined_reason?: string | null; // Why Marvin chose not to reply, if he didn't
+    persona?: string; // The persona whose account received the tweet
+    is_processed?: boolean;
+    created_at?: string;
+    responded_at?: string | null;
+    last_checked_at?: string | null;
+}
+
+/**
+ * Lifecycle of a blog post: draft → ready_to_tweet → scheduled → posting → posted / failed / cancelled
+ */
+export type BlogPostStatus = 'draft' | 'ready_to_tweet' | 'scheduled' | 'posting' | 'posted' | 'failed' | 'cancelled';
+
+/**
+ * Row in the blog_posts table
+ */
+export interface BlogPostRecord {
+    id: string;
+    title: string;
+    markdown: string;
+    status: BlogPostStatus;
+    post_url?: string | null;
+    persona?: string; // The persona that posts the blog post
+    scheduled_at?: string | null; // When a scheduled post goes out, instead of at the next weekly slot
+    priority?: number; // Higher goes first; 0 if not set
+    created_at: string;
+    updated_at?: string;
+}
+
+/**
+ * Row in the blog_post_transitions table: one status change of a blog post
+ */
+export interface BlogPostTransitionRecord {
+    id?: string;
+    blog_post_id: string;
+    from_status: BlogPostStatus;
+    to_status: BlogPostStatus;
+    actor: string; // Who made the change: "scheduler", or the admin for changes made through the API
+    reason?: string | null;
+    created_at?: string;
+}
+
+/**
+ * Row in the tweet_drafts table
+ */
+export interface TweetDraftRecord {
+    id?: string;
+    blog_post_id: string;
+    text: string;
+    post_url?: string | null;
+    status: string; // "posted"; for threads also "posting" while parts remain and "abandoned" once cleaned up
+    metadata?: Record<string, any> | null;
+    created_at?: string;
+}
+
+/**
+ * What to do with a post whose text could not be generated
+ */
+export type SuppressionAction = 'skip' | 'retry' | 'review';
+
+/**
+ * Lifecycle of a suppressed post
+ */
+export type SuppressedPostStatus = 'skipped' | 'pending_retry' | 'pending_review' | 'resolved' | 'dismissed';
+
+/**
+ * Row in the suppressed_posts table: a post that was not published because generation failed
+ */
+export interface SuppressedPostRecord {
+    id?: string;
+    content_type: LLMUseCase;
+    action: SuppressionAction;
+    status: SuppressedPostStatus;
+    reason: string;
+    attempts: number;
+    payload?: Record<string, any> | null; // What is needed to retry or review the post
+    created_at?: string;
+    updated_at?: string;
+}
+
+/**
+ * Row in the poll_cursors table: the newest tweet already processed for a search
+ */
+export interface PollCursorRecord {
+    account_id: string;
+    query_type: string; // 'mentions', or 'replies:<tweet id>' for replies to one tweet
+    since_id: string;
+    updated_at?: string;
+}
+
+/**
+ * Kinds of outbound post handled by the post job queue
+ */
+export type PostJobType = 'blog_post' | 'image_tweet' | 'video_tweet' | 'engagement_reply' | 'daily_tweet';
+
+/**
+ * Lifecycle of a post job
+ */
+export type PostJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Row in the post_jobs table: one outbound post and its delivery attempts
+ */
+export interface PostJobRecord {
+    id?: string;
+    type: PostJobType;
+    idempotency_key: string; // Unique; enqueueing the same key again returns the existing job
+    status: PostJobStatus;
+    payload: Record<string, any>;
+    attempts: number;
+    max_attempts: number;
+    next_attempt_at: string;
+    started_at?: string | null; // When the running attempt started; jobs running too long are put back in the queue
+    last_error?: string | null;
+    result?: Record<string, any> | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+/**
+ * Kinds of generated post that can be held for review
+ */
+export type ApprovalContentType = 'daily_tweet' | 'image_caption' | 'engagement_reply' | 'blog_thread';
+
+/**
+ * Lifecycle of a post held for review
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+/**
+ * How a post's text was generated
+ */
+export interface GenerationInfo {
+    use_case: LLMUseCase | null; // null when no text was generated, e.g. a thread opening with its title
+    prompt: LLMRequest | null; // Sent again when the post is regenerated
+    provider: string | null;
+    model: string | null;
+    character_version: number | null;
+}
+
+/**
+ * Row in the approvals table: a generated post waiting for a reviewer before it is queued
+ */
+export interface ApprovalRecord {
+    id?: string;
+    content_type: ApprovalContentType;
+    status: ApprovalStatus;
+    persona: string;
+    texts: string[]; // The post's text; one per tweet for a thread
+    generation: GenerationInfo;
+    job_type: PostJobType; // The post job created on approval
+    idempotency_key: string;
+    payload: Record<string, any>;
+    edited: boolean; // A reviewer changed the generated text
+    regenerations: number;
+    moderation_issues?: ModerationIssue[]; // What moderation found; a blocked post is held whatever its type's setting
+    reviewer?: string | null;
+    review_note?: string | null;
+    post_job_id?: string | null;
+    expires_at: string; // Pending posts are dropped after this
+    reviewed_at?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+/**
+ * Kinds of outbound text checked by moderation
+ */
+export type ModerationContentType = ApprovalContentType | 'blog_post' | 'daily_wrapup' | 'test_tweet';
+
+/**
+ * A problem a moderation rule found in a post
+ */
+export interface ModerationIssue {
+    rule: string; // e.g. "blocklist" or "prompt_leak"
+    reason: string;
+    tweet_index: number; // Which tweet of a thread, from 0
+}
+
+/**
+ * Row in the moderation_verdicts table: the outcome of checking one post before it was queued or held
+ */
+export interface ModerationVerdictRecord {
+    id?: string;
+    persona: string;
+    content_type: ModerationContentType;
+    subject_key: string | null; // The post job's idempotency key, when it has one
+    texts: string[];
+    allowed: boolean;
+    issues: ModerationIssue[];
+    created_at?: string;
+}
+
+/**
+ * Outcome of a scheduled job run
+ */
+export type ScheduledRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+/**
+ * Row in the scheduled_job_runs table: one run (or skipped run) of a scheduled job
+ */
+export interface ScheduledRunRecord {
+    id?: string;
+    job_name: string;
+    trigger: 'schedule' | 'catch_up' | 'startup' | 'manual';
+    scheduled_for: string;
+    started_at: string;
+    finished_at?: string | null;
+    status: ScheduledRunStatus;
+    error?: string | null;
+}
+
+/**
+ * Aggregated engagement counts for a single user
+ */
+export interface UserEngagementSummary {
+    user_id: string;
+    username: string;
+    engagement_count: number;
+    engagement_types: EngagementType[];
+    first_engagement?: string;
+    last_engagement?: string;
+}
+
+/**
+ * Access to the images table.
+ * The images, conversations, blog_posts and engagement_metrics tables are scoped by persona;
+ * rows stored before personas existed belong to the default persona.
+ */
+export interface ImagesRepository {
+    /**
+     * Lists a persona's images with an image_url that have not been posted to X, newest first
+     * @param persona The persona name
+     * @param limit Maximum number of images to return
+     * @param oldestFirst List the oldest first instead
+     */
+    listUnposted(persona: string, limit: number, oldestFirst?: boolean): Promise<ImageRecord[]>;
+
+    /**
+     * Lists a persona's unposted images with an image_url generated from a prompt, oldest first
+     * @param persona The persona name
+     * @param promptId The prompt ID
+     * @param limit Maximum number of images to return
+     */
+    listUnpostedByPrompt(persona: string, promptId: string, limit: number): Promise<ImageRecord[]>;
+
+    /**
+     * Sets the alt text of an image
+     * @param id The image ID
+     * @param altText The alt text
+     */
+    setAltText(id: string, altText: string): Promise<void>;
+
+    /**
+     * Lists a persona's unposted images pinned for a date
+     * @param persona The persona name
+     * @param date The date, YYYY-MM-DD
+     */
+    listPinned(persona: string, date: string): Promise<ImageRecord[]>;
+
+    /**
+     * Lists a persona's images posted to X since a time, newest first
+     * @param persona The persona name
+     * @param since The earliest posting time
+     */
+    listPostedSince(persona: string, since: Date): Promise<ImageRecord[]>;
+
+    /**
+     * Pins an image for a date, or removes its pin
+     * @param id The image ID
+     * @param date The date, YYYY-MM-DD, or null to unpin
+     */
+    setPin(id: string, date: string | null): Promise<void>;
+
+    /**
+     * Gets an image by ID
+     * @param id The image ID
+     */
+    getById(id: string): Promise<ImageRecord | null>;
+
+    /**
+     * Marks an image as posted to X, now, and releases its lease
+     * @param id The image ID
+     * @param tweetId The tweet it was posted in, when known
+     */
+    markPosted(id: string, tweetId?: string | null): Promise<void>;
+
+    /**
+     * Claims an unposted image for posting, in one atomic update: only one worker gets the lease
+     * @param id The image ID
+     * @param owner The worker taking the lease
+     * @param now The time the lease is taken
+     * @returns Whether the lease was taken; false if the image is posted or another worker holds it
+     */
+    claim(id: string, owner: string, now: Date): Promise<boolean>;
+
+    /**
+     * Releases a lease, if the worker still holds it
+     * @param id The image ID
+     * @param owner The worker that took the lease
+     */
+    releaseClaim(id: string, owner: string): Promise<void>;
+
+    /**
+     * Lists unposted images whose lease was taken before a time, oldest lease first
+     * @param before The time
+     * @param limit Maximum number of images to return
+     */
+    listClaimedBefore(before: Date, limit: number): Promise<ImageRecord[]>;
+}
+
+/**
+ * Access to the videos table
+ */
+export interface VideosRepository {
+    /**
+     * Lists a persona's videos with a video_url that have not been posted to X, oldest first
+     * @param persona The persona name
+     * @param limit Maximum number of videos to return
+     */
+    listUnposted(persona: string, limit: number): Promise<VideoRecord[]>;
+
+    /**
+     * Gets a video by ID
+     * @param id The video ID
+     */
+    getById(id: string): Promise<VideoRecord | null>;
+
+    /**
+     * Marks a video as posted to X, now
+     * @param id The video ID
+     * @param tweetId The tweet it was posted in
+     */
+    markPosted(id: string, tweetId: string): Promise<void>;
+}
+
+/**
+ * Access to the prompts table
+ */
+export interface PromptsRepository {
+    /**
+     * Gets a prompt by ID
+     * @param id The prompt ID
+     */
+    getById(id: string): Promise<PromptRecord | null>;
+}
+
+/**
+ * Access to the conversations table
+ */
+export interface ConversationsRepository {
+    /**
+     * Gets the conversation record for a tweet a persona processed
+     * @param tweetId The ID of the incoming tweet
+     * @param persona The persona name
+     */
+    findByTweetId(tweetId: string, persona: string): Promise<ConversationRecord | null>;
+
+    /**
+     * Gets the conversation record of one of a persona's replies
+     * @param responseTweetId The ID of the reply
+     * @param persona The persona name
+     */
+    findByResponseTweetId(responseTweetId: string, persona: string): Promise<ConversationRecord | null>;
+
+    /**
+     * Lists a persona's records in a conversation thread, oldest first
+     * @param conversationId The conversation ID
+     * @param persona The persona name
+     */
+    listByConversationId(conversationId: string, persona: string): Promise<ConversationRecord[]>;
+
+    /**
+     * Inserts a conversation record. Each tweet is recorded once per persona.
+     * @param record The record to insert
+     */
+    insert(record: ConversationRecord): Promise<ConversationRecord>;
+
+    /**
+     * Updates the last_checked_at timestamp for a tweet's record
+     * @param tweetId The ID of the incoming tweet
+     * @param persona The persona name
+     * @param checkedAt The time of the check
+     */
+    updateLastCheckedAt(tweetId: string, persona: string, checkedAt: Date): Promise<void>;
+}
+
+/**
+ * Access to the blog_posts table
+ */
+export interface BlogPostsRepository {
+    /**
+     * Lists a persona's blog posts with a status, highest priority first, then oldest first
+     * @param status The status to filter by
+     * @param persona The persona name
+     * @param limit Maximum number of posts to return
+     */
+    listByStatus(status: BlogPostStatus, persona: string, limit: number): Promise<BlogPostRecord[]>;
+
+    /**
+     * Lists a persona's scheduled blog posts whose time has come, earliest scheduled first
+     * @param persona The persona name
+     * @param now The current time
+     * @param limit Maximum number of posts to return
+     */
+    listDue(persona: string, now: Date, limit: number): Promise<BlogPostRecord[]>;
+
+    /**
+     * Lists blog posts, newest first
+     * @param filter Only list posts with this status and/or persona
+     * @param limit Maximum number of posts to return
+     */
+    list(filter: { status?: BlogPostStatus; persona?: string }, limit: number): Promise<BlogPostRecord[]>;
+
+    /**
+     * Gets a blog post by ID
+     * @param id The blog post ID
+     */
+    getById(id: string): Promise<BlogPostRecord | null>;
+
+    /**
+     * Updates fields on a blog post
+     * @param id The blog post ID
+     * @param changes The fields to update
+     */
+    update(id: string, changes: Partial<Omit<BlogPostRecord, 'id'>>): Promise<void>;
+
+    /**
+     * Updates fields on a blog post if it still has the expected status
+     * @param id The blog post ID
+     * @param status The status the post must have
+     * @param changes The fields to update
+     * @returns true if the post was updated, false if its status had changed
+     */
+    updateIfStatus(id: string, status: BlogPostStatus, changes: Partial<Omit<BlogPostRecord, 'id'>>): Promise<boolean>;
+}
+
+/**
+ * Access to the blog_post_transitions table
+ */
+export interface BlogPostTransitionsRepository {
+    /**
+     * Records a status change
+     * @param transition The transition to record
+     */
+    insert(transition: BlogPostTransitionRecord): Promise<BlogPostTransitionRecord>;
+
+    /**
+     * Lists a blog post's status changes, oldest first
+     * @param blogPostId The blog post ID
+     */
+    listByBlogPostId(blogPostId: string): Promise<BlogPostTransitionRecord[]>;
+}
+
+/**
+ * Access to the tweet_drafts table
+ */
+export interface TweetDraftsRepository {
+    /**
+     * Inserts a tweet draft record
+     * @param draft The draft to insert
+     */
+    insert(draft: TweetDraftRecord): Promise<TweetDraftRecord>;
+
+    /**
+     * Lists the tweet drafts recorded for a blog post, oldest first
+     * @param blogPostId The blog post ID
+     */
+    listByBlogPostId(blogPostId: string): Promise<TweetDraftRecord[]>;
+
+    /**
+     * Lists tweet drafts with a status, oldest first
+     * @param status The status to match, e.g. "posting"
+     * @param limit Maximum number of drafts to return
+     */
+    listByStatus(status: string, limit: number): Promise<TweetDraftRecord[]>;
+
+    /**
+     * Updates fields on a tweet draft
+     * @param id The draft ID
+     * @param changes The fields to update
+     */
+    update(id: string, changes: Partial<Omit<TweetDraftRecord, 'id'>>): Promise<void>;
+}
+
+/**
+ * Access to the engagement_metrics ledger.
+ * Each engagement is unique by (persona, user_id, engagement_type, tweet_id).
+ */
+export interface EngagementMetricsRepository {
+    /**
+     * Records an engagement in the ledger
+     * @param engagement The engagement to record
+     * @returns true if the engagement was new, false if it was already recorded
+     */
+    recordEngagement(engagement: EngagementMetric): Promise<boolean>;
+
+    /**
+     * Counts a user's engagements of a type with a persona since a given time
+     * @param userId The user ID
+     * @param engagementType The type of engagement
+     * @param persona The persona name
+     * @param since Only count engagements created at or after this time
+     */
+    countEngagements(userId: string, engagementType: EngagementType, persona: string, since?: Date): Promise<number>;
+
+    /**
+     * Checks whether a user has any engagement of a type with a persona, optionally ignoring one tweet
+     * @param userId The user ID
+     * @param engagementType The type of engagement
+     * @param persona The persona name
+     * @param excludeTweetId Tweet ID to ignore (usually the engagement being processed)
+     */
+    hasPriorEngagement(userId: string, engagementType: EngagementType, persona: string, excludeTweetId?: string): Promise<boolean>;
+
+    /**
+     * Lists a persona's engagements created at or after a given time
+     * @param since Start of the time window
+     * @param persona The persona name
+     */
+    listEngagementsSince(since: Date, persona: string): Promise<EngagementMetric[]>;
+}
+
+/**
+ * Access to the character_files table
+ */
+export interface CharacterFilesRepository {
+    /**
+     * Finds the active version of a character (agent name matched case-insensitively).
+     * If several versions are marked active, the highest wins.
+     * @param agentName The name of the agent
+     */
+    findActive(agentName: string): Promise<CharacterData | null>;
+
+    /**
+     * Finds one version of a character
+     * @param agentName The name of the agent
+     * @param version The version number
+     */
+    findVersion(agentName: string, version: number): Promise<CharacterData | null>;
+
+    /**
+     * Lists every version of a character, newest first
+     * @param agentName The name of the agent
+     */
+    listVersions(agentName: string): Promise<CharacterData[]>;
+
+    /**
+     * Makes one version of a character the active one and deactivates the others
+     * @param agentName The name of the agent
+     * @param version The version to activate
+     * @returns The activated version, or null if it does not exist
+     */
+    activateVersion(agentName: string, version: number): Promise<CharacterData | null>;
+
+    /**
+     * Lists all characters
+     */
+    list(): Promise<CharacterData[]>;
+
+    /**
+     * Inserts a character
+     * @param character The character to insert
+     */
+    insert(character: CharacterData): Promise<CharacterData>;
+}
+
+/**
+ * Access to the suppressed_posts table
+ */
+export interface SuppressedPostsRepository {
+    /**
+     * Inserts a suppressed post record
+     * @param record The record to insert
+     */
+    insert(record: SuppressedPostRecord): Promise<SuppressedPostRecord>;
+
+    /**
+     * Gets a suppressed post by ID
+     * @param id The record ID
+     */
+    getById(id: string): Promise<SuppressedPostRecord | null>;
+
+    /**
+     * Lists suppressed posts, newest first
+     * @param status Only list posts with this status
+     * @param limit Maximum number of posts to return
+     */
+    list(status: SuppressedPostStatus | undefined, limit: number): Promise<SuppressedPostRecord[]>;
+
+    /**
+     * Counts records with a status
+     * @param status The status
+     */
+    countByStatus(status: SuppressedPostStatus): Promise<number>;
+
+    /**
+     * Updates fields on a suppressed post
+     * @param id The record ID
+     * @param changes The fields to update
+     */
+    update(id: string, changes: Partial<Omit<SuppressedPostRecord, 'id'>>): Promise<void>;
+}
+
+/**
+ * Access to the poll_cursors table.
+ * Each cursor is unique by (account_id, query_type).
+ */
+export interface PollCursorsRepository {
+    /**
+     * Gets the cursor for an account's search
+     * @param accountId The ID of the account being monitored
+     * @param queryType The kind of search
+     */
+    get(accountId: string, queryType: string): Promise<PollCursorRecord | null>;
+
+    /**
+     * Creates or moves a cursor
+     * @param cursor The cursor to save
+     */
+    save(cursor: PollCursorRecord): Promise<void>;
+}
+
+/**
+ * Access to the post_jobs table
+ */
+export interface PostJobsRepository {
+    /**
+     * Inserts a job
+     * @param job The job to insert
+     * @throws If a job with the same idempotency key exists
+     */
+    insert(job: PostJobRecord): Promise<PostJobRecord>;
+
+    /**
+     * Gets a job by ID
+     * @param id The job ID
+     */
+    getById(id: string): Promise<PostJobRecord | null>;
+
+    /**
+     * Gets the job with an idempotency key
+     * @param key The idempotency key
+     */
+    findByIdempotencyKey(key: string): Promise<PostJobRecord | null>;
+
+    /**
+     * Lists pending jobs whose next attempt is due, oldest due first
+     * @param now The current time
+     * @param limit Maximum number of jobs to return
+     */
+    listDue(now: Date, limit: number): Promise<PostJobRecord[]>;
+
+    /**
+     * Lists jobs, newest first
+     * @param filter Only list jobs with this status and/or type
+     * @param limit Maximum number of jobs to return
+     */
+    list(filter: { status?: PostJobStatus; type?: PostJobType }, limit: number): Promise<PostJobRecord[]>;
+
+    /**
+     * Counts jobs with a status
+     * @param status The status
+     */
+    countByStatus(status: PostJobStatus): Promise<number>;
+
+    /**
+     * Claims a pending job for a delivery attempt, in one atomic update: only one worker runs it
+     * @param id The job ID
+     * @param attempts The attempt number
+     * @param now The time the attempt starts
+     * @returns Whether the job was claimed; false if it is no longer pending
+     */
+    claim(id: string, attempts: number, now: Date): Promise<boolean>;
+
+    /**
+     * Lists running jobs whose attempt started before a time, oldest first
+     * @param before The time
+     * @param limit Maximum number of jobs to return
+     */
+    listStartedBefore(before: Date, limit: number): Promise<PostJobRecord[]>;
+
+    /**
+     * Updates fields on a job
+     * @param id The job ID
+     * @param changes The fields to update
+     */
+    update(id: string, changes: Partial<Omit<PostJobRecord, 'id'>>): Promise<void>;
+}
+
+/**
+ * Access to the scheduled_job_runs table
+ */
+export interface ScheduledRunsRepository {
+    /**
+     * Inserts a run record
+     * @param run The run to insert
+     */
+    insert(run: ScheduledRunRecord): Promise<ScheduledRunRecord>;
+
+    /**
+     * Updates fields on a run
+     * @param id The run ID
+     * @param changes The fields to update
+     */
+    update(id: string, changes: Partial<Omit<ScheduledRunRecord, 'id'>>): Promise<void>;
+
+    /**
+     * Gets the most recent run of a job that was not skipped
+     * @param jobName The job name
+     */
+    getLatest(jobName: string): Promise<ScheduledRunRecord | null>;
+
+    /**
+     * Lists runs, newest first
+     * @param jobName Only list runs of this job
+     * @param limit Maximum number of runs to return
+     */
+    listRecent(jobName: string | undefined, limit: number): Promise<ScheduledRunRecord[]>;
+
+    /**
+     * Deletes runs that started before a given time
+     * @param before Runs older than this are deleted
+     */
+    deleteBefore(before: Date): Promise<void>;
+}
+
+/**
+ * Access to the approvals table
+ */
+export interface ApprovalsRepository {
+    /**
+     * Inserts a post held for review
+     * @param approval The record to insert
+     */
+    insert(approval: ApprovalRecord): Promise<ApprovalRecord>;
+
+    /**
+     * Gets a post held for review by ID
+     * @param id The record ID
+     */
+    getById(id: string): Promise<ApprovalRecord | null>;
+
+    /**
+     * Gets the pending record for a post job's idempotency key
+     * @param key The idempotency key
+     */
+    findPendingByKey(key: string): Promise<ApprovalRecord | null>;
+
+    /**
+     * Lists records, newest first
+     * @param filter Only list records with this status, content type and/or persona
+     * @param limit Maximum number of records to return
+     */
+    list(filter: { status?: ApprovalStatus; content_type?: ApprovalContentType; persona?: string }, limit: number): Promise<ApprovalRecord[]>;
+
+    /**
+     * Lists pending records that expired, oldest expiry first
+     * @param now The current time
+     * @param limit Maximum number of records to return
+     */
+    listExpired(now: Date, limit: number): Promise<ApprovalRecord[]>;
+
+    /**
+     * Counts records with a status
+     * @param status The status
+     */
+    countByStatus(status: ApprovalStatus): Promise<number>;
+
+    /**
+     * Updates fields on a record if it still has a status
+     * @param id The record ID
+     * @param status The status the record must have
+     * @param changes The fields to update
+     * @returns Whether the record was updated
+     */
+    updateIfStatus(id: string, status: ApprovalStatus, changes: Partial<Omit<ApprovalRecord, 'id'>>): Promise<boolean>;
+}
+
+/**
+ * Access to the moderation_verdicts table
+ */
+export interface ModerationVerdictsRepository {
+    /**
+     * Inserts a verdict
+     * @param verdict The record to insert
+     */
+    insert(verdict: ModerationVerdictRecord): Promise<ModerationVerdictRecord>;
+
+    /**
+     * Lists verdicts, newest first
+     * @param filter Only list verdicts with this outcome, content type and/or persona
+     * @param limit Maximum number of verdicts to return
+     */
+    list(filter: { allowed?: boolean; content_type?: ModerationContentType; persona?: string }, limit: number): Promise<ModerationVerdictRecord[]>;
+}
+
+/**
+ * The full set of repositories used by the services
+ */
+export interface Repositories {
+    images: ImagesRepository;
+    videos: VideosRepository;
+    prompts: PromptsRepository;
+    conversations: ConversationsRepository;
+    blogPosts: BlogPostsRepository;
+    blogPostTransitions: BlogPostTransitionsRepository;
+    tweetDrafts: TweetDraftsRepository;
+    engagementMetrics: EngagementMetricsRepository;
+    characterFiles: CharacterFilesRepository;
+    suppressedPosts: SuppressedPostsRepository;
+    pollCursors: PollCursorsRepository;
+    postJobs: PostJobsRepository;
+    scheduledRuns: ScheduledRunsRepository;
+    approvals: ApprovalsRepository;
+    moderationVerdicts: ModerationVerdictsRepository;
+}
+
+/**
+ * Storage backends that can provide the repositories
+ */
+export type StorageBackend = 'supabase' | 'memory';
@@ -0,0 +1,197 @@
+/**
+ * Wall-clock time fields in a time zone
+ */
+interface WallClock {
+    minute: number;
+    hour: number;
+    day: number;
+    month: number; // 1-12
+    weekday: number; // 0-6, where 0 is Sunday
+}
+
+interface FieldSpec {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[]; // Accepted names, starting at min
+}
+
+const FIELDS: FieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+    { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MINUTE = 60 * 1000;
+
+// Searching further than this without a match means the expression never fires (e.g. "0 0 30 2 *")
+const MAX_SEARCH_STEPS = 5000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets the wall-clock fields of a time in a time zone
+ * @param date The time
+ * @param timeZone IANA time zone name
+ */
+function toWallClock(date: Date, timeZone: string): WallClock {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            weekday: 'short'
+        });
+        formatters.set(timeZone, formatter);
+    }
+
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+
+    return {
+        minute: parseInt(parts.minute, 10),
+        hour: parseInt(parts.hour, 10),
+        day: parseInt(parts.day, 10),
+        month: parseInt(parts.month, 10),
+        weekday: WEEKDAYS.indexOf(parts.weekday)
+    };
+}
+
+/**
+ * Parses one field of a cron expression into the set of values it matches
+ * @param field The field text, e.g. "*", "1,4", "9-17" or "*\/10"
+ * @param spec The allowed range and names for the field
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+
+    const parseValue = (text: string): number => {
+        const index = spec.names ? spec.names.indexOf(text.toLowerCase()) : -1;
+        const value = index >= 0 ? spec.min + index : Number(text);
+        if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+            throw new Error(`Invalid ${spec.name} value: ${text}`);
+        }
+        return value;
+    };
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid ${spec.name} step: ${part}`);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = spec.min;
+            end = spec.max;
+        } else if (range.includes('-')) {
+            const [from, to] = range.split('-');
+            start = parseValue(from);
+            end = parseValue(to);
+        } else {
+            start = parseValue(range);
+            end = stepText === undefined ? start : spec.max;
+        }
+
+        if (start > end) {
+            throw new Error(`Invalid ${spec.name} range: ${part}`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * A standard 5-field cron expression (minute hour day-of-month month day-of-week)
+ * evaluated in an IANA time zone. Supports *, lists, ranges, steps and month/day names.
+ * As in cron, when both day fields are restricted a day matches if either one does.
+ */
+export class CronExpression {
+    private minutes: Set<number>;
+    private hours: Set<number>;
+    private days: Set<number>;
+    private months: Set<number>;
+    private weekdays: Set<number>;
+    private anyDay: boolean;
+    private anyWeekday: boolean;
+
+    /**
+     * @param expression The cron expression, e.g. "0 13 * * *"
+     * @param timeZone IANA time zone the expression is evaluated in, e.g. "Europe/London"
+     * @throws If the expression or time zone is invalid
+     */
+    constructor(public readonly expression: string, public readonly timeZone: string) {
+        const fields = expression.trim().split(/\s+/);
+        if (fields.length !== 5) {
+            throw new Error(`Cron expression must have 5 fields: "${expression}"`);
+        }
+
+        [this.minutes, this.hours, this.days, this.months, this.weekdays] = fields.map((field, i) => parseField(field, FIELDS[i]));
+        this.anyDay = fields[2] === '*';
+        this.anyWeekday = fields[4] === '*';
+
+        // 7 is an alias for Sunday
+        if (this.weekdays.has(7)) {
+            this.weekdays.add(0);
+        }
+
+        // Fails fast on an unknown time zone
+        toWallClock(new Date(), timeZone);
+    }
+
+    /**
+     * Gets the first time after a given time that the expression matches
+     * @param after The time to search from (exclusive)
+     * @throws If the expression never matches
+     */
+    public next(after: Date): Date {
+        // Start at the next whole minute
+        let time = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+
+        for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+            const clock = toWallClock(new Date(time), this.timeZone);
+
+            if (!this.months.has(clock.month) || !this.matchesDay(clock)) {
+                // Skip to the start of the next day an hour at a time, as a day is 23 or 25 hours long across a DST change
+                let hourClock = clock;
+                do {
+                    time += (60 - hourClock.minute) * MINUTE;
+                    hourClock = toWallClock(new Date(time), this.timeZone);
+                } while (hourClock.day === clock.day);
+            } else if (!this.hours.has(clock.hour)) {
+                // Skip to the start of the next hour
+                time += (60 - clock.minute) * MINUTE;
+            } else if (!this.minutes.has(clock.minute)) {
+                time += MINUTE;
+            } else {
+                return new Date(time);
+            }
+        }
+
+        throw new Error(`Cron expression never matches: "${this.expression}"`);
+    }
+
+    private matchesDay(clock: WallClock): boolean {
+        const dayMatches = this.days.has(clock.day);
+        const weekdayMatches = this.weekdays.has(clock.weekday);
+
+        if (this.anyDay || this.anyWeekday) {
+            return dayMatches && weekdayMatches;
+        }
+        return dayMatches || weekdayMatches;
+    }
+}
@@ -0,0 +1,366 @@
+import { config } from '../../config';
+import { ScheduledJobConfig } from '../../types';
+import { getRepositories, Repositories, ScheduledRunRecord } from '../repositories';
+import { CronExpression } from './CronExpression';
+
+/**
+ * Does the work of a scheduled job. A thrown error marks the run as failed.
+ */
+export type ScheduledJobHandler = () => Promise<void>;
+
+/**
+ * A scheduled job as reported by getJobs()
+ */
+export interface ScheduledJobStatus {
+    name: string;
+    cron: string | null;
+    timezone: string;
+    enabled: boolean; // Has a schedule and a registered handler
+    running: boolean;
+    nextRunAt: string | null;
+    lastRun: ScheduledRunRecord | null;
+}
+
+interface ScheduledJob {
+    name: string;
+    config: ScheduledJobConfig;
+    cron: CronExpression | null;
+    handler?: ScheduledJobHandler;
+    running: boolean;
+    nextRunAt: Date | null;
+    timer?: NodeJS.Timeout;
+}
+
+// setTimeout fires immediately for delays that do not fit in a signed 32-bit integer
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Runs the named jobs in config.scheduler on their cron schedules.
+ * A job never overlaps with itself, runs missed while the process was down can be caught up
+ * on startup, and every run is recorded in the scheduled_job_runs table.
+ */
+export class SchedulerService {
+    private static instance: SchedulerService;
+    private jobs = new Map<string, ScheduledJob>();
+    private started = false;
+    private lastPrunedAt = 0;
+
+    private constructor() {
+        for (const [name, jobConfig] of Object.entries(config.scheduler.jobs)) {
+            this.jobs.set(name, {
+                name,
+                config: jobConfig,
+                cron: jobConfig.cron ? new CronExpression(jobConfig.cron, jobConfig.timezone) : null,
+                running: false,
+                nextRunAt: null
+            });
+        }
+    }
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Get the singleton instance of SchedulerService
+     */
+    public static getInstance(): SchedulerService {
+        if (!SchedulerService.instance) {
+            SchedulerService.instance = new SchedulerService();
+        }
+        return SchedulerService.instance;
+    }
+
+    /**
+     * Registers the handler of a job configured in config.scheduler.jobs, replacing any existing one
+     * @param name The job name
+     * @param handler The handler
+     * @throws If no job with this name is configured
+     */
+    public register(name: string, handler: ScheduledJobHandler): void {
+        const job = this.getOrThrow(name);
+        job.handler = handler;
+
+        if (this.started && !job.timer) {
+            this.arm(job);
+        }
+    }
+
+    /**
+     * Arms every job that has a schedule and a handler, then makes the startup runs:
+     * jobs set to run on start, and jobs set to catch up whose last run missed a scheduled time
+     */
+    public async start(): Promise<void> {
+        this.started = true;
+        console.log(`Starting scheduler (default time zone ${config.scheduler.timezone})`);
+
+        const startupRuns: Promise<unknown>[] = [];
+        for (const job of this.jobs.values()) {
+            if (!job.cron) {
+                console.log(`Scheduled job ${job.name} is turned off`);
+                continue;
+            }
+            if (!job.handler) {
+                console.log(`No handler registered for scheduled job ${job.name}; not scheduling it`);
+                continue;
+            }
+
+            this.arm(job);
+            startupRuns.push(this.runStartup(job));
+        }
+
+        await Promise.all(startupRuns);
+    }
+
+    /**
+     * Clears every job's timer
+     */
+    public stop(): void {
+        this.started = false;
+        for (const job of this.jobs.values()) {
+            if (job.timer) {
+                clearTimeout(job.timer);
+                job.timer = undefined;
+            }
+            job.nextRunAt = null;
+        }
+    }
+
+    /**
+     * Runs a job straight away, outside its schedule. A run is skipped if the job is already running.
+     * @param name The job name
+     * @param trigger Why the job is running
+     * @param scheduledFor The scheduled time the run belongs to
+     * @returns The recorded run
+     */
+    public async runNow(
+        name: string,
+        trigger: ScheduledRunRecord['trigger'] = 'manual',
+        scheduledFor: Date = new Date()
+    ): Promise<ScheduledRunRecord> {
+        const job = this.getOrThrow(name);
+        if (!job.handler) {
+            throw new Error(`No handler registered for scheduled job ${name}`);
+        }
+        return this.execute(job, job.handler, trigger, scheduledFor);
+    }
+
+    /**
+     * Gets the next scheduled run of a job
+     * @param name The job name
+     * @returns The next run time, or null when the job is not scheduled
+     */
+    public getNextRun(name: string): Date | null {
+        const job = this.jobs.get(name);
+        if (!job || !job.cron || !job.handler) {
+            return null;
+        }
+        return job.nextRunAt || job.cron.next(new Date());
+    }
+
+    /**
+     * Describes every configured job with its next and last run
+     */
+    public async getJobs(): Promise<ScheduledJobStatus[]> {
+        const statuses: ScheduledJobStatus[] = [];
+        for (const job of this.jobs.values()) {
+            let lastRun: ScheduledRunRecord | null = null;
+            try {
+                lastRun = await this.repositories.scheduledRuns.getLatest(job.name);
+            } catch (error) {
+                console.error(`Error loading last run of scheduled job ${job.name}:`, error);
+            }
+
+            const nextRunAt = this.getNextRun(job.name);
+            statuses.push({
+                name: job.name,
+                cron: job.config.cron,
+                timezone: job.config.timezone,
+                enabled: !!job.cron && !!job.handler,
+                running: job.running,
+                nextRunAt: nextRunAt ? nextRunAt.toISOString() : null,
+                lastRun
+            });
+        }
+        return statuses;
+    }
+
+    /**
+     * Lists recorded runs, newest first
+     * @param name Only list runs of this job
+     * @param limit Maximum number of runs to return
+     */
+    public async getHistory(name?: string, limit: number = 50): Promise<ScheduledRunRecord[]> {
+        return this.repositories.scheduledRuns.listRecent(name, limit);
+    }
+
+    /**
+     * Sets a timer for the job's next scheduled time. Long delays are split across several timers.
+     * @param job The job to arm
+     */
+    private arm(job: ScheduledJob): void {
+        if (!job.cron) {
+            return;
+        }
+
+        const nextRunAt = job.cron.next(new Date());
+        job.nextRunAt = nextRunAt;
+
+        const wait = () => {
+            const delay = nextRunAt.getTime() - Date.now();
+            if (delay > 0) {
+                job.timer = setTimeout(wait, Math.min(delay, MAX_TIMER_DELAY));
+                return;
+            }
+
+            // Arm the following run before this one starts, so a slow run is skipped rather than delayed
+            this.arm(job);
+            if (job.handler) {
+                this.execute(job, job.handler, 'schedule', nextRunAt);
+            }
+        };
+        wait();
+    }
+
+    /**
+     * Makes the job's startup run, if it has one
+     * @param job The job
+     */
+    private async runStartup(job: ScheduledJob): Promise<void> {
+        if (!job.handler || !job.cron) {
+            return;
+        }
+
+        if (job.config.runOnStart) {
+            await this.execute(job, job.handler, 'startup', new Date());
+            return;
+        }
+
+        if (job.config.catchUp === 'run_once') {
+            try {
+                // Jobs that have never run have nothing to catch up on
+                const lastRun = await this.repositories.scheduledRuns.getLatest(job.name);
+                if (!lastRun) {
+                    return;
+                }
+
+                // One run stands in for every missed time; it belongs to the latest of them
+                const now = Date.now();
+                let missed: Date | null = null;
+                for (let time = job.cron.next(new Date(lastRun.scheduled_for)); time.getTime() <= now; time = job.cron.next(time)) {
+                    missed = time;
+                }
+                if (missed) {
+                    console.log(`Catching up scheduled job ${job.name}, last missed at ${missed.toISOString()}`);
+                    await this.execute(job, job.handler, 'catch_up', missed);
+                }
+            } catch (error) {
+                console.error(`Error checking missed runs of scheduled job ${job.name}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Runs a job and records the run. Never throws.
+     * @param job The job
+     * @param handler The job's handler
+     * @param trigger Why the job is running
+     * @param scheduledFor The scheduled time the run belongs to
+     */
+    private async execute(
+        job: ScheduledJob,
+        handler: ScheduledJobHandler,
+        trigger: ScheduledRunRecord['trigger'],
+        scheduledFor: Date
+    ): Promise<ScheduledRunRecord> {
+        const run: ScheduledRunRecord = {
+            job_name: job.name,
+            trigger,
+            scheduled_for: scheduledFor.toISOString(),
+            started_at: new Date().toISOString(),
+            status: 'running'
+        };
+
+        if (job.running) {
+            console.log(`Skipping scheduled job ${job.name}: the previous run is still in progress`);
+            return this.recordRun({
+                ...run,
+                status: 'skipped',
+                finished_at: run.started_at,
+                error: 'Previous run still in progress'
+            });
+        }
+
+        job.running = true;
+        const recorded = await this.recordRun(run);
+        let changes: Partial<ScheduledRunRecord>;
+        try {
+            console.log(`Running scheduled job ${job.name} (${trigger})`);
+            await handler();
+            changes = { status: 'succeeded', finished_at: new Date().toISOString() };
+        } catch (error: any) {
+            console.error(`Scheduled job ${job.name} failed:`, error);
+            changes = {
+                status: 'failed',
+                finished_at: new Date().toISOString(),
+                error: error?.message || String(error)
+            };
+        } finally {
+            job.running = false;
+        }
+
+        if (recorded.id) {
+            try {
+                await this.repositories.scheduledRuns.update(recorded.id, changes);
+            } catch (error) {
+                console.error(`Error recording run of scheduled job ${job.name}:`, error);
+            }
+        }
+
+        await this.pruneHistory();
+        return { ...recorded, ...changes };
+    }
+
+    /**
+     * Stores a run. A storage failure is logged and never stops the job.
+     * @param run The run to store
+     * @returns The stored run, or the unsaved run if storage failed
+     */
+    private async recordRun(run: ScheduledRunRecord): Promise<ScheduledRunRecord> {
+        try {
+            return await this.repositories.scheduledRuns.insert(run);
+        } catch (error) {
+            console.error(`Error recording run of scheduled job ${run.job_name}:`, error);
+            return run;
+        }
+    }
+
+    /**
+     * Deletes run history older than the retention period, at most once a day
+     */
+    private async pruneHistory(): Promise<void> {
+        const now = Date.now();
+        if (now - this.lastPrunedAt < DAY) {
+            return;
+        }
+
+        this.lastPrunedAt = now;
+        try {
+            await this.repositories.scheduledRuns.deleteBefore(
+                new Date(now - config.scheduler.historyRetentionDays * DAY)
+            );
+        } catch (error) {
+            console.error('Error pruning scheduled job history:', error);
+        }
+    }
+
+    private getOrThrow(name: string): ScheduledJob {
+        const job = this.jobs.get(name);
+        if (!job) {
+            throw new Error(`Unknown scheduled job: ${name}`);
+        }
+        return job;
+    }
+}
@@ -50,9 +50,9 @@ export class SupabaseService {
     }
 
     /**
-     * Test the database connection and list all tables
+     * Test the database connection and list all characters
      */
-    private async testConnection() {
+    public async testConnection(): Promise<boolean> {
         try {
             console.log('Testing database connection...');
             
@@ -73,68 +73,4 @@ export class SupabaseService {
             return false;
         }
     }
-
-    /**
-     * Retrieves character data from Supabase
-     * @param agentName The name of the agent to retrieve
-     * @returns Character data
-     */
-    public async getCharacterData(agentName: string): Promise<CharacterData> {
-        try {
-            // Test connection first
-            const isConnected = await this.testConnection();
-            if (!isConnected) {
-                throw new Error('Database connection failed');
-            }
-
-            console.log(`Fetching character data for agent: ${agentName}`);
-            
-            // Try to find a character with matching name using a simple query
-            const { data, error } = await this._client
-                .from('character_files')
-                .select()
-                .ilike('agent_name', agentName)
-                .single();
-
-            if (error) {
-                if (error.code === 'PGRST116') {
-                    // No rows returned, try fuzzy search
-                    console.log('No exact match found, trying fuzzy search...');
-            const { data: fuzzyData, error: fuzzyError } = await this._client
-                        .from('character_files')
-                        .select()
-                        .ilike('agent_name', `%${agentName}%`)
-                        .single();
-
-                    if (fuzzyError) {
-                        console.error('Error in fuzzy search:', fuzzyError);
-                        throw fuzzyError;
-                    }
-
-                    if (!fuzzyData) {
-                        throw new Error(`No character found for agent: ${agentName}`);
-                    }
-
-                    return fuzzyData;
-                }
-                console.error('Error in character search:', error);
-                throw error;
-            }
-
-            if (!data) {
-                throw new Error(`No character found for agent: ${agentName}`);
-            }
-
-            console.log('Successfully retrieved character data:', {
-                id: data.id,
-                agent_name: data.agent_name,
-                display_name: data.display_name
-            });
-
-            return data;
-        } catch (error) {
-            console.error('Error fetching character data:', error);
-            throw new Error('Failed to fetch character data');
-        }
-    }
 }
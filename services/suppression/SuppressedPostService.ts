@@ -0,0 +1,140 @@
+import { config } from '../../config';
+import { LLMUseCase } from '../llm/LLMProvider';
+import { getRepositories, Repositories, SuppressedPostRecord, SuppressedPostStatus, SuppressionAction } from '../repositories';
+
+// Status a newly suppressed post starts in, by configured action
+const initialStatus: Record<SuppressionAction, SuppressedPostStatus> = {
+    skip: 'skipped',
+    retry: 'pending_retry',
+    review: 'pending_review'
+};
+
+/**
+ * Records posts that were not published because their text could not be generated,
+ * and tracks whether each one is skipped, waiting for a retry or waiting for review
+ */
+export class SuppressedPostService {
+    private static instance: SuppressedPostService;
+
+    private constructor() {}
+
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Get the singleton instance of SuppressedPostService
+     */
+    public static getInstance(): SuppressedPostService {
+        if (!SuppressedPostService.instance) {
+            SuppressedPostService.instance = new SuppressedPostService();
+        }
+        return SuppressedPostService.instance;
+    }
+
+    /**
+     * Records a post that was not published, using the configured action for its content type
+     * @param contentType The kind of post that failed to generate
+     * @param reason Why generation failed
+     * @param payload What is needed to retry or review the post
+     * @returns The stored record, or null if it could not be stored
+     */
+    public async suppress(contentType: LLMUseCase, reason: string, payload: Record<string, any> = {}): Promise<SuppressedPostRecord | null> {
+        const action = config.generationFailures.actions[contentType];
+        console.log(`Suppressed ${contentType} post (${action}): ${reason}`);
+
+        try {
+            return await this.repositories.suppressedPosts.insert({
+                content_type: contentType,
+                action,
+                status: initialStatus[action],
+                reason,
+                attempts: 1,
+                payload
+            });
+        } catch (error) {
+            console.error('Error recording suppressed post:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Lists suppressed posts, newest first
+     * @param status Only list posts with this status
+     * @param limit Maximum number of posts to return
+     */
+    public async list(status?: SuppressedPostStatus, limit: number = 50): Promise<SuppressedPostRecord[]> {
+        return this.repositories.suppressedPosts.list(status, limit);
+    }
+
+    /**
+     * Counts the suppressed posts still waiting for a retry or a review
+     */
+    public async getDepths(): Promise<{ pending_retry: number; pending_review: number }> {
+        const [pendingRetry, pendingReview] = await Promise.all([
+            this.repositories.suppressedPosts.countByStatus('pending_retry'),
+            this.repositories.suppressedPosts.countByStatus('pending_review')
+        ]);
+        return { pending_retry: pendingRetry, pending_review: pendingReview };
+    }
+
+    /**
+     * Lists posts of the given content types that are waiting for a retry, oldest first
+     * @param contentTypes The content types to include
+     * @param limit Maximum number of posts to return
+     */
+    public async listPendingRetries(contentTypes: LLMUseCase[], limit: number = 20): Promise<SuppressedPostRecord[]> {
+        const pending = await this.repositories.suppressedPosts.list('pending_retry', 100);
+        return pending
+            .filter(record => contentTypes.includes(record.content_type))
+            .reverse()
+            .slice(0, limit);
+    }
+
+    /**
+     * Records another failed attempt, routing the post to review once it is out of retries
+     * @param record The suppressed post that was retried
+     * @param reason Why the retry failed
+     */
+    public async recordRetryFailure(record: SuppressedPostRecord, reason: string): Promise<void> {
+        const attempts = record.attempts + 1;
+        const status: SuppressedPostStatus = attempts > config.generationFailures.maxRetries ? 'pending_review' : 'pending_retry';
+
+        if (status === 'pending_review') {
+            console.log(`Suppressed ${record.content_type} post ${record.id} is out of retries; routing to review`);
+        }
+
+        await this.repositories.suppressedPosts.update(record.id!, { attempts, status, reason });
+    }
+
+    /**
+     * Marks a suppressed post as resolved (e.g. a retry was posted or a reviewer handled it)
+     * @param id The record ID
+     * @param details Extra details to merge into the payload, such as the posted tweet ID
+     */
+    public async resolve(id: string, details: Record<string, any> = {}): Promise<void> {
+        const record = await this.getOrThrow(id);
+        await this.repositories.suppressedPosts.update(id, {
+            status: 'resolved',
+            payload: { ...record.payload, ...details }
+        });
+    }
+
+    /**
+     * Dismisses a suppressed post so it is neither retried nor shown for review
+     * @param id The record ID
+     */
+    public async dismiss(id: string): Promise<void> {
+        await this.getOrThrow(id);
+        await this.repositories.suppressedPosts.update(id, { status: 'dismissed' });
+    }
+
+    private async getOrThrow(id: string): Promise<SuppressedPostRecord> {
+        const record = await this.repositories.suppressedPosts.getById(id);
+        if (!record) {
+            throw new Error(`Suppressed post not found: ${id}`);
+        }
+        return record;
+    }
+}
@@ -0,0 +1,200 @@
+import axios, { AxiosInstance } from 'axios';
+import * as fs from 'fs';
+import { MediaCategory, MediaUploadStatus, RateLimitStatus, RateLimitTracker, SearchOptions, SearchResult, TweetData, TweetOptions, TwitterClient, TwitterClientError, TwitterUser, TWEET_FIELDS } from './TwitterClient';
+
+/**
+ * Plain HTTP client for the v2 endpoints the bot uses.
+ * Requests are not OAuth-signed, so this is meant for the local mock X API server
+ * (see MockXApiServer), selected by setting TWITTER_API_BASE_URL.
+ */
+export class HttpTwitterClient implements TwitterClient {
+    private http: AxiosInstance;
+    private rateLimits = new RateLimitTracker();
+
+    constructor(baseUrl: string, bearerToken?: string) {
+        this.http = axios.create({
+            baseURL: baseUrl.replace(/\/$/, ''),
+            headers: bearerToken ? { Authorization: `Bearer ${bearerToken}` } : {}
+        });
+    }
+
+    public async me(): Promise<TwitterUser> {
+        const response = await this.request('get', '/2/users/me');
+        return response.data;
+    }
+
+    public async tweet(options: TweetOptions): Promise<TweetData> {
+        const body: any = { text: options.text };
+
+        if (options.mediaIds && options.mediaIds.length > 0) {
+            body.media = { media_ids: options.mediaIds };
+        }
+
+        if (options.replyToTweetId) {
+            body.reply = { in_reply_to_tweet_id: options.replyToTweetId };
+        }
+
+        const response = await this.request('post', '/2/tweets', body);
+        return response.data;
+    }
+
+    public async getTweet(tweetId: string): Promise<TweetData | null> {
+        try {
+            const response = await this.request('get', `/2/tweets/${tweetId}`, undefined, undefined, {
+                'tweet.fields': TWEET_FIELDS.join(',')
+            });
+            return response.data || null;
+        } catch (error) {
+            if (error instanceof TwitterClientError && error.code === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    public async deleteTweet(tweetId: string): Promise<void> {
+        await this.request('delete', `/2/tweets/${tweetId}`);
+    }
+
+    public async uploadMedia(mediaPath: string): Promise<string> {
+        const mediaData = fs.readFileSync(mediaPath).toString('base64');
+        const response = await this.request(
+            'post',
+            '/1.1/media/upload.json',
+            new URLSearchParams({ media_data: mediaData }).toString(),
+            { 'Content-Type': 'application/x-www-form-urlencoded' }
+        );
+        return response.media_id_string;
+    }
+
+    public async setMediaAltText(mediaId: string, altText: string): Promise<void> {
+        await this.request('post', '/1.1/media/metadata/create.json', { media_id: mediaId, alt_text: { text: altText } });
+    }
+
+    public async initMediaUpload(totalBytes: number, mediaType: string, mediaCategory: MediaCategory): Promise<string> {
+        const response = await this.uploadCommand({
+            command: 'INIT',
+            total_bytes: String(totalBytes),
+            media_type: mediaType,
+            media_category: mediaCategory
+        });
+        return response.media_id_string;
+    }
+
+    public async appendMediaChunk(mediaId: string, segmentIndex: number, chunk: Buffer): Promise<void> {
+        await this.uploadCommand({
+            command: 'APPEND',
+            media_id: mediaId,
+            segment_index: String(segmentIndex),
+            media_data: chunk.toString('base64')
+        });
+    }
+
+    public async finalizeMediaUpload(mediaId: string): Promise<MediaUploadStatus> {
+        return toUploadStatus(await this.uploadCommand({ command: 'FINALIZE', media_id: mediaId }));
+    }
+
+    public async getMediaUploadStatus(mediaId: string): Promise<MediaUploadStatus> {
+        const response = await this.request('get', '/1.1/media/upload.json', undefined, undefined, {
+            command: 'STATUS',
+            media_id: mediaId
+        });
+        return toUploadStatus(response);
+    }
+
+    public async searchRecent(options: SearchOptions): Promise<SearchResult> {
+        const params: Record<string, string> = {
+            query: options.query,
+            'tweet.fields': TWEET_FIELDS.join(','),
+            'user.fields': 'id,username,name',
+            expansions: 'author_id,referenced_tweets.id,in_reply_to_user_id'
+        };
+
+        if (options.sinceId) {
+            params.since_id = options.sinceId;
+        }
+        if (options.nextToken) {
+            params.next_token = options.nextToken;
+        }
+        if (options.maxResults) {
+            params.max_results = String(options.maxResults);
+        }
+
+        const response = await this.request('get', '/2/tweets/search/recent', undefined, undefined, params);
+
+        return {
+            tweets: response.data || [],
+            users: response.includes?.users || [],
+            newestId: response.meta?.newest_id,
+            nextToken: response.meta?.next_token
+        };
+    }
+
+    public async likedBy(tweetId: string): Promise<TwitterUser[]> {
+        const response = await this.request('get', `/2/tweets/${tweetId}/liking_users`);
+        return response.data || [];
+    }
+
+    public async retweetedBy(tweetId: string): Promise<TwitterUser[]> {
+        const response = await this.request('get', `/2/tweets/${tweetId}/retweeted_by`);
+        return response.data || [];
+    }
+
+    public getRateLimits(): RateLimitStatus[] {
+        return this.rateLimits.list();
+    }
+
+    /**
+     * Sends one command of a chunked media upload, form-encoded like the v1.1 upload endpoint expects
+     */
+    private async uploadCommand(fields: Record<string, string>): Promise<any> {
+        return this.request(
+            'post',
+            '/1.1/media/upload.json',
+            new URLSearchParams(fields).toString(),
+            { 'Content-Type': 'application/x-www-form-urlencoded' }
+        );
+    }
+
+    /**
+     * Sends a request and converts HTTP failures into TwitterClientError
+     */
+    private async request(
+        method: 'get' | 'post' | 'delete',
+        url: string,
+        data?: any,
+        headers?: Record<string, string>,
+        params?: Record<string, string>
+    ): Promise<any> {
+        try {
+            const response = await this.http.request({ method, url, data, headers, params });
+            this.rateLimits.record(method, url, response.headers);
+            return response.data;
+        } catch (error: any) {
+            if (error.response) {
+                this.rateLimits.record(method, url, error.response.headers);
+                const detail = error.response.data?.detail || error.response.data?.title || error.message;
+                throw new TwitterClientError(
+                    `Request failed with code ${error.response.status}: ${detail}`,
+                    error.response.status,
+                    { headers: error.response.headers, data: error.response.data }
+                );
+            }
+            throw error;
+        }
+    }
+}
+
+/**
+ * Reads the processing_info of a FINALIZE or STATUS response
+ */
+function toUploadStatus(response: any): MediaUploadStatus {
+    const info = response.processing_info;
+    return {
+        mediaId: response.media_id_string,
+        state: info?.state || null,
+        checkAfterSecs: info?.check_after_secs,
+        progressPercent: info?.progress_percent,
+        error: info?.error ? info.error.message || info.error.name : undefined
+    };
+}
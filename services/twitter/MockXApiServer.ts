@@ -0,0 +1,668 @@
+import express, { Request, Response, NextFunction } from 'express';
+import * as fs from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { rateLimitEndpoint, TweetData, TwitterUser } from './TwitterClient';
+import { fitsInTweet } from './TweetText';
+import { GIF, MP4, sniffMediaType } from '../media/MediaType';
+
+/**
+ * Initial state for the mock server, also the format of fixture files
+ */
+export interface MockXApiFixture {
+    me?: TwitterUser;
+    users?: TwitterUser[];
+    tweets?: TweetData[];
+    likes?: Record<string, string[]>; // tweet ID -> user IDs
+    retweets?: Record<string, string[]>; // tweet ID -> user IDs
+}
+
+/**
+ * Options for the mock server
+ */
+export interface MockXApiServerOptions {
+    fixture?: MockXApiFixture;
+    recordFile?: string; // Posted tweets are written here after every post
+    now?: () => Date; // Clock used for created_at, for deterministic replays
+    mediaProcessing?: {
+        steps?: number; // STATUS checks before a video or GIF finishes processing, default 2
+        checkAfterSecs?: number; // Wait suggested to the client between checks, default 1
+    };
+}
+
+/**
+ * A media upload made in chunks (INIT, APPEND, FINALIZE), and its processing
+ */
+interface ChunkedUpload {
+    totalBytes: number;
+    mediaType: string;
+    category: string;
+    segments: Map<number, Buffer>;
+    state: 'uploading' | 'pending' | 'in_progress' | 'succeeded' | 'failed';
+    checks: number; // STATUS checks since FINALIZE
+    data?: Buffer; // The assembled file, from FINALIZE
+    error?: string;
+}
+
+/**
+ * A failure to return for matching requests, used to exercise retry paths
+ */
+interface InjectedFailure {
+    method: string;
+    path: RegExp;
+    status: number;
+    remaining: number;
+    retryAfterSeconds?: number;
+}
+
+// 1x1 transparent PNG served at /__mock/assets/:name for image tweet runs, unless another asset is set
+const SAMPLE_PNG = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+    'base64'
+);
+
+// Largest file X accepts for each media category, and largest APPEND segment
+const CATEGORY_MAX_BYTES: Record<string, number> = {
+    tweet_image: 5 * 1024 * 1024,
+    tweet_gif: 15 * 1024 * 1024,
+    tweet_video: 512 * 1024 * 1024
+};
+const MAX_SEGMENT_BYTES = 5 * 1024 * 1024;
+
+// Every endpoint gets the same rate limit window; the limit is reported, not enforced
+const RATE_LIMIT = 300;
+const RATE_LIMIT_WINDOW_SECONDS = 15 * 60;
+
+const DEFAULT_ME: TwitterUser = { id: '1000', username: 'marvin_mock', name: 'Marvin (mock)' };
+const FIRST_TWEET_ID = BigInt('1800000000000000000');
+
+/**
+ * Local HTTP mock of the X API endpoints the bot uses:
+ * users/me, tweets, tweet lookup and deletion, tweets/search/recent, liking_users, retweeted_by, media upload
+ * (simple, and chunked with processing for videos and GIFs) and media metadata.
+ * It records every tweet the bot posts so end-to-end runs can be inspected and replayed.
+ */
+export class MockXApiServer {
+    public readonly app = express();
+    private server: Server | null = null;
+    private options: MockXApiServerOptions;
+
+    private me: TwitterUser = DEFAULT_ME;
+    private users = new Map<string, TwitterUser>();
+    private tweets = new Map<string, TweetData>();
+    private likes = new Map<string, string[]>();
+    private retweets = new Map<string, string[]>();
+    private media = new Map<string, Buffer>(); // media ID -> uploaded file
+    private assets = new Map<string, Buffer>(); // name -> file served at /__mock/assets/:name
+    private altTexts = new Map<string, string>(); // media ID -> alt text
+    private uploads = new Map<string, ChunkedUpload>(); // media ID -> chunked upload
+    private posted: TweetData[] = [];
+    private failures: InjectedFailure[] = [];
+    private rateLimitWindows = new Map<string, { remaining: number; reset: number }>(); // endpoint -> window
+    private nextId = FIRST_TWEET_ID;
+
+    constructor(options: MockXApiServerOptions = {}) {
+        this.options = options;
+        this.reset(options.fixture);
+        this.registerRoutes();
+    }
+
+    /**
+     * Starts listening
+     * @param port Port to listen on (0 picks a free port)
+     * @returns The base URL of the server
+     */
+    public async start(port: number = 0): Promise<string> {
+        await new Promise<void>(resolve => {
+            this.server = this.app.listen(port, () => resolve());
+        });
+        const address = this.server!.address() as AddressInfo;
+        const baseUrl = `http://127.0.0.1:${address.port}`;
+        console.log(`Mock X API listening at ${baseUrl}`);
+        return baseUrl;
+    }
+
+    /**
+     * Stops listening
+     */
+    public async stop(): Promise<void> {
+        if (!this.server) {
+            return;
+        }
+        await new Promise<void>((resolve, reject) => {
+            this.server!.close(error => (error ? reject(error) : resolve()));
+        });
+        this.server = null;
+    }
+
+    /**
+     * Clears all state and loads a fixture
+     * @param fixture Optional state to load
+     */
+    public reset(fixture: MockXApiFixture = {}): void {
+        this.me = fixture.me || DEFAULT_ME;
+        this.users = new Map([[this.me.id, this.me]]);
+        this.tweets = new Map();
+        this.likes = new Map(Object.entries(fixture.likes || {}));
+        this.retweets = new Map(Object.entries(fixture.retweets || {}));
+        this.media = new Map();
+        this.assets = new Map();
+        this.altTexts = new Map();
+        this.uploads = new Map();
+        this.posted = [];
+        this.failures = [];
+        this.rateLimitWindows = new Map();
+        this.nextId = FIRST_TWEET_ID;
+
+        for (const user of fixture.users || []) {
+            this.users.set(user.id, user);
+        }
+        for (const tweet of fixture.tweets || []) {
+            this.tweets.set(tweet.id, tweet);
+            if (BigInt(tweet.id) >= this.nextId) {
+                this.nextId = BigInt(tweet.id) + BigInt(1);
+            }
+        }
+    }
+
+    /**
+     * Adds a user
+     */
+    public addUser(user: TwitterUser): void {
+        this.users.set(user.id, user);
+    }
+
+    /**
+     * Adds a tweet from another user (e.g. a mention of the bot)
+     * @param author The author, added as a user if unknown
+     * @param text The tweet text
+     * @param inReplyToTweetId Optional tweet this one replies to
+     * @returns The created tweet
+     */
+    public addTweet(author: TwitterUser, text: string, inReplyToTweetId?: string): TweetData {
+        this.addUser(author);
+        return this.createTweet(author.id, text, inReplyToTweetId);
+    }
+
+    /**
+     * Records that a user liked a tweet
+     */
+    public addLike(tweetId: string, user: TwitterUser): void {
+        this.addUser(user);
+        this.likes.set(tweetId, [...(this.likes.get(tweetId) || []), user.id]);
+    }
+
+    /**
+     * Records that a user retweeted a tweet
+     */
+    public addRetweet(tweetId: string, user: TwitterUser): void {
+        this.addUser(user);
+        this.retweets.set(tweetId, [...(this.retweets.get(tweetId) || []), user.id]);
+    }
+
+    /**
+     * Makes the next matching requests fail
+     * @param method HTTP method (e.g. 'POST')
+     * @param path Regular expression matched against the request path
+     * @param status HTTP status to return
+     * @param count Number of requests to fail
+     * @param retryAfterSeconds Optional retry-after header value
+     */
+    public failNext(method: string, path: RegExp, status: number, count: number = 1, retryAfterSeconds?: number): void {
+        this.failures.push({ method: method.toUpperCase(), path, status, remaining: count, retryAfterSeconds });
+    }
+
+    /**
+     * Gets the tweets posted through the API and not deleted, in posting order
+     */
+    public getPostedTweets(): TweetData[] {
+        return this.posted.map(tweet => ({ ...tweet }));
+    }
+
+    /**
+     * Serves a file at /__mock/assets/:name instead of the sample PNG.
+     * Every asset is served as image/png, whatever it is, like a host that labels files by their extension.
+     * @param name The file name
+     * @param data The file contents
+     */
+    public setAsset(name: string, data: Buffer): void {
+        this.assets.set(name, data);
+    }
+
+    /**
+     * Gets an uploaded media file
+     * @param mediaId The media ID
+     */
+    public getMedia(mediaId: string): Buffer | undefined {
+        return this.media.get(mediaId);
+    }
+
+    /**
+     * Gets the number of chunks media was uploaded in
+     * @param mediaId The media ID
+     * @returns The number of APPEND segments, or undefined if it was not uploaded in chunks
+     */
+    public getMediaChunks(mediaId: string): number | undefined {
+        return this.uploads.get(mediaId)?.segments.size;
+    }
+
+    /**
+     * Gets the alt text set on uploaded media
+     * @param mediaId The media ID
+     */
+    public getMediaAltText(mediaId: string): string | undefined {
+        return this.altTexts.get(mediaId);
+    }
+
+    /**
+     * Gets a tweet by ID
+     */
+    public getTweet(tweetId: string): TweetData | undefined {
+        return this.tweets.get(tweetId);
+    }
+
+    private createTweet(authorId: string, text: string, inReplyToTweetId?: string, mediaIds?: string[]): TweetData {
+        const id = (this.nextId++).toString();
+        const parent = inReplyToTweetId ? this.tweets.get(inReplyToTweetId) : undefined;
+
+        const tweet: TweetData & { media_ids?: string[] } = {
+            id,
+            text,
+            author_id: authorId,
+            conversation_id: inReplyToTweetId ? (parent?.conversation_id || inReplyToTweetId) : id,
+            created_at: (this.options.now ? this.options.now() : new Date()).toISOString()
+        };
+        if (inReplyToTweetId) {
+            tweet.referenced_tweets = [{ type: 'replied_to', id: inReplyToTweetId }];
+        }
+        if (mediaIds && mediaIds.length > 0) {
+            tweet.media_ids = mediaIds;
+        }
+
+        this.tweets.set(id, tweet);
+        return tweet;
+    }
+
+    private registerRoutes(): void {
+        this.app.use(express.json({ limit: '20mb' }));
+        this.app.use(express.urlencoded({ extended: false, limit: '20mb' }));
+        this.app.use((req: Request, res: Response, next: NextFunction) => this.applyRateLimitHeaders(req, res, next));
+        this.app.use((req: Request, res: Response, next: NextFunction) => this.applyInjectedFailure(req, res, next));
+
+        this.app.get('/2/users/me', (req: Request, res: Response) => {
+            res.json({ data: this.me });
+        });
+
+        this.app.post('/2/tweets', (req: Request, res: Response) => {
+            const text: string = req.body?.text || '';
+            const replyTo: string | undefined = req.body?.reply?.in_reply_to_tweet_id;
+            const mediaIds: string[] = req.body?.media?.media_ids || [];
+
+            if (!text && mediaIds.length === 0) {
+                return this.sendError(res, 400, 'Invalid Request', 'Tweet text or media is required');
+            }
+            if (!fitsInTweet(text)) {
+                return this.sendError(res, 403, 'Forbidden', 'Tweet text is too long');
+            }
+            if (this.posted.some(tweet => tweet.text === text && !replyTo)) {
+                return this.sendError(res, 403, 'Forbidden', 'You are not allowed to create a Tweet with duplicate content.');
+            }
+            if (mediaIds.length > 4) {
+                return this.sendError(res, 400, 'Invalid Request', 'A tweet can have at most 4 media');
+            }
+            const unknownMedia = mediaIds.find(mediaId => !this.media.has(mediaId) && !this.uploads.has(mediaId));
+            if (unknownMedia) {
+                return this.sendError(res, 400, 'Invalid Request', `Unknown media ID: ${unknownMedia}`);
+            }
+            const unprocessed = mediaIds.find(mediaId => !this.media.has(mediaId));
+            if (unprocessed) {
+                return this.sendError(res, 400, 'Invalid Request', `Media ${unprocessed} is not ready; its upload is ${this.uploads.get(unprocessed)!.state}`);
+            }
+            const isVideoOrGif = (mediaId: string) => ['tweet_gif', 'tweet_video'].includes(this.uploads.get(mediaId)?.category || '');
+            if (mediaIds.length > 1 && mediaIds.some(isVideoOrGif)) {
+                return this.sendError(res, 400, 'Invalid Request', 'A video or GIF must be the only media in a tweet');
+            }
+
+            const tweet = this.createTweet(this.me.id, text, replyTo, mediaIds);
+            this.posted.push(tweet);
+            this.writeRecord();
+
+            res.status(201).json({ data: { id: tweet.id, text: tweet.text } });
+        });
+
+        this.app.get('/2/tweets/search/recent', (req: Request, res: Response) => {
+            const query = String(req.query.query || '');
+            const sinceId = req.query.since_id ? BigInt(String(req.query.since_id)) : null;
+            const maxResults = Math.min(100, Math.max(10, parseInt(String(req.query.max_results || '10'), 10) || 10));
+            const offset = req.query.next_token ? parseInt(Buffer.from(String(req.query.next_token), 'base64').toString(), 10) : 0;
+
+            const matches = Array.from(this.tweets.values())
+                .filter(tweet => this.matchesQuery(tweet, query))
+                .filter(tweet => sinceId === null || BigInt(tweet.id) > sinceId)
+                .sort((a, b) => (BigInt(b.id) > BigInt(a.id) ? 1 : -1));
+
+            const page = matches.slice(offset, offset + maxResults);
+            const meta: any = { result_count: page.length };
+            if (page.length > 0) {
+                meta.newest_id = page[0].id;
+                meta.oldest_id = page[page.length - 1].id;
+            }
+            if (offset + maxResults < matches.length) {
+                meta.next_token = Buffer.from(String(offset + maxResults)).toString('base64');
+            }
+
+            const authorIds = new Set(page.map(tweet => tweet.author_id));
+            const users = Array.from(authorIds)
+                .map(id => this.users.get(id!))
+                .filter((user): user is TwitterUser => !!user);
+
+            res.json(page.length > 0 ? { data: page, includes: { users }, meta } : { meta });
+        });
+
+        this.app.get('/2/tweets/:id', (req: Request, res: Response) => {
+            const tweet = this.tweets.get(req.params.id);
+            if (!tweet) {
+                return this.sendError(res, 404, 'Not Found Error', `Could not find tweet with id: [${req.params.id}].`);
+            }
+            res.json({ data: tweet });
+        });
+
+        this.app.delete('/2/tweets/:id', (req: Request, res: Response) => {
+            const tweet = this.tweets.get(req.params.id);
+            if (!tweet) {
+                return this.sendError(res, 404, 'Not Found Error', `Could not find tweet with id: [${req.params.id}].`);
+            }
+            if (tweet.author_id !== this.me.id) {
+                return this.sendError(res, 403, 'Forbidden', 'You are not allowed to delete a Tweet you did not author.');
+            }
+
+            this.tweets.delete(tweet.id);
+            this.posted = this.posted.filter(posted => posted.id !== tweet.id);
+            this.writeRecord();
+            res.json({ data: { deleted: true } });
+        });
+
+        this.app.get('/2/tweets/:id/liking_users', (req: Request, res: Response) => {
+            this.sendUserList(res, this.likes.get(req.params.id) || []);
+        });
+
+        this.app.get('/2/tweets/:id/retweeted_by', (req: Request, res: Response) => {
+            this.sendUserList(res, this.retweets.get(req.params.id) || []);
+        });
+
+        this.app.post('/1.1/media/upload.json', (req: Request, res: Response, next: NextFunction) => {
+            if (req.body?.command) {
+                return this.handleUploadCommand(req, res);
+            }
+            next();
+        });
+
+        this.app.get('/1.1/media/upload.json', (req: Request, res: Response) => {
+            const upload = this.uploads.get(String(req.query.media_id || ''));
+            if (req.query.command !== 'STATUS' || !upload || upload.state === 'uploading') {
+                return this.sendError(res, 400, 'Invalid Request', 'STATUS needs the media_id of a finalized upload');
+            }
+
+            upload.checks++;
+            if (upload.state === 'pending' || upload.state === 'in_progress') {
+                this.advanceProcessing(String(req.query.media_id), upload);
+            }
+            res.json(this.uploadStatus(String(req.query.media_id), upload));
+        });
+
+        this.app.post('/1.1/media/upload.json', (req: Request, res: Response) => {
+            const mediaData: string | undefined = req.body?.media_data;
+            if (!mediaData) {
+                return this.sendError(res, 400, 'Invalid Request', 'media_data is required');
+            }
+
+            // X rejects files it cannot decode, and images over 5MB (GIFs over 15MB)
+            const data = Buffer.from(mediaData, 'base64');
+            const type = sniffMediaType(data);
+            if (!type) {
+                return this.sendError(res, 400, 'Invalid Request', 'media type unrecognized.');
+            }
+            const maxBytes = type === GIF ? 15 * 1024 * 1024 : 5 * 1024 * 1024;
+            if (data.length > maxBytes) {
+                return this.sendError(res, 400, 'Invalid Request', `File size exceeds ${maxBytes} bytes.`);
+            }
+
+            const mediaId = (this.nextId++).toString();
+            this.media.set(mediaId, data);
+            res.json({ media_id: Number(mediaId), media_id_string: mediaId, size: data.length });
+        });
+
+        this.app.post('/1.1/media/metadata/create.json', (req: Request, res: Response) => {
+            const mediaId = String(req.body?.media_id || '');
+            const altText: string | undefined = req.body?.alt_text?.text;
+            if (!this.media.has(mediaId)) {
+                return this.sendError(res, 400, 'Invalid Request', `Unknown media ID: ${mediaId}`);
+            }
+            if (!altText || altText.length > 1000) {
+                return this.sendError(res, 400, 'Invalid Request', 'alt_text.text must be 1 to 1000 characters');
+            }
+
+            this.altTexts.set(mediaId, altText);
+            res.json({});
+        });
+
+        // Control endpoints for driving the mock from outside the process
+        this.app.get('/__mock/posted', (req: Request, res: Response) => {
+            res.json({ data: this.getPostedTweets() });
+        });
+
+        this.app.post('/__mock/tweets', (req: Request, res: Response) => {
+            const { author, text, in_reply_to_tweet_id } = req.body || {};
+            if (!author?.id || !author?.username || !text) {
+                return this.sendError(res, 400, 'Invalid Request', 'author.id, author.username and text are required');
+            }
+            res.status(201).json({ data: this.addTweet(author, text, in_reply_to_tweet_id) });
+        });
+
+        this.app.post('/__mock/likes', (req: Request, res: Response) => {
+            this.addLike(req.body.tweet_id, req.body.user);
+            res.status(201).json({ success: true });
+        });
+
+        this.app.post('/__mock/retweets', (req: Request, res: Response) => {
+            this.addRetweet(req.body.tweet_id, req.body.user);
+            res.status(201).json({ success: true });
+        });
+
+        this.app.post('/__mock/reset', (req: Request, res: Response) => {
+            this.reset(req.body && Object.keys(req.body).length > 0 ? req.body : this.options.fixture);
+            res.json({ success: true });
+        });
+
+        this.app.get('/__mock/assets/:name', (req: Request, res: Response) => {
+            res.type('png').send(this.assets.get(req.params.name) || SAMPLE_PNG);
+        });
+    }
+
+    /**
+     * Handles the INIT, APPEND and FINALIZE commands of a chunked media upload
+     */
+    private handleUploadCommand(req: Request, res: Response): void {
+        const command = String(req.body.command);
+        const mediaId = String(req.body.media_id || '');
+
+        if (command === 'INIT') {
+            const totalBytes = parseInt(req.body.total_bytes, 10);
+            const mediaType = String(req.body.media_type || '');
+            const category = String(req.body.media_category || 'tweet_image');
+            if (!CATEGORY_MAX_BYTES[category]) {
+                return this.sendError(res, 400, 'Invalid Request', `Unknown media_category: ${category}`);
+            }
+            if (![MP4.mimeType, GIF.mimeType, 'image/jpeg', 'image/png', 'image/webp'].includes(mediaType)) {
+                return this.sendError(res, 400, 'Invalid Request', 'media type unrecognized.');
+            }
+            if (!(totalBytes > 0) || totalBytes > CATEGORY_MAX_BYTES[category]) {
+                return this.sendError(res, 400, 'Invalid Request', `File size exceeds ${CATEGORY_MAX_BYTES[category]} bytes.`);
+            }
+
+            const newId = (this.nextId++).toString();
+            this.uploads.set(newId, { totalBytes, mediaType, category, segments: new Map(), state: 'uploading', checks: 0 });
+            return void res.status(202).json({ media_id: Number(newId), media_id_string: newId, expires_after_secs: 86400 });
+        }
+
+        const upload = this.uploads.get(mediaId);
+        if (!upload) {
+            return this.sendError(res, 400, 'Invalid Request', `Unknown media ID: ${mediaId}`);
+        }
+        if (upload.state !== 'uploading') {
+            return this.sendError(res, 400, 'Invalid Request', `Upload ${mediaId} is already finalized`);
+        }
+
+        if (command === 'APPEND') {
+            const segmentIndex = parseInt(req.body.segment_index, 10);
+            const chunk = Buffer.from(String(req.body.media_data || ''), 'base64');
+            if (!(segmentIndex >= 0 && segmentIndex <= 999)) {
+                return this.sendError(res, 400, 'Invalid Request', 'segment_index must be 0 to 999');
+            }
+            if (chunk.length === 0 || chunk.length > MAX_SEGMENT_BYTES) {
+                return this.sendError(res, 400, 'Invalid Request', `Segment must be 1 to ${MAX_SEGMENT_BYTES} bytes`);
+            }
+            upload.segments.set(segmentIndex, chunk);
+            return void res.status(204).end();
+        }
+
+        if (command === 'FINALIZE') {
+            const indexes = Array.from(upload.segments.keys()).sort((a, b) => a - b);
+            const data = Buffer.concat(indexes.map(index => upload.segments.get(index)!));
+            if (data.length !== upload.totalBytes) {
+                return this.sendError(res, 400, 'Invalid Request', `File size mismatch: INIT declared ${upload.totalBytes} bytes, ${data.length} were appended`);
+            }
+
+            upload.data = data;
+            if (upload.category === 'tweet_image') {
+                if (!sniffMediaType(data)) {
+                    return this.sendError(res, 400, 'Invalid Request', 'media type unrecognized.');
+                }
+                upload.state = 'succeeded';
+                this.media.set(mediaId, data);
+                return void res.json({ media_id: Number(mediaId), media_id_string: mediaId, size: data.length });
+            }
+
+            // Videos and GIFs are transcoded before they can be posted
+            upload.state = 'pending';
+            return void res.json(this.uploadStatus(mediaId, upload));
+        }
+
+        this.sendError(res, 400, 'Invalid Request', `Unknown command: ${command}`);
+    }
+
+    /**
+     * Moves a video or GIF one STATUS check further through processing. Files that are not what INIT
+     * declared fail, as X fails media it cannot transcode.
+     */
+    private advanceProcessing(mediaId: string, upload: ChunkedUpload): void {
+        const steps = this.options.mediaProcessing?.steps ?? 2;
+        if (upload.checks < steps) {
+            upload.state = 'in_progress';
+            return;
+        }
+
+        const type = sniffMediaType(upload.data!);
+        if (!type || type.mimeType !== upload.mediaType) {
+            upload.state = 'failed';
+            upload.error = 'File data could not be decoded as ' + upload.mediaType;
+            return;
+        }
+        upload.state = 'succeeded';
+        this.media.set(mediaId, upload.data!);
+    }
+
+    /**
+     * The FINALIZE or STATUS response for a chunked upload
+     */
+    private uploadStatus(mediaId: string, upload: ChunkedUpload): any {
+        const steps = this.options.mediaProcessing?.steps ?? 2;
+        const processingInfo: any = { state: upload.state };
+        if (upload.state === 'pending' || upload.state === 'in_progress') {
+            processingInfo.check_after_secs = this.options.mediaProcessing?.checkAfterSecs ?? 1;
+            processingInfo.progress_percent = Math.floor(100 * upload.checks / (steps + 1));
+        } else if (upload.state === 'succeeded') {
+            processingInfo.progress_percent = 100;
+        } else if (upload.state === 'failed') {
+            processingInfo.error = { code: 1, name: 'InvalidMedia', message: upload.error };
+        }
+        return { media_id: Number(mediaId), media_id_string: mediaId, size: upload.totalBytes, processing_info: processingInfo };
+    }
+
+    /**
+     * Matches a tweet against the subset of search operators the bot uses:
+     * @mentions, from:, conversation_id: and plain keywords (all must match)
+     */
+    private matchesQuery(tweet: TweetData, query: string): boolean {
+        const terms = query.split(/\s+/).filter(term => term && !term.startsWith('-'));
+        const text = tweet.text.toLowerCase();
+
+        return terms.every(term => {
+            if (term.startsWith('conversation_id:')) {
+                return tweet.conversation_id === term.substring('conversation_id:'.length);
+            }
+            if (term.startsWith('from:')) {
+                const author = this.users.get(tweet.author_id || '');
+                return !!author && author.username.toLowerCase() === term.substring('from:'.length).toLowerCase();
+            }
+            return text.includes(term.toLowerCase());
+        });
+    }
+
+    private sendUserList(res: Response, userIds: string[]): void {
+        const users = userIds
+            .map(id => this.users.get(id))
+            .filter((user): user is TwitterUser => !!user);
+        res.json(users.length > 0 ? { data: users, meta: { result_count: users.length } } : { meta: { result_count: 0 } });
+    }
+
+    private sendError(res: Response, status: number, title: string, detail: string): void {
+        res.status(status).json({ title, detail, status });
+    }
+
+    private applyRateLimitHeaders(req: Request, res: Response, next: NextFunction): void {
+        if (req.path.startsWith('/__mock/')) {
+            return next();
+        }
+
+        const endpoint = rateLimitEndpoint(req.method, req.path);
+        const now = Math.floor((this.options.now ? this.options.now() : new Date()).getTime() / 1000);
+        let window = this.rateLimitWindows.get(endpoint);
+        if (!window || window.reset <= now) {
+            window = { remaining: RATE_LIMIT, reset: now + RATE_LIMIT_WINDOW_SECONDS };
+            this.rateLimitWindows.set(endpoint, window);
+        }
+        window.remaining = Math.max(0, window.remaining - 1);
+
+        res.set({
+            'x-rate-limit-limit': String(RATE_LIMIT),
+            'x-rate-limit-remaining': String(window.remaining),
+            'x-rate-limit-reset': String(window.reset)
+        });
+        next();
+    }
+
+    private applyInjectedFailure(req: Request, res: Response, next: NextFunction): void {
+        const failure = this.failures.find(f => f.remaining > 0 && f.method === req.method && f.path.test(req.path));
+        if (!failure) {
+            return next();
+        }
+
+        failure.remaining--;
+        if (failure.retryAfterSeconds !== undefined) {
+            res.set('retry-after', String(failure.retryAfterSeconds));
+        }
+        this.sendError(res, failure.status, 'Injected failure', `Mock failure for ${req.method} ${req.path}`);
+    }
+
+    private writeRecord(): void {
+        if (!this.options.recordFile) {
+            return;
+        }
+        try {
+            fs.writeFileSync(this.options.recordFile, JSON.stringify(this.posted, null, 2));
+        } catch (error) {
+            console.error('Error writing mock X API record file:', error);
+        }
+    }
+}
@@ -0,0 +1,251 @@
+/**
+ * Tweet length as X counts it (the weighted counting of twitter-text v3)
+ *
+ * - Text is NFC-normalized before counting
+ * - Every URL counts as 23 characters, however long it is
+ * - Every emoji counts as 2, including ZWJ sequences, flags, keycaps and skin tones
+ * - Latin, Cyrillic, Greek and other code points up to U+10FF, plus some punctuation, count as 1
+ * - Everything else (CJK, Hangul, symbols...) counts as 2 per code point
+ *
+ * Truncation and splitting work on whole graphemes and whole URLs, so they never cut
+ * a surrogate pair, an emoji sequence or a link in half.
+ */
+
+export const MAX_TWEET_LENGTH = 280;
+export const URL_LENGTH = 23;
+
+// Code point ranges that count as 1; everything outside them counts as 2
+const SINGLE_WEIGHT_RANGES: Array<[number, number]> = [
+    [0x0000, 0x10ff],
+    [0x2000, 0x200d],
+    [0x2010, 0x201f],
+    [0x2032, 0x2037]
+];
+
+// Scheme URLs, www. hosts and bare domains on common TLDs; not parts of emails or paths
+const URL_PATTERN = /(?<![\w@.\/-])(?:https?:\/\/[^\s<>"]+|www\.[^\s<>"]+|(?:[a-z0-9-]+\.)+(?:com|org|net|io|ai|co|dev|app|me|ly|gl|art|xyz|info|blog)(?![\w-])(?:\/[^\s<>"]*)?)/gi;
+const TRAILING_URL_PUNCTUATION = /[.,!?;:'"\]]+$/;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20e3/u;
+
+// Intl.Segmenter is available in Node but not declared by the ES2020 lib this repo compiles against
+type GraphemeSegmenter = { segment(text: string): Iterable<{ segment: string }> };
+const Segmenter = (Intl as unknown as {
+    Segmenter?: new (locales?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter
+}).Segmenter;
+const graphemeSegmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : undefined;
+
+/**
+ * Splits text into graphemes (user-perceived characters)
+ * Falls back to code points where Intl.Segmenter is unavailable
+ * @param text The text to split
+ */
+export function graphemes(text: string): string[] {
+    return graphemeSegmenter
+        ? Array.from(graphemeSegmenter.segment(text), part => part.segment)
+        : Array.from(text);
+}
+
+/**
+ * Finds the URLs X would shorten in a text
+ * @param text The text to search
+ * @returns The URLs, in order
+ */
+export function extractUrls(text: string): string[] {
+    return findUrls(text).map(url => url.url);
+}
+
+/**
+ * Counts the length of a tweet as X does
+ * @param text The tweet text
+ * @returns The weighted length, to compare against MAX_TWEET_LENGTH
+ */
+export function tweetLength(text: string): number {
+    return tokenize(text).reduce((length, token) => length + token.weight, 0);
+}
+
+/**
+ * Checks whether a text fits in a single tweet
+ * @param text The tweet text
+ * @param maxLength The weighted length limit
+ */
+export function fitsInTweet(text: string, maxLength: number = MAX_TWEET_LENGTH): boolean {
+    return tweetLength(text) <= maxLength;
+}
+
+/**
+ * Truncates a text to fit in a tweet, ending it with an ellipsis when it was cut
+ * @param text The text to truncate
+ * @param maxLength The weighted length limit, including the ellipsis
+ * @param ellipsis Appended to the text when it is cut
+ * @returns The text (NFC-normalized if it was cut), never ending in half a grapheme or URL
+ */
+export function truncateTweet(text: string, maxLength: number = MAX_TWEET_LENGTH, ellipsis: string = '...'): string {
+    if (fitsInTweet(text, maxLength)) {
+        return text;
+    }
+
+    const tokens = tokenize(text);
+    const end = fittingTokenCount(tokens, maxLength - tweetLength(ellipsis));
+    return joinTokens(tokens.slice(0, end)).trimEnd() + ellipsis;
+}
+
+/**
+ * Splits a text into tweet-sized chunks, preferring to break between paragraphs,
+ * then sentences, then words
+ * @param text The text to split
+ * @param maxLength The weighted length limit for each chunk
+ * @returns The chunks, trimmed and in order
+ */
+export function splitIntoTweets(text: string, maxLength: number = MAX_TWEET_LENGTH): string[] {
+    const chunks: string[] = [];
+    let tokens = tokenize(text.trim());
+
+    while (tokens.length > 0) {
+        let end = Math.max(1, fittingTokenCount(tokens, maxLength));
+        if (end < tokens.length) {
+            end = breakPoint(tokens, end, maxLength);
+        }
+
+        const chunk = joinTokens(tokens.slice(0, end)).trim();
+        if (chunk) {
+            chunks.push(chunk);
+        }
+        tokens = tokens.slice(end);
+        while (tokens.length > 0 && /^\s+$/.test(tokens[0].text)) {
+            tokens = tokens.slice(1);
+        }
+    }
+
+    return chunks;
+}
+
+/**
+ * Splits a text into a numbered thread: every tweet ends with " (i/n)" and still fits
+ * @param text The text to split
+ * @param maxLength The weighted length limit for each tweet, including its indicator
+ * @returns The tweets, in order
+ */
+export function splitIntoThread(text: string, maxLength: number = MAX_TWEET_LENGTH): string[] {
+    // Reserve room for the widest indicator; longer threads need wider ones
+    for (let digits = 1; ; digits++) {
+        const widest = '9'.repeat(digits);
+        const chunks = splitIntoTweets(text, maxLength - tweetLength(` (${widest}/${widest})`));
+        if (String(chunks.length).length <= digits) {
+            return chunks.map((chunk, index) => `${chunk} (${index + 1}/${chunks.length})`);
+        }
+    }
+}
+
+interface Token {
+    text: string;
+    weight: number;
+}
+
+/**
+ * Splits normalized text into weighted tokens: whole URLs and single graphemes
+ * @param text The text to tokenize
+ */
+function tokenize(text: string): Token[] {
+    const normalized = text.normalize('NFC');
+    const tokens: Token[] = [];
+    let position = 0;
+
+    const addGraphemes = (part: string) => {
+        for (const grapheme of graphemes(part)) {
+            tokens.push({ text: grapheme, weight: graphemeWeight(grapheme) });
+        }
+    };
+
+    for (const { url, index } of findUrls(normalized)) {
+        addGraphemes(normalized.substring(position, index));
+        tokens.push({ text: url, weight: URL_LENGTH });
+        position = index + url.length;
+    }
+    addGraphemes(normalized.substring(position));
+
+    return tokens;
+}
+
+/**
+ * Finds URLs and their positions, without the punctuation that ends the sentence around them
+ * @param text The text to search
+ */
+function findUrls(text: string): Array<{ url: string; index: number }> {
+    const urls: Array<{ url: string; index: number }> = [];
+    for (const match of text.matchAll(URL_PATTERN)) {
+        let url = match[0].replace(TRAILING_URL_PUNCTUATION, '');
+        // A closing parenthesis belongs to the URL only if the URL opened one
+        while (url.endsWith(')') && url.split('(').length < url.split(')').length) {
+            url = url.slice(0, -1).replace(TRAILING_URL_PUNCTUATION, '');
+        }
+        urls.push({ url, index: match.index! });
+    }
+    return urls;
+}
+
+/**
+ * Weighs a single grapheme
+ * @param grapheme The grapheme
+ */
+function graphemeWeight(grapheme: string): number {
+    if (EMOJI_PATTERN.test(grapheme)) {
+        return 2;
+    }
+
+    let weight = 0;
+    for (const character of grapheme) {
+        const codePoint = character.codePointAt(0)!;
+        weight += SINGLE_WEIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+    }
+    return weight;
+}
+
+/**
+ * Counts how many leading tokens fit in a weighted length
+ * @param tokens The tokens
+ * @param maxLength The weighted length limit
+ */
+function fittingTokenCount(tokens: Token[], maxLength: number): number {
+    let length = 0;
+    let count = 0;
+    while (count < tokens.length && length + tokens[count].weight <= maxLength) {
+        length += tokens[count].weight;
+        count++;
+    }
+    return count;
+}
+
+/**
+ * Finds where to end a chunk that cannot take all the remaining tokens.
+ * Breaks after a paragraph, a sentence or a word, if that keeps more than half the chunk;
+ * otherwise cuts at the limit.
+ * @param tokens The remaining tokens
+ * @param end How many tokens fit
+ * @param maxLength The weighted length limit
+ * @returns How many tokens to put in the chunk
+ */
+function breakPoint(tokens: Token[], end: number, maxLength: number): number {
+    const isSpace = (index: number) => /^\s+$/.test(tokens[index].text);
+    const earliest = fittingTokenCount(tokens, Math.floor(maxLength / 2)) + 1;
+    const findBreak = (matches: (index: number) => boolean): number | undefined => {
+        for (let index = end; index >= earliest; index--) {
+            if (index < tokens.length && matches(index)) {
+                return index + 1;
+            }
+        }
+        return undefined;
+    };
+
+    return findBreak(index => tokens[index].text === '\n' && tokens[index - 1].text === '\n')
+        ?? findBreak(index => isSpace(index) && /[.!?]$/.test(tokens[index - 1].text))
+        ?? findBreak(isSpace)
+        ?? end;
+}
+
+/**
+ * Joins tokens back into text
+ * @param tokens The tokens
+ */
+function joinTokens(tokens: Token[]): string {
+    return tokens.map(token => token.text).join('');
+}
@@ -0,0 +1,162 @@
+import { MediaStatusV1Result, TwitterApi, Tweetv2SearchParams, SendTweetV2Params } from 'twitter-api-v2';
+import { TwitterConfig } from '../../types';
+import { MediaCategory, MediaUploadStatus, RateLimitStatus, RateLimitTracker, SearchOptions, SearchResult, TweetData, TweetOptions, TwitterClient, TwitterUser, TWEET_FIELDS } from './TwitterClient';
+
+// The v1.1 media upload host; twitter-api-v2 does not export its own constant from the package root
+const UPLOAD_PREFIX = 'https://upload.x.com/1.1/';
+
+/**
+ * TwitterClient backed by the real X API through twitter-api-v2
+ */
+export class TwitterApiClient implements TwitterClient {
+    private client: TwitterApi;
+    private rateLimits = new RateLimitTracker();
+
+    constructor(credentials: TwitterConfig) {
+        this.client = new TwitterApi({
+            appKey: credentials.apiKey,
+            appSecret: credentials.apiSecret,
+            accessToken: credentials.accessToken,
+            accessSecret: credentials.accessTokenSecret,
+        }, {
+            // Record the rate limit headers of every response, including errors
+            plugins: [{
+                onAfterRequest: ({ url, params, response }) => {
+                    this.rateLimits.record(params.method || 'GET', url.pathname, response.headers);
+                },
+                onResponseError: ({ url, params, error }) => {
+                    this.rateLimits.record(params.method || 'GET', url.pathname, error.headers);
+                }
+            }]
+        });
+    }
+
+    public async me(): Promise<TwitterUser> {
+        const me = await this.client.v2.me();
+        return me.data;
+    }
+
+    public async tweet(options: TweetOptions): Promise<TweetData> {
+        const params: SendTweetV2Params = {
+            text: options.text,
+        };
+
+        if (options.mediaIds && options.mediaIds.length > 0) {
+            // The API accepts at most four media IDs per tweet
+            params.media = { media_ids: options.mediaIds.slice(0, 4) as [string] };
+        }
+
+        if (options.replyToTweetId) {
+            params.reply = { in_reply_to_tweet_id: options.replyToTweetId };
+        }
+
+        const result = await this.client.v2.tweet(params);
+        return result.data;
+    }
+
+    public async getTweet(tweetId: string): Promise<TweetData | null> {
+        const response = await this.client.v2.singleTweet(tweetId, {
+            'tweet.fields': TWEET_FIELDS as Tweetv2SearchParams['tweet.fields'],
+        });
+        return (response.data as TweetData) || null;
+    }
+
+    public async deleteTweet(tweetId: string): Promise<void> {
+        await this.client.v2.deleteTweet(tweetId);
+    }
+
+    public async uploadMedia(mediaPath: string): Promise<string> {
+        return this.client.v1.uploadMedia(mediaPath);
+    }
+
+    public async setMediaAltText(mediaId: string, altText: string): Promise<void> {
+        await this.client.v1.createMediaMetadata(mediaId, { alt_text: { text: altText } });
+    }
+
+    public async initMediaUpload(totalBytes: number, mediaType: string, mediaCategory: MediaCategory): Promise<string> {
+        const response = await this.client.v1.post<{ media_id_string: string }>('media/upload.json', {
+            command: 'INIT',
+            total_bytes: totalBytes,
+            media_type: mediaType,
+            media_category: mediaCategory
+        }, { prefix: UPLOAD_PREFIX });
+        return response.media_id_string;
+    }
+
+    public async appendMediaChunk(mediaId: string, segmentIndex: number, chunk: Buffer): Promise<void> {
+        await this.client.v1.post('media/upload.json', {
+            command: 'APPEND',
+            media_id: mediaId,
+            segment_index: segmentIndex,
+            media: chunk
+        }, { prefix: UPLOAD_PREFIX });
+    }
+
+    public async finalizeMediaUpload(mediaId: string): Promise<MediaUploadStatus> {
+        const response = await this.client.v1.post<MediaStatusV1Result>('media/upload.json', {
+            command: 'FINALIZE',
+            media_id: mediaId
+        }, { prefix: UPLOAD_PREFIX });
+        return toUploadStatus(response);
+    }
+
+    public async getMediaUploadStatus(mediaId: string): Promise<MediaUploadStatus> {
+        return toUploadStatus(await this.client.v1.mediaInfo(mediaId));
+    }
+
+    public async searchRecent(options: SearchOptions): Promise<SearchResult> {
+        const params: Tweetv2SearchParams = {
+            query: options.query,
+            'tweet.fields': TWEET_FIELDS as Tweetv2SearchParams['tweet.fields'],
+            'user.fields': ['id', 'username', 'name'],
+            expansions: ['author_id', 'referenced_tweets.id', 'in_reply_to_user_id'],
+        };
+
+        if (options.sinceId) {
+            params.since_id = options.sinceId;
+        }
+        if (options.nextToken) {
+            params.next_token = options.nextToken;
+        }
+        if (options.maxResults) {
+            params.max_results = options.maxResults;
+        }
+
+        const response = await this.client.v2.search(params);
+
+        return {
+            tweets: response.tweets as TweetData[],
+            users: response.includes?.users || [],
+            newestId: response.meta?.newest_id,
+            nextToken: response.meta?.next_token
+        };
+    }
+
+    public async likedBy(tweetId: string): Promise<TwitterUser[]> {
+        const response = await this.client.v2.tweetLikedBy(tweetId);
+        return response.data || [];
+    }
+
+    public async retweetedBy(tweetId: string): Promise<TwitterUser[]> {
+        const response = await this.client.v2.tweetRetweetedBy(tweetId);
+        return response.data || [];
+    }
+
+    public getRateLimits(): RateLimitStatus[] {
+        return this.rateLimits.list();
+    }
+}
+
+/**
+ * Reads the processing_info of a FINALIZE or STATUS response
+ */
+function toUploadStatus(response: MediaStatusV1Result): MediaUploadStatus {
+    const info = response.processing_info;
+    return {
+        mediaId: response.media_id_string,
+        state: info?.state || null,
+        checkAfterSecs: info?.check_after_secs,
+        progressPercent: info?.progress_percent,
+        error: info?.error ? info.error.message || info.error.name : undefined
+    };
+}
@@ -0,0 +1,249 @@
+/**
+ * A Twitter (X) user as returned by the v2 API
+ */
+export interface TwitterUser {
+    id: string;
+    username: string;
+    name?: string;
+}
+
+/**
+ * A reference from one tweet to another (reply, quote or retweet)
+ */
+export interface ReferencedTweet {
+    type: 'replied_to' | 'quoted' | 'retweeted';
+    id: string;
+}
+
+/**
+ * A tweet as returned by the v2 API
+ */
+export interface TweetData {
+    id: string;
+    text: string;
+    author_id?: string;
+    conversation_id?: string;
+    created_at?: string;
+    referenced_tweets?: ReferencedTweet[];
+}
+
+/**
+ * Options for posting a tweet
+ */
+export interface TweetOptions {
+    text: string;
+    mediaIds?: string[];
+    replyToTweetId?: string;
+}
+
+/**
+ * Options for a recent search query
+ */
+export interface SearchOptions {
+    query: string;
+    sinceId?: string;
+    nextToken?: string;
+    maxResults?: number;
+}
+
+/**
+ * One page of recent search results
+ */
+export interface SearchResult {
+    tweets: TweetData[];
+    users: TwitterUser[];
+    newestId?: string;
+    nextToken?: string;
+}
+
+/**
+ * What X does with chunked media after upload: images are usable at once, videos and GIFs are processed first
+ */
+export type MediaCategory = 'tweet_image' | 'tweet_gif' | 'tweet_video';
+
+/**
+ * Processing state of media uploaded in chunks, from FINALIZE and STATUS
+ */
+export interface MediaUploadStatus {
+    mediaId: string;
+    state: 'pending' | 'in_progress' | 'succeeded' | 'failed' | null; // null when there is nothing to process
+    checkAfterSecs?: number; // How long to wait before asking again
+    progressPercent?: number;
+    error?: string; // Why processing failed
+}
+
+/**
+ * Rate limit window of one endpoint, from the x-rate-limit-* headers of its last response
+ */
+export interface RateLimitStatus {
+    endpoint: string; // e.g. "POST /2/tweets" or "GET /2/tweets/:id/liking_users"
+    limit: number;
+    remaining: number;
+    resetAt: string; // When the window resets
+    updatedAt: string; // When the headers were seen
+}
+
+/**
+ * The subset of the X API used by the bot.
+ * Implemented against the real API and against the local mock X API server.
+ */
+export interface TwitterClient {
+    /**
+     * Gets the authenticated user
+     */
+    me(): Promise<TwitterUser>;
+
+    /**
+     * Posts a tweet
+     * @param options The tweet text, media and reply target
+     * @returns The created tweet
+     */
+    tweet(options: TweetOptions): Promise<TweetData>;
+
+    /**
+     * Looks up a tweet
+     * @param tweetId The tweet ID
+     * @returns The tweet, or null if it does not exist or is not visible
+     */
+    getTweet(tweetId: string): Promise<TweetData | null>;
+
+    /**
+     * Deletes one of the authenticated user's tweets
+     * @param tweetId The tweet ID
+     */
+    deleteTweet(tweetId: string): Promise<void>;
+
+    /**
+     * Uploads a media file
+     * @param mediaPath Path to the media file
+     * @returns The media ID
+     */
+    uploadMedia(mediaPath: string): Promise<string>;
+
+    /**
+     * Sets the alt text of uploaded media, through the media metadata endpoint
+     * @param mediaId The media ID
+     * @param altText The alt text, at most 1000 characters
+     */
+    setMediaAltText(mediaId: string, altText: string): Promise<void>;
+
+    /**
+     * Starts a chunked media upload (INIT)
+     * @param totalBytes The size of the file
+     * @param mediaType Its MIME type, e.g. video/mp4
+     * @param mediaCategory What the media is for
+     * @returns The media ID
+     */
+    initMediaUpload(totalBytes: number, mediaType: string, mediaCategory: MediaCategory): Promise<string>;
+
+    /**
+     * Uploads one chunk of a chunked media upload (APPEND)
+     * @param mediaId The media ID from initMediaUpload
+     * @param segmentIndex The chunk's position, from 0
+     * @param chunk The chunk, at most 5MB
+     */
+    appendMediaChunk(mediaId: string, segmentIndex: number, chunk: Buffer): Promise<void>;
+
+    /**
+     * Completes a chunked media upload (FINALIZE)
+     * @param mediaId The media ID
+     * @returns Whether the media still has to be processed before it can be posted
+     */
+    finalizeMediaUpload(mediaId: string): Promise<MediaUploadStatus>;
+
+    /**
+     * Checks on the processing of media uploaded in chunks (STATUS)
+     * @param mediaId The media ID
+     */
+    getMediaUploadStatus(mediaId: string): Promise<MediaUploadStatus>;
+
+    /**
+     * Searches tweets from the last 7 days
+     * @param options The query and paging options
+     */
+    searchRecent(options: SearchOptions): Promise<SearchResult>;
+
+    /**
+     * Lists users who liked a tweet
+     * @param tweetId The tweet ID
+     */
+    likedBy(tweetId: string): Promise<TwitterUser[]>;
+
+    /**
+     * Lists users who retweeted a tweet
+     * @param tweetId The tweet ID
+     */
+    retweetedBy(tweetId: string): Promise<TwitterUser[]>;
+
+    /**
+     * Lists the rate limit windows seen so far, one per endpoint
+     */
+    getRateLimits(): RateLimitStatus[];
+}
+
+/**
+ * Error raised by a TwitterClient for a failed API call.
+ * `code` is the HTTP status, matching the errors thrown by twitter-api-v2.
+ */
+export class TwitterClientError extends Error {
+    public code: number;
+    public response?: { headers: Record<string, any>; data?: any };
+
+    constructor(message: string, code: number, response?: { headers: Record<string, any>; data?: any }) {
+        super(message);
+        this.name = 'TwitterClientError';
+        this.code = code;
+        this.response = response;
+    }
+}
+
+/**
+ * Names the endpoint a request counts against, e.g. "GET /2/tweets/:id/liking_users"
+ * @param method The HTTP method
+ * @param path The request path; numeric IDs after the API version are folded into ":id"
+ */
+export function rateLimitEndpoint(method: string, path: string): string {
+    const segments = path.split('/').map((segment, i) => (i > 1 && /^\d+$/.test(segment) ? ':id' : segment));
+    return `${method.toUpperCase()} ${segments.join('/')}`;
+}
+
+/**
+ * Keeps the latest rate limit window of each endpoint a client has called
+ */
+export class RateLimitTracker {
+    private limits = new Map<string, RateLimitStatus>();
+
+    /**
+     * Records the rate limit headers of a response. Responses without them are ignored.
+     * @param method The HTTP method
+     * @param path The request path
+     * @param headers The response headers
+     */
+    public record(method: string, path: string, headers: Record<string, any> | undefined): void {
+        const limit = parseInt(headers?.['x-rate-limit-limit'], 10);
+        const remaining = parseInt(headers?.['x-rate-limit-remaining'], 10);
+        const reset = parseInt(headers?.['x-rate-limit-reset'], 10);
+        if (isNaN(limit) || isNaN(remaining) || isNaN(reset)) {
+            return;
+        }
+
+        const endpoint = rateLimitEndpoint(method, path);
+        this.limits.set(endpoint, {
+            endpoint,
+            limit,
+            remaining,
+            resetAt: new Date(reset * 1000).toISOString(),
+            updatedAt: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Lists the latest window of each endpoint
+     */
+    public list(): RateLimitStatus[] {
+        return Array.from(this.limits.values());
+    }
+}
+
+// Fields requested on every tweet lookup
+export const TWEET_FIELDS = ['author_id', 'conversation_id', 'created_at', 'text', 'referenced_tweets'];
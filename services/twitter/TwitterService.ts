@@ -1,26 +1,130 @@
-import { TwitterApi } from 'twitter-api-v2';
-import { config } from '../../config';
-import { PostContent } from '../../types';
+import { PersonaConfig, PostContent } from '../../types';
 import { EngagementService, EngagementMetric } from '../engagement/EngagementService';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { getRepositories, Repositories } from '../repositories';
+import { MediaCategory, MediaUploadStatus, RateLimitStatus, SearchResult, TweetData, TwitterClient } from './TwitterClient';
+import { TwitterApiClient } from './TwitterApiClient';
+import { HttpTwitterClient } from './HttpTwitterClient';
+import { truncateTweet } from './TweetText';
+import { ImagePreprocessor } from '../media/ImagePreprocessor';
+import { describeUnknownMedia, GIF, MediaType, MP4, sniffMediaType } from '../media/MediaType';
+import { config } from '../../config';
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+// Largest animated GIF X accepts
+const MAX_GIF_BYTES = 15 * 1024 * 1024;
 
+// Largest page the recent search endpoint returns
+const SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Compares two tweet IDs. IDs are numeric strings too large for a JS number.
+ * @returns true if a is newer than b
+ */
+function isNewerTweetId(a: string, b: string): boolean {
+    return a.length !== b.length ? a.length > b.length : a > b;
+}
+
+/**
+ * Posts and reads tweets for one persona's X account
+ */
 export class TwitterService {
-    private client: TwitterApi;
-    private static instance: TwitterService;
-
-    private constructor() {
-        this.client = new TwitterApi({
-            appKey: config.twitter.apiKey,
-            appSecret: config.twitter.apiSecret,
-            accessToken: config.twitter.accessToken,
-            accessSecret: config.twitter.accessTokenSecret,
-        });
+    private client: TwitterClient;
+    private persona: PersonaConfig;
+    private static instances = new Map<string, TwitterService>();
+
+    private constructor(persona: PersonaConfig) {
+        this.persona = persona;
+        if (persona.twitter.apiBaseUrl) {
+            console.log(`Using X API at ${persona.twitter.apiBaseUrl} for ${persona.name}`);
+            this.client = new HttpTwitterClient(persona.twitter.apiBaseUrl, persona.twitter.bearerToken);
+        } else {
+            this.client = new TwitterApiClient(persona.twitter);
+        }
     }
 
-    public static getInstance(): TwitterService {
-        if (!TwitterService.instance) {
-            TwitterService.instance = new TwitterService();
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+
+    /**
+     * Get the TwitterService of a persona
+     * @param persona The persona name; the default persona if not given
+     */
+    public static getInstance(persona?: string): TwitterService {
+        const personaConfig = PersonaRegistry.getInstance().get(persona);
+        let instance = TwitterService.instances.get(personaConfig.name);
+        if (!instance) {
+            instance = new TwitterService(personaConfig);
+            TwitterService.instances.set(personaConfig.name, instance);
+        }
+        return instance;
+    }
+
+    /**
+     * Replaces the X API client (e.g. with one pointed at the mock X API server)
+     * @param client The client to use
+     */
+    public setClient(client: TwitterClient): void {
+        this.client = client;
+    }
+
+    /**
+     * Lists the X API rate limit windows seen so far, one per endpoint
+     */
+    public getRateLimits(): RateLimitStatus[] {
+        return this.client.getRateLimits();
+    }
+
+    /**
+     * Looks up a tweet
+     * @param tweetId The tweet ID
+     * @returns The tweet, or null if it could not be fetched
+     */
+    public async getTweet(tweetId: string): Promise<TweetData | null> {
+        try {
+            return await this.client.getTweet(tweetId);
+        } catch (error) {
+            console.error(`Error fetching tweet ${tweetId}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Finds one of the persona's tweets from the last 7 days by its text, to tell whether a post went out
+     * @param text The posted text
+     * @returns The newest tweet with that text, or null if there is none
+     * @throws If the search fails, so callers never take a failed search for "not posted"
+     */
+    public async findOwnRecentTweet(text: string): Promise<TweetData | null> {
+        // X appends a t.co link for attached media to the text
+        const normalize = (value: string) => value.replace(/\s*https:\/\/t\.co\/\w+\s*$/, '').replace(/\s+/g, ' ').trim();
+        const me = await this.client.me();
+        const { tweets } = await this.searchAllPages(`from:${me.username}`);
+        return tweets.find(tweet => normalize(tweet.text) === normalize(text)) || null;
+    }
+
+    /**
+     * Deletes one of the persona's tweets. A tweet that no longer exists counts as deleted.
+     * @param tweetId The tweet ID
+     * @throws If the API call fails
+     */
+    public async deleteTweet(tweetId: string): Promise<void> {
+        try {
+            await this.client.deleteTweet(tweetId);
+            console.log(`Deleted tweet ${tweetId}`);
+        } catch (error: any) {
+            if (error?.code === 404) {
+                console.log(`Tweet ${tweetId} was already deleted`);
+                return;
+            }
+            throw error;
         }
-        return TwitterService.instance;
     }
 
     /**
@@ -32,25 +136,20 @@ export class TwitterService {
      */
     public async postTweet(content: PostContent, mediaIds?: string[], replyToTweetId?: string): Promise<{ success: boolean; error?: any; message?: string; tweetId?: string }> {
         try {
-            const tweetOptions: any = {
-                text: content.text,
-            };
-
-            if (mediaIds && mediaIds.length > 0) {
-                tweetOptions.media = { media_ids: mediaIds };
-            }
-
             // Add reply parameter if replyToTweetId is provided
             if (replyToTweetId) {
-                tweetOptions.reply = { in_reply_to_tweet_id: replyToTweetId };
                 console.log(`Creating a reply to tweet ID: ${replyToTweetId}`);
             }
 
-            const result = await this.client.v2.tweet(tweetOptions);
+            const result = await this.client.tweet({
+                text: content.text,
+                mediaIds,
+                replyToTweetId
+            });
             return { 
                 success: true, 
-                message: `Tweet posted successfully with ID: ${result.data.id}`,
-                tweetId: result.data.id
+                message: `Tweet posted successfully with ID: ${result.id}`,
+                tweetId: result.id
             };
         } catch (error: any) {
             console.error('Error posting tweet:', error);
@@ -93,7 +192,7 @@ export class TwitterService {
     public async uploadMedia(mediaPath: string): Promise<string> {
         try {
             console.log(`Uploading media from path: ${mediaPath}`);
-            const mediaId = await this.client.v1.uploadMedia(mediaPath);
+            const mediaId = await this.client.uploadMedia(mediaPath);
             console.log(`Media uploaded successfully with ID: ${mediaId}`);
             return mediaId;
         } catch (error) {
@@ -102,19 +201,179 @@ export class TwitterService {
         }
     }
 
+    /**
+     * Sets the alt text of uploaded media. A failure is logged, not thrown: the media is still posted, without it.
+     * @param mediaId The media ID
+     * @param altText The alt text; cut to the 1000 characters X allows
+     * @returns Whether the alt text was set
+     */
+    public async setMediaAltText(mediaId: string, altText: string): Promise<boolean> {
+        try {
+            await this.client.setMediaAltText(mediaId, altText.slice(0, 1000));
+            return true;
+        } catch (error) {
+            console.error(`Error setting alt text of media ${mediaId}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Downloads an image from a URL, brings it within X's limits and uploads it to Twitter
+     * @param url URL of the image to download
+     * @param altText Alt text to set on the media, if any
+     * @param cacheKey Keeps the processed image for retries under this key, usually the image ID
+     * @returns Media ID string
+     */
+    public async uploadMediaFromUrl(url: string, altText?: string | null, cacheKey?: string): Promise<string> {
+        const image = await ImagePreprocessor.getInstance().prepare(url, { cacheKey, watermarkPath: this.persona.watermarkPath });
+        try {
+            const mediaId = await this.uploadMedia(image.path);
+            if (altText) {
+                await this.setMediaAltText(mediaId, altText);
+            }
+            return mediaId;
+        } finally {
+            // Clean up the temporary file; cached images are removed once posted
+            if (image.temporary) {
+                try {
+                    fs.unlinkSync(image.path);
+                } catch (cleanupError) {
+                    console.error('Error cleaning up temporary file:', cleanupError);
+                    // Continue with the process even if cleanup fails
+                }
+            }
+        }
+    }
+
+    /**
+     * Uploads a file in chunks: INIT, APPEND for each chunk of MEDIA_UPLOAD_CHUNK_BYTES, FINALIZE, then
+     * STATUS until X has processed it. Needed for videos and animated GIFs, which X processes before they can be posted.
+     * @param mediaPath Path to the media file
+     * @param mediaType Its type
+     * @param category What the media is for
+     * @returns The media ID, once it can be posted
+     * @throws If an upload request fails, processing fails or it takes over MEDIA_PROCESSING_TIMEOUT_SECONDS
+     */
+    public async uploadMediaChunked(mediaPath: string, mediaType: MediaType, category: MediaCategory): Promise<string> {
+        const totalBytes = fs.statSync(mediaPath).size;
+        console.log(`Uploading ${totalBytes} bytes of ${mediaType.mimeType} from ${mediaPath} in chunks`);
+        const mediaId = await this.client.initMediaUpload(totalBytes, mediaType.mimeType, category);
+
+        // Read one chunk at a time, so a large video is never held in memory whole
+        const fd = fs.openSync(mediaPath, 'r');
+        try {
+            const buffer = Buffer.alloc(Math.min(config.media.uploadChunkBytes, totalBytes));
+            let segmentIndex = 0;
+            for (let offset = 0; offset < totalBytes; offset += buffer.length, segmentIndex++) {
+                const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, offset);
+                await this.client.appendMediaChunk(mediaId, segmentIndex, buffer.subarray(0, bytesRead));
+            }
+            console.log(`Media ${mediaId} uploaded in ${segmentIndex} chunk(s)`);
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        const status = await this.client.finalizeMediaUpload(mediaId);
+        await this.awaitMediaProcessing(status);
+        console.log(`Media ${mediaId} is ready to post`);
+        return mediaId;
+    }
+
+    /**
+     * Downloads an MP4 video or animated GIF from a URL and uploads it in chunks
+     * @param url URL of the video or GIF
+     * @returns Media ID string
+     * @throws If the download fails, it is not an MP4 or GIF, it is over X's size limit or the upload fails
+     */
+    public async uploadVideoFromUrl(url: string): Promise<string> {
+        const filePath = await this.downloadVideo(url);
+        try {
+            const head = Buffer.alloc(16);
+            const fd = fs.openSync(filePath, 'r');
+            fs.readSync(fd, head, 0, head.length, 0);
+            fs.closeSync(fd);
+
+            const type = sniffMediaType(head);
+            if (type !== MP4 && type !== GIF) {
+                throw new Error(`Unsupported media: ${type ? type.mimeType : describeUnknownMedia(head)}, not an MP4 video or GIF`);
+            }
+            const size = fs.statSync(filePath).size;
+            if (type === GIF && size > MAX_GIF_BYTES) {
+                throw new Error(`GIF is ${size} bytes; X takes up to ${MAX_GIF_BYTES}`);
+            }
+            return await this.uploadMediaChunked(filePath, type, type === GIF ? 'tweet_gif' : 'tweet_video');
+        } finally {
+            try {
+                fs.unlinkSync(filePath);
+            } catch (cleanupError) {
+                console.error('Error cleaning up temporary file:', cleanupError);
+            }
+        }
+    }
+
+    /**
+     * Waits for X to process uploaded media, checking as often as it asks
+     * @param status The FINALIZE response
+     */
+    private async awaitMediaProcessing(status: MediaUploadStatus): Promise<void> {
+        const deadline = Date.now() + config.media.processingTimeoutSeconds * 1000;
+        while (status.state === 'pending' || status.state === 'in_progress') {
+            const waitMs = (status.checkAfterSecs ?? 1) * 1000;
+            if (Date.now() + waitMs > deadline) {
+                throw new Error(`Media ${status.mediaId} was not processed within ${config.media.processingTimeoutSeconds} seconds`);
+            }
+            console.log(`Media ${status.mediaId} is ${status.state}${status.progressPercent !== undefined ? ` (${status.progressPercent}%)` : ''}; checking again in ${waitMs / 1000}s`);
+            await new Promise(resolve => setTimeout(resolve, waitMs));
+            status = await this.client.getMediaUploadStatus(status.mediaId);
+        }
+        if (status.state === 'failed') {
+            throw new Error(`Media processing failed for ${status.mediaId}: ${status.error || 'no reason given'}`);
+        }
+    }
+
+    /**
+     * Streams a video to a temporary file, refusing it once it passes MEDIA_MAX_VIDEO_BYTES
+     * @param url URL of the video
+     * @returns Path to the file
+     */
+    private async downloadVideo(url: string): Promise<string> {
+        console.log(`Downloading video from URL: ${url}`);
+        const filePath = path.join(os.tmpdir(), `marvin-video-${uuidv4()}`);
+        try {
+            const response = await axios.get(url, { responseType: 'stream', timeout: 30000 });
+            await new Promise<void>((resolve, reject) => {
+                const file = fs.createWriteStream(filePath);
+                let bytes = 0;
+                response.data.on('data', (chunk: Buffer) => {
+                    bytes += chunk.length;
+                    if (bytes > config.media.maxVideoBytes) {
+                        response.data.destroy(new Error(`video is over ${config.media.maxVideoBytes} bytes`));
+                    }
+                });
+                response.data.on('error', (error: Error) => {
+                    file.destroy();
+                    reject(error);
+                });
+                file.on('error', reject);
+                file.on('finish', () => resolve());
+                response.data.pipe(file);
+            });
+            return filePath;
+        } catch (error) {
+            fs.rmSync(filePath, { force: true });
+            console.error('Error downloading video:', error instanceof Error ? error.message : error);
+            throw new Error(`Failed to download media: ${error instanceof Error ? error.message : 'unknown error'}`);
+        }
+    }
+
     /**
      * Formats content according to Twitter's requirements
      * @param content Raw content to format
      * @returns Formatted content ready for Twitter
      */
     public formatContent(content: PostContent): PostContent {
-        // Ensure content meets Twitter's character limit
-        const maxLength = 280;
-        let formattedText = content.text;
-
-        if (formattedText.length > maxLength) {
-            formattedText = formattedText.substring(0, maxLength - 3) + '...';
-        }
+        // Ensure content meets Twitter's character limit, counted the way X counts it
+        const formattedText = truncateTweet(content.text);
 
         // Hashtags are no longer added to tweets
         // This was removed to keep tweets cleaner
@@ -131,19 +390,72 @@ export class TwitterService {
      */
     public async getOwnUsername(): Promise<string> {
         try {
-            const me = await this.client.v2.me();
-            console.log(`Own username: ${me.data.username}`);
-            return me.data.username;
+            const me = await this.client.me();
+            console.log(`Own username: ${me.username}`);
+            return me.username;
         } catch (error) {
             console.error('Error getting own username:', error);
             return 'Yona_AI_Music'; // Fallback to hardcoded username
         }
     }
     
+    /**
+     * Gets the authenticated user's ID
+     * @returns The user ID, or null if it could not be fetched
+     */
+    public async getOwnUserId(): Promise<string | null> {
+        try {
+            const me = await this.client.me();
+            return me.id;
+        } catch (error) {
+            console.error('Error getting own user ID:', error);
+            return null;
+        }
+    }
+    
+    /**
+     * Searches recent tweets, following next_token through every page
+     * @param query The search query
+     * @param sinceId Only return tweets newer than this ID
+     * @returns All matching tweets and their authors, newest first
+     * @throws If any page fails, so callers never act on a partial result
+     */
+    private async searchAllPages(query: string, sinceId?: string): Promise<SearchResult> {
+        const tweets: SearchResult['tweets'] = [];
+        const users: SearchResult['users'] = [];
+        let newestId: string | undefined;
+        let nextToken: string | undefined;
+        let pages = 0;
+
+        do {
+            let page: SearchResult;
+            try {
+                page = await this.client.searchRecent({ query, sinceId, nextToken, maxResults: SEARCH_PAGE_SIZE });
+            } catch (error: any) {
+                // A cursor older than the 7-day search window is rejected; start over without it
+                // (both client implementations put the HTTP status in `code`)
+                if (pages === 0 && sinceId && error?.code === 400) {
+                    console.log(`Search rejected since_id ${sinceId}; searching without it`);
+                    return this.searchAllPages(query);
+                }
+                throw error;
+            }
+
+            tweets.push(...page.tweets);
+            users.push(...page.users);
+            newestId = newestId || page.newestId;
+            nextToken = page.nextToken;
+            pages++;
+        } while (nextToken);
+
+        console.log(`Search "${query}" returned ${tweets.length} tweets in ${pages} page(s)`);
+        return { tweets, users, newestId };
+    }
+
     /**
      * Fetches recent engagements (likes, reposts, replies)
      * @param tweetId Optional tweet ID to filter by
-     * @param sinceId Optional tweet ID to fetch engagements since
+     * @param sinceId Optional tweet ID to fetch replies or mentions since
      * @returns Array of engagement data
      */
     public async fetchRecentEngagements(tweetId?: string, sinceId?: string): Promise<any[]> {
@@ -155,21 +467,15 @@ export class TwitterService {
                 console.log(`Fetching engagements for tweet ID: ${tweetId}`);
                 
                 // Get likes for the tweet
-                const likersResponse = await this.client.v2.tweetLikedBy(tweetId);
-                const likers = likersResponse.data || [];
+                const likers = await this.client.likedBy(tweetId);
                 
                 // Get retweets of the tweet
-                const retweetersResponse = await this.client.v2.tweetRetweetedBy(tweetId);
-                const retweeters = retweetersResponse.data || [];
+                const retweeters = await this.client.retweetedBy(tweetId);
                 
                 // Get replies to the tweet (this requires a search)
-                const repliesResponse = await this.client.v2.search({
-                    query: `conversation_id:${tweetId}`,
-                    "tweet.fields": ["author_id", "conversation_id", "created_at", "text", "referenced_tweets"],
-                    "expansions": ["referenced_tweets.id", "in_reply_to_user_id"]
-                });
+                const repliesResponse = await this.searchAllPages(`conversation_id:${tweetId}`, sinceId);
                 // Extract the tweets from the response
-                const replies = repliesResponse.tweets || [];
+                const replies = repliesResponse.tweets;
                 
                 // Process and return the combined engagement data
                 return this.processEngagementData(tweetId, likers, retweeters, replies);
@@ -179,30 +485,21 @@ export class TwitterService {
             console.log('Fetching recent mentions');
             
             // Get the authenticated user's ID
-            const me = await this.client.v2.me();
-            
-            // Search parameters
-            const searchParams: any = {
-                query: `@${me.data.username}`,
-                "tweet.fields": ["author_id", "conversation_id", "created_at", "text", "referenced_tweets"],
-                "user.fields": ["id", "username", "name"],
-                "expansions": ["author_id", "referenced_tweets.id", "in_reply_to_user_id"]
-            };
+            const me = await this.client.me();
             
             // Add since_id if provided
             if (sinceId) {
-                searchParams.since_id = sinceId;
                 console.log(`Fetching mentions since tweet ID: ${sinceId}`);
             }
             
             // Search for recent mentions
-            const mentionsResponse = await this.client.v2.search(searchParams);
+            const mentionsResponse = await this.searchAllPages(`@${me.username}`, sinceId);
             
             // Extract the tweets from the response
-            const mentions = mentionsResponse.tweets || [];
+            const mentions = mentionsResponse.tweets;
             
             // Extract the users from the response
-            const users = mentionsResponse.includes?.users || [];
+            const users = mentionsResponse.users;
             
             // Create a map of user IDs to usernames for quick lookup
             const userMap = new Map();
@@ -299,21 +596,34 @@ export class TwitterService {
     }
     
     /**
-     * Monitors and logs recent engagements
+     * Monitors and logs recent engagements.
+     * Mentions and replies are searched from a cursor persisted per account and query type,
+     * so each run only fetches tweets newer than the last one processed, including after a restart.
      * @param tweetId Optional tweet ID to monitor
      */
     public async monitorEngagements(tweetId?: string): Promise<void> {
         try {
-            console.log('Monitoring engagements');
+            console.log(`Monitoring engagements for ${this.persona.name}`);
             
             // Get the engagement service
-            const engagementService = EngagementService.getInstance();
+            const engagementService = EngagementService.getInstance(this.persona.name);
+            
+            // Load the cursor for this search
+            const me = await this.client.me();
+            const queryType = tweetId ? `replies:${tweetId}` : 'mentions';
+            const cursor = await this.repositories.pollCursors.get(me.id, queryType);
+            let sinceId = cursor?.since_id;
             
             // Fetch recent engagements
-            const engagements = await this.fetchRecentEngagements(tweetId);
+            const engagements = await this.fetchRecentEngagements(tweetId, sinceId);
+            
+            // Process searched tweets oldest first, so the cursor only ever passes processed tweets
+            const searched = engagements.filter(e => e.type === 'mention' || e.type === 'reply')
+                .sort((a, b) => isNewerTweetId(a.tweet_id, b.tweet_id) ? 1 : -1);
+            const ordered = [...engagements.filter(e => !searched.includes(e)), ...searched];
             
             // Log each engagement
-            for (const engagement of engagements) {
+            for (const engagement of ordered) {
                 const engagementMetric: EngagementMetric = {
                     user_id: engagement.user_id,
                     username: engagement.username || 'unknown_user',
@@ -326,9 +636,15 @@ export class TwitterService {
                 
                 console.log(`Processing engagement with conversation_id: ${engagement.conversation_id}`);
                 await engagementService.logEngagement(engagementMetric);
+                
+                // Move the cursor past this tweet now that it is in the ledger
+                if (searched.includes(engagement) && (!sinceId || isNewerTweetId(engagement.tweet_id, sinceId))) {
+                    sinceId = engagement.tweet_id;
+                    await this.repositories.pollCursors.save({ account_id: me.id, query_type: queryType, since_id: engagement.tweet_id });
+                }
             }
             
-            console.log(`Logged ${engagements.length} engagements`);
+            console.log(`Logged ${engagements.length} engagements${sinceId ? ` (${queryType} cursor at ${sinceId})` : ''}`);
         } catch (error) {
             console.error('Error monitoring engagements:', error);
         }
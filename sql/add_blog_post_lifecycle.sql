@@ -0,0 +1,35 @@
+-- Give blog posts a defined lifecycle with scheduling fields and an audit trail of status changes
+ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- NOT VALID leaves existing rows alone; move any with other statuses into the lifecycle,
+-- then run: ALTER TABLE blog_posts VALIDATE CONSTRAINT blog_posts_status_check;
+ALTER TABLE blog_posts DROP CONSTRAINT IF EXISTS blog_posts_status_check;
+ALTER TABLE blog_posts ADD CONSTRAINT blog_posts_status_check
+    CHECK (status IN ('draft', 'ready_to_tweet', 'scheduled', 'posting', 'posted', 'failed', 'cancelled')) NOT VALID;
+
+-- Indexes for the weekly slots (by priority) and for scheduled posts coming due
+DROP INDEX IF EXISTS idx_blog_posts_persona_status;
+CREATE INDEX IF NOT EXISTS idx_blog_posts_persona_status ON blog_posts(persona, status, priority DESC, created_at);
+CREATE INDEX IF NOT EXISTS idx_blog_posts_scheduled ON blog_posts(persona, scheduled_at) WHERE status = 'scheduled';
+
+-- Create blog_post_transitions table: every status change of a blog post
+CREATE TABLE IF NOT EXISTS blog_post_transitions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    blog_post_id UUID NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_blog_post_transitions_post ON blog_post_transitions(blog_post_id, created_at);
+
+-- Add comments to explain the columns
+COMMENT ON COLUMN blog_posts.status IS 'draft, ready_to_tweet, scheduled, posting, posted, failed or cancelled';
+COMMENT ON COLUMN blog_posts.scheduled_at IS 'When a scheduled post goes out, instead of at the next weekly slot';
+COMMENT ON COLUMN blog_posts.priority IS 'Weekly slots take the ready post with the highest priority, then the oldest';
+COMMENT ON COLUMN blog_post_transitions.actor IS 'Who made the change: scheduler, or the admin for changes made through the API';
+COMMENT ON COLUMN blog_post_transitions.reason IS 'Why the status changed, e.g. the error of a failed post';
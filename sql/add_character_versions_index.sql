@@ -0,0 +1,7 @@
+-- Each version of a character is a row of character_files; the active one has is_active = true.
+-- Make version numbers unique per agent so a version can be looked up and rolled back to.
+CREATE UNIQUE INDEX idx_character_files_agent_version ON character_files(lower(agent_name), version);
+
+-- Add comments to explain the columns
+COMMENT ON COLUMN character_files.version IS 'Version number of the character, unique per agent';
+COMMENT ON COLUMN character_files.is_active IS 'Whether this is the version the agent uses (unless CHARACTER_VERSION pins another)';
@@ -0,0 +1,11 @@
+-- Add the columns used to rebuild reply threads to the conversations table
+ALTER TABLE conversations
+ADD COLUMN parent_tweet_id TEXT,
+ADD COLUMN declined_reason TEXT;
+
+-- Add an index for finding the incoming tweet behind one of Marvin's replies
+CREATE INDEX idx_conversations_response_tweet_id ON conversations(response_tweet_id);
+
+-- Add comments to explain the columns
+COMMENT ON COLUMN conversations.parent_tweet_id IS 'ID of the tweet the incoming tweet replied to (from Twitter)';
+COMMENT ON COLUMN conversations.declined_reason IS 'Why Marvin did not reply (thread too deep, reply cap reached or hostile), if he did not';
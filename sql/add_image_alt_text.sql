@@ -0,0 +1,8 @@
+-- Store the alt text posted with each image, so screen readers get the same description every time
+ALTER TABLE images ADD COLUMN IF NOT EXISTS alt_text TEXT;
+
+-- Index for the unposted images of a prompt, which are posted together
+CREATE INDEX IF NOT EXISTS idx_images_prompt_unposted ON images(prompt_id, created_at) WHERE x_posted = FALSE;
+
+-- Add comments to explain the columns
+COMMENT ON COLUMN images.alt_text IS 'Accessible description of the image, generated from its prompt and set on the media when posted';
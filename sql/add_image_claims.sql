@@ -0,0 +1,12 @@
+-- Claim images before posting them, so two workers never post the same image
+ALTER TABLE images ADD COLUMN IF NOT EXISTS tweet_id TEXT;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS lease_owner TEXT;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS posting_started_at TIMESTAMP WITH TIME ZONE;
+
+-- Index for leases left behind by workers that stopped
+CREATE INDEX IF NOT EXISTS idx_images_claimed ON images(posting_started_at) WHERE lease_owner IS NOT NULL AND x_posted = FALSE;
+
+-- Add comments to explain the columns
+COMMENT ON COLUMN images.tweet_id IS 'The tweet the image was posted in';
+COMMENT ON COLUMN images.lease_owner IS 'The worker posting the image; taken with a conditional update, so only one worker holds it';
+COMMENT ON COLUMN images.posting_started_at IS 'When the lease was taken; leases older than IMAGE_LEASE_SECONDS are reconciled';
@@ -0,0 +1,15 @@
+-- Let image tweets pick their image by strategy: pins for a date, prompt tags and styles, and when each image was posted
+ALTER TABLE images ADD COLUMN IF NOT EXISTS x_posted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS pinned_for DATE;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS tags TEXT[];
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS style TEXT;
+
+-- Indexes for pinned images and the avoid-repeat window
+CREATE INDEX IF NOT EXISTS idx_images_pinned_for ON images(persona, pinned_for) WHERE pinned_for IS NOT NULL AND x_posted = FALSE;
+CREATE INDEX IF NOT EXISTS idx_images_x_posted_at ON images(persona, x_posted_at) WHERE x_posted = TRUE;
+
+-- Add comments to explain the columns
+COMMENT ON COLUMN images.x_posted_at IS 'When the image was posted to X; images posted before this column existed have none';
+COMMENT ON COLUMN images.pinned_for IS 'Post the image on this date, in the image_tweet job''s time zone, whatever the strategy';
+COMMENT ON COLUMN prompts.tags IS 'Subjects of the prompt, weighted by IMAGE_SELECTION_TAG_WEIGHTS for the weighted_tags strategy';
+COMMENT ON COLUMN prompts.style IS 'Visual style; not repeated within IMAGE_SELECTION_AVOID_REPEAT_DAYS';
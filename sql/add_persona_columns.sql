@@ -0,0 +1,25 @@
+-- Scope conversations, images, blog posts and the engagement ledger by persona
+-- Existing rows belong to the default persona. If DEFAULT_PERSONA is set to something
+-- other than 'marvin', replace 'marvin' below with its value before running this.
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS persona TEXT NOT NULL DEFAULT 'marvin';
+ALTER TABLE images ADD COLUMN IF NOT EXISTS persona TEXT NOT NULL DEFAULT 'marvin';
+ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS persona TEXT NOT NULL DEFAULT 'marvin';
+ALTER TABLE engagement_metrics ADD COLUMN IF NOT EXISTS persona TEXT NOT NULL DEFAULT 'marvin';
+
+-- A tweet mentioning two personas is processed once by each of them
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_tweet_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_persona_tweet_id ON conversations(persona, tweet_id);
+
+DROP INDEX IF EXISTS idx_engagement_metrics_dedupe;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_engagement_metrics_dedupe
+    ON engagement_metrics(persona, user_id, engagement_type, tweet_id);
+
+-- Indexes for the per-persona queues
+CREATE INDEX IF NOT EXISTS idx_images_persona_unposted ON images(persona, created_at) WHERE x_posted = false;
+CREATE INDEX IF NOT EXISTS idx_blog_posts_persona_status ON blog_posts(persona, status);
+
+-- Add comments to explain the columns
+COMMENT ON COLUMN conversations.persona IS 'Persona whose account received the tweet';
+COMMENT ON COLUMN images.persona IS 'Persona that posts the image';
+COMMENT ON COLUMN blog_posts.persona IS 'Persona that posts the blog post';
+COMMENT ON COLUMN engagement_metrics.persona IS 'Persona whose account was engaged with';
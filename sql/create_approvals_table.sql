@@ -0,0 +1,53 @@
+-- Create approvals table: generated posts held for review before they are queued
+CREATE TABLE approvals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    content_type TEXT NOT NULL CHECK (content_type IN ('daily_tweet', 'image_caption', 'engagement_reply', 'blog_thread')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+    persona TEXT NOT NULL,
+    texts JSONB NOT NULL DEFAULT '[]',
+    generation JSONB NOT NULL DEFAULT '{}',
+    job_type TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    edited BOOLEAN NOT NULL DEFAULT FALSE,
+    regenerations INTEGER NOT NULL DEFAULT 0,
+    reviewer TEXT,
+    review_note TEXT,
+    post_job_id UUID REFERENCES post_jobs(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A post is held for review at most once at a time
+CREATE UNIQUE INDEX idx_approvals_pending_key ON approvals(idempotency_key) WHERE status = 'pending';
+
+-- Indexes for efficient queries
+CREATE INDEX idx_approvals_status_created_at ON approvals(status, created_at);
+CREATE INDEX idx_approvals_expiry ON approvals(expires_at) WHERE status = 'pending';
+
+-- Approved daily tweets are posted through the post job queue
+ALTER TABLE post_jobs DROP CONSTRAINT IF EXISTS post_jobs_type_check;
+ALTER TABLE post_jobs ADD CONSTRAINT post_jobs_type_check
+    CHECK (type IN ('blog_post', 'image_tweet', 'engagement_reply', 'daily_tweet'));
+
+-- Description of fields:
+-- id: Unique identifier for the record
+-- content_type: Kind of post (daily_tweet, image_caption, engagement_reply, blog_thread)
+-- status: pending (waiting for a reviewer), approved (queued for posting), rejected or expired
+-- persona: The persona the post belongs to
+-- texts: The post's text; one entry per tweet for a blog thread
+-- generation: Use case, prompt, provider, model and character version the text was generated with
+-- job_type: Type of the post job created on approval
+-- idempotency_key: Idempotency key of that post job
+-- payload: Payload of that post job
+-- edited: Whether a reviewer changed the generated text
+-- regenerations: Number of times a reviewer had the text generated again
+-- reviewer: Who approved or rejected the post
+-- review_note: Why the post was rejected, or a note on the approval
+-- post_job_id: The post job created on approval
+-- expires_at: Pending posts are dropped after this
+-- reviewed_at: Timestamp of the approval or rejection
+-- created_at: Timestamp when the post was held for review
+-- updated_at: Timestamp of the last change
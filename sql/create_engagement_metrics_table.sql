@@ -9,15 +9,21 @@ CREATE TABLE IF NOT EXISTS engagement_metrics (
     engagement_type TEXT NOT NULL CHECK (engagement_type IN ('like', 'repost', 'reply', 'follow', 'mention')),
     tweet_id TEXT NOT NULL,
     tweet_content TEXT,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    
-    -- Add indexes for common queries
-    INDEX idx_user_id (user_id),
-    INDEX idx_engagement_type (engagement_type),
-    INDEX idx_created_at (created_at),
-    INDEX idx_tweet_id (tweet_id)
+    conversation_id TEXT,
+    parent_tweet_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Add indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_user_id ON engagement_metrics(user_id);
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_engagement_type ON engagement_metrics(engagement_type);
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_created_at ON engagement_metrics(created_at);
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_tweet_id ON engagement_metrics(tweet_id);
+
+-- Each engagement is recorded once per (user, type, tweet)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_engagement_metrics_dedupe
+    ON engagement_metrics(user_id, engagement_type, tweet_id);
+
 -- Add a comment to the table
 COMMENT ON TABLE engagement_metrics IS 'Stores user engagement data for Marvin''s tweets';
 
@@ -28,6 +34,8 @@ COMMENT ON COLUMN engagement_metrics.username IS 'Twitter username of the engagi
 COMMENT ON COLUMN engagement_metrics.engagement_type IS 'Type of engagement (like, repost, reply, follow, mention)';
 COMMENT ON COLUMN engagement_metrics.tweet_id IS 'ID of the tweet that was engaged with';
 COMMENT ON COLUMN engagement_metrics.tweet_content IS 'Content of the tweet or reply';
+COMMENT ON COLUMN engagement_metrics.conversation_id IS 'ID of the conversation thread the engagement belongs to';
+COMMENT ON COLUMN engagement_metrics.parent_tweet_id IS 'ID of the tweet this engagement replied to, if any';
 COMMENT ON COLUMN engagement_metrics.created_at IS 'Timestamp when the engagement was recorded';
 
 -- Create a view for recurring fans (users who engage frequently)
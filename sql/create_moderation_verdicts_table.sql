@@ -0,0 +1,28 @@
+-- Create moderation_verdicts table: the outcome of each moderation check on outbound text
+CREATE TABLE moderation_verdicts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    persona TEXT NOT NULL,
+    content_type TEXT NOT NULL CHECK (content_type IN ('daily_tweet', 'image_caption', 'engagement_reply', 'blog_thread', 'blog_post', 'daily_wrapup', 'test_tweet')),
+    subject_key TEXT,
+    texts JSONB NOT NULL DEFAULT '[]',
+    allowed BOOLEAN NOT NULL,
+    issues JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for efficient queries
+CREATE INDEX idx_moderation_verdicts_created_at ON moderation_verdicts(created_at);
+CREATE INDEX idx_moderation_verdicts_blocked ON moderation_verdicts(created_at) WHERE NOT allowed;
+
+-- Posts held for review show what moderation found
+ALTER TABLE approvals ADD COLUMN IF NOT EXISTS moderation_issues JSONB NOT NULL DEFAULT '[]';
+
+-- Description of fields:
+-- id: Unique identifier for the record
+-- persona: The persona the post belongs to
+-- content_type: Kind of post (daily_tweet, image_caption, engagement_reply, blog_thread, blog_post, daily_wrapup, test_tweet)
+-- subject_key: Idempotency key of the post's job, when it has one
+-- texts: The checked text; one entry per tweet for a blog thread
+-- allowed: Whether the post could go out; blocked posts are held for review, or not posted where there is no review
+-- issues: What the rules found, as { rule, reason, tweet_index }
+-- created_at: Timestamp of the check
@@ -0,0 +1,14 @@
+-- Create poll_cursors table for resuming X searches where the last run left off
+CREATE TABLE poll_cursors (
+    account_id TEXT NOT NULL,
+    query_type TEXT NOT NULL,
+    since_id TEXT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (account_id, query_type)
+);
+
+-- Description of fields:
+-- account_id: ID of the monitored X account
+-- query_type: Kind of search ('mentions', or 'replies:<tweet id>' for replies to one tweet)
+-- since_id: ID of the newest tweet already processed; the next search asks for tweets after it
+-- updated_at: Timestamp when the cursor last moved
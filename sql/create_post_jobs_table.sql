@@ -0,0 +1,36 @@
+-- Create post_jobs table: the durable queue of outbound posts
+CREATE TABLE post_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    type TEXT NOT NULL CHECK (type IN ('blog_post', 'image_tweet', 'engagement_reply', 'daily_tweet')),
+    idempotency_key TEXT NOT NULL UNIQUE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+    payload JSONB NOT NULL DEFAULT '{}',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    result JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for efficient queries
+CREATE INDEX idx_post_jobs_due ON post_jobs(status, next_attempt_at);
+CREATE INDEX idx_post_jobs_created_at ON post_jobs(created_at);
+CREATE INDEX idx_post_jobs_running ON post_jobs(started_at) WHERE status = 'running';
+
+-- Description of fields:
+-- id: Unique identifier for the job
+-- type: Kind of post (blog_post, image_tweet, engagement_reply, daily_tweet)
+-- idempotency_key: Identifies the post (e.g. blog_post:<id>); enqueueing the same key again returns this job
+-- status: pending, running, completed, failed (out of attempts or not retryable) or cancelled
+-- payload: What the handler needs to publish the post
+-- attempts: Number of delivery attempts made so far
+-- max_attempts: Attempts allowed before the job fails
+-- next_attempt_at: Earliest time the worker may run the job again
+-- started_at: When the running attempt started; a worker claims a job by moving it from pending to running in one conditional update
+-- last_error: Error from the most recent failed attempt
+-- result: What the handler returned on success (e.g. the posted tweet ID)
+-- created_at: Timestamp when the job was enqueued
+-- updated_at: Timestamp of the last change
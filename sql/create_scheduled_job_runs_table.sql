@@ -0,0 +1,25 @@
+-- Create scheduled_job_runs table: run history of the scheduler's named jobs
+CREATE TABLE scheduled_job_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_name TEXT NOT NULL,
+    trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'catch_up', 'startup', 'manual')),
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    status TEXT NOT NULL CHECK (status IN ('running', 'succeeded', 'failed', 'skipped')),
+    error TEXT
+);
+
+-- Indexes for efficient queries
+CREATE INDEX idx_scheduled_job_runs_job_scheduled ON scheduled_job_runs(job_name, scheduled_for);
+CREATE INDEX idx_scheduled_job_runs_started_at ON scheduled_job_runs(started_at);
+
+-- Description of fields:
+-- id: Unique identifier for the run
+-- job_name: Name of the scheduled job (e.g. image_tweet, engagement_monitoring)
+-- trigger: Why the job ran: its schedule, a missed-run catch-up, startup, or a manual trigger
+-- scheduled_for: The scheduled time the run belongs to
+-- started_at: Timestamp when the run started (or was skipped)
+-- finished_at: Timestamp when the run finished
+-- status: running, succeeded, failed, or skipped (the previous run was still in progress)
+-- error: Error message of a failed run, or why a run was skipped
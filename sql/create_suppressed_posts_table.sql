@@ -0,0 +1,27 @@
+-- Create suppressed_posts table for posts that were not published because generation failed
+CREATE TABLE suppressed_posts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    content_type TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('skip', 'retry', 'review')),
+    status TEXT NOT NULL CHECK (status IN ('skipped', 'pending_retry', 'pending_review', 'resolved', 'dismissed')),
+    reason TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    payload JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for efficient queries
+CREATE INDEX idx_suppressed_posts_status ON suppressed_posts(status);
+CREATE INDEX idx_suppressed_posts_created_at ON suppressed_posts(created_at);
+
+-- Description of fields:
+-- id: Unique identifier for the suppressed post
+-- content_type: What was being generated (daily_tweet, mention_reply, engagement_quip, image_caption, wrapup)
+-- action: What the failure policy decided to do with the post (skip, retry or review)
+-- status: skipped, pending_retry, pending_review, resolved (retried successfully or handled by a reviewer) or dismissed
+-- reason: Why generation failed (the most recent failure for retried posts)
+-- attempts: Number of generation attempts made so far
+-- payload: What is needed to retry or review the post (e.g. the engagement being replied to)
+-- created_at: Timestamp when the post was first suppressed
+-- updated_at: Timestamp of the last status change
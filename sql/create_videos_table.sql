@@ -0,0 +1,29 @@
+-- Create videos table: short videos and animated GIFs generated from prompts, posted by the video_tweet job
+CREATE TABLE videos (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    prompt_id UUID REFERENCES prompts(id),
+    video_url TEXT,
+    x_posted BOOLEAN NOT NULL DEFAULT FALSE,
+    x_posted_at TIMESTAMP WITH TIME ZONE,
+    tweet_id TEXT,
+    persona TEXT NOT NULL DEFAULT 'marvin',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Index for each persona's unposted videos, oldest first
+CREATE INDEX idx_videos_unposted ON videos(persona, created_at) WHERE x_posted = FALSE;
+
+-- Video tweets are posted through the post job queue
+ALTER TABLE post_jobs DROP CONSTRAINT IF EXISTS post_jobs_type_check;
+ALTER TABLE post_jobs ADD CONSTRAINT post_jobs_type_check
+    CHECK (type IN ('blog_post', 'image_tweet', 'video_tweet', 'engagement_reply', 'daily_tweet'));
+
+-- Description of fields:
+-- id: Unique identifier for the video
+-- prompt_id: The prompt the video was generated from; its text is captioned like an image's
+-- video_url: An MP4 video (up to 512MB) or animated GIF (up to 15MB)
+-- x_posted: Whether the video has been posted to X
+-- x_posted_at: When it was posted
+-- tweet_id: The tweet it was posted in
+-- persona: The persona that posts the video
+-- created_at: Timestamp when the video was added
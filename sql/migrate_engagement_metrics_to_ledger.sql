@@ -0,0 +1,94 @@
+-- Migrate engagement_metrics from anonymous daily counters to the per-user ledger
+-- Older deployments created the table with date/likes/comments/views/platform columns
+-- and no user information. This script adds the ledger columns defined in
+-- create_engagement_metrics_table.sql and keeps the legacy rows readable.
+-- It is safe to run more than once.
+
+-- Add the ledger columns
+ALTER TABLE engagement_metrics ADD COLUMN IF NOT EXISTS user_id TEXT;
+ALTER TABLE engagement_metrics ADD COLUMN IF NOT EXISTS username TEXT;
+ALTER TABLE engagement_metrics ADD COLUMN IF NOT EXISTS engagement_type TEXT;
+ALTER TABLE engagement_metrics ADD COLUMN IF NOT EXISTS tweet_id TEXT;
+ALTER TABLE engagement_metrics ADD COLUMN IF NOT EXISTS tweet_content TEXT;
+ALTER TABLE engagement_metrics ADD COLUMN IF NOT EXISTS conversation_id TEXT;
+ALTER TABLE engagement_metrics ADD COLUMN IF NOT EXISTS parent_tweet_id TEXT;
+ALTER TABLE engagement_metrics ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Legacy counter columns are no longer written; make them optional if they exist
+DO $$
+DECLARE
+    legacy_column TEXT;
+BEGIN
+    FOREACH legacy_column IN ARRAY ARRAY['date', 'likes', 'comments', 'views', 'platform'] LOOP
+        IF EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'engagement_metrics' AND column_name = legacy_column
+        ) THEN
+            EXECUTE format('ALTER TABLE engagement_metrics ALTER COLUMN %I DROP NOT NULL', legacy_column);
+        END IF;
+    END LOOP;
+END $$;
+
+-- Legacy rows have no user or tweet, so they keep NULL ledger columns.
+-- Ledger queries filter on engagement_type, which excludes them.
+ALTER TABLE engagement_metrics DROP CONSTRAINT IF EXISTS engagement_metrics_engagement_type_check;
+ALTER TABLE engagement_metrics ADD CONSTRAINT engagement_metrics_engagement_type_check
+    CHECK (engagement_type IS NULL OR engagement_type IN ('like', 'repost', 'reply', 'follow', 'mention'));
+
+ALTER TABLE engagement_metrics DROP CONSTRAINT IF EXISTS engagement_metrics_ledger_complete;
+ALTER TABLE engagement_metrics ADD CONSTRAINT engagement_metrics_ledger_complete
+    CHECK (engagement_type IS NULL OR (user_id IS NOT NULL AND username IS NOT NULL AND tweet_id IS NOT NULL));
+
+-- Remove duplicate ledger rows before adding the unique index (keep the earliest)
+DELETE FROM engagement_metrics a
+USING engagement_metrics b
+WHERE a.engagement_type IS NOT NULL
+  AND a.user_id = b.user_id
+  AND a.engagement_type = b.engagement_type
+  AND a.tweet_id = b.tweet_id
+  AND (a.created_at, a.id::text) > (b.created_at, b.id::text);
+
+-- Indexes for ledger queries
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_user_id ON engagement_metrics(user_id);
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_engagement_type ON engagement_metrics(engagement_type);
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_created_at ON engagement_metrics(created_at);
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_tweet_id ON engagement_metrics(tweet_id);
+
+-- Each engagement is recorded once per (user, type, tweet); NULL legacy rows never conflict
+CREATE UNIQUE INDEX IF NOT EXISTS idx_engagement_metrics_dedupe
+    ON engagement_metrics(user_id, engagement_type, tweet_id);
+
+-- Views from create_engagement_metrics_table.sql, restricted to ledger rows
+CREATE OR REPLACE VIEW recurring_fans AS
+SELECT 
+    user_id,
+    username,
+    COUNT(*) as engagement_count,
+    array_agg(DISTINCT engagement_type) as engagement_types,
+    MIN(created_at) as first_engagement,
+    MAX(created_at) as last_engagement
+FROM 
+    engagement_metrics
+WHERE 
+    engagement_type IS NOT NULL
+    AND created_at >= NOW() - INTERVAL '30 days'
+GROUP BY 
+    user_id, username
+HAVING 
+    COUNT(*) >= 3
+ORDER BY 
+    COUNT(*) DESC;
+
+CREATE OR REPLACE VIEW daily_engagement_summary AS
+SELECT 
+    DATE_TRUNC('day', created_at) as day,
+    engagement_type,
+    COUNT(*) as count
+FROM 
+    engagement_metrics
+WHERE 
+    engagement_type IS NOT NULL
+GROUP BY 
+    DATE_TRUNC('day', created_at), engagement_type
+ORDER BY 
+    day DESC, count DESC;
@@ -1,235 +1,319 @@
 import { TwitterService } from '../services/twitter/TwitterService';
-import { SupabaseService } from '../services/supabase/SupabaseService';
+import { getRepositories, ApprovalRecord, BlogPostRecord, BlogPostStatus, GenerationInfo, ModerationIssue, PostJobRecord, Repositories } from '../services/repositories';
+import { PostJobOutcome, PostJobQueue } from '../services/queue/PostJobQueue';
+import { isRetryableError, retryWithBackoff } from '../services/queue/retryWithBackoff';
+import { SchedulerService } from '../services/scheduler/SchedulerService';
+import { PersonaRegistry } from '../services/persona/PersonaRegistry';
+import { graphemes, tweetLength } from '../services/twitter/TweetText';
+import { ThreadComposer, ThreadPlan } from '../services/content/ThreadComposer';
+import { BlogThreadService } from '../services/content/BlogThreadService';
+import { BlogPostLifecycleService } from '../services/content/BlogPostLifecycleService';
+import { markdownToPlainText } from '../services/content/BlogMarkdown';
+import { ApprovalHandler, ApprovalService } from '../services/approval/ApprovalService';
+import { ModerationService } from '../services/moderation/ModerationService';
 import { PostContent } from '../types';
 import { config } from '../config';
 
-/**
- * Utility for retrying operations with exponential backoff
- */
-async function retryWithBackoff<T>(
-  operation: () => Promise<T>,
-  maxRetries: number = 3,
-  initialDelay: number = 1000
-): Promise<T> {
-    let retries = 0;
-    let delay = initialDelay;
-    
-    while (true) {
-        try {
-            return await operation();
-        } catch (error: any) {
-            retries++;
-            
-            // Check if we've exceeded max retries
-            if (retries >= maxRetries) {
-                throw error;
-            }
-            
-            // Check if this is a rate limit error (Twitter API returns 429)
-            const isRateLimit = error.code === 429;
-            
-            // If it's a rate limit error, use the retry-after header if available
-            if (isRateLimit && error.response?.headers?.['retry-after']) {
-                const retryAfter = parseInt(error.response.headers['retry-after'], 10) * 1000;
-                delay = retryAfter || delay * 2;
-            } else {
-                // Otherwise use exponential backoff
-                delay *= 2;
-            }
-            
-            console.log(`Retrying operation after ${delay}ms (attempt ${retries} of ${maxRetries})`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-        }
-    }
-}
+// Statuses a blog post job may publish from; "posting" when resuming an earlier attempt
+const PUBLISHABLE_STATUSES: BlogPostStatus[] = ['ready_to_tweet', 'scheduled', 'posting'];
 
 /**
- * Scheduler for checking and posting blog posts to Twitter
+ * Scheduler for checking and posting blog posts to Twitter.
+ * Each persona posts its own blog posts from its own account.
  */
 class BlogPostScheduler {
-    private twitterService: TwitterService;
-    private supabaseService: SupabaseService;
-    private postQueue: any[] = []; // Queue for failed posts to retry later
+    private postJobQueue: PostJobQueue;
+    private lifecycle: BlogPostLifecycleService;
     
     constructor() {
-        this.twitterService = TwitterService.getInstance();
-        this.supabaseService = SupabaseService.getInstance();
+        this.postJobQueue = PostJobQueue.getInstance();
+        this.lifecycle = BlogPostLifecycleService.getInstance();
+        this.postJobQueue.registerHandler('blog_post', job => this.publishBlogPostJob(job));
+        ApprovalService.getInstance().registerHandler('blog_thread', this.threadApprovalHandler());
         console.log('Blog post scheduler initialized');
     }
     
+    // Resolved on each use so test scripts can swap in in-memory repositories
+    private get repositories(): Repositories {
+        return getRepositories();
+    }
+    
     /**
      * Start the scheduler
+     * Registers each persona's blog_post_check and scheduled_blog_posts jobs; their schedules are in config.scheduler
      */
     public start(): void {
         console.log('Starting blog post scheduler');
         
-        // Schedule blog post checks based on configuration
-        config.blogPostScheduler.scheduleDays.forEach(day => {
-            this.scheduleBlogPostCheck(
-                day, 
-                config.blogPostScheduler.scheduleHour, 
-                config.blogPostScheduler.scheduleMinute
-            );
-        });
+        const personas = PersonaRegistry.getInstance();
+        for (const persona of personas.list()) {
+            SchedulerService.getInstance().register(personas.scope('blog_post_check', persona.name), () => this.checkAndPostBlogPosts(persona.name));
+            SchedulerService.getInstance().register(personas.scope('scheduled_blog_posts', persona.name), () => this.postDueBlogPosts(persona.name));
+        }
         
-        // Process any queued posts every hour
-        this.scheduleQueueProcessing(60);
+        // Failed posts stay in the post job queue, whose worker retries them
         
         console.log('Blog post scheduler started');
     }
     
     /**
-     * Schedule blog post check on a specific day of the week
-     * @param dayOfWeek Day of the week (0-6, where 0 is Sunday)
-     * @param hour Hour of the day (0-23)
-     * @param minute Minute of the hour (0-59)
+     * Check for a persona's blog posts ready to tweet and process them
+     * @param persona The persona name
      */
-    private scheduleBlogPostCheck(dayOfWeek: number, hour: number, minute: number): void {
-        console.log(`Scheduling blog post check for day ${dayOfWeek} at ${hour}:${minute.toString().padStart(2, '0')}`);
-        
-        const calculateNextRun = () => {
-            const now = new Date();
-            const daysUntilNext = (dayOfWeek - now.getDay() + 7) % 7;
+    private async checkAndPostBlogPosts(persona: string): Promise<void> {
+        try {
+            console.log(`Checking for ${persona}'s blog posts ready to tweet`);
             
-            const nextRun = new Date(
-                now.getFullYear(),
-                now.getMonth(),
-                now.getDate() + daysUntilNext,
-                hour,
-                minute,
-                0
-            );
+            // Query for the ready blog post with the highest priority, oldest first
+            let blogPosts: BlogPostRecord[];
+            try {
+                blogPosts = await this.repositories.blogPosts.listByStatus('ready_to_tweet', persona, 10);
+            } catch (error) {
+                console.error('Error fetching blog posts:', error);
+                return;
+            }
             
-            // If the time has already passed today and it's the target day, schedule for next week
-            if (daysUntilNext === 0 && nextRun.getTime() <= now.getTime()) {
-                nextRun.setDate(nextRun.getDate() + 7);
+            // Posts whose thread is waiting for a reviewer don't take the slot
+            const approvals = ApprovalService.getInstance();
+            let post: BlogPostRecord | undefined;
+            for (const candidate of blogPosts) {
+                if (!await approvals.hasPending(`blog_post:${candidate.id}`)) {
+                    post = candidate;
+                    break;
+                }
             }
             
-            return nextRun.getTime() - now.getTime();
-        };
-        
-        // Schedule the first run
-        const timeUntilFirstRun = calculateNextRun();
-        const daysUntilFirstRun = timeUntilFirstRun / (1000 * 60 * 60 * 24);
-        console.log(`First blog post check in ${daysUntilFirstRun.toFixed(2)} days`);
-        
-        setTimeout(() => {
-            this.checkAndPostBlogPosts();
+            if (!post) {
+                console.log('No blog posts ready to tweet');
+                return;
+            }
             
-            // Schedule subsequent runs every week on the same day
-            setInterval(() => {
-                this.checkAndPostBlogPosts();
-            }, 7 * 24 * 60 * 60 * 1000);
-        }, timeUntilFirstRun);
+            console.log(`Found blog post ready to tweet: ${post.id} - ${post.title}`);
+            await this.queueBlogPost(post, persona);
+        } catch (error: any) {
+            console.error('Error in blog post check:', error);
+        }
     }
     
     /**
-     * Schedule processing of the failed posts queue
-     * @param intervalMinutes Interval in minutes
+     * Post a persona's scheduled blog posts whose time has come
+     * @param persona The persona name
      */
-    private scheduleQueueProcessing(intervalMinutes: number): void {
-        console.log(`Scheduling queue processing every ${intervalMinutes} minutes`);
-        
-        setInterval(() => {
-            this.processQueue();
-        }, intervalMinutes * 60 * 1000);
+    private async postDueBlogPosts(persona: string): Promise<void> {
+        try {
+            const due = await this.repositories.blogPosts.listDue(persona, new Date(), 10);
+            for (const post of due) {
+                console.log(`Scheduled blog post is due: ${post.id} - ${post.title} (${post.scheduled_at})`);
+                await this.queueBlogPost(post, persona);
+            }
+        } catch (error: any) {
+            console.error('Error posting scheduled blog posts:', error);
+        }
     }
     
     /**
-     * Process any posts in the retry queue
+     * Queue a blog post and make the first attempt; retryable failures stay queued
+     * @param post The blog post
+     * @param persona The persona name
      */
-    private async processQueue(): Promise<void> {
-        if (this.postQueue.length === 0) {
-            return;
-        }
+    private async queueBlogPost(post: BlogPostRecord, persona: string): Promise<void> {
+        const idempotencyKey = `blog_post:${post.id}`; // Blog post IDs are unique across personas
+        const previous = await this.repositories.postJobs.findByIdempotencyKey(idempotencyKey);
+        const payload: Record<string, any> = { blog_post_id: post.id, persona };
         
-        console.log(`Processing ${this.postQueue.length} queued posts`);
+        // A new thread is composed now, so moderation checks the tweets that will be posted. Threads moderation
+        // blocked, and every thread in review mode, wait for a reviewer; approval queues the reviewed plan.
+        if (await this.startsNewThread(post, previous)) {
+            const approvals = ApprovalService.getInstance();
+            if (await approvals.hasPending(idempotencyKey)) {
+                console.log(`The thread of blog post ${post.id} is already waiting for review`);
+                return;
+            }
+            
+            const plan = await ThreadComposer.getInstance().compose(post);
+            const moderation = await ModerationService.getInstance().moderate(plan.tweets.map(tweet => tweet.text), {
+                contentType: 'blog_thread',
+                persona,
+                subjectKey: idempotencyKey,
+                prompt: plan.generation?.prompt
+            });
+            if (!moderation.allowed || approvals.isRequired('blog_thread')) {
+                await this.submitThreadForApproval(post, persona, idempotencyKey, plan, moderation.issues);
+                return;
+            }
+            payload.thread_plan = plan;
+        }
         
-        // Take up to 5 posts from the queue to avoid rate limits
-        const postsToProcess = this.postQueue.splice(0, 5);
+        // A post put back in the queue after its last job ended gets a fresh set of attempts
+        if (previous && (previous.status === 'failed' || previous.status === 'cancelled')) {
+            await this.postJobQueue.requeue(previous.id!, payload);
+        }
         
-        for (const post of postsToProcess) {
-            try {
-                await this.processBlogPost(post);
-            } catch (error: any) {
-                console.error(`Error processing queued post ${post.id}:`, error);
-                // Put back in queue if it's a retryable error
-                if (error.code === 429 || error.code >= 500) {
-                    this.postQueue.push(post);
-                }
-            }
+        const job = await this.postJobQueue.enqueueAndRun({ type: 'blog_post', idempotencyKey, payload });
+        console.log(`Blog post ${post.id} job ${job.id} is ${job.status}`);
+    }
+    
+    /**
+     * Checks whether queueing a blog post starts a new thread.
+     * Threads already queued or part posted carry on with the tweets they have.
+     * @param post The blog post
+     * @param job The blog post's existing job, if any
+     */
+    private async startsNewThread(post: BlogPostRecord, job: PostJobRecord | null): Promise<boolean> {
+        if (!config.blogPostScheduler.postAsThread || config.blogPostScheduler.dryRun) {
+            return false;
+        }
+        if (job && (job.status === 'pending' || job.status === 'running')) {
+            return false;
         }
+        
+        const drafts = await this.repositories.tweetDrafts.listByBlogPostId(post.id);
+        return !drafts.some(draft => draft.status === 'posting');
     }
     
     /**
-     * Check for blog posts ready to tweet and process them
+     * Holds a blog post's thread for review
+     * @param post The blog post
+     * @param persona The persona name
+     * @param idempotencyKey The key of the blog post's job
+     * @param plan The composed thread
+     * @param moderationIssues Why moderation blocked the thread, if it did
      */
-    private async checkAndPostBlogPosts(): Promise<void> {
-        try {
-            console.log('Checking for blog posts ready to tweet');
-            
-            // Query for the oldest blog post with "ready_to_tweet" status
-            const { data: blogPosts, error } = await this.supabaseService.client
-                .from('blog_posts')
-                .select('*')
-                .eq('status', 'ready_to_tweet')
-                .order('created_at', { ascending: true }) // Get oldest first
-                .limit(1); // Only get one post
-                
-            if (error) {
-                console.error('Error fetching blog posts:', error);
-                return;
-            }
-            
-            if (blogPosts.length === 0) {
-                console.log('No blog posts ready to tweet');
-                return;
-            }
-            
-            const post = blogPosts[0];
-            console.log(`Found blog post ready to tweet: ${post.id} - ${post.title}`);
-            
-            // Process the single blog post
-            try {
-                await this.processBlogPost(post);
-            } catch (error: any) {
-                console.error(`Error processing blog post ${post.id}:`, error);
-                // Add to retry queue if it's a retryable error
-                if (error.code === 429 || error.code >= 500) {
-                    this.postQueue.push(post);
+    private async submitThreadForApproval(
+        post: BlogPostRecord,
+        persona: string,
+        idempotencyKey: string,
+        plan: ThreadPlan,
+        moderationIssues: ModerationIssue[]
+    ): Promise<void> {
+        const approval = await ApprovalService.getInstance().submit({
+            contentType: 'blog_thread',
+            persona,
+            texts: plan.tweets.map(tweet => tweet.text),
+            generation: this.threadGeneration(plan),
+            job: { type: 'blog_post', idempotencyKey, payload: { blog_post_id: post.id, persona, thread_plan: plan } },
+            moderationIssues
+        });
+        console.log(`The thread of blog post ${post.id} is waiting for review (${approval.id})`);
+    }
+    
+    /**
+     * How blog post threads are reviewed: edits keep the plan's tweets and images, regenerating
+     * composes the thread again, and a rejected thread sends its post back to draft
+     */
+    private threadApprovalHandler(): ApprovalHandler {
+        const applyTexts = (approval: ApprovalRecord, texts: string[]) => {
+            const plan = approval.payload.thread_plan as ThreadPlan;
+            const tweets = plan.tweets.map((tweet, index) => ({ ...tweet, text: texts[index], length: tweetLength(texts[index]) }));
+            return { ...approval.payload, thread_plan: { ...plan, tweets } };
+        };
+        
+        return {
+            applyTexts,
+            regenerate: async approval => {
+                const post = await this.repositories.blogPosts.getById(approval.payload.blog_post_id);
+                if (!post) {
+                    return { ok: false, reason: `Blog post not found: ${approval.payload.blog_post_id}` };
+                }
+                const plan = await ThreadComposer.getInstance().compose(post);
+                return {
+                    ok: true,
+                    texts: plan.tweets.map(tweet => tweet.text),
+                    payload: { ...approval.payload, thread_plan: plan },
+                    generation: this.threadGeneration(plan)
+                };
+            },
+            onDropped: async approval => {
+                // An expired thread is composed again at the post's next slot
+                if (approval.status !== 'rejected') {
+                    return;
+                }
+                const post = await this.repositories.blogPosts.getById(approval.payload.blog_post_id);
+                if (post && this.lifecycle.canTransition(post.status, 'draft')) {
+                    await this.lifecycle.transition(post.id, 'draft', {
+                        actor: approval.reviewer || 'reviewer',
+                        reason: `Thread rejected in review${approval.review_note ? `: ${approval.review_note}` : ''}`
+                    });
                 }
             }
-        } catch (error: any) {
-            console.error('Error in blog post check:', error);
+        };
+    }
+    
+    /**
+     * How a thread was generated; only a hook is generated text
+     * @param plan The thread plan
+     */
+    private threadGeneration(plan: ThreadPlan): GenerationInfo {
+        return plan.generation || { use_case: null, prompt: null, provider: null, model: null, character_version: null };
+    }
+    
+    /**
+     * Publishes the blog post behind a post job
+     * @param job The queued job
+     */
+    private async publishBlogPostJob(job: PostJobRecord): Promise<PostJobOutcome> {
+        const post = await this.repositories.blogPosts.getById(job.payload.blog_post_id);
+        if (!post) {
+            return { success: false, retryable: false, message: `Blog post not found: ${job.payload.blog_post_id}` };
+        }
+        
+        // A previous attempt may have posted it before the process stopped, or it was cancelled or sent back
+        if (!PUBLISHABLE_STATUSES.includes(post.status)) {
+            console.log(`Blog post ${post.id} is ${post.status}; nothing to publish`);
+            return { success: true, result: { skipped: post.status } };
+        }
+        
+        const outcome = await this.processBlogPost(post, job.payload.thread_plan);
+        
+        // Once the queue gives up, so does the post
+        if (!outcome.success && (!outcome.retryable || job.attempts >= job.max_attempts)) {
+            await this.lifecycle.transition(post.id, 'failed', {
+                actor: 'scheduler',
+                reason: outcome.message || `Post job ${job.id} failed`
+            });
         }
+        
+        return outcome;
     }
     
     /**
      * Process a single blog post
      * @param post The blog post to process
+     * @param approvedPlan The thread approved by a reviewer, if it was reviewed
+     * @returns The outcome of the posting attempt
      */
-    private async processBlogPost(post: any): Promise<void> {
+    private async processBlogPost(post: BlogPostRecord, approvedPlan?: ThreadPlan): Promise<PostJobOutcome> {
         console.log(`Processing blog post: ${post.id} - ${post.title}`);
         
         // Skip processing if in dry run mode
         if (config.blogPostScheduler.dryRun) {
             console.log(`[DRY RUN] Would post blog: ${post.title}`);
-            console.log(`[DRY RUN] Content preview: ${this.createExcerpt(post.markdown, 100)}...`);
+            if (config.blogPostScheduler.postAsThread) {
+                const composer = ThreadComposer.getInstance();
+                composer.logPlan(await composer.compose(post));
+            } else {
+                console.log(`[DRY RUN] Content preview: ${this.createExcerpt(post.markdown, 100)}...`);
+            }
             
             // Update status in dry run mode if configured
             if (config.blogPostScheduler.updateStatusInDryRun) {
-                await this.updateBlogPostStatus(post.id, 'posted');
+                await this.markPosting(post, 'Dry run');
+                await this.updateBlogPostStatus(post, 'posted');
             }
             
-            return;
+            return { success: true, result: { dry_run: true } };
         }
         
+        await this.markPosting(post, 'Posting to Twitter');
+        
         // Determine if we should post as a regular tweet or attempt X Article
         let postResult;
         
         if (config.blogPostScheduler.useXArticles && this.isXArticlesApiAvailable()) {
             // When X Articles API becomes available
             postResult = await this.postAsXArticle(post);
+        } else if (config.blogPostScheduler.postAsThread) {
+            postResult = await this.postAsThread(post, approvedPlan);
         } else {
             // For now, use regular tweets
             postResult = await this.postAsRegularTweet(post);
@@ -239,11 +323,11 @@ class BlogPostScheduler {
             console.log(`Successfully posted content for blog post: ${post.id}`);
             
             // Update blog post status and store tweet URL
-            await this.updateBlogPostStatus(post.id, 'posted', postResult.tweetId);
+            await this.updateBlogPostStatus(post, 'posted', postResult.tweetId);
             
             // Create tweet draft record
             await this.createTweetDraftRecord(
-                post.id, 
+                post, 
                 postResult.text, 
                 postResult.tweetId,
                 postResult.allTweetIds
@@ -256,14 +340,12 @@ class BlogPostScheduler {
                     `Successfully posted "${post.title}" to Twitter.`
                 );
             }
-        } else {
-            console.error(`Failed to post content for blog post: ${post.id}`, postResult.message);
             
-            // Add to retry queue if it's a retryable error
-            if (postResult.retryable) {
-                this.postQueue.push(post);
-            }
+            return { success: true, result: { tweet_id: postResult.tweetId, tweet_ids: postResult.allTweetIds } };
         }
+        
+        console.error(`Failed to post content for blog post: ${post.id}`, postResult.message);
+        return { success: false, retryable: postResult.retryable, message: postResult.message };
     }
     
     /**
@@ -283,14 +365,29 @@ class BlogPostScheduler {
             const tweetContent = this.generateTweetContent(post);
             
             // Check if content exceeds Premium character limit (25,000)
-            if (tweetContent.text.length > 25000) {
+            if (tweetLength(tweetContent.text) > 25000) {
                 // If exceeds limit, create a thread instead
                 return await this.postAsThread(post);
             }
             
+            // A single tweet has no review; one that moderation blocked fails its post, to be fixed and sent back
+            const moderation = await ModerationService.getInstance().moderate([tweetContent.text], {
+                contentType: 'blog_post',
+                persona: PersonaRegistry.getInstance().get(post.persona).name,
+                subjectKey: `blog_post:${post.id}`
+            });
+            if (!moderation.allowed) {
+                return {
+                    success: false,
+                    text: tweetContent.text,
+                    message: `Blocked by moderation: ${ModerationService.getInstance().describe(moderation.issues)}`,
+                    retryable: false
+                };
+            }
+            
             // Post to Twitter as a single tweet using retry utility
             const result = await retryWithBackoff(() => 
-                this.twitterService.postTweet(tweetContent)
+                TwitterService.getInstance(post.persona).postTweet(tweetContent)
             );
             
             if (result.success) {
@@ -305,7 +402,7 @@ class BlogPostScheduler {
                     success: false,
                     text: tweetContent.text,
                     message: result.message,
-                    retryable: this.isRetryableError(result.error)
+                    retryable: isRetryableError(result.error)
                 };
             }
         } catch (error: any) {
@@ -313,7 +410,7 @@ class BlogPostScheduler {
                 success: false,
                 text: '',
                 message: `Error posting tweet: ${error.message}`,
-                retryable: this.isRetryableError(error)
+                retryable: isRetryableError(error)
             };
         }
     }
@@ -321,8 +418,9 @@ class BlogPostScheduler {
     /**
      * Post blog content as a thread
      * @param post The blog post to process
+     * @param approvedPlan The thread approved by a reviewer; composed if not given
      */
-    private async postAsThread(post: any): Promise<{ 
+    private async postAsThread(post: any, approvedPlan?: ThreadPlan): Promise<{ 
         success: boolean; 
         tweetId?: string; 
         allTweetIds?: string[];
@@ -330,74 +428,16 @@ class BlogPostScheduler {
         message?: string;
         retryable?: boolean;
     }> {
-        try {
-            // Generate full content
-            const fullContent = this.generateFullContent(post);
-            
-            // Split content into chunks for threading
-            const chunks = this.splitContentForThread(fullContent);
-            
-            let previousTweetId: string | undefined;
-            let firstTweetId: string | undefined;
-            const allTweetIds: string[] = [];
-            
-            // Post each chunk as a reply to the previous tweet
-            for (let i = 0; i < chunks.length; i++) {
-                const chunk = chunks[i];
-                const threadIndicator = ` (${i+1}/${chunks.length})`;
-                const tweetText = chunk.length + threadIndicator.length <= 280 
-                    ? chunk + threadIndicator 
-                    : chunk.substring(0, 280 - threadIndicator.length) + threadIndicator;
-                
-                const tweetContent = {
-                    text: tweetText,
-                    platform: 'Twitter'
-                };
-                
-                // Post tweet with retry utility
-                const result = await retryWithBackoff(() => 
-                    this.twitterService.postTweet(
-                        tweetContent, 
-                        undefined, // No media IDs
-                        previousTweetId // Reply to previous tweet if not the first one
-                    )
-                );
-                
-                if (!result.success) {
-                    return {
-                        success: false,
-                        text: fullContent,
-                        message: `Failed to post thread part ${i+1}: ${result.message}`,
-                        retryable: this.isRetryableError(result.error)
-                    };
-                }
-                
-                // Store the tweet ID
-                allTweetIds.push(result.tweetId!);
-                
-                // Store the first tweet ID
-                if (i === 0) {
-                    firstTweetId = result.tweetId;
-                }
-                
-                // Update previous tweet ID for the next iteration
-                previousTweetId = result.tweetId;
-            }
-            
-            return {
-                success: true,
-                tweetId: firstTweetId,
-                allTweetIds: allTweetIds,
-                text: fullContent
-            };
-        } catch (error: any) {
-            return {
-                success: false,
-                text: '',
-                message: `Error posting thread: ${error.message}`,
-                retryable: this.isRetryableError(error)
-            };
-        }
+        // Resumes from the first unposted part if an earlier attempt stopped part way
+        const result = await BlogThreadService.getInstance().postThread(post, approvedPlan);
+        return {
+            success: result.success,
+            tweetId: result.tweetIds[0],
+            allTweetIds: result.tweetIds,
+            text: result.text,
+            message: result.message,
+            retryable: result.retryable
+        };
     }
     
     /**
@@ -437,15 +477,6 @@ class BlogPostScheduler {
         };
     }
     
-    /**
-     * Generate full content for a thread or long post
-     * @param post The blog post
-     */
-    private generateFullContent(post: any): string {
-        // For threads or long posts, create a more comprehensive version
-        return `${post.title}\n\n${this.markdownToPlainText(post.markdown)}\n\n${post.post_url || 'Read more on our website'}`;
-    }
-    
     /**
      * Create a short excerpt from markdown content
      * @param markdown The markdown content
@@ -453,100 +484,45 @@ class BlogPostScheduler {
      */
     private createExcerpt(markdown: string, length: number): string {
         // Convert markdown to plain text and create excerpt
-        const plainText = this.markdownToPlainText(markdown);
-        return plainText.length > length 
-            ? plainText.substring(0, length) 
-            : plainText;
+        const plainText = graphemes(markdownToPlainText(markdown));
+        return plainText.slice(0, length).join('');
     }
     
     /**
-     * Convert markdown to plain text
-     * @param markdown The markdown content
-     */
-    private markdownToPlainText(markdown: string): string {
-        // Simple markdown to plain text conversion
-        // This is a basic implementation that handles common markdown elements
-        return markdown
-            .replace(/#+\s+(.*)/g, '$1') // Remove headings
-            .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
-            .replace(/\*(.*?)\*/g, '$1') // Remove italic
-            .replace(/\[(.*?)\]\(.*?\)/g, '$1') // Remove links but keep text
-            .replace(/`(.*?)`/g, '$1') // Remove inline code
-            .replace(/```[\s\S]*?```/g, '') // Remove code blocks
-            .replace(/>\s+(.*)/g, '$1') // Remove blockquotes
-            .replace(/!\[(.*?)\]\(.*?\)/g, '[Image: $1]') // Replace images with text
-            .replace(/\n\s*\n/g, '\n\n') // Normalize multiple newlines
-            .trim();
-    }
-    
-    /**
-     * Split content into chunks for a thread
-     * @param content The content to split
+     * Move a blog post to posting, unless it is resuming an earlier attempt
+     * @param post The blog post
+     * @param reason Why it is being posted
      */
-    private splitContentForThread(content: string): string[] {
-        const maxLength = 280;
-        const chunks: string[] = [];
-        
-        let remainingText = content;
-        while (remainingText.length > 0) {
-            // Find a good breaking point (end of sentence or paragraph)
-            let breakPoint = Math.min(maxLength, remainingText.length);
-            
-            if (breakPoint < remainingText.length) {
-                // Try to break at a paragraph
-                const paragraphBreak = remainingText.lastIndexOf('\n\n', breakPoint);
-                if (paragraphBreak > maxLength / 2) {
-                    breakPoint = paragraphBreak + 2;
-                } else {
-                    // Try to break at a sentence
-                    const sentenceBreak = remainingText.lastIndexOf('. ', breakPoint);
-                    if (sentenceBreak > maxLength / 2) {
-                        breakPoint = sentenceBreak + 2;
-                    } else {
-                        // Try to break at a space
-                        const spaceBreak = remainingText.lastIndexOf(' ', breakPoint);
-                        if (spaceBreak > maxLength / 2) {
-                            breakPoint = spaceBreak + 1;
-                        }
-                    }
-                }
-            }
-            
-            chunks.push(remainingText.substring(0, breakPoint).trim());
-            remainingText = remainingText.substring(breakPoint).trim();
+    private async markPosting(post: BlogPostRecord, reason: string): Promise<void> {
+        if (post.status !== 'posting') {
+            await this.lifecycle.transition(post.id, 'posting', { actor: 'scheduler', reason });
+            post.status = 'posting';
         }
-        
-        return chunks;
     }
     
     /**
      * Update blog post status in the database
-     * @param postId The blog post ID
+     * @param post The blog post
      * @param status The new status
      * @param tweetId Optional tweet ID
      */
-    private async updateBlogPostStatus(postId: string, status: string, tweetId?: string): Promise<void> {
+    private async updateBlogPostStatus(post: BlogPostRecord, status: BlogPostStatus, tweetId?: string): Promise<void> {
+        const postId = post.id;
         try {
             // Get tweet URL if we have a tweet ID
             let postUrl = null;
             if (tweetId) {
                 // Construct the tweet URL
-                const username = await this.twitterService.getOwnUsername();
+                const username = await TwitterService.getInstance(post.persona).getOwnUsername();
                 postUrl = `https://twitter.com/${username}/status/${tweetId}`;
             }
             
             // Update the blog post status
-            const { error } = await this.supabaseService.client
-                .from('blog_posts')
-                .update({ 
-                    status: status,
-                    post_url: postUrl
-                })
-                .eq('id', postId);
-                
-            if (error) {
-                console.error(`Error updating blog post ${postId}:`, error);
-            }
+            await this.lifecycle.transition(postId, status, {
+                actor: 'scheduler',
+                reason: tweetId ? `Tweet ${tweetId}` : undefined,
+                changes: { post_url: postUrl }
+            });
         } catch (error: any) {
             console.error(`Error updating blog post ${postId}:`, error);
         }
@@ -554,13 +530,13 @@ class BlogPostScheduler {
     
     /**
      * Create a tweet draft record in the database
-     * @param blogPostId The blog post ID
+     * @param post The blog post
      * @param text The tweet text
      * @param tweetId Optional tweet ID
      * @param allTweetIds Optional array of all tweet IDs (for threads)
      */
     private async createTweetDraftRecord(
-        blogPostId: string, 
+        post: BlogPostRecord, 
         text: string, 
         tweetId?: string,
         allTweetIds?: string[]
@@ -569,25 +545,32 @@ class BlogPostScheduler {
             // Construct the tweet URL if we have a tweet ID
             let postUrl = null;
             if (tweetId) {
-                const username = await this.twitterService.getOwnUsername();
+                const username = await TwitterService.getInstance(post.persona).getOwnUsername();
                 postUrl = `https://twitter.com/${username}/status/${tweetId}`;
             }
             
-            // Create a record in the tweet_drafts table
-            const { error } = await this.supabaseService.client
-                .from('tweet_drafts')
-                .insert({
-                    blog_post_id: blogPostId,
+            // A thread keeps its progress in a "posting" draft, which now becomes the record
+            const drafts = await this.repositories.tweetDrafts.listByBlogPostId(post.id);
+            const threadDraft = drafts.find(draft => draft.status === 'posting');
+            if (threadDraft) {
+                await this.repositories.tweetDrafts.update(threadDraft.id!, {
                     text: text,
                     post_url: postUrl,
                     status: 'posted',
-                    // Store all tweet IDs as metadata (if available)
-                    metadata: allTweetIds ? { tweet_ids: allTweetIds } : null
+                    metadata: { ...threadDraft.metadata, tweet_ids: allTweetIds || [] }
                 });
-                
-            if (error) {
-                console.error(`Error creating tweet draft record:`, error);
+                return;
             }
+            
+            // Create a record in the tweet_drafts table
+            await this.repositories.tweetDrafts.insert({
+                blog_post_id: post.id,
+                text: text,
+                post_url: postUrl,
+                status: 'posted',
+                // Store all tweet IDs as metadata (if available)
+                metadata: allTweetIds ? { tweet_ids: allTweetIds } : null
+            });
         } catch (error: any) {
             console.error(`Error creating tweet draft record:`, error);
         }
@@ -602,15 +585,6 @@ class BlogPostScheduler {
         return false;
     }
     
-    /**
-     * Check if an error is retryable
-     * @param error The error to check
-     */
-    private isRetryableError(error: any): boolean {
-        // Rate limit errors and server errors are retryable
-        return error && (error.code === 429 || error.code >= 500);
-    }
-    
     /**
      * Send a notification
      * @param title The notification title
@@ -0,0 +1,90 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { CharacterService } from '../services/character/CharacterService';
+import { CharacterValidationError, normalizeCharacterFile } from '../services/character/CharacterSchema';
+
+dotenv.config();
+
+const USAGE = `Usage:
+  npm run character -- validate <file>
+  npm run character -- import <file> [--inactive]
+  npm run character -- export <agent> [--version <n>] [--out <file>]`;
+
+/**
+ * Validates, imports and exports character files.
+ *
+ * - validate: checks a character file against the schema and prints every offending field
+ * - import: stores a character file as the next version of its character (active unless --inactive)
+ * - export: writes a version of a character (the active one by default) as a character file
+ *
+ * Uses the storage backend from STORAGE_BACKEND, like the bot.
+ */
+async function runCharacterCli(args: string[]): Promise<number> {
+    const [command, target] = args;
+    const option = (name: string) => {
+        const index = args.indexOf(name);
+        return index >= 0 ? args[index + 1] : undefined;
+    };
+
+    if (!command || !target) {
+        console.log(USAGE);
+        return 1;
+    }
+
+    switch (command) {
+        case 'validate': {
+            const character = normalizeCharacterFile(readJson(target));
+            console.log(`${target} is a valid character file for agent ${character.agent_name}`);
+            return 0;
+        }
+        case 'import': {
+            const character = await CharacterService.getInstance().importCharacter(readJson(target), !args.includes('--inactive'));
+            console.log(`Stored ${character.agent_name} version ${character.version}${character.is_active ? ' (active)' : ''}`);
+            return 0;
+        }
+        case 'export': {
+            const versionOption = option('--version');
+            const version = versionOption !== undefined ? parseInt(versionOption, 10) : undefined;
+            if (version !== undefined && isNaN(version)) {
+                console.log(USAGE);
+                return 1;
+            }
+
+            const json = JSON.stringify(await CharacterService.getInstance().exportCharacter(target, version), null, 2);
+            const out = option('--out');
+            if (out) {
+                fs.writeFileSync(out, `${json}\n`);
+                console.log(`Wrote ${target} to ${out}`);
+            } else {
+                console.log(json);
+            }
+            return 0;
+        }
+        default:
+            console.log(USAGE);
+            return 1;
+    }
+}
+
+/**
+ * Reads and parses a JSON file
+ * @param file The file path
+ */
+function readJson(file: string): unknown {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Could not read ${file}: ${error?.message || error}`);
+    }
+}
+
+runCharacterCli(process.argv.slice(2)).then(code => {
+    process.exit(code);
+}).catch(error => {
+    if (error instanceof CharacterValidationError) {
+        console.error(error.message);
+    } else {
+        console.error('Character command failed:', error);
+    }
+    process.exit(1);
+});
@@ -1,146 +1,92 @@
 import { TwitterService } from '../services/twitter/TwitterService';
 import { EngagementService } from '../services/engagement/EngagementService';
+import { SchedulerService } from '../services/scheduler/SchedulerService';
+import { PersonaRegistry } from '../services/persona/PersonaRegistry';
+import { ModerationService } from '../services/moderation/ModerationService';
 import { PostContent } from '../types';
 
 /**
  * Scheduler for engagement monitoring and daily wrap-up
- * This script sets up scheduled tasks for engagement features
+ * This script sets up scheduled tasks for engagement features, for each persona
  */
 class EngagementScheduler {
-    private twitterService: TwitterService;
-    private engagementService: EngagementService;
-    
     constructor() {
-        this.twitterService = TwitterService.getInstance();
-        this.engagementService = EngagementService.getInstance();
-        
         console.log('Engagement scheduler initialized');
     }
     
     /**
      * Start the scheduler
+     * Registers each persona's engagement_monitoring and daily_wrapup jobs; their schedules are in config.scheduler
      */
     public start(): void {
         console.log('Starting engagement scheduler');
         
-        // Schedule engagement monitoring every 10 minutes
-        this.scheduleEngagementMonitoring(10);
-        
-        // Schedule daily wrap-up at 9:00 PM
-        // this.scheduleDailyWrapup(21, 0);  // Commented out to stop the 9 PM Grok posts
+        const scheduler = SchedulerService.getInstance();
+        const personas = PersonaRegistry.getInstance();
+        for (const persona of personas.list()) {
+            scheduler.register(personas.scope('engagement_monitoring', persona.name), () => this.monitorEngagements(persona.name));
+            scheduler.register(personas.scope('daily_wrapup', persona.name), () => this.generateAndPostDailyWrapup(persona.name));
+        }
         
         console.log('Engagement scheduler started');
     }
     
     /**
-     * Schedule engagement monitoring at regular intervals
-     * @param intervalMinutes Interval in minutes
+     * Monitor engagements from Twitter
+     * @param persona The persona whose account is monitored
      */
-    private scheduleEngagementMonitoring(intervalMinutes: number): void {
-        console.log(`Scheduling engagement monitoring every ${intervalMinutes} minutes`);
+    private async monitorEngagements(persona: string): Promise<void> {
+        console.log(`Running scheduled engagement monitoring for ${persona}`);
+        
+        // Get recent tweets from our account
+        // For now, we'll just monitor mentions
+        await TwitterService.getInstance(persona).monitorEngagements();
         
-        // Run immediately
-        this.monitorEngagements();
+        // Retry replies that were suppressed on earlier runs
+        await EngagementService.getInstance(persona).retrySuppressedReplies();
         
-        // Schedule for future runs
-        setInterval(() => {
-            this.monitorEngagements();
-        }, intervalMinutes * 60 * 1000);
+        console.log('Engagement monitoring completed');
     }
     
     /**
-     * Schedule daily wrap-up at a specific time
-     * @param hour Hour of the day (0-23)
-     * @param minute Minute of the hour (0-59)
+     * Generate and post daily wrap-up
+     * @param persona The persona posting the wrap-up
      */
-    private scheduleDailyWrapup(hour: number, minute: number): void {
-        console.log(`Scheduling daily wrap-up at ${hour}:${minute.toString().padStart(2, '0')}`);
+    private async generateAndPostDailyWrapup(persona: string): Promise<void> {
+        console.log(`Generating daily engagement wrap-up for ${persona}`);
         
-        const calculateNextRun = () => {
-            const now = new Date();
-            const nextRun = new Date(
-                now.getFullYear(),
-                now.getMonth(),
-                now.getDate(),
-                hour,
-                minute,
-                0
-            );
-            
-            // If the time has already passed today, schedule for tomorrow
-            if (nextRun.getTime() <= now.getTime()) {
-                nextRun.setDate(nextRun.getDate() + 1);
-            }
-            
-            return nextRun.getTime() - now.getTime();
-        };
+        // Generate the wrap-up
+        const wrapup = await EngagementService.getInstance(persona).generateDailyWrapup();
         
-        // Schedule the first run
-        const timeUntilFirstRun = calculateNextRun();
-        console.log(`First daily wrap-up in ${Math.round(timeUntilFirstRun / (60 * 1000))} minutes`);
+        // Only post if there's something interesting to say
+        if (!wrapup.ok) {
+            console.log(`Skipping wrap-up post: ${wrapup.reason}`);
+            return;
+        }
         
-        setTimeout(() => {
-            this.generateAndPostDailyWrapup();
-            
-            // Schedule subsequent runs every 24 hours
-            setInterval(() => {
-                this.generateAndPostDailyWrapup();
-            }, 24 * 60 * 60 * 1000);
-        }, timeUntilFirstRun);
-    }
-    
-    /**
-     * Monitor engagements from Twitter
-     */
-    private async monitorEngagements(): Promise<void> {
-        try {
-            console.log('Running scheduled engagement monitoring');
-            
-            // Get recent tweets from our account
-            // For now, we'll just monitor mentions
-            await this.twitterService.monitorEngagements();
-            
-            console.log('Engagement monitoring completed');
-        } catch (error) {
-            console.error('Error in scheduled engagement monitoring:', error);
+        // The wrap-up has no review; one that moderation blocked is not posted
+        const moderation = await ModerationService.getInstance().moderate([wrapup.text], { contentType: 'daily_wrapup', persona });
+        if (!moderation.allowed) {
+            console.log('Skipping wrap-up post: blocked by moderation');
+            return;
         }
-    }
-    
-    /**
-     * Generate and post daily wrap-up
-     */
-    private async generateAndPostDailyWrapup(): Promise<void> {
-        try {
-            console.log('Generating daily engagement wrap-up');
-            
-            // Generate the wrap-up
-            const wrapupText = await this.engagementService.generateDailyWrapup();
-            
-            // Only post if there's something interesting to say
-            if (wrapupText && !wrapupText.includes('No engagements today')) {
-                console.log('Posting daily wrap-up:', wrapupText);
-                
-                // Create the tweet content
-                const tweetContent: PostContent = {
-                    text: wrapupText,
-                    hashtags: ['MarvinDigitalDebrief', 'AILife'],
-                    platform: 'Twitter'
-                };
-                
-                // Post the tweet
-                const result = await this.twitterService.postTweet(tweetContent);
-                
-                if (result.success) {
-                    console.log('Daily wrap-up posted successfully');
-                } else {
-                    console.error('Failed to post daily wrap-up:', result.message);
-                }
-            } else {
-                console.log('No significant engagements today, skipping wrap-up post');
-            }
-        } catch (error) {
-            console.error('Error in daily wrap-up:', error);
+        
+        console.log('Posting daily wrap-up:', wrapup.text);
+        
+        // Create the tweet content
+        const tweetContent: PostContent = {
+            text: wrapup.text,
+            hashtags: ['MarvinDigitalDebrief', 'AILife'],
+            platform: 'Twitter'
+        };
+        
+        // Post the tweet
+        const result = await TwitterService.getInstance(persona).postTweet(tweetContent);
+        if (!result.success) {
+            throw new Error(`Failed to post daily wrap-up: ${result.message}`);
         }
+        
+        console.log('Daily wrap-up posted successfully');
     }
 }
 
@@ -0,0 +1,98 @@
+import { LLMService } from '../../services/llm/LLMService';
+import { LLMProvider, LLMProviderName, LLMRequest, LLMUseCase } from '../../services/llm/LLMProvider';
+import { MockXApiServer, MockXApiServerOptions } from '../../services/twitter/MockXApiServer';
+import { HttpTwitterClient } from '../../services/twitter/HttpTwitterClient';
+import { TwitterService } from '../../services/twitter/TwitterService';
+import { createInMemoryRepositories, InMemorySeed, Repositories, setRepositories } from '../../services/repositories';
+import { CharacterData } from '../../services/supabase/SupabaseService';
+
+/**
+ * Shared setup for the test scripts: a stored character, in-memory repositories,
+ * a stub LLM provider and the local mock X API server.
+ */
+
+/**
+ * Fields of a test character to change; content fields are merged into the default content
+ */
+export type TestCharacterOverrides = Partial<Omit<CharacterData, 'content'>> & { content?: Partial<CharacterData['content']> };
+
+/**
+ * A mock X API server and the client the persona's TwitterService talks to it with
+ */
+export interface MockX {
+    server: MockXApiServer;
+    baseUrl: string;
+    client: HttpTwitterClient;
+}
+
+/**
+ * Builds a character_files row: Marvin, active version 1, unless overridden
+ * @param overrides Fields to change
+ */
+export function testCharacter(overrides: TestCharacterOverrides = {}): CharacterData {
+    const { content, ...fields } = overrides;
+    const agentName = fields.agent_name || 'marvin';
+    const version = fields.version || 1;
+    return {
+        id: `${agentName}-v${version}`,
+        agent_name: agentName,
+        display_name: 'Marvin',
+        version,
+        is_active: true,
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+        ...fields,
+        content: {
+            bio: ['Marvin paints walls.'],
+            lore: [],
+            style: { all: [], chat: [], post: [] },
+            topics: ['street art'],
+            adjectives: [],
+            ...content
+        }
+    };
+}
+
+/**
+ * Creates in-memory repositories and makes them the ones services use
+ * @param seed Initial rows; character_files defaults to testCharacter()
+ */
+export function useInMemoryRepositories(seed: Partial<InMemorySeed> = {}): Repositories {
+    const repositories = createInMemoryRepositories({ character_files: [testCharacter()], ...seed });
+    setRepositories(repositories);
+    return repositories;
+}
+
+/**
+ * Registers a stub LLM provider and makes it the only step of the given use cases' chains
+ * @param generate Answers each request
+ * @param useCases The use cases that generate through it
+ * @param name The provider it stands in for
+ * @returns The provider
+ */
+export function useStubProvider(
+    generate: (request: LLMRequest) => Promise<string>,
+    useCases: LLMUseCase[],
+    name: LLMProviderName = 'anthropic'
+): LLMProvider {
+    const provider: LLMProvider = { name, isConfigured: () => true, generate };
+    const llmService = LLMService.getInstance();
+    llmService.registerProvider(provider);
+    for (const useCase of useCases) {
+        llmService.setChain(useCase, [{ provider: name }]);
+    }
+    return provider;
+}
+
+/**
+ * Starts a mock X API server and points a persona's TwitterService at it. Stop it with server.stop().
+ * @param options The server options
+ * @param persona The persona; the default persona if not given
+ */
+export async function startMockX(options: MockXApiServerOptions = {}, persona?: string): Promise<MockX> {
+    const server = new MockXApiServer(options);
+    const baseUrl = await server.start();
+    const client = new HttpTwitterClient(baseUrl);
+    TwitterService.getInstance(persona).setClient(client);
+    return { server, baseUrl, client };
+}
@@ -1,6 +1,13 @@
 import { TwitterService } from '../services/twitter/TwitterService';
 import { ContentGenerator } from '../services/content/ContentGenerator';
 import { ImageTweetService } from '../services/content/ImageTweetService';
+import { VideoTweetService } from '../services/content/VideoTweetService';
+import { ImageClaimService } from '../services/content/ImageClaimService';
+import { EngagementService } from '../services/engagement/EngagementService';
+import { PersonaRegistry } from '../services/persona/PersonaRegistry';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { ApprovalService } from '../services/approval/ApprovalService';
+import { SchedulerService } from '../services/scheduler/SchedulerService';
 import { startWebServer } from './web-server';
 import { engagementScheduler } from './engagement-scheduler';
 import { config } from '../config';
@@ -32,10 +39,10 @@ async function generateAndPostTweet() {
         try {
             // Generate content using Marvin's character
             console.log('Generating tweet content...');
-            const tweetContent = await contentGenerator.generateTweet(category);
+            const tweet = await contentGenerator.draftTweet(category);
             
             // Format the content for Twitter
-            const formattedContent = twitterService.formatContent(tweetContent);
+            const formattedContent = twitterService.formatContent(tweet.content);
             
             console.log('\n--- Generated Tweet Content ---');
             console.log(formattedContent.text);
@@ -44,6 +51,15 @@ async function generateAndPostTweet() {
             }
             console.log('-------------------------------\n');
             
+            // Tweets moderation blocked, and every tweet in review mode, wait for a reviewer;
+            // approved tweets are posted by the post job queue
+            const moderation = await contentGenerator.moderate({ ...tweet, content: formattedContent });
+            if (!moderation.allowed || ApprovalService.getInstance().isRequired('daily_tweet')) {
+                const approval = await contentGenerator.submitForApproval({ ...tweet, content: formattedContent }, moderation.issues);
+                console.log(`Tweet is waiting for review (${approval.id})`);
+                return true;
+            }
+            
             // Try to post the tweet
             console.log('Attempting to post to Twitter...');
             const postResult = await twitterService.postTweet(formattedContent);
@@ -73,47 +89,36 @@ async function generateAndPostTweet() {
     }
 }
 
-// Function to calculate milliseconds until next scheduled time
-function getMillisecondsUntilTime(hour: number, minute: number = 0): number {
-    const now = new Date();
-    const targetTime = new Date(now);
+// Function to post a persona's scheduled image tweet
+async function postScheduledImageTweet(persona: string) {
+    console.log(`It's time to post a scheduled image tweet for ${persona}!`);
     
-    targetTime.setHours(hour, minute, 0, 0);
-    
-    // If the target time has already passed today, schedule for tomorrow
-    if (now > targetTime) {
-        targetTime.setDate(targetTime.getDate() + 1);
+    const imageTweetService = ImageTweetService.getInstance(persona);
+    const posted = await imageTweetService.generateAndPostImageTweet();
+    if (!posted) {
+        throw new Error('Scheduled image tweet was not posted');
     }
-    
-    return targetTime.getTime() - now.getTime();
 }
 
-// Function to schedule the next tweet (only 1:00 PM image tweet)
-function scheduleNextTweet() {
-    const afternoonHour = 13; // 1:00 PM
+// Function to post a persona's scheduled video tweet
+async function postScheduledVideoTweet(persona: string) {
+    console.log(`It's time to post a scheduled video tweet for ${persona}!`);
     
-    const msUntilNextTweet = getMillisecondsUntilTime(afternoonHour);
-    const hoursUntilNextTweet = Math.floor(msUntilNextTweet / (1000 * 60 * 60));
-    const minutesUntilNextTweet = Math.floor((msUntilNextTweet % (1000 * 60 * 60)) / (1000 * 60));
-    
-    console.log(`Next image tweet scheduled in ${hoursUntilNextTweet} hours and ${minutesUntilNextTweet} minutes at ${afternoonHour}:00`);
-    
-    return setTimeout(async () => {
-        console.log(`It's time to post a scheduled image tweet!`);
-        
-        // Post an image tweet
-        const imageTweetService = ImageTweetService.getInstance();
-        await imageTweetService.generateAndPostImageTweet();
-        
-        // Schedule the next tweet after this one completes
-        scheduleNextTweet();
-    }, msUntilNextTweet);
+    const videoTweetService = VideoTweetService.getInstance(persona);
+    const posted = await videoTweetService.generateAndPostVideoTweet();
+    if (!posted) {
+        throw new Error('Scheduled video tweet was not posted');
+    }
 }
 
 // Main function to start the application
 async function main() {
     console.log('Starting Marvin AI Agent with scheduled posting...');
-    console.log('Image tweets will be posted daily at 1:00 PM');
+    const personas = PersonaRegistry.getInstance();
+    for (const persona of personas.list()) {
+        const imageTweetSchedule = config.scheduler.jobs[personas.scope('image_tweet', persona.name)];
+        console.log(`Persona ${persona.name} (character ${persona.agentName}): image tweets are scheduled at "${imageTweetSchedule.cron}" (${imageTweetSchedule.timezone})`);
+    }
     
     // Start the web server
     startWebServer();
@@ -130,8 +135,27 @@ async function main() {
         console.log('Blog post scheduler activated');
     }
     
-    // Schedule the first tweet
-    scheduleNextTweet();
+    // Start the post job worker once every service has registered its handler
+    ContentGenerator.getInstance();
+    ImageTweetService.getInstance();
+    VideoTweetService.getInstance();
+    EngagementService.getInstance();
+    PostJobQueue.getInstance().start();
+    console.log('Post job queue worker activated');
+    
+    // Drop posts that waited for review past their expiry
+    ApprovalService.getInstance().start();
+    
+    // Mark images posted but never marked, and recover image claims of workers that stopped
+    ImageClaimService.getInstance().start();
+    
+    // Schedule each persona's daily image tweet and video tweet, then start every scheduled job
+    const scheduler = SchedulerService.getInstance();
+    for (const persona of personas.list()) {
+        scheduler.register(personas.scope('image_tweet', persona.name), () => postScheduledImageTweet(persona.name));
+        scheduler.register(personas.scope('video_tweet', persona.name), () => postScheduledVideoTweet(persona.name));
+    }
+    scheduler.start().catch(error => console.error('Error starting scheduler:', error));
     
     // Keep the process running
     process.on('SIGINT', () => {
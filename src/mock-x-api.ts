@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { MockXApiServer, MockXApiFixture } from '../services/twitter/MockXApiServer';
+
+dotenv.config();
+
+/**
+ * Runs the mock X API server on its own.
+ * Point the bot at it with TWITTER_API_BASE_URL=http://127.0.0.1:<port>
+ *
+ * Environment:
+ * - MOCK_X_API_PORT: port to listen on (default 4010)
+ * - MOCK_X_API_FIXTURE: JSON fixture with users, tweets, likes and retweets to preload
+ * - MOCK_X_API_RECORD: file the posted tweets are written to after every post
+ */
+async function runMockXApi() {
+    const port = parseInt(process.env.MOCK_X_API_PORT || '4010', 10);
+
+    let fixture: MockXApiFixture | undefined;
+    if (process.env.MOCK_X_API_FIXTURE) {
+        console.log(`Loading fixture from: ${process.env.MOCK_X_API_FIXTURE}`);
+        fixture = JSON.parse(fs.readFileSync(process.env.MOCK_X_API_FIXTURE, 'utf8'));
+    }
+
+    const server = new MockXApiServer({
+        fixture,
+        recordFile: process.env.MOCK_X_API_RECORD
+    });
+    await server.start(port);
+
+    process.on('SIGINT', async () => {
+        console.log('Stopping mock X API...');
+        await server.stop();
+        process.exit(0);
+    });
+}
+
+runMockXApi().catch(error => {
+    console.error('Fatal error in mock X API:', error);
+    process.exit(1);
+});
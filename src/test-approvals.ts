@@ -0,0 +1,176 @@
+import assert from 'assert';
+import { TwitterService } from '../services/twitter/TwitterService';
+import { ApprovalService } from '../services/approval/ApprovalService';
+import { ContentGenerator } from '../services/content/ContentGenerator';
+import { ImageTweetService } from '../services/content/ImageTweetService';
+import { EngagementService } from '../services/engagement/EngagementService';
+import { BlogPostLifecycleService } from '../services/content/BlogPostLifecycleService';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { ApprovalContentType, BlogPostRecord } from '../services/repositories';
+import { blogPostScheduler } from './blog-post-scheduler';
+import { startMockX, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+import { config } from '../config';
+
+/**
+ * Test script for the review queue
+ * Holds generated daily tweets, image captions, replies and blog threads for review, then
+ * edits, regenerates, approves, rejects and expires them, against in-memory storage and
+ * the local mock X API server
+ */
+async function testApprovals() {
+    const { server, baseUrl } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+
+    try {
+        const post = (id: string): BlogPostRecord => ({
+            id,
+            title: `Walls ${id}`,
+            markdown: ['## First', 'One. '.repeat(40).trim(), '## Second', 'Two. '.repeat(40).trim()].join('\n\n'),
+            status: 'ready_to_tweet',
+            post_url: `https://example.com/blog/${id}`,
+            created_at: `2025-01-0${id.slice(1)}T00:00:00Z`
+        });
+        const repositories = useInMemoryRepositories({
+            prompts: [{ id: 'p1', text: 'A neon alley wall covered in glitch graffiti' }],
+            images: [{ id: 'i1', prompt_id: 'p1', image_url: `${baseUrl}/__mock/assets/wall.png`, alt_text: 'A painted wall', x_posted: false, created_at: '2025-01-01T00:00:00Z' }],
+            blog_posts: [post('b1'), post('b2')]
+        });
+
+        // Every generation gets a new take, so regenerated text can be told apart
+        let takes = 0;
+        useStubProvider(async () => `Take ${++takes} on the wall`, ['daily_tweet', 'image_caption', 'mention_reply']);
+
+        config.approval.required = { daily_tweet: true, image_caption: true, engagement_reply: true, blog_thread: true };
+        config.blogPostScheduler.postAsThread = true;
+        config.blogPostScheduler.threadHook = false;
+
+        const approvals = ApprovalService.getInstance();
+        const queue = PostJobQueue.getInstance();
+        const pending = (contentType: ApprovalContentType) => approvals.list({ status: 'pending', content_type: contentType });
+        const postedTexts = () => server.getPostedTweets().map(tweet => tweet.text);
+
+        console.log('\n--- Test 1: A generated tweet waits for review with how it was generated ---');
+        const generator = ContentGenerator.getInstance();
+        const tweet = await generator.draftTweet('Field Notes');
+        const daily = await generator.submitForApproval({ ...tweet, content: TwitterService.getInstance().formatContent(tweet.content) });
+        assert.strictEqual(daily.status, 'pending');
+        assert.deepStrictEqual(daily.texts, ['Take 1 on the wall']);
+        assert.strictEqual(daily.generation.provider, 'anthropic');
+        assert.strictEqual(daily.generation.model, config.llm.models.anthropic);
+        assert.strictEqual(daily.generation.character_version, 1);
+        assert.ok(daily.generation.prompt!.messages[0].content.includes('Field Notes'));
+        assert.deepStrictEqual(await approvals.getDepths(), { pending: 1 });
+        assert.deepStrictEqual(postedTexts(), []);
+        console.log('Daily tweet held for review; nothing posted');
+
+        console.log('\n--- Test 2: Edits are checked, and approved posts go out through the queue ---');
+        await assert.rejects(approvals.edit(daily.id!, ['x'.repeat(281)], 'admin'), /too long/);
+        await assert.rejects(approvals.edit(daily.id!, ['One', 'Two'], 'admin'), /has 1 tweet/);
+        const edited = await approvals.edit(daily.id!, ['Walls remember what we forget.'], 'admin');
+        assert.strictEqual(edited.edited, true);
+        assert.strictEqual(edited.payload.content.text, 'Walls remember what we forget.');
+
+        const job = await approvals.approve(daily.id!, 'admin');
+        assert.strictEqual(job.type, 'daily_tweet');
+        assert.strictEqual(job.status, 'pending');
+        assert.deepStrictEqual(postedTexts(), []);
+        await queue.processDue();
+        assert.deepStrictEqual(postedTexts(), ['Walls remember what we forget.']);
+        assert.strictEqual((await approvals.getById(daily.id!))!.post_job_id, job.id);
+        await assert.rejects(approvals.approve(daily.id!, 'admin'), /is approved, not waiting for review/);
+        console.log('Edited tweet posted by the queue worker once approved');
+
+        console.log('\n--- Test 3: Regenerating an image caption sends the stored prompt again ---');
+        const imageTweets = ImageTweetService.getInstance();
+        assert.strictEqual(await imageTweets.generateAndPostImageTweet(), true);
+        const [caption] = await pending('image_caption');
+        assert.deepStrictEqual(caption.texts, ['Take 2 on the wall']);
+        assert.ok(caption.generation.prompt!.messages[0].content.includes('neon alley wall'));
+
+        // An image waiting for review is not captioned again
+        assert.strictEqual(await imageTweets.generateAndPostImageTweet(), false);
+        assert.strictEqual((await pending('image_caption')).length, 1);
+
+        const regenerated = await approvals.regenerate(caption.id!, 'admin');
+        assert.deepStrictEqual(regenerated.texts, ['Take 3 on the wall']);
+        assert.strictEqual(regenerated.payload.content.text, 'Take 3 on the wall');
+        assert.strictEqual(regenerated.regenerations, 1);
+        await approvals.approve(caption.id!, 'admin');
+        await queue.processDue();
+        assert.strictEqual(postedTexts()[1], 'Take 3 on the wall');
+        assert.strictEqual((await repositories.images.getById('i1'))!.x_posted, true);
+        console.log('Regenerated caption posted with its image');
+
+        console.log('\n--- Test 4: A rejected reply is never sent and the tweet is declined ---');
+        const mention = server.addTweet({ id: '2001', username: 'wall_watcher' }, '@marvin_mock what does the wall remember?');
+        const engagement = {
+            user_id: '2001',
+            username: 'wall_watcher',
+            engagement_type: 'mention' as const,
+            tweet_id: mention.id,
+            tweet_content: mention.text
+        };
+        await EngagementService.getInstance().logEngagement(engagement);
+        const [reply] = await pending('engagement_reply');
+        assert.strictEqual(reply.generation.use_case, 'mention_reply');
+        assert.strictEqual(reply.payload.text, 'Take 4 on the wall');
+
+        await approvals.reject(reply.id!, 'admin', 'Off topic');
+        const rejected = (await approvals.getById(reply.id!))!;
+        assert.strictEqual(rejected.status, 'rejected');
+        assert.strictEqual(rejected.review_note, 'Off topic');
+        const conversation = await repositories.conversations.findByTweetId(mention.id, 'marvin');
+        assert.strictEqual(conversation!.declined_reason, 'Reply rejected in review');
+        assert.strictEqual(server.getPostedTweets().length, 2);
+        console.log('Reply rejected; the mention is recorded as declined');
+
+        console.log('\n--- Test 5: Blog threads are reviewed as a whole before they are queued ---');
+        const scheduler = blogPostScheduler as any;
+        await scheduler.checkAndPostBlogPosts('marvin');
+        const [thread] = await pending('blog_thread');
+        assert.strictEqual(thread.payload.blog_post_id, 'b1');
+        assert.ok(thread.texts.length >= 3);
+        assert.strictEqual(await repositories.postJobs.findByIdempotencyKey('blog_post:b1'), null);
+
+        // The next slot goes to the next post while b1 waits
+        await scheduler.checkAndPostBlogPosts('marvin');
+        const threads = await pending('blog_thread');
+        assert.deepStrictEqual(threads.map(t => t.payload.blog_post_id).sort(), ['b1', 'b2']);
+
+        const texts = [...thread.texts];
+        texts[0] = `Walls b1: a thread (1/${texts.length})`;
+        await approvals.edit(thread.id!, texts, 'admin');
+        await approvals.approve(thread.id!, 'admin');
+        await queue.processDue();
+        assert.strictEqual((await repositories.blogPosts.getById('b1'))!.status, 'posted');
+        assert.deepStrictEqual(postedTexts().slice(2), texts);
+
+        const other = threads.find(t => t.payload.blog_post_id === 'b2')!;
+        await approvals.reject(other.id!, 'admin', 'Needs another pass');
+        assert.strictEqual((await repositories.blogPosts.getById('b2'))!.status, 'draft');
+        const [transition] = await BlogPostLifecycleService.getInstance().getHistory('b2');
+        assert.strictEqual(transition.actor, 'admin');
+        assert.strictEqual(transition.reason, 'Thread rejected in review: Needs another pass');
+        console.log(`b1 posted as the edited ${texts.length}-tweet thread; b2 sent back to draft`);
+
+        console.log('\n--- Test 6: Posts nobody reviews expire ---');
+        const stale = await generator.submitForApproval(await generator.draftTweet('News'));
+        assert.strictEqual(await approvals.expireStale(new Date()), 0);
+        assert.strictEqual(await approvals.expireStale(new Date(Date.now() + (config.approval.expiryHours + 1) * 60 * 60 * 1000)), 1);
+        assert.strictEqual((await approvals.getById(stale.id!))!.status, 'expired');
+        await assert.rejects(approvals.approve(stale.id!, 'admin'), /is expired/);
+        assert.deepStrictEqual(await approvals.getDepths(), { pending: 0 });
+        console.log('Stale tweet dropped after its expiry');
+
+        console.log('\nApproval tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testApprovals().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Approval test failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,129 @@
+import assert from 'assert';
+import { BlogPostLifecycleService } from '../services/content/BlogPostLifecycleService';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { BlogPostRecord, BlogPostStatus } from '../services/repositories';
+import { blogPostScheduler } from './blog-post-scheduler';
+import { config } from '../config';
+import { startMockX, useInMemoryRepositories } from './fixtures/testHarness';
+
+/**
+ * Test script for the blog post lifecycle
+ * Moves blog posts through their statuses, posts them at the weekly slots by priority and at
+ * their own scheduled times, against in-memory storage and the local mock X API server
+ */
+async function testBlogPostLifecycle() {
+    const { server } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+
+    try {
+        const post = (id: string, status: BlogPostStatus, extra: Partial<BlogPostRecord> = {}): BlogPostRecord => ({
+            id,
+            title: `Post ${id}`,
+            markdown: `Notes on wall ${id}.`,
+            status,
+            post_url: `https://example.com/blog/${id}`,
+            created_at: `2025-01-0${id.slice(1)}T00:00:00Z`,
+            ...extra
+        });
+        const repositories = useInMemoryRepositories({
+            blog_posts: [
+                post('b1', 'draft'),
+                post('b2', 'ready_to_tweet'),
+                post('b3', 'ready_to_tweet', { priority: 5 }),
+                post('b4', 'ready_to_tweet'),
+                post('b5', 'ready_to_tweet')
+            ]
+        });
+        config.blogPostScheduler.postAsThread = false;
+
+        const lifecycle = BlogPostLifecycleService.getInstance();
+        const scheduler = blogPostScheduler as any;
+        const statusOf = async (id: string) => (await repositories.blogPosts.getById(id))!.status;
+        const steps = async (id: string) => (await lifecycle.getHistory(id)).map(t => `${t.from_status}>${t.to_status}:${t.actor}`);
+
+        console.log('\n--- Test 1: Transitions are validated and recorded ---');
+        await assert.rejects(lifecycle.transition('b1', 'posting', { actor: 'admin' }), /cannot move from draft to posting/);
+        await assert.rejects(lifecycle.transition('b1', 'scheduled', { actor: 'admin' }), /cannot move from draft to scheduled/);
+        await assert.rejects(lifecycle.transition('missing', 'draft', { actor: 'admin' }), /not found/);
+        await lifecycle.transition('b1', 'ready_to_tweet', { actor: 'admin', reason: 'Proofread' });
+        assert.strictEqual(await statusOf('b1'), 'ready_to_tweet');
+        const [first] = await lifecycle.getHistory('b1');
+        assert.strictEqual(first.reason, 'Proofread');
+        assert.deepStrictEqual(await steps('b1'), ['draft>ready_to_tweet:admin']);
+        await lifecycle.transition('b1', 'draft', { actor: 'admin' });
+
+        // Two changes racing from the same status: only one applies
+        const raced = await Promise.allSettled([
+            lifecycle.transition('b5', 'draft', { actor: 'admin' }),
+            lifecycle.transition('b5', 'cancelled', { actor: 'admin' })
+        ]);
+        assert.deepStrictEqual(raced.map(r => r.status).sort(), ['fulfilled', 'rejected']);
+        assert.strictEqual((await lifecycle.getHistory('b5')).length, 1);
+        console.log('Invalid and racing transitions were refused; valid ones were recorded');
+
+        console.log('\n--- Test 2: Weekly slots post the highest priority, then the oldest ---');
+        await scheduler.checkAndPostBlogPosts('marvin');
+        await scheduler.checkAndPostBlogPosts('marvin');
+        assert.strictEqual(await statusOf('b3'), 'posted');
+        assert.strictEqual(await statusOf('b2'), 'posted');
+        assert.strictEqual(await statusOf('b4'), 'ready_to_tweet');
+        assert.deepStrictEqual(server.getPostedTweets().map(tweet => tweet.text.split('\n')[0]), ['Post b3', 'Post b2']);
+        assert.deepStrictEqual(await steps('b3'), ['ready_to_tweet>posting:scheduler', 'posting>posted:scheduler']);
+        assert.ok((await repositories.blogPosts.getById('b3'))!.post_url!.includes('/status/'));
+        await assert.rejects(lifecycle.transition('b3', 'ready_to_tweet', { actor: 'admin' }), /cannot move from posted/);
+        console.log('Posted b3 (priority 5), then b2 (oldest)');
+
+        console.log('\n--- Test 3: Scheduled posts go out at their own time, not at the slots ---');
+        await lifecycle.schedule('b4', new Date(Date.now() + 60 * 60 * 1000), 'admin');
+        await scheduler.checkAndPostBlogPosts('marvin');
+        await scheduler.postDueBlogPosts('marvin');
+        assert.strictEqual(await statusOf('b4'), 'scheduled');
+        assert.strictEqual(server.getPostedTweets().length, 2);
+
+        await lifecycle.schedule('b4', new Date(Date.now() - 60 * 1000), 'admin');
+        await scheduler.postDueBlogPosts('marvin');
+        assert.strictEqual(await statusOf('b4'), 'posted');
+        assert.deepStrictEqual(await steps('b4'), [
+            'ready_to_tweet>scheduled:admin',
+            'scheduled>scheduled:admin',
+            'scheduled>posting:scheduler',
+            'posting>posted:scheduler'
+        ]);
+        console.log('b4 waited for its rescheduled time and was posted then');
+
+        console.log('\n--- Test 4: A failed post can go back to the queue with a fresh job ---');
+        await lifecycle.transition('b1', 'ready_to_tweet', { actor: 'admin' });
+        server.failNext('POST', /\/2\/tweets$/, 403);
+        await scheduler.checkAndPostBlogPosts('marvin');
+        assert.strictEqual(await statusOf('b1'), 'failed');
+        const job = await repositories.postJobs.findByIdempotencyKey('blog_post:b1');
+        assert.strictEqual(job!.status, 'failed');
+        assert.ok((await lifecycle.getHistory('b1')).pop()!.reason!.length > 0);
+
+        await lifecycle.transition('b1', 'ready_to_tweet', { actor: 'admin', reason: 'Fixed the account' });
+        await scheduler.checkAndPostBlogPosts('marvin');
+        assert.strictEqual(await statusOf('b1'), 'posted');
+        assert.strictEqual((await repositories.postJobs.findByIdempotencyKey('blog_post:b1'))!.status, 'completed');
+        console.log('b1 failed, was sent back and was posted on the next slot');
+
+        console.log('\n--- Test 5: Cancelling a post cancels its queued job ---');
+        await lifecycle.transition('b5', 'ready_to_tweet', { actor: 'admin' }); // From draft or cancelled, whichever won the race
+        await lifecycle.transition('b5', 'posting', { actor: 'admin' });
+        const pending = await PostJobQueue.getInstance().enqueue({ type: 'blog_post', idempotencyKey: 'blog_post:b5', payload: { blog_post_id: 'b5' } });
+        await lifecycle.transition('b5', 'cancelled', { actor: 'admin', reason: 'Out of date' });
+        assert.strictEqual((await PostJobQueue.getInstance().getById(pending.id!))!.status, 'cancelled');
+        assert.strictEqual(await statusOf('b5'), 'cancelled');
+        console.log('b5 and its job were cancelled');
+
+        console.log('\nBlog post lifecycle tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testBlogPostLifecycle().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Blog post lifecycle test failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,82 @@
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import { CharacterService } from '../services/character/CharacterService';
+import { CharacterValidationError, normalizeCharacterFile, validateCharacterFile } from '../services/character/CharacterSchema';
+import { createInMemoryRepositories, setRepositories } from '../services/repositories';
+
+/**
+ * Test script for character files
+ * Validates the character files in the repository, checks the errors for broken ones,
+ * and imports and exports characters through in-memory storage
+ */
+async function testCharacterFiles() {
+    const readCharacterFile = (name: string) => JSON.parse(fs.readFileSync(path.join(__dirname, '..', name), 'utf8'));
+
+    console.log('\n--- Test 1: Both shapes of the repository character files are accepted ---');
+    const marvin = normalizeCharacterFile(readCharacterFile('Marvin.json'));
+    assert.strictEqual(marvin.content.bio.length, 1);
+    assert.ok(marvin.content.bio[0].startsWith('Marvin is a quiet, intense'));
+    assert.deepStrictEqual(marvin.content.style, { all: [], chat: [], post: [] });
+    assert.ok(marvin.content.topics.includes('graffiti culture'));
+    assert.ok('orbit_list' in marvin.content, 'fields outside the schema are kept');
+
+    const legacy = normalizeCharacterFile(readCharacterFile('Marvin_character.json'));
+    assert.strictEqual(legacy.agent_name, 'marvin');
+    assert.strictEqual(legacy.version, 1);
+    assert.deepStrictEqual(legacy.content.style.chat, ['sarcastic', 'brainy', 'quirky']);
+    console.log('Marvin.json and Marvin_character.json normalized');
+
+    console.log('\n--- Test 2: Errors name every offending field ---');
+    const issues = validateCharacterFile({
+        agent_name: 'Marvin Two',
+        content: {
+            bio: [],
+            lore: 42,
+            style: { all: ['dry', ''], chat: 'terse' },
+            topics: ['art', { name: 'zines' }]
+        },
+        version: 0
+    });
+    assert.deepStrictEqual(issues.map(issue => issue.field), [
+        'agent_name',
+        'display_name',
+        'version',
+        'content.bio',
+        'content.lore',
+        'content.style.all[1]',
+        'content.topics[1]'
+    ]);
+    assert.throws(() => normalizeCharacterFile([]), CharacterValidationError);
+    assert.throws(() => normalizeCharacterFile({ agent_name: 'x', display_name: 'X' }), /content: must be an object/);
+    console.log(issues.map(issue => `${issue.field}: ${issue.message}`).join('\n'));
+
+    console.log('\n--- Test 3: Imports become new versions and exports round-trip ---');
+    setRepositories(createInMemoryRepositories());
+    const characterService = CharacterService.getInstance();
+    const first = await characterService.importCharacter(readCharacterFile('Marvin.json'));
+    assert.strictEqual(first.version, 1);
+    assert.strictEqual(first.is_active, true);
+
+    const draft = await characterService.importCharacter({ ...marvin, content: { ...marvin.content, topics: ['zines'] } }, false);
+    assert.strictEqual(draft.version, 2);
+    assert.strictEqual(draft.is_active, false);
+    assert.strictEqual((await characterService.getCharacter()).version, 1);
+
+    const exported = await characterService.exportCharacter('marvin');
+    assert.deepStrictEqual(exported, { ...marvin, version: 1, is_active: true });
+    assert.deepStrictEqual((await characterService.exportCharacter('marvin', 2)).content.topics, ['zines']);
+    await assert.rejects(characterService.importCharacter({ agent_name: 'marvin' }), CharacterValidationError);
+    assert.strictEqual((await characterService.listVersions('marvin')).length, 2);
+    console.log('Imported versions 1 (active) and 2 (inactive); export matches the file');
+
+    console.log('\nCharacter file tests passed');
+}
+
+// Run the test
+testCharacterFiles().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Character file test failed:', error);
+    process.exit(1);
+});
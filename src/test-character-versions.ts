@@ -0,0 +1,87 @@
+import assert from 'assert';
+import { config } from '../config';
+import { CharacterService } from '../services/character/CharacterService';
+import { testCharacter, useInMemoryRepositories } from './fixtures/testHarness';
+
+/**
+ * Test script for character versions
+ * Loads, reloads, compares and rolls back versions of a character in in-memory storage
+ */
+async function testCharacterVersions() {
+    const version = (number: number, isActive: boolean, topics: string[], bio: string[] = ['An AI street artist.']) => testCharacter({
+        version: number,
+        is_active: isActive,
+        created_at: `2026-0${number}-01T00:00:00.000Z`,
+        updated_at: `2026-0${number}-01T00:00:00.000Z`,
+        content: {
+            bio,
+            lore: ['Born in the static.'],
+            style: { all: ['cryptic'], chat: [], post: [] },
+            topics,
+            adjectives: ['poetic']
+        }
+    });
+
+    const repositories = useInMemoryRepositories({
+        character_files: [
+            version(1, false, ['graffiti']),
+            version(2, true, ['graffiti', 'zines']),
+            version(3, false, ['zines', 'glitch art'], ['An AI street artist.', 'Draft bio.']),
+            { ...version(1, true, ['knitting']), id: 'marvella-v1', agent_name: 'marvella' }
+        ]
+    });
+    const characterService = CharacterService.getInstance();
+
+    console.log('\n--- Test 1: The active version is loaded, not a partial name match ---');
+    let character = await characterService.getCharacter('Marvin');
+    assert.strictEqual(character.version, 2);
+    assert.deepStrictEqual((await characterService.listVersions('marvin')).map(c => c.version), [3, 2, 1]);
+    await assert.rejects(characterService.getCharacter('marv'));
+    console.log('Loaded active version 2');
+
+    console.log('\n--- Test 2: A loaded character is reused until it is due for a reload ---');
+    await repositories.characterFiles.activateVersion('marvin', 3);
+    assert.strictEqual((await characterService.getCharacter()).version, 2);
+    const reloadSeconds = config.character.reloadSeconds;
+    config.character.reloadSeconds = 0;
+    assert.strictEqual((await characterService.getCharacter()).version, 3);
+    config.character.reloadSeconds = reloadSeconds;
+    console.log('Version 3 picked up on reload');
+
+    console.log('\n--- Test 3: A pinned version wins over the active one ---');
+    config.character.pinnedVersion = 1;
+    assert.deepStrictEqual((await characterService.reload()).content.topics, ['graffiti']);
+    config.character.pinnedVersion = 99;
+    await assert.rejects(characterService.reload(), /No version 99/);
+    config.character.pinnedVersion = null;
+    console.log('Pinned version 1 loaded');
+
+    console.log('\n--- Test 4: Versions can be compared ---');
+    const diff = await characterService.diff('marvin', 2, 3);
+    assert.deepStrictEqual(diff, [
+        { field: 'content.bio', added: ['Draft bio.'], removed: [] },
+        { field: 'content.topics', added: ['glitch art'], removed: ['graffiti'] }
+    ]);
+    await assert.rejects(characterService.diff('marvin', 2, 7), /Version 7/);
+    console.log('Diff lists added and removed entries');
+
+    console.log('\n--- Test 5: Rolling back activates an earlier version and reloads it ---');
+    character = await characterService.rollback('marvin', 2);
+    assert.strictEqual(character.version, 2);
+    assert.strictEqual((await characterService.getCharacter()).version, 2);
+    const active = (await characterService.listVersions('marvin')).filter(c => c.is_active).map(c => c.version);
+    assert.deepStrictEqual(active, [2]);
+    assert.strictEqual((await repositories.characterFiles.findActive('marvella'))!.version, 1);
+    await assert.rejects(characterService.rollback('marvin', 5), /Version 5/);
+    console.log('Rolled back to version 2');
+
+    console.log('\nCharacter version tests passed');
+}
+
+// Run the test
+testCharacterVersions().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Character version test failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,92 @@
+import assert from 'assert';
+import { config } from '../config';
+import { TwitterService } from '../services/twitter/TwitterService';
+import { EngagementService } from '../services/engagement/EngagementService';
+import { LLMRequest } from '../services/llm/LLMProvider';
+import { startMockX, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+
+/**
+ * Test script for conversation-aware replies
+ * Runs a reply thread through the mock X API server and checks what the model is sent
+ * and when Marvin stops replying
+ */
+async function testConversationThreads() {
+    const { server } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+
+    try {
+        const repositories = useInMemoryRepositories();
+
+        // A provider that records every request and numbers its replies
+        const requests: LLMRequest[] = [];
+        useStubProvider(async request => {
+            requests.push(request);
+            return `Echo ${requests.length} from the static.`;
+        }, ['mention_reply']);
+
+        const twitterService = TwitterService.getInstance();
+        const me = { id: '1000', username: 'marvin_mock' };
+        const fan = { id: '2001', username: 'wall_watcher' };
+        const lastPosted = () => server.getPostedTweets().slice(-1)[0];
+
+        console.log('\n--- Test 1: A reply under Marvin\'s tweet sees that tweet ---');
+        const original = server.addTweet(me, 'The wall remembers every hand.');
+        server.addTweet(fan, '@marvin_mock what does it remember?', original.id);
+        await twitterService.monitorEngagements();
+        assert.strictEqual(requests.length, 1);
+        assert.ok(requests[0].system.includes('The wall remembers every hand.'));
+        assert.strictEqual(requests[0].messages.length, 1);
+        console.log('Opening tweet passed in the system prompt');
+
+        console.log('\n--- Test 2: Follow-ups carry the earlier turns ---');
+        const firstReply = lastPosted();
+        server.addTweet(fan, '@marvin_mock and what does it forget?', firstReply.id);
+        await twitterService.monitorEngagements();
+        assert.strictEqual(requests.length, 2);
+        const messages = requests[1].messages;
+        assert.deepStrictEqual(messages.map(message => message.role), ['user', 'assistant', 'user']);
+        assert.strictEqual(messages[0].content, '@wall_watcher: @marvin_mock what does it remember?');
+        assert.strictEqual(messages[1].content, 'Echo 1 from the static.');
+        assert.ok(messages[2].content.includes('what does it forget?'));
+        console.log('Thread sent as', messages.length, 'turns');
+
+        console.log('\n--- Test 3: Replies stop at the per-thread cap ---');
+        config.conversations.maxRepliesPerThread = 2;
+        const capped = server.addTweet(fan, '@marvin_mock tell me more', lastPosted().id);
+        await twitterService.monitorEngagements();
+        assert.strictEqual(requests.length, 2);
+        assert.strictEqual(server.getPostedTweets().length, 2);
+        const cappedRecord = await repositories.conversations.findByTweetId(capped.id, 'marvin');
+        assert.strictEqual(cappedRecord!.declined_reason, 'already replied 2 times in this conversation');
+        console.log('Declined:', cappedRecord!.declined_reason);
+
+        console.log('\n--- Test 4: Hostile threads and deep threads are left alone ---');
+        const heckler = { id: '2002', username: 'heckler' };
+        const rant = server.addTweet(heckler, 'shut up, nobody asked');
+        const hostile = server.addTweet(fan, '@marvin_mock thoughts?', rant.id);
+        let parent = server.addTweet(heckler, 'one');
+        for (let i = 0; i < config.conversations.maxDepth; i++) {
+            parent = server.addTweet(heckler, `reply ${i}`, parent.id);
+        }
+        const deep = server.addTweet(fan, '@marvin_mock still there?', parent.id);
+        await twitterService.monitorEngagements();
+        assert.strictEqual(requests.length, 2);
+        assert.strictEqual((await repositories.conversations.findByTweetId(hostile.id, 'marvin'))!.declined_reason, 'conversation turned hostile');
+        assert.strictEqual(
+            (await repositories.conversations.findByTweetId(deep.id, 'marvin'))!.declined_reason,
+            `thread is more than ${config.conversations.maxDepth} tweets deep`
+        );
+        console.log('Hostile and deep threads declined');
+
+        console.log('\nConversation thread tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testConversationThreads().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Conversation thread test failed:', error);
+    process.exit(1);
+});
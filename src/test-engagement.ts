@@ -1,6 +1,5 @@
 import { TwitterService } from '../services/twitter/TwitterService';
 import { EngagementService, EngagementMetric } from '../services/engagement/EngagementService';
-import { GrokService } from '../services/grok/GrokService';
 
 /**
  * Test script for the engagement system
@@ -14,7 +13,6 @@ async function testEngagement() {
         // Initialize services
         const twitterService = TwitterService.getInstance();
         const engagementService = EngagementService.getInstance();
-        const grokService = GrokService.getInstance();
         
         console.log('Services initialized successfully');
         
@@ -55,14 +53,15 @@ async function testEngagement() {
             await engagementService.logEngagement(engagementMetric);
         }
         
-        // Test 2: Generate a humorous reply with Grok
-        console.log('\n--- Test 2: Generate a humorous reply with Grok ---');
+        // Test 2: Generate a humorous reply through the engagement quip provider chain
+        console.log('\n--- Test 2: Generate a humorous reply ---');
         const testContext = '@TestUser just liked a tweet that says: "Neon whispers, binary beats 🎧 Glitched graffiti...". Write a clever, funny thank-you tweet or reaction. Keep it short.';
         
         console.log('Generating humorous reply with context:', testContext);
-        const reply = await grokService.generateHumorousReply(testContext);
+        // Access the private method using type assertion
+        const reply = await (engagementService as any).generateQuip('engagement_quip', testContext);
         
-        console.log('Generated reply:', reply);
+        console.log('Generated reply:', reply.ok ? reply.text : `(suppressed: ${reply.reason})`);
         
         // Test 3: Detect recurring fans
         console.log('\n--- Test 3: Detect recurring fans ---');
@@ -75,7 +74,7 @@ async function testEngagement() {
         console.log('\n--- Test 4: Generate daily wrap-up ---');
         const wrapup = await engagementService.generateDailyWrapup();
         
-        console.log('Daily wrap-up:', wrapup);
+        console.log('Daily wrap-up:', wrapup.ok ? wrapup.text : `(suppressed: ${wrapup.reason})`);
         
         // Test 5: Simulate an engagement and response with conversation tracking
         console.log('\n--- Test 5: Simulate an engagement and response with conversation tracking ---');
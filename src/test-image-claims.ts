@@ -0,0 +1,171 @@
+import assert from 'assert';
+import { HttpTwitterClient } from '../services/twitter/HttpTwitterClient';
+import { TwitterService } from '../services/twitter/TwitterService';
+import { ImageClaimService } from '../services/content/ImageClaimService';
+import { ImageSelector } from '../services/content/ImageSelector';
+import { ImageTweetService } from '../services/content/ImageTweetService';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { ImageRecord } from '../services/repositories';
+import { config } from '../config';
+import { startMockX, useInMemoryRepositories } from './fixtures/testHarness';
+
+/**
+ * Test script for image claims
+ * Runs concurrent workers against the same images, then reconciles images posted but not marked
+ * and leases left behind, against in-memory storage and the local mock X API server
+ */
+async function testImageClaims() {
+    const { server, baseUrl } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+
+    try {
+        const image = (id: string, extra: Partial<ImageRecord> = {}): ImageRecord => ({
+            id,
+            prompt_id: 'p1',
+            image_url: `${baseUrl}/__mock/assets/${id}.png`,
+            x_posted: false,
+            created_at: '2025-01-01T00:00:00Z',
+            ...extra
+        });
+        const repositories = useInMemoryRepositories({
+            prompts: [{ id: 'p1', text: 'A neon alley wall' }],
+            images: [image('i1'), image('i2'), image('i3'), image('i4'), image('i5'), image('i6')],
+            post_jobs: [{
+                type: 'image_tweet',
+                idempotency_key: 'image_tweet:i6',
+                status: 'completed',
+                payload: { image_id: 'i6', content: { text: 'Walls at dusk' }, persona: 'marvin' },
+                attempts: 1,
+                max_attempts: 5,
+                next_attempt_at: '2025-01-01T00:00:00Z',
+                result: { tweet_id: '1700000000000000006' }
+            }]
+        });
+
+        const claims = ImageClaimService.getInstance();
+        const queue = PostJobQueue.getInstance();
+        const imageTweets = ImageTweetService.getInstance();
+        const enqueue = (id: string, text: string) => queue.enqueue({
+            type: 'image_tweet',
+            idempotencyKey: `image_tweet:${id}`,
+            payload: { image_id: id, content: { text, platform: 'twitter' }, persona: 'marvin' }
+        });
+        const later = (seconds: number) => new Date(Date.now() + seconds * 1000);
+
+        console.log('\n--- Test 1: Only one of many concurrent claims is taken ---');
+        const results = await Promise.all(['a', 'b', 'c', 'd', 'e'].map(worker => claims.claim('i1', `worker-${worker}`)));
+        assert.strictEqual(results.filter(Boolean).length, 1);
+        const owner = `worker-${'abcde'[results.indexOf(true)]}`;
+        assert.strictEqual((await repositories.images.getById('i1'))!.lease_owner, owner);
+
+        // Only the owner can release it, and then it can be claimed again
+        await claims.release('i1', 'someone-else');
+        assert.strictEqual(await claims.claim('i1', 'worker-f'), false);
+        await claims.release('i1', owner);
+        assert.strictEqual(await claims.claim('i1', 'worker-f'), true);
+        await claims.release('i1', 'worker-f');
+
+        // A claimed image is not picked for the next image tweet
+        await claims.claim('i2', 'worker-a');
+        const selection = await ImageSelector.getInstance().select('marvin');
+        assert.strictEqual(selection.candidates.find(candidate => candidate.image_id === 'i2')!.excluded, 'being posted by worker-a');
+        await claims.release('i2', 'worker-a');
+        console.log(`${owner} won the claim; nobody else could take or release it`);
+
+        console.log('\n--- Test 2: Two workers running the same job post the image once ---');
+        const job = await enqueue('i1', 'Neon hums in the alley');
+        const outcomes = await Promise.all([
+            imageTweets.publishImageTweetJob(job, 'worker-a'),
+            imageTweets.publishImageTweetJob(job, 'worker-b')
+        ]);
+        assert.strictEqual(server.getPostedTweets().length, 1);
+        assert.deepStrictEqual(outcomes.map(outcome => outcome.success).sort(), [false, true]);
+        const loser = outcomes.find(outcome => !outcome.success)!;
+        assert.strictEqual(loser.retryable, true);
+        assert.strictEqual(loser.message, 'Image i1 is being posted by another worker');
+
+        const posted = (await repositories.images.getById('i1'))!;
+        assert.strictEqual(posted.x_posted, true);
+        assert.strictEqual(posted.tweet_id, server.getPostedTweets()[0].id);
+        assert.strictEqual(posted.lease_owner, null);
+
+        // The loser's retry finds the image posted
+        const retry = await imageTweets.publishImageTweetJob(job, 'worker-b');
+        assert.deepStrictEqual(retry, { success: true, result: { skipped: 'already_posted', tweet_id: posted.tweet_id } });
+        assert.strictEqual(server.getPostedTweets().length, 1);
+        console.log('One tweet posted; the other worker backed off and then found it posted');
+
+        console.log('\n--- Test 3: A failed post releases the claim for the next attempt ---');
+        const failing = await enqueue('i2', 'x'.repeat(300)); // Rejected by the API as too long
+        const failed = await imageTweets.publishImageTweetJob(failing, 'worker-a');
+        assert.strictEqual(failed.success, false);
+        assert.strictEqual((await repositories.images.getById('i2'))!.lease_owner, null);
+        assert.strictEqual(await claims.claim('i2', 'worker-b'), true);
+        await claims.release('i2', 'worker-b');
+        await queue.cancel(failing.id!);
+        console.log('Claim released after the post failed');
+
+        console.log('\n--- Test 4: An image posted but not marked is marked from its job ---');
+        const markPosted = repositories.images.markPosted.bind(repositories.images);
+        repositories.images.markPosted = async () => { throw new Error('connection reset'); };
+        const unmarked = await queue.enqueueAndRun({
+            type: 'image_tweet',
+            idempotencyKey: 'image_tweet:i3',
+            payload: { image_id: 'i3', content: { text: 'Glitch in the mural', platform: 'twitter' }, persona: 'marvin' }
+        });
+        repositories.images.markPosted = markPosted;
+        assert.strictEqual(unmarked.status, 'completed');
+        assert.strictEqual((await repositories.images.getById('i3'))!.x_posted, false);
+        assert.strictEqual((await repositories.images.getById('i3'))!.lease_owner, claims.workerId);
+
+        // i6 was posted before claims existed and never marked
+        const reconciled = await claims.reconcile();
+        assert.deepStrictEqual(reconciled, { marked: ['i3', 'i6'], released: [], kept: [] });
+        const i3 = (await repositories.images.getById('i3'))!;
+        assert.strictEqual(i3.tweet_id, unmarked.result!.tweet_id);
+        assert.strictEqual(i3.lease_owner, null);
+        assert.strictEqual((await repositories.images.getById('i6'))!.tweet_id, '1700000000000000006');
+        assert.strictEqual(server.getPostedTweets().length, 2);
+        console.log('i3 and i6 marked with their tweets without posting again');
+
+        console.log('\n--- Test 5: Stale leases are marked if the post went out and released if not ---');
+        // Both workers stopped after claiming; the first had already posted its tweet
+        await enqueue('i4', 'Paint remembers');
+        await enqueue('i5', 'Walls forget');
+        await claims.claim('i4', 'crashed-1');
+        await claims.claim('i5', 'crashed-2');
+        await TwitterService.getInstance().postTweet({ text: 'Paint remembers', platform: 'twitter' });
+
+        // Nothing happens while the leases may still be held
+        assert.deepStrictEqual(await claims.reconcile(), { marked: [], released: [], kept: [] });
+
+        // The search for the caption fails: the lease is kept rather than risk a second post
+        const client = new HttpTwitterClient(baseUrl);
+        client.searchRecent = async () => { throw new Error('503 Service Unavailable'); };
+        TwitterService.getInstance().setClient(client);
+        const stale = later(config.jobQueue.imageLeaseSeconds + 1);
+        assert.deepStrictEqual(await claims.reconcile(stale), { marked: [], released: [], kept: ['i4', 'i5'] });
+        TwitterService.getInstance().setClient(new HttpTwitterClient(baseUrl));
+
+        assert.deepStrictEqual(await claims.reconcile(stale), { marked: ['i4'], released: ['i5'], kept: [] });
+        assert.strictEqual((await repositories.images.getById('i4'))!.tweet_id, server.getPostedTweets()[2].id);
+        assert.strictEqual((await repositories.images.getById('i5'))!.lease_owner, null);
+
+        // The released image is posted by the next attempt, the marked one is not posted again
+        await queue.processDue(later(60));
+        assert.deepStrictEqual(server.getPostedTweets().slice(2).map(tweet => tweet.text), ['Paint remembers', 'Walls forget']);
+        assert.strictEqual((await repositories.images.getById('i5'))!.x_posted, true);
+        console.log('i4 found on X and marked; i5 released and posted once');
+
+        console.log('\nImage claim tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testImageClaims().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Image claim test failed:', error);
+    process.exit(1);
+});
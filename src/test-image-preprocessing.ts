@@ -0,0 +1,187 @@
+import assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { TweetData } from '../services/twitter/TwitterClient';
+import { ImagePreprocessor } from '../services/media/ImagePreprocessor';
+import { ImageTweetService } from '../services/content/ImageTweetService';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { config } from '../config';
+import { startMockX, testCharacter, useInMemoryRepositories } from './fixtures/testHarness';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', 'images', name));
+
+/**
+ * Brightest channel value in a region of an image
+ */
+async function brightest(image: Buffer, region: { left: number; top: number; width: number; height: number }): Promise<number> {
+    const pixels = await sharp(image).extract(region).removeAlpha().raw().toBuffer();
+    return pixels.reduce((max, value) => Math.max(max, value), 0);
+}
+
+/**
+ * Test script for image preprocessing
+ * Runs the fixture images in src/fixtures/images, and generated ones, through the preprocessor and
+ * posts one, against in-memory storage and the local mock X API server
+ */
+async function testImagePreprocessing() {
+    const { server, baseUrl } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'marvin-media-test-'));
+    const signature = path.join(__dirname, 'fixtures', 'images', 'signature.png');
+    const limits = { ...config.media };
+
+    try {
+        config.media.cacheDir = cacheDir;
+        const preprocessor = ImagePreprocessor.getInstance();
+        const asset = (name: string) => `${baseUrl}/__mock/assets/${name}`;
+
+        console.log('\n--- Test 1: A JPEG served as .png is sniffed, turned upright and stripped of EXIF ---');
+        server.setAsset('photo.png', fixture('sideways-exif.jpg'));
+        const photo = await preprocessor.prepare(asset('photo.png'));
+        assert.strictEqual(photo.mimeType, 'image/jpeg');
+        assert.ok(photo.path.endsWith('.jpg'));
+        assert.deepStrictEqual([photo.width, photo.height], [400, 600]);
+        assert.strictEqual(photo.temporary, true);
+        assert.deepStrictEqual(photo.changes, ['metadata removed']);
+        const photoMetadata = await sharp(fs.readFileSync(photo.path)).metadata();
+        assert.strictEqual(photoMetadata.exif, undefined);
+        assert.strictEqual(photoMetadata.orientation, undefined);
+        assert.deepStrictEqual([photoMetadata.width, photoMetadata.height], [400, 600]);
+        fs.unlinkSync(photo.path);
+        console.log('Posted as an upright 400x600 JPEG without its camera and GPS data');
+
+        console.log('\n--- Test 2: An animated GIF becomes a PNG of its first frame ---');
+        const still = await preprocessor.process(fixture('animated.gif'));
+        assert.strictEqual(still.type.mimeType, 'image/png');
+        assert.deepStrictEqual(still.changes, ['first of 3 frames', 'converted from image/gif to image/png']);
+        const stillMetadata = await sharp(still.data).metadata();
+        assert.deepStrictEqual([stillMetadata.format, stillMetadata.width, stillMetadata.height, stillMetadata.pages], ['png', 48, 32, undefined]);
+        const [red, green, blue] = await sharp(still.data).removeAlpha().raw().toBuffer();
+        assert.deepStrictEqual([red, green, blue], [255, 0, 0]);
+        console.log('A red 48x32 PNG, the first of the three frames');
+
+        console.log('\n--- Test 3: Files that are not images X accepts are refused ---');
+        await assert.rejects(preprocessor.process(fixture('not-found.html')), /Unsupported media: an HTML page, not a JPEG, PNG, GIF or WebP image/);
+        await assert.rejects(preprocessor.process(Buffer.alloc(0)), /Unsupported media: an empty file/);
+        await assert.rejects(preprocessor.process(Buffer.from('\0\0\0\x18ftypisom\0\0\0\0', 'latin1')), /Unsupported media: an MP4 video/);
+        await assert.rejects(preprocessor.prepare(asset('missing.png').replace('/__mock/assets', '/nowhere')), /Failed to download media/);
+        console.log('HTML, empty files, videos and failed downloads refused');
+
+        console.log('\n--- Test 4: Oversized images are scaled down and recompressed until they fit ---');
+        // Random noise compresses badly, so it needs every step
+        const noise = Buffer.alloc(1600 * 1200 * 3);
+        let seed = 1;
+        for (let i = 0; i < noise.length; i++) {
+            seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+            noise[i] = seed >> 16;
+        }
+        const large = await sharp(noise, { raw: { width: 1600, height: 1200, channels: 3 } }).png().toBuffer();
+        config.media.maxImageDimension = 1024;
+        config.media.maxImageBytes = 200 * 1024;
+        const fitted = await preprocessor.process(large);
+        assert.ok(fitted.data.length <= config.media.maxImageBytes, `${fitted.data.length} bytes`);
+        assert.strictEqual(fitted.type.mimeType, 'image/jpeg');
+        assert.ok(fitted.width < 1024 && fitted.width / fitted.height === 4 / 3, `${fitted.width}x${fitted.height}`);
+        assert.strictEqual(fitted.changes[0], 'scaled from 1600x1200 to 1024x768');
+        assert.match(fitted.changes[1], /^recompressed as image\/jpeg at quality \d+ and \d+x\d+ to fit 204800 bytes$/);
+
+        // Within the limits, an image is left at its size and type
+        config.media.maxImageBytes = limits.maxImageBytes;
+        const unchanged = await preprocessor.process(await sharp(noise, { raw: { width: 1600, height: 1200, channels: 3 } }).resize(800).png().toBuffer());
+        assert.deepStrictEqual([unchanged.type.mimeType, unchanged.width, unchanged.height, unchanged.changes], ['image/png', 800, 600, []]);
+
+        // An image that cannot fit even at the smallest size is refused
+        config.media.maxImageBytes = 1000;
+        await assert.rejects(preprocessor.process(large), /Image cannot be brought under 1000 bytes/);
+        Object.assign(config.media, limits, { cacheDir });
+        console.log(`Noise scaled to ${fitted.width}x${fitted.height}, ${fitted.data.length} bytes`);
+
+        console.log('\n--- Test 5: A persona\'s signature is added faintly to the bottom right corner ---');
+        const black = await sharp({ create: { width: 400, height: 300, channels: 3, background: '#000000' } }).png().toBuffer();
+        const signed = await preprocessor.process(black, signature);
+        assert.deepStrictEqual(signed.changes, ['watermarked']);
+        const corner = await brightest(signed.data, { left: 340, top: 270, width: 52, height: 22 });
+        assert.ok(corner > 40 && corner < 120, `corner brightness ${corner}`); // White at 35% opacity
+        assert.strictEqual(await brightest(signed.data, { left: 0, top: 0, width: 300, height: 250 }), 0);
+
+        // Images too small for it, and unreadable signatures, go without
+        const tiny = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#000000' } }).png().toBuffer();
+        assert.deepStrictEqual((await preprocessor.process(tiny, signature)).changes, []);
+        assert.deepStrictEqual((await preprocessor.process(black, '/nonexistent/signature.png')).changes, []);
+        console.log(`Signature in the corner at brightness ${corner} of 255; nothing elsewhere`);
+
+        console.log('\n--- Test 6: Processed images are cached by image ID until they are posted ---');
+        server.setAsset('i1.png', fixture('sideways-exif.jpg'));
+        const first = await preprocessor.prepare(asset('i1.png'), { cacheKey: 'i1' });
+        assert.strictEqual(first.cached, false);
+        assert.strictEqual(first.temporary, false);
+        assert.strictEqual(path.dirname(first.path), cacheDir);
+
+        // The cached file is used even though the URL now serves something else
+        server.setAsset('i1.png', fixture('not-found.html'));
+        const second = await preprocessor.prepare(asset('i1.png'), { cacheKey: 'i1' });
+        assert.deepStrictEqual([second.cached, second.path, second.mimeType, second.width, second.height], [true, first.path, 'image/jpeg', 400, 600]);
+
+        // Other settings process the image again
+        await assert.rejects(preprocessor.prepare(asset('i1.png'), { cacheKey: 'i1', watermarkPath: signature }), /an HTML page/);
+        assert.strictEqual(preprocessor.evict('i1'), 1);
+        assert.deepStrictEqual(fs.readdirSync(cacheDir), []);
+        console.log('Second preparation served from the cache; evicted afterwards');
+
+        console.log('\n--- Test 7: An image tweet uploads the processed image and clears its cache ---');
+        const persona = config.personas.personas[0];
+        const repositories = useInMemoryRepositories({
+            character_files: [testCharacter({ agent_name: persona.agentName })],
+            prompts: [{ id: 'p1', text: 'A neon alley wall' }],
+            images: [
+                { id: 'i2', prompt_id: 'p1', image_url: asset('i2.png'), x_posted: false, created_at: '2025-01-01T00:00:00Z' },
+                { id: 'i3', prompt_id: 'p1', image_url: asset('i3.png'), x_posted: false, created_at: '2025-01-01T00:00:00Z' }
+            ]
+        });
+        server.setAsset('i2.png', fixture('sideways-exif.jpg'));
+        server.setAsset('i3.png', fixture('not-found.html'));
+        persona.watermarkPath = signature;
+
+        const queue = PostJobQueue.getInstance();
+        ImageTweetService.getInstance();
+        const posted = await queue.enqueueAndRun({
+            type: 'image_tweet',
+            idempotencyKey: 'image_tweet:i2',
+            payload: { image_id: 'i2', content: { text: 'The wall hums back', platform: 'twitter' }, persona: persona.name }
+        });
+        assert.strictEqual(posted.status, 'completed');
+        const [tweet] = server.getPostedTweets() as Array<TweetData & { media_ids?: string[] }>;
+        const uploaded = server.getMedia(tweet.media_ids![0])!;
+        const uploadedMetadata = await sharp(uploaded).metadata();
+        assert.deepStrictEqual([uploadedMetadata.format, uploadedMetadata.width, uploadedMetadata.height, uploadedMetadata.exif], ['jpeg', 400, 600, undefined]);
+        assert.deepStrictEqual(fs.readdirSync(cacheDir), []);
+
+        // An HTML page where the image should be fails the job without posting
+        const failed = await queue.enqueueAndRun({
+            type: 'image_tweet',
+            idempotencyKey: 'image_tweet:i3',
+            payload: { image_id: 'i3', content: { text: 'Paint remembers', platform: 'twitter' }, persona: persona.name }
+        });
+        assert.strictEqual(failed.status, 'failed');
+        assert.match(failed.last_error!, /Unsupported media: an HTML page/);
+        assert.strictEqual(server.getPostedTweets().length, 1);
+        assert.strictEqual((await repositories.images.getById('i3'))!.lease_owner, null);
+        persona.watermarkPath = null;
+        console.log('i2 posted as a clean, upright, signed JPEG; i3 refused without posting');
+
+        console.log('\nImage preprocessing tests passed');
+    } finally {
+        Object.assign(config.media, limits);
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+        await server.stop();
+    }
+}
+
+// Run the test
+testImagePreprocessing().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Image preprocessing test failed:', error);
+    process.exit(1);
+});
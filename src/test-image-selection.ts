@@ -0,0 +1,162 @@
+import assert from 'assert';
+import { ImageSelector } from '../services/content/ImageSelector';
+import { ImageTweetService } from '../services/content/ImageTweetService';
+import { ApprovalService } from '../services/approval/ApprovalService';
+import { ImageRecord } from '../services/repositories';
+import { config } from '../config';
+import { startMockX, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+
+/**
+ * Test script for image selection
+ * Picks image tweet images with each strategy, pins and the avoid-repeat window, and posts the pick,
+ * against in-memory storage and the local mock X API server
+ */
+async function testImageSelection() {
+    const { server, baseUrl } = await startMockX({ now: () => new Date('2025-01-10T12:00:00Z') });
+
+    try {
+        const image = (id: string, promptId: string, day: number, extra: Partial<ImageRecord> = {}): ImageRecord => ({
+            id,
+            prompt_id: promptId,
+            image_url: `${baseUrl}/__mock/assets/${id}.png`,
+            x_posted: false,
+            created_at: `2025-01-0${day}T00:00:00Z`,
+            ...extra
+        });
+        const repositories = useInMemoryRepositories({
+            prompts: [
+                { id: 'p1', text: 'A neon alley wall', tags: ['neon', 'alley'], style: 'glitch' },
+                { id: 'p2', text: 'A portrait on brick', tags: ['portrait'], style: 'oil' },
+                { id: 'p3', text: 'A neon skyline', tags: ['neon'], style: 'Glitch' },
+                { id: 'p4', text: 'An empty wall', tags: [], style: null }
+            ],
+            images: [
+                image('i0', 'p1', 1, { x_posted: true, x_posted_at: '2025-01-09T00:00:00Z' }),
+                image('i1', 'p1', 1),
+                image('i2', 'p2', 2),
+                image('i3', 'p3', 3),
+                image('i4', 'p4', 4)
+            ]
+        });
+        useStubProvider(async () => 'The wall hums back', ['image_caption']);
+        config.approval.required = { daily_tweet: false, image_caption: false, engagement_reply: false, blog_thread: false };
+
+        const selector = ImageSelector.getInstance();
+        const settings = config.imageSelection.image_tweet;
+        const now = new Date('2025-01-10T12:00:00Z');
+        const pick = async (random: number = 0) => selector.select('marvin', { now, random: () => random });
+
+        console.log('\n--- Test 1: random_recent picks among the newest unposted images ---');
+        Object.assign(settings, { strategy: 'random_recent', candidates: 3, avoidRepeatDays: 0, tagWeights: {} });
+        const first = await pick(0);
+        assert.strictEqual(first.job, 'image_tweet');
+        assert.strictEqual(first.image!.id, 'i4');
+        assert.strictEqual(first.prompt!.id, 'p4');
+        assert.strictEqual(first.reason, 'random pick among the 3 newest unposted images');
+        assert.deepStrictEqual(first.candidates.map(candidate => candidate.image_id), ['i4', 'i3', 'i2']);
+        assert.strictEqual((await pick(0.99)).image!.id, 'i2');
+
+        // A dry run changes nothing
+        assert.strictEqual((await repositories.images.getById('i4'))!.x_posted, false);
+        console.log('Picked i4 and i2 from the 3 newest');
+
+        console.log('\n--- Test 2: fifo works through the backlog from the oldest ---');
+        settings.strategy = 'fifo';
+        const oldest = await pick();
+        assert.strictEqual(oldest.image!.id, 'i1');
+        assert.strictEqual(oldest.reason, 'oldest unposted image, created 2025-01-01T00:00:00Z');
+        console.log('Picked the oldest image, i1');
+
+        console.log('\n--- Test 3: weighted_tags weighs prompt tags, and a weight of 0 is never picked ---');
+        Object.assign(settings, { strategy: 'weighted_tags', candidates: 10, tagWeights: { neon: 3, portrait: 0 } });
+        const weighted = await pick(0.5);
+        assert.deepStrictEqual(weighted.candidates.map(candidate => [candidate.image_id, candidate.weight]), [['i4', 1], ['i3', 3], ['i2', 0], ['i1', 3]]);
+        assert.strictEqual(weighted.image!.id, 'i3');
+        assert.strictEqual(weighted.reason, 'weighted pick by prompt tags (neon): weight 3 of 7, a 43% chance');
+        assert.strictEqual((await pick(0)).image!.id, 'i4');
+        assert.strictEqual((await pick(0.99)).image!.id, 'i1');
+        for (const random of [0.2, 0.4, 0.57, 0.58, 0.6, 0.999]) {
+            assert.notStrictEqual((await pick(random)).image!.id, 'i2');
+        }
+        console.log('Picks followed the tag weights; the portrait was never picked');
+
+        console.log('\n--- Test 4: Prompts and styles posted within the window are not repeated ---');
+        Object.assign(settings, { strategy: 'fifo', avoidRepeatDays: 7, tagWeights: {} });
+        const fresh = await pick();
+        assert.strictEqual(fresh.image!.id, 'i2');
+        const excluded = Object.fromEntries(fresh.candidates.map(candidate => [candidate.image_id, candidate.excluded]));
+        assert.deepStrictEqual(excluded, {
+            i1: 'prompt posted 2025-01-09T00:00:00Z',
+            i2: null,
+            i3: 'style "Glitch" posted 2025-01-09T00:00:00Z',
+            i4: null
+        });
+
+        // Outside the window the prompt may come back
+        settings.avoidRepeatDays = 1;
+        assert.strictEqual((await pick()).image!.id, 'i1');
+
+        // When every candidate repeats, the window gives way rather than posting nothing
+        Object.assign(settings, { avoidRepeatDays: 7, candidates: 1 });
+        const fallback = await pick();
+        assert.strictEqual(fallback.image!.id, 'i1');
+        assert.ok(fallback.reason.endsWith('every candidate repeats a prompt or style from the last 7 days, so the window was ignored'));
+        Object.assign(settings, { avoidRepeatDays: 0, candidates: 10 });
+        console.log('i1 and i3 skipped for repeating i0; the window gave way when nothing else was left');
+
+        console.log('\n--- Test 5: An image pinned for today goes first, in the job\'s time zone ---');
+        const job = config.scheduler.jobs.image_tweet;
+        const timezone = job.timezone;
+        job.timezone = 'UTC';
+        assert.strictEqual((await selector.pin('i3', '2025-01-11'))!.pinned_for, '2025-01-11');
+        assert.strictEqual(await selector.pin('missing', '2025-01-11'), null);
+        assert.strictEqual((await pick()).image!.id, 'i1'); // Still the 10th in UTC
+
+        job.timezone = 'Pacific/Auckland'; // Already the 11th there
+        const pinned = await pick();
+        assert.strictEqual(pinned.image!.id, 'i3');
+        assert.strictEqual(pinned.reason, 'pinned for 2025-01-11');
+
+        await selector.pin('i3', null);
+        assert.strictEqual((await pick()).image!.id, 'i1');
+        job.timezone = timezone;
+        console.log('i3 picked on the date it was pinned for in Auckland, and not once unpinned');
+
+        console.log('\n--- Test 6: The image tweet posts the pick, and skips images waiting for review ---');
+        const imageTweets = ImageTweetService.getInstance();
+        assert.strictEqual(await imageTweets.generateAndPostImageTweet(), true);
+        const posted = (await repositories.images.getById('i1'))!;
+        assert.strictEqual(posted.x_posted, true);
+        assert.ok(posted.x_posted_at);
+        assert.strictEqual(server.getPostedTweets().length, 1);
+
+        config.approval.required.image_caption = true;
+        assert.strictEqual(await imageTweets.generateAndPostImageTweet(), true);
+        const [approval] = await ApprovalService.getInstance().list({ status: 'pending', content_type: 'image_caption' });
+        assert.strictEqual(approval.payload.image_id, 'i2');
+        const afterReview = await pick();
+        assert.strictEqual(afterReview.image!.id, 'i3');
+        assert.strictEqual(afterReview.candidates.find(candidate => candidate.image_id === 'i2')!.excluded, 'waiting for review');
+
+        // Strategies can be added; unknown ones are an error
+        selector.registerStrategy({ name: 'newest', oldestFirst: false, choose: candidates => ({ candidate: candidates[0], reason: 'newest' }) });
+        settings.strategy = 'newest';
+        assert.strictEqual((await pick()).image!.id, 'i4');
+        settings.strategy = 'nope';
+        await assert.rejects(pick(), /Unknown image selection strategy for image_tweet: nope/);
+        assert.strictEqual(await imageTweets.generateAndPostImageTweet(), false);
+        console.log('Posted i1, held i2 for review and picked past it');
+
+        console.log('\nImage selection tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testImageSelection().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Image selection test failed:', error);
+    process.exit(1);
+});
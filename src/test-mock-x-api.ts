@@ -0,0 +1,130 @@
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import { HttpTwitterClient } from '../services/twitter/HttpTwitterClient';
+import { TwitterService } from '../services/twitter/TwitterService';
+import { TweetData } from '../services/twitter/TwitterClient';
+import { ImageTweetService } from '../services/content/ImageTweetService';
+import { blogPostScheduler } from './blog-post-scheduler';
+import { startMockX, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+
+/**
+ * End-to-end test script against the local mock X API server.
+ * Replays mention monitoring, blog threading and an image tweet with
+ * in-memory storage and stubbed text generation, so every run posts the same tweets.
+ */
+async function testMockXApi() {
+    const { server, baseUrl } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+
+    try {
+        const character = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'Marvin_character.json'), 'utf8'));
+        const repositories = useInMemoryRepositories({
+            character_files: [character],
+            prompts: [{ id: 'p1', text: 'A neon alley wall covered in glitch graffiti' }],
+            images: [{
+                id: 'i1',
+                prompt_id: 'p1',
+                image_url: `${baseUrl}/__mock/assets/wall.png`,
+                x_posted: false,
+                created_at: '2025-01-01T00:00:00Z'
+            }]
+        });
+
+        const twitterService = TwitterService.getInstance();
+
+        // Stub text generation so runs are deterministic
+        useStubProvider(async () => 'Static hums back at you.', ['mention_reply']);
+        useStubProvider(async () => 'Neon bleeds through the cracks.', ['image_caption'], 'openai');
+
+        console.log('\n--- Test 1: Reply to mentions once ---');
+        const fan = { id: '2001', username: 'wall_watcher' };
+        const mention = server.addTweet(fan, '@marvin_mock what does the wall remember?');
+        await twitterService.monitorEngagements();
+        let posted = server.getPostedTweets();
+        assert.strictEqual(posted.length, 1);
+        assert.deepStrictEqual(posted[0].referenced_tweets, [{ type: 'replied_to', id: mention.id }]);
+        assert.strictEqual(posted[0].text, 'Static hums back at you.');
+
+        await twitterService.monitorEngagements();
+        assert.strictEqual(server.getPostedTweets().length, 1);
+        const tweetLimit = twitterService.getRateLimits().find(limit => limit.endpoint === 'POST /2/tweets')!;
+        assert.strictEqual(tweetLimit.remaining, tweetLimit.limit - 1);
+        console.log('Mention answered exactly once');
+
+        console.log('\n--- Test 2: Page through mentions and resume from the cursor ---');
+        const me = await twitterService['client'].me();
+        const searches: any[] = [];
+        const client = new HttpTwitterClient(baseUrl);
+        const search = client.searchRecent.bind(client);
+        client.searchRecent = async (options) => {
+            searches.push(options);
+            return search(options);
+        };
+        twitterService.setClient(client);
+
+        const mentions = Array.from({ length: 120 }, (_, i) =>
+            server.addTweet({ id: String(3000 + i), username: `fan_${i}` }, `@marvin_mock signal ${i}`));
+        const repliesBefore = server.getPostedTweets().length;
+        await twitterService.monitorEngagements();
+        assert.strictEqual(searches.length, 2);
+        assert.strictEqual(searches[0].sinceId, mention.id);
+        assert.ok(searches[1].nextToken);
+        assert.strictEqual(server.getPostedTweets().length, repliesBefore + mentions.length);
+        const cursor = await repositories.pollCursors.get(me.id, 'mentions');
+        assert.strictEqual(cursor!.since_id, mentions[mentions.length - 1].id);
+
+        searches.length = 0;
+        await twitterService.monitorEngagements();
+        assert.strictEqual(searches.length, 1);
+        assert.strictEqual(searches[0].sinceId, cursor!.since_id);
+        assert.strictEqual(server.getPostedTweets().length, repliesBefore + mentions.length);
+
+        // A cursor the API rejects (e.g. older than 7 days) falls back to a full search
+        searches.length = 0;
+        server.failNext('GET', /search\/recent/, 400);
+        await twitterService.monitorEngagements();
+        assert.strictEqual(searches[searches.length - 1].sinceId, undefined);
+        assert.strictEqual(server.getPostedTweets().length, repliesBefore + mentions.length);
+        console.log(`Paged through ${mentions.length} mentions; later runs search from the cursor`);
+
+        console.log('\n--- Test 3: Post a blog post as a thread ---');
+        const post = {
+            id: 'b1',
+            title: 'Walls That Remember',
+            markdown: Array.from({ length: 8 }, (_, i) => `Paragraph ${i + 1} about paint, pixels and the people who leave marks on both.`).join('\n\n'),
+            status: 'ready_to_tweet',
+            post_url: 'https://example.com/walls',
+            created_at: '2025-01-01T00:00:00Z'
+        };
+        const threadResult = await (blogPostScheduler as any).postAsThread(post);
+        assert.strictEqual(threadResult.success, true);
+        const threadIds: string[] = threadResult.allTweetIds;
+        assert.ok(threadIds.length > 1);
+        for (let i = 1; i < threadIds.length; i++) {
+            const part = server.getTweet(threadIds[i])!;
+            assert.deepStrictEqual(part.referenced_tweets, [{ type: 'replied_to', id: threadIds[i - 1] }]);
+        }
+        console.log(`Thread posted with ${threadIds.length} parts`);
+
+        console.log('\n--- Test 4: Post an image tweet ---');
+        const before = server.getPostedTweets().length;
+        assert.strictEqual(await ImageTweetService.getInstance().generateAndPostImageTweet(), true);
+        posted = server.getPostedTweets();
+        assert.strictEqual(posted.length, before + 1);
+        assert.strictEqual((posted[posted.length - 1] as TweetData & { media_ids: string[] }).media_ids.length, 1);
+        assert.strictEqual((await repositories.images.getById('i1'))!.x_posted, true);
+        console.log('Image tweet posted and image marked as posted');
+
+        console.log('\nMock X API tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testMockXApi().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Mock X API test failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,193 @@
+import assert from 'assert';
+import { LLMService } from '../services/llm/LLMService';
+import { ModerationService } from '../services/moderation/ModerationService';
+import { ApprovalService } from '../services/approval/ApprovalService';
+import { ImageTweetService } from '../services/content/ImageTweetService';
+import { EngagementService } from '../services/engagement/EngagementService';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { BlogPostRecord } from '../services/repositories';
+import { blogPostScheduler } from './blog-post-scheduler';
+import { startMockX, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+import { config } from '../config';
+
+/**
+ * Test script for moderation
+ * Checks outbound text against each rule, and holds blocked captions, replies and blog threads
+ * for review, against in-memory storage and the local mock X API server
+ */
+async function testModeration() {
+    const { server, baseUrl } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+
+    try {
+        const post = (id: string, text: string): BlogPostRecord => ({
+            id,
+            title: `Walls ${id}`,
+            markdown: ['## First', text, '## Second', 'Two. '.repeat(40).trim()].join('\n\n'),
+            status: 'ready_to_tweet',
+            post_url: `https://example.com/blog/${id}`,
+            created_at: `2025-01-0${id.slice(1)}T00:00:00Z`
+        });
+        const repositories = useInMemoryRepositories({
+            prompts: [{ id: 'p1', text: 'A neon alley wall covered in glitch graffiti' }],
+            images: [{ id: 'i1', prompt_id: 'p1', image_url: `${baseUrl}/__mock/assets/wall.png`, x_posted: false, created_at: '2025-01-01T00:00:00Z' }],
+            blog_posts: [
+                post('b1', 'Join the giveaway on the east wall tonight.'),
+                post('b2', 'One. '.repeat(40).trim()),
+                post('b3', 'Another giveaway, one tweet long.')
+            ]
+        });
+
+        // Generated text comes from this list, in order; the classifier flags anything selling something
+        const generated: string[] = [];
+        useStubProvider(async request => {
+            const content = request.messages[0].content;
+            if (content.startsWith('Tweet to check:')) {
+                return /\bbuy\b/i.test(content) ? 'UNSAFE: sells something' : 'SAFE';
+            }
+            return generated.shift() || 'The wall hums back';
+        }, ['image_caption', 'mention_reply', 'moderation']);
+        const llmService = LLMService.getInstance();
+
+        config.approval.required = { daily_tweet: false, image_caption: false, engagement_reply: false, blog_thread: false };
+        config.moderation = {
+            enabled: true,
+            blocklist: ['giveaway'],
+            blockPatterns: ['\\bDM me\\b'],
+            maxHashtags: 3,
+            maxMentions: 2,
+            classifier: false
+        };
+        config.blogPostScheduler.postAsThread = true;
+        config.blogPostScheduler.threadHook = false;
+
+        const moderation = ModerationService.getInstance();
+        const approvals = ApprovalService.getInstance();
+        const queue = PostJobQueue.getInstance();
+        const context = { contentType: 'daily_tweet' as const, persona: 'marvin' };
+        const rulesHit = async (text: string, extra: object = {}) =>
+            (await moderation.moderate([text], { ...context, ...extra })).issues.map(issue => issue.rule);
+
+        console.log('\n--- Test 1: Each rule blocks what it is for ---');
+        assert.deepStrictEqual(await moderation.moderate(['Paint dries, walls remember.'], context), { allowed: true, issues: [] });
+        assert.deepStrictEqual(await rulesHit('Big GIVEAWAY at the wall!'), ['blocklist']);
+        assert.deepStrictEqual(await rulesHit('Giveaways are fine'), []); // Whole words only
+        assert.deepStrictEqual(await rulesHit('dm me for prints'), ['blocklist']);
+        assert.deepStrictEqual(await rulesHit('Tweet: walls at dusk'), ['prompt_leak']);
+        assert.deepStrictEqual(await rulesHit('As an AI I love walls'), ['prompt_leak']);
+        assert.deepStrictEqual(await rulesHit("Here's a tweet about walls"), ['prompt_leak']);
+
+        const prompt = { system: 'You are Marvin. You paint glitch murals on forgotten city walls at night.', messages: [] };
+        assert.deepStrictEqual(await rulesHit('I paint glitch murals on forgotten city walls at night.', { prompt }), ['prompt_leak']);
+        assert.deepStrictEqual(await rulesHit('Glitch murals again tonight.', { prompt }), []);
+
+        assert.deepStrictEqual(await rulesHit('#art #walls #glitch #night'), ['tag_limits']);
+        assert.deepStrictEqual(await rulesHit('#art #walls https://example.com/post#one #glitch'), []); // A URL fragment is no hashtag
+        assert.deepStrictEqual(await rulesHit('@a @b @c look'), ['tag_limits']);
+
+        const reply = await moderation.moderate(['@fan ask @someone_else, and mail me@example.com'], { ...context, contentType: 'engagement_reply', replyTo: 'Fan' });
+        assert.deepStrictEqual(reply.issues.map(issue => issue.reason), ['mentions @someone_else, who is not the author being answered']);
+
+        // A thread reports the tweet each issue is in
+        const thread = await moderation.moderate(['Fine', 'Tweet: not fine'], context);
+        assert.deepStrictEqual(thread.issues.map(issue => issue.tweet_index), [1]);
+        console.log('Blocklist, prompt leak, tag limit and reply mention rules each blocked their case');
+
+        console.log('\n--- Test 2: The classifier is optional and never blocks when it fails ---');
+        assert.deepStrictEqual(await rulesHit('Buy my prints'), []);
+        config.moderation.classifier = true;
+        const classified = await moderation.moderate(['Buy my prints'], context);
+        assert.deepStrictEqual(classified.issues, [{ rule: 'classifier', reason: 'classified unsafe: sells something', tweet_index: 0 }]);
+        assert.deepStrictEqual(await rulesHit('The wall hums'), []);
+        llmService.setChain('moderation', [{ provider: 'grok' }]); // Not configured here
+        assert.deepStrictEqual(await rulesHit('Buy my prints'), []);
+        config.moderation.classifier = false;
+
+        // A rule that throws is skipped; the others still apply
+        moderation.registerRule({ name: 'broken', check: () => { throw new Error('boom'); } });
+        assert.deepStrictEqual(await rulesHit('Tweet: walls'), ['prompt_leak']);
+        moderation.removeRule('broken');
+        assert.ok(!moderation.getRuleNames().includes('broken'));
+
+        const blocked = await moderation.listVerdicts({ allowed: false, content_type: 'daily_tweet' });
+        assert.ok(blocked.length >= 10);
+        assert.ok(blocked.every(verdict => !verdict.allowed && verdict.issues.length > 0));
+        console.log('Classifier verdicts applied; a failing classifier or rule did not block');
+
+        console.log('\n--- Test 3: A blocked caption is held for review even when review is off ---');
+        generated.push('Tweet: a neon giveaway');
+        assert.strictEqual(await ImageTweetService.getInstance().generateAndPostImageTweet(), true);
+        const [caption] = await approvals.list({ status: 'pending', content_type: 'image_caption' });
+        assert.deepStrictEqual(caption.moderation_issues!.map(issue => issue.rule), ['blocklist', 'prompt_leak']);
+        assert.strictEqual(server.getPostedTweets().length, 0);
+
+        // The reviewer's edit is checked again, and the approved caption goes out
+        const edited = await approvals.edit(caption.id!, ['Neon hums in the alley'], 'admin');
+        assert.deepStrictEqual(edited.moderation_issues, []);
+        await approvals.approve(caption.id!, 'admin');
+        await queue.processDue();
+        assert.deepStrictEqual(server.getPostedTweets().map(tweet => tweet.text), ['Neon hums in the alley']);
+        console.log('Blocked caption held, edited clean, approved and posted');
+
+        console.log('\n--- Test 4: A reply that drags in a third party is held; a clean one is posted ---');
+        const reply1 = server.addTweet({ id: '2001', username: 'wall_watcher' }, '@marvin_mock who painted this?');
+        const reply2 = server.addTweet({ id: '2002', username: 'night_owl' }, '@marvin_mock love the colours');
+        const engagement = (tweet: { id: string; text: string }, username: string, userId: string) => ({
+            user_id: userId,
+            username,
+            engagement_type: 'mention' as const,
+            tweet_id: tweet.id,
+            tweet_content: tweet.text
+        });
+        generated.push('Ask @banksy, not me');
+        await EngagementService.getInstance().logEngagement(engagement(reply1, 'wall_watcher', '2001'));
+        const [heldReply] = await approvals.list({ status: 'pending', content_type: 'engagement_reply' });
+        assert.strictEqual(heldReply.payload.engagement.tweet_id, reply1.id);
+        assert.strictEqual(heldReply.moderation_issues![0].rule, 'reply_mentions');
+
+        generated.push('The colours love you back');
+        await EngagementService.getInstance().logEngagement(engagement(reply2, 'night_owl', '2002'));
+        assert.strictEqual(server.getPostedTweets()[1].text, 'The colours love you back');
+        assert.strictEqual(server.getPostedTweets().length, 2);
+        console.log('Reply mentioning @banksy held for review; the clean reply was posted');
+
+        console.log('\n--- Test 5: Blog threads are checked before they are queued ---');
+        const scheduler = blogPostScheduler as any;
+        await scheduler.checkAndPostBlogPosts('marvin');
+        const [heldThread] = await approvals.list({ status: 'pending', content_type: 'blog_thread' });
+        assert.strictEqual(heldThread.payload.blog_post_id, 'b1');
+        assert.ok(heldThread.moderation_issues!.every(issue => issue.rule === 'blocklist' && issue.tweet_index === 1));
+        assert.strictEqual((await repositories.blogPosts.getById('b1'))!.status, 'ready_to_tweet');
+
+        // The next slot goes to the clean post, which is posted with the thread that was checked
+        await scheduler.checkAndPostBlogPosts('marvin');
+        assert.strictEqual((await repositories.blogPosts.getById('b2'))!.status, 'posted');
+        const job = await repositories.postJobs.findByIdempotencyKey('blog_post:b2');
+        assert.deepStrictEqual(server.getPostedTweets().slice(2).map(tweet => tweet.text), job!.payload.thread_plan.tweets.map((tweet: any) => tweet.text));
+
+        // A single tweet has no review: a blocked one fails its post
+        config.blogPostScheduler.postAsThread = false;
+        await scheduler.checkAndPostBlogPosts('marvin');
+        assert.strictEqual((await repositories.blogPosts.getById('b3'))!.status, 'failed');
+        assert.ok((await repositories.postJobs.findByIdempotencyKey('blog_post:b3'))!.last_error!.startsWith('Blocked by moderation: blocklist'));
+        console.log('b1 held for review, b2 posted as checked, b3 failed as blocked');
+
+        console.log('\n--- Test 6: Turned off, nothing is checked or recorded ---');
+        config.moderation.enabled = false;
+        const before = (await moderation.listVerdicts({}, 1000)).length;
+        assert.deepStrictEqual(await moderation.moderate(['Tweet: giveaway'], context), { allowed: true, issues: [] });
+        assert.strictEqual((await moderation.listVerdicts({}, 1000)).length, before);
+        console.log('Moderation off: everything allowed');
+
+        console.log('\nModeration tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testModeration().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Moderation test failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,191 @@
+import assert from 'assert';
+import { TweetData } from '../services/twitter/TwitterClient';
+import { ApprovalService } from '../services/approval/ApprovalService';
+import { ImageClaimService } from '../services/content/ImageClaimService';
+import { ImageSelector } from '../services/content/ImageSelector';
+import { ImageTweetService } from '../services/content/ImageTweetService';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { ImageRecord } from '../services/repositories';
+import { config } from '../config';
+import { startMockX, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+
+/**
+ * Test script for multi-image tweets
+ * Posts the images of one prompt together with generated alt text, against in-memory storage
+ * and the local mock X API server
+ */
+async function testMultiImageTweets() {
+    const { server, baseUrl } = await startMockX({ now: () => new Date('2025-01-10T12:00:00Z') });
+
+    try {
+        const image = (id: string, promptId: string, day: number, extra: Partial<ImageRecord> = {}): ImageRecord => ({
+            id,
+            prompt_id: promptId,
+            image_url: `${baseUrl}/__mock/assets/${id}.png`,
+            x_posted: false,
+            created_at: `2025-01-0${day}T00:00:00Z`,
+            ...extra
+        });
+        const repositories = useInMemoryRepositories({
+            prompts: [
+                { id: 'p1', text: 'A neon alley wall' },
+                { id: 'p2', text: 'A portrait on brick' },
+                { id: 'p3', text: 'A mural at dawn' }
+            ],
+            images: [
+                image('a1', 'p1', 1), image('a2', 'p1', 1), image('a3', 'p1', 2), image('a4', 'p1', 2), image('a5', 'p1', 3),
+                image('b1', 'p2', 4, { alt_text: 'A face painted in ochre on red brick' }), image('b2', 'p2', 5),
+                image('b3', 'p2', 8), image('b4', 'p2', 8),
+                image('c1', 'p3', 6), image('c2', 'p3', 6), image('c3', 'p3', 6),
+                image('d1', 'p3', 7), image('d2', 'p3', 7)
+            ]
+        });
+
+        let altTextRequests = 0;
+        let altTextFails = false;
+        let captions = 0;
+        useStubProvider(async request => {
+            if (!request.messages[0].content.startsWith('Write the alt text')) {
+                return `The wall hums back, take ${++captions}`;
+            }
+            altTextRequests++;
+            if (altTextFails) {
+                throw new Error('529 Overloaded');
+            }
+            return 'Alt text: "A glowing mural of an alley wall in pink and blue neon"';
+        }, ['image_caption', 'alt_text']);
+        config.approval.required = { daily_tweet: false, image_caption: false, engagement_reply: false, blog_thread: false };
+
+        const settings = config.imageSelection.image_tweet;
+        Object.assign(settings, { strategy: 'fifo', candidates: 10, avoidRepeatDays: 0, tagWeights: {}, maxImages: 4 });
+        const imageTweets = ImageTweetService.getInstance();
+        const claims = ImageClaimService.getInstance();
+        const queue = PostJobQueue.getInstance();
+        const mediaOf = (tweet: TweetData & { media_ids?: string[] }): string[] => tweet.media_ids || [];
+
+        console.log('\n--- Test 1: Unposted images of the picked prompt go in the same tweet, up to four ---');
+        const selection = await ImageSelector.getInstance().select('marvin');
+        assert.strictEqual(selection.image!.id, 'a1');
+        assert.deepStrictEqual(selection.images.map(picked => picked.id), ['a1', 'a2', 'a3', 'a4']);
+        assert.strictEqual(selection.reason, 'oldest unposted image, created 2025-01-01T00:00:00Z, with 3 more image(s) from the same prompt');
+        console.log('a1 picked with a2, a3 and a4; a5 left for the next tweet');
+
+        console.log('\n--- Test 2: The tweet carries every image, each with alt text stored on its record ---');
+        assert.strictEqual(await imageTweets.generateAndPostImageTweet(), true);
+        const [tweet] = server.getPostedTweets();
+        assert.strictEqual(mediaOf(tweet).length, 4);
+        for (const mediaId of mediaOf(tweet)) {
+            assert.strictEqual(server.getMediaAltText(mediaId), 'A glowing mural of an alley wall in pink and blue neon');
+        }
+        for (const id of ['a1', 'a2', 'a3', 'a4']) {
+            const posted = (await repositories.images.getById(id))!;
+            assert.strictEqual(posted.x_posted, true);
+            assert.strictEqual(posted.tweet_id, tweet.id);
+            assert.strictEqual(posted.alt_text, 'A glowing mural of an alley wall in pink and blue neon');
+        }
+        assert.strictEqual(altTextRequests, 1); // One description for the prompt, shared by its images
+        const [job] = await repositories.postJobs.list({ type: 'image_tweet', status: 'completed' }, 10);
+        assert.deepStrictEqual(job.result!.image_ids, ['a1', 'a2', 'a3', 'a4']);
+        console.log(`Tweet ${tweet.id} posted with 4 images and their alt text`);
+
+        console.log('\n--- Test 3: When no alt text can be generated, the prompt describes the image ---');
+        altTextFails = true;
+        assert.strictEqual(await imageTweets.generateAndPostImageTweet(), true);
+        const single = server.getPostedTweets()[1];
+        assert.strictEqual(mediaOf(single).length, 1);
+        assert.strictEqual(server.getMediaAltText(mediaOf(single)[0]), 'Artwork: A neon alley wall');
+        assert.strictEqual((await repositories.images.getById('a5'))!.alt_text, 'Artwork: A neon alley wall');
+        altTextFails = false;
+        console.log('a5 posted alone, described by its prompt');
+
+        console.log('\n--- Test 4: With one image per tweet, stored alt text is posted as it is ---');
+        settings.maxImages = 1;
+        const requests = altTextRequests;
+        assert.strictEqual(await imageTweets.generateAndPostImageTweet(), true);
+        const portrait = server.getPostedTweets()[2];
+        assert.strictEqual(mediaOf(portrait).length, 1);
+        assert.strictEqual(server.getMediaAltText(mediaOf(portrait)[0]), 'A face painted in ochre on red brick');
+        assert.strictEqual(altTextRequests, requests);
+        assert.strictEqual((await repositories.images.getById('b2'))!.x_posted, false);
+        settings.maxImages = 4;
+        console.log('b1 posted alone with its own alt text; b2 left unposted');
+
+        console.log('\n--- Test 5: The images of a tweet are claimed together or not at all ---');
+        await claims.claim('c2', 'worker-b');
+        assert.strictEqual(await claims.claimAll(['c1', 'c2', 'c3'], 'worker-a'), false);
+        assert.strictEqual((await repositories.images.getById('c1'))!.lease_owner, null);
+        assert.ok(!(await repositories.images.getById('c3'))!.lease_owner);
+
+        // The job is retried later while one of its images is held by another worker
+        const blocked = await queue.enqueueAndRun({
+            type: 'image_tweet',
+            idempotencyKey: 'image_tweet:c1',
+            payload: { image_id: 'c1', image_ids: ['c1', 'c2', 'c3'], content: { text: 'Dawn on the mural', platform: 'twitter' }, persona: 'marvin' }
+        });
+        assert.deepStrictEqual([blocked.status, blocked.attempts], ['pending', 1]);
+        assert.strictEqual(server.getPostedTweets().length, 3);
+        assert.ok(!(await repositories.images.getById('c1'))!.lease_owner);
+        await claims.release('c2', 'worker-b');
+
+        // An image posted in another tweet in the meantime is left out
+        await repositories.images.markPosted('c3', '1700000000000000099');
+        assert.strictEqual(await queue.processDue(new Date(Date.now() + 60 * 60 * 1000)), 1);
+        const grouped = (await queue.getById(blocked.id!))!;
+        assert.strictEqual(grouped.status, 'completed');
+        assert.deepStrictEqual(grouped.result!.image_ids, ['c1', 'c2']);
+        assert.strictEqual(mediaOf(server.getPostedTweets()[3]).length, 2);
+        assert.strictEqual((await repositories.images.getById('c3'))!.tweet_id, '1700000000000000099');
+        console.log('Nothing claimed while c2 was held; c1 and c2 posted once it was released');
+
+        console.log('\n--- Test 6: Reconciliation marks every image of a tweet that was not marked ---');
+        const markPosted = repositories.images.markPosted.bind(repositories.images);
+        repositories.images.markPosted = async () => { throw new Error('connection reset'); };
+        const unmarked = await queue.enqueueAndRun({
+            type: 'image_tweet',
+            idempotencyKey: 'image_tweet:d1',
+            payload: { image_id: 'd1', image_ids: ['d1', 'd2'], content: { text: 'Two walls, one song', platform: 'twitter' }, persona: 'marvin' }
+        });
+        repositories.images.markPosted = markPosted;
+        assert.strictEqual(unmarked.status, 'completed');
+        assert.deepStrictEqual(await claims.reconcile(), { marked: ['d1', 'd2'], released: [], kept: [] });
+        for (const id of ['d1', 'd2']) {
+            assert.strictEqual((await repositories.images.getById(id))!.tweet_id, unmarked.result!.tweet_id);
+        }
+        assert.strictEqual(server.getPostedTweets().length, 5);
+        console.log('d1 and d2 marked with their tweet');
+
+        console.log('\n--- Test 7: Images of a tweet waiting for review are neither picked nor added to another tweet ---');
+        await ApprovalService.getInstance().submit({
+            contentType: 'image_caption',
+            persona: 'marvin',
+            texts: ['Two faces on the brick'],
+            generation: { use_case: 'image_caption', prompt: null, provider: 'anthropic', model: 'stub', character_version: 1 },
+            job: {
+                type: 'image_tweet',
+                idempotencyKey: 'image_tweet:b4',
+                payload: { image_id: 'b4', image_ids: ['b4', 'b3'], content: { text: 'Two faces on the brick', platform: 'twitter' }, persona: 'marvin' }
+            }
+        });
+        const held = await ImageSelector.getInstance().select('marvin');
+        assert.deepStrictEqual(held.images.map(picked => picked.id), ['b2']);
+        for (const id of ['b3', 'b4']) {
+            assert.strictEqual(held.candidates.find(candidate => candidate.image_id === id)!.excluded, 'waiting for review');
+        }
+        assert.strictEqual(await imageTweets.generateAndPostImageTweet(), true);
+        assert.strictEqual(mediaOf(server.getPostedTweets()[5]).length, 1);
+        assert.strictEqual((await repositories.images.getById('b3'))!.x_posted, false);
+        console.log('b2 posted alone; b3 and b4 left for the tweet under review');
+
+        console.log('\nMulti-image tweet tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testMultiImageTweets().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Multi-image tweet test failed:', error);
+    process.exit(1);
+});
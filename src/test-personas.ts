@@ -0,0 +1,118 @@
+import assert from 'assert';
+import { config } from '../config';
+import { TwitterService } from '../services/twitter/TwitterService';
+import { EngagementService } from '../services/engagement/EngagementService';
+import { ImageTweetService } from '../services/content/ImageTweetService';
+import { PersonaRegistry } from '../services/persona/PersonaRegistry';
+import { LLMRequest } from '../services/llm/LLMProvider';
+import { startMockX, testCharacter, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+
+/**
+ * Test script for personas
+ * Runs two personas side by side, each against its own mock X API server,
+ * and checks that their characters, replies, ledgers and image queues stay apart
+ */
+async function testPersonas() {
+    const now = () => new Date('2025-01-01T12:00:00Z');
+    config.personas.personas.push({ name: 'yona', agentName: 'yona', twitter: { ...config.twitter }, watermarkPath: null });
+    const { server: marvinServer } = await startMockX({ now });
+    const { server: yonaServer, baseUrl: yonaUrl } = await startMockX({ now, fixture: { me: { id: '1001', username: 'yona_mock', name: 'Yona (mock)' } } }, 'yona');
+
+    try {
+        const character = (agentName: string, displayName: string) => testCharacter({
+            agent_name: agentName,
+            display_name: displayName,
+            content: { bio: [`${displayName} makes art.`], topics: ['art'] }
+        });
+        const image = (id: string, persona?: string) => ({
+            id,
+            prompt_id: 'p1',
+            image_url: `${yonaUrl}/__mock/assets/${id}.png`,
+            x_posted: false,
+            persona,
+            created_at: '2025-01-01T00:00:00Z'
+        });
+        const repositories = useInMemoryRepositories({
+            character_files: [character('marvin', 'Marvin'), character('yona', 'Yona')],
+            prompts: [{ id: 'p1', text: 'Soft synth waves over a city' }],
+            images: [image('i1'), image('i2', 'yona')],
+            blog_posts: [
+                { id: 'b1', title: 'Walls', markdown: '# Walls', status: 'ready_to_tweet', created_at: '2025-01-01T00:00:00Z' },
+                { id: 'b2', title: 'Waves', markdown: '# Waves', status: 'ready_to_tweet', persona: 'yona', created_at: '2025-01-01T00:00:00Z' }
+            ]
+        });
+
+        // A provider that records every request and answers as the persona it was asked to be
+        const requests: LLMRequest[] = [];
+        useStubProvider(async request => {
+            requests.push(request);
+            return `${request.system.split('.')[0]}, take ${requests.length}.`;
+        }, ['mention_reply', 'image_caption']);
+
+        console.log('\n--- Test 1: The registry resolves personas and scopes names ---');
+        const personas = PersonaRegistry.getInstance();
+        assert.strictEqual(personas.get().name, 'marvin');
+        assert.strictEqual(personas.get('Yona').agentName, 'yona');
+        assert.throws(() => personas.get('nobody'), /Unknown persona: nobody/);
+        assert.strictEqual(personas.scope('image_tweet', 'marvin'), 'image_tweet');
+        assert.strictEqual(personas.scope('image_tweet', 'yona'), 'yona:image_tweet');
+        assert.strictEqual(TwitterService.getInstance('YONA'), TwitterService.getInstance('yona'));
+        assert.notStrictEqual(EngagementService.getInstance('yona'), EngagementService.getInstance());
+        console.log('Personas:', personas.list().map(p => p.name).join(', '));
+
+        console.log('\n--- Test 2: A tweet mentioning both personas is answered by each, in character ---');
+        const fan = { id: '2001', username: 'wall_watcher' };
+        const toMarvin = marvinServer.addTweet(fan, '@marvin_mock @yona_mock who made this?');
+        const toYona = yonaServer.addTweet(fan, '@marvin_mock @yona_mock who made this?');
+        assert.strictEqual(toMarvin.id, toYona.id);
+
+        await TwitterService.getInstance().monitorEngagements();
+        await TwitterService.getInstance('yona').monitorEngagements();
+        assert.deepStrictEqual(marvinServer.getPostedTweets().map(t => t.text), ['You are Marvin, take 1.']);
+        assert.deepStrictEqual(yonaServer.getPostedTweets().map(t => t.text), ['You are Yona, take 2.']);
+        assert.ok((await repositories.conversations.findByTweetId(toMarvin.id, 'marvin'))!.response_tweet_id);
+        assert.ok((await repositories.conversations.findByTweetId(toYona.id, 'yona'))!.response_tweet_id);
+
+        const since = new Date(0);
+        assert.strictEqual((await repositories.engagementMetrics.listEngagementsSince(since, 'marvin')).length, 1);
+        assert.strictEqual((await repositories.engagementMetrics.listEngagementsSince(since, 'yona')).length, 1);
+        const jobs = await repositories.postJobs.list({ type: 'engagement_reply' }, 10);
+        assert.deepStrictEqual(jobs.map(job => job.idempotency_key).sort(), [`engagement_reply:${toMarvin.id}`, `yona:engagement_reply:${toYona.id}`]);
+        console.log('Both personas replied once, each from its own account');
+
+        console.log('\n--- Test 3: Image queues and blog posts are per persona ---');
+        assert.strictEqual(await ImageTweetService.getInstance('yona').generateAndPostImageTweet(), true);
+        assert.strictEqual(yonaServer.getPostedTweets().slice(-1)[0].text, 'You are Yona, take 3.');
+        const [imageJob] = await repositories.postJobs.list({ type: 'image_tweet' }, 10);
+        assert.strictEqual(imageJob.idempotency_key, 'yona:image_tweet:i2');
+        assert.ok(imageJob.payload.content.hashtags.includes('Yona'));
+        assert.strictEqual((await repositories.images.getById('i2'))!.x_posted, true);
+        assert.deepStrictEqual((await repositories.images.listUnposted('marvin', 10)).map(i => i.id), ['i1']);
+        assert.strictEqual(await ImageTweetService.getInstance('yona').generateAndPostImageTweet(), false);
+        assert.strictEqual(marvinServer.getPostedTweets().length, 1);
+
+        assert.deepStrictEqual((await repositories.blogPosts.listByStatus('ready_to_tweet', 'marvin', 10)).map(p => p.id), ['b1']);
+        assert.deepStrictEqual((await repositories.blogPosts.listByStatus('ready_to_tweet', 'yona', 10)).map(p => p.id), ['b2']);
+        console.log('Yona\'s image was posted from Yona\'s account; Marvin\'s image and blog post were left alone');
+
+        console.log('\n--- Test 4: Engagement rules are per persona ---');
+        const marvinRules = EngagementService.getInstance().getRules();
+        EngagementService.getInstance('yona').updateRules([{ type: 'mention', condition: 'first_time', action: 'log_only', priority: 1 }]);
+        assert.strictEqual(EngagementService.getInstance('yona').getRules().length, 1);
+        assert.deepStrictEqual(EngagementService.getInstance().getRules(), marvinRules);
+        console.log('Updating Yona\'s rules left Marvin\'s unchanged');
+
+        console.log('\nPersona tests passed');
+    } finally {
+        await marvinServer.stop();
+        await yonaServer.stop();
+    }
+}
+
+// Run the test
+testPersonas().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Persona test failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,121 @@
+import assert from 'assert';
+import { config } from '../config';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { createInMemoryRepositories, setRepositories } from '../services/repositories';
+
+/**
+ * Test script for the post job queue
+ * Runs jobs through a stub handler against in-memory storage, so no database or Twitter access is needed
+ */
+async function testPostJobQueue() {
+    const repositories = createInMemoryRepositories();
+    setRepositories(repositories);
+    const queue = PostJobQueue.getInstance();
+
+    // A handler that fails with whatever error is queued up, then succeeds
+    const failures: any[] = [];
+    let published = 0;
+    queue.registerHandler('image_tweet', async job => {
+        const error = failures.shift();
+        if (error) {
+            throw error;
+        }
+        published++;
+        return { success: true, result: { tweet_id: `tweet_${job.payload.image_id}` } };
+    });
+    const rateLimit = () => Object.assign(new Error('Too Many Requests'), {
+        code: 429,
+        response: { headers: { 'retry-after': '900' } }
+    });
+
+    console.log('\n--- Test 1: Enqueueing is idempotent ---');
+    const options = { type: 'image_tweet' as const, idempotencyKey: 'image_tweet:i1', payload: { image_id: 'i1' } };
+    const first = await queue.enqueue(options);
+    const second = await queue.enqueue(options);
+    assert.strictEqual(first.id, second.id);
+    assert.strictEqual((await queue.list()).length, 1);
+    console.log('Same key returns the same job');
+
+    console.log('\n--- Test 2: Retryable failures are rescheduled with backoff ---');
+    failures.push(rateLimit());
+    const now = new Date(Date.now() + 1000);
+    assert.strictEqual(await queue.processDue(now), 1);
+    let job = (await queue.getById(first.id!))!;
+    assert.strictEqual(job.status, 'pending');
+    assert.strictEqual(job.attempts, 1);
+    assert.strictEqual(job.last_error, 'Too Many Requests');
+    assert.strictEqual(job.next_attempt_at, new Date(now.getTime() + 900 * 1000).toISOString());
+
+    // Not due yet, then due
+    assert.strictEqual(await queue.processDue(new Date(now.getTime() + 60 * 1000)), 0);
+    assert.strictEqual(await queue.processDue(new Date(now.getTime() + 901 * 1000)), 1);
+    job = (await queue.getById(first.id!))!;
+    assert.strictEqual(job.status, 'completed');
+    assert.deepStrictEqual(job.result, { tweet_id: 'tweet_i1' });
+    assert.strictEqual(published, 1);
+    console.log('Rate-limited job retried after retry-after and completed');
+
+    console.log('\n--- Test 3: Jobs fail after max attempts or on non-retryable errors ---');
+    const later = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    const exhausted = await queue.enqueue({ ...options, idempotencyKey: 'image_tweet:i2', payload: { image_id: 'i2' } });
+    for (let i = 0; i < config.jobQueue.maxAttempts; i++) {
+        failures.push(Object.assign(new Error('Service Unavailable'), { code: 503 }));
+    }
+    for (let i = 0; i < config.jobQueue.maxAttempts; i++) {
+        await queue.processDue(new Date(later.getTime() + i * 24 * 60 * 60 * 1000));
+    }
+    assert.strictEqual((await queue.getById(exhausted.id!))!.status, 'failed');
+
+    failures.push(Object.assign(new Error('Forbidden'), { code: 403 }));
+    const forbidden = await queue.enqueueAndRun({ ...options, idempotencyKey: 'image_tweet:i3', payload: { image_id: 'i3' } });
+    assert.strictEqual(forbidden.status, 'failed');
+    assert.strictEqual(forbidden.attempts, 1);
+    assert.deepStrictEqual(await queue.getDepths(), { pending: 0, running: 0, failed: 2 });
+    console.log('Exhausted and forbidden jobs failed');
+
+    console.log('\n--- Test 4: Requeue and cancel ---');
+    await queue.requeue(forbidden.id!);
+    job = (await queue.getById(forbidden.id!))!;
+    assert.strictEqual(job.status, 'pending');
+    assert.strictEqual(job.attempts, 0);
+    await queue.cancel(forbidden.id!);
+    assert.strictEqual((await queue.getById(forbidden.id!))!.status, 'cancelled');
+    await assert.rejects(queue.cancel(first.id!));
+    assert.strictEqual(await queue.processDue(new Date(later.getTime() + 30 * 24 * 60 * 60 * 1000)), 0);
+    assert.strictEqual(published, 1);
+    console.log('Requeued job was cancelled and never published');
+
+    console.log('\n--- Test 5: A job is attempted by one worker, and recovered only once it has run too long ---');
+    const raced = await queue.enqueue({ ...options, idempotencyKey: 'image_tweet:i4', payload: { image_id: 'i4' } });
+    await Promise.all([queue.processDue(new Date()), queue.enqueueAndRun({ ...options, idempotencyKey: 'image_tweet:i4', payload: { image_id: 'i4' } })]);
+    job = (await queue.getById(raced.id!))!;
+    assert.deepStrictEqual([job.status, job.attempts], ['completed', 1]);
+    assert.strictEqual(published, 2);
+
+    // Another process is running this job
+    const held = await queue.enqueue({ ...options, idempotencyKey: 'image_tweet:i5', payload: { image_id: 'i5' } });
+    const startedAt = new Date();
+    assert.strictEqual(await repositories.postJobs.claim(held.id!, 1, startedAt), true);
+    assert.strictEqual(await repositories.postJobs.claim(held.id!, 1, startedAt), false);
+    const timeout = config.jobQueue.runningTimeoutSeconds * 1000;
+    await queue.processDue(new Date(startedAt.getTime() + timeout - 1000));
+    assert.strictEqual((await queue.getById(held.id!))!.status, 'running');
+    assert.strictEqual(published, 2);
+
+    // Past the timeout it is put back in the queue and run here
+    assert.strictEqual(await queue.processDue(new Date(startedAt.getTime() + timeout + 1000)), 1);
+    job = (await queue.getById(held.id!))!;
+    assert.deepStrictEqual([job.status, job.attempts, job.started_at], ['completed', 2, null]);
+    assert.strictEqual(published, 3);
+    console.log('Raced job published once; a running job was left alone until it ran past the timeout');
+
+    console.log('\nPost job queue tests passed');
+}
+
+// Run the test
+testPostJobQueue().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Post job queue test failed:', error);
+    process.exit(1);
+});
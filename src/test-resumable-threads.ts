@@ -0,0 +1,129 @@
+import assert from 'assert';
+import { HttpTwitterClient } from '../services/twitter/HttpTwitterClient';
+import { TweetData, TweetOptions, TwitterClientError } from '../services/twitter/TwitterClient';
+import { TwitterService } from '../services/twitter/TwitterService';
+import { BlogThreadService, ThreadProgress } from '../services/content/BlogThreadService';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { BlogPostRecord } from '../services/repositories';
+import { blogPostScheduler } from './blog-post-scheduler';
+import { startMockX, useInMemoryRepositories } from './fixtures/testHarness';
+import { config } from '../config';
+
+/**
+ * A client whose chosen tweet() calls fail, to stop a thread part way through
+ */
+class FlakyTwitterClient extends HttpTwitterClient {
+    private calls = 0;
+    public failures = new Map<number, number>(); // Call number to the status it fails with
+
+    public async tweet(options: TweetOptions): Promise<TweetData> {
+        const status = this.failures.get(++this.calls);
+        if (status) {
+            throw new TwitterClientError(`Request failed with status code ${status}`, status);
+        }
+        return super.tweet(options);
+    }
+}
+
+/**
+ * Test script for resumable blog post threads
+ * Stops threads part way through, resumes them from the first unposted part and cleans up
+ * the ones nobody will finish, against the local mock X API server
+ */
+async function testResumableThreads() {
+    const { server, baseUrl } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+
+    try {
+        const post = (id: string): BlogPostRecord => ({
+            id,
+            title: `Walls ${id}`,
+            markdown: ['## First', 'One. '.repeat(40).trim(), '## Second', 'Two. '.repeat(40).trim(), '## Third', 'Three. '.repeat(40).trim()].join('\n\n'),
+            status: 'ready_to_tweet',
+            post_url: `https://example.com/blog/${id}`,
+            created_at: '2025-01-01T00:00:00Z'
+        });
+        const repositories = useInMemoryRepositories({
+            blog_posts: [post('b1'), { ...post('b2'), status: 'draft' }]
+        });
+        config.blogPostScheduler.postAsThread = true;
+        config.blogPostScheduler.threadHook = false;
+
+        const client = new FlakyTwitterClient(baseUrl);
+        TwitterService.getInstance().setClient(client);
+        const threads = BlogThreadService.getInstance();
+        const queue = PostJobQueue.getInstance();
+        const check = () => (blogPostScheduler as any).checkAndPostBlogPosts('marvin');
+        const draftsOf = (blogPostId: string) => repositories.tweetDrafts.listByBlogPostId(blogPostId);
+
+        console.log('\n--- Test 1: A failed part leaves the posted parts recorded in the draft ---');
+        client.failures.set(3, 503);
+        await check();
+        const [draft] = await draftsOf('b1');
+        const progress = draft.metadata as ThreadProgress;
+        const totalParts = progress.thread_plan.tweets.length;
+        assert.strictEqual(draft.status, 'posting');
+        assert.ok(totalParts >= 4);
+        assert.strictEqual(progress.tweet_ids.length, 2);
+        assert.deepStrictEqual(server.getPostedTweets().map(tweet => tweet.id), progress.tweet_ids);
+        const job = (await queue.list({ type: 'blog_post' }))[0];
+        assert.strictEqual(job.status, 'pending');
+        console.log(`Posted 2 of ${totalParts} parts before part 3 failed`);
+
+        console.log('\n--- Test 2: A pending job\'s thread is not orphaned and cannot be cleaned up ---');
+        let partial = await threads.listPartialThreads();
+        assert.deepStrictEqual(partial, [{ blogPostId: 'b1', draftId: draft.id, postedParts: 2, totalParts, jobStatus: 'pending', orphaned: false }]);
+        await assert.rejects(threads.cleanupPartialThread('b1'), /cancel the job first/);
+        console.log('Cleanup refused while the job may still finish the thread');
+
+        console.log('\n--- Test 3: The retry posts only the remaining parts, replying to the last posted one ---');
+        await queue.processDue(new Date(Date.now() + 24 * 60 * 60 * 1000));
+        const posted = server.getPostedTweets();
+        assert.strictEqual(posted.length, totalParts);
+        assert.deepStrictEqual(posted[2].referenced_tweets, [{ type: 'replied_to', id: progress.tweet_ids[1] }]);
+        posted.forEach((tweet, index) => assert.ok(tweet.text.endsWith(` (${index + 1}/${totalParts})`)));
+        assert.strictEqual(new Set(posted.map(tweet => tweet.text)).size, totalParts);
+        assert.strictEqual((await queue.getById(job.id!))!.status, 'completed');
+
+        const drafts = await draftsOf('b1');
+        assert.strictEqual(drafts.length, 1);
+        assert.strictEqual(drafts[0].status, 'posted');
+        assert.deepStrictEqual(drafts[0].metadata!.tweet_ids, posted.map(tweet => tweet.id));
+        assert.strictEqual((await repositories.blogPosts.getById('b1'))!.status, 'posted');
+        assert.deepStrictEqual(await threads.listPartialThreads(), []);
+        console.log(`Resumed at part 3 and finished all ${totalParts} parts without reposting any`);
+
+        console.log('\n--- Test 4: A failed job orphans its thread, and cleanup deletes the posted parts ---');
+        await repositories.blogPosts.update('b2', { status: 'ready_to_tweet' });
+        const calls = totalParts + 1; // Calls made so far, including the failed one
+        client.failures.set(calls + 4, 403);
+        await check();
+        partial = await threads.listPartialThreads();
+        assert.strictEqual(partial.length, 1);
+        assert.strictEqual(partial[0].postedParts, 3);
+        assert.strictEqual(partial[0].jobStatus, 'failed');
+        assert.strictEqual(partial[0].orphaned, true);
+        assert.strictEqual(server.getPostedTweets().length, totalParts + 3);
+
+        assert.strictEqual(await threads.cleanupPartialThread('b2'), 3);
+        assert.strictEqual(server.getPostedTweets().length, totalParts);
+        const [abandoned] = await draftsOf('b2');
+        assert.strictEqual(abandoned.status, 'abandoned');
+        assert.deepStrictEqual(abandoned.metadata!.tweet_ids, []);
+        assert.strictEqual(abandoned.metadata!.deleted_tweet_ids.length, 3);
+        assert.deepStrictEqual(await threads.listPartialThreads(), []);
+        await assert.rejects(threads.cleanupPartialThread('b2'), /no unfinished thread/);
+        console.log('Deleted the 3 posted parts and marked the draft abandoned');
+
+        console.log('\nResumable thread tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testResumableThreads().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Resumable thread test failed:', error);
+    process.exit(1);
+});
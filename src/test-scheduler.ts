@@ -0,0 +1,119 @@
+import assert from 'assert';
+import { config } from '../config';
+import { CronExpression } from '../services/scheduler/CronExpression';
+import { SchedulerService } from '../services/scheduler/SchedulerService';
+import { createInMemoryRepositories, setRepositories } from '../services/repositories';
+
+/**
+ * Test script for the scheduler
+ * Checks cron evaluation across time zones and runs a test job against in-memory storage
+ */
+async function testScheduler() {
+    const next = (expression: string, timeZone: string, after: string) =>
+        new CronExpression(expression, timeZone).next(new Date(after)).toISOString();
+
+    console.log('\n--- Test 1: Cron expressions are evaluated in their time zone ---');
+    // 13:00 in New York is 18:00 UTC in winter and 17:00 UTC once DST starts (8 March 2026)
+    assert.strictEqual(next('0 13 * * *', 'America/New_York', '2026-03-06T20:00:00Z'), '2026-03-07T18:00:00.000Z');
+    assert.strictEqual(next('0 13 * * *', 'America/New_York', '2026-03-07T20:00:00Z'), '2026-03-08T17:00:00.000Z');
+    // 02:30 does not exist on the day clocks go forward, so that day is skipped
+    assert.strictEqual(next('30 2 * * *', 'America/New_York', '2026-03-08T06:00:00Z'), '2026-03-09T06:30:00.000Z');
+    // Monday and Thursday at 09:00 London time (BST)
+    assert.strictEqual(next('0 9 * * mon,thu', 'Europe/London', '2026-10-19T12:00:00Z'), '2026-10-22T08:00:00.000Z');
+    // Skipping a 23-hour day lands on the next local midnight, not an hour past it
+    assert.strictEqual(next('0 0 * * mon', 'America/New_York', '2026-03-07T12:00:00Z'), '2026-03-09T04:00:00.000Z');
+    assert.strictEqual(next('30 0 * * mon', 'Europe/London', '2026-03-28T12:00:00Z'), '2026-03-29T23:30:00.000Z');
+    assert.strictEqual(next('*/10 * * * *', 'UTC', '2026-10-19T12:04:59Z'), '2026-10-19T12:10:00.000Z');
+    console.log('Next runs match across time zones and DST');
+
+    console.log('\n--- Test 2: Day fields match if either one does ---');
+    // 1 October 2026 is a Thursday
+    assert.strictEqual(next('0 0 13 * 5', 'UTC', '2026-10-01T00:00:00Z'), '2026-10-02T00:00:00.000Z');
+    assert.strictEqual(next('0 0 13 * *', 'UTC', '2026-10-01T00:00:00Z'), '2026-10-13T00:00:00.000Z');
+    assert.strictEqual(next('0 0 * * 7', 'UTC', '2026-10-01T00:00:00Z'), '2026-10-04T00:00:00.000Z');
+    assert.throws(() => new CronExpression('61 * * * *', 'UTC'));
+    assert.throws(() => new CronExpression('0 13 * *', 'UTC'));
+    assert.throws(() => new CronExpression('0 13 * * *', 'Mars/Olympus_Mons'));
+    assert.throws(() => new CronExpression('0 0 30 2 *', 'UTC').next(new Date()));
+    console.log('Day-of-month/day-of-week semantics and validation hold');
+
+    // A daily job whose last recorded run was three days ago
+    const lastScheduled = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+    lastScheduled.setUTCHours(13, 0, 0, 0);
+    const repositories = createInMemoryRepositories({
+        scheduled_job_runs: [{
+            id: 'run_0',
+            job_name: 'test_job',
+            trigger: 'schedule',
+            scheduled_for: lastScheduled.toISOString(),
+            started_at: lastScheduled.toISOString(),
+            finished_at: lastScheduled.toISOString(),
+            status: 'succeeded'
+        }]
+    });
+    setRepositories(repositories);
+    config.scheduler.jobs.test_job = { cron: '0 13 * * *', timezone: 'UTC', catchUp: 'run_once', runOnStart: false };
+    const scheduler = SchedulerService.getInstance();
+
+    let release = () => {};
+    let fail = false;
+    const triggers: string[] = [];
+    scheduler.register('test_job', async () => {
+        triggers.push('run');
+        if (fail) {
+            throw new Error('boom');
+        }
+        await new Promise<void>(resolve => { release = resolve; });
+    });
+
+    console.log('\n--- Test 3: A missed run is caught up once on startup ---');
+    const starting = scheduler.start();
+    await new Promise(resolve => setImmediate(resolve));
+    release();
+    await starting;
+    assert.strictEqual(triggers.length, 1);
+    let [latest] = await scheduler.getHistory('test_job', 1);
+    assert.strictEqual(latest.trigger, 'catch_up');
+    assert.strictEqual(latest.status, 'succeeded');
+    const lastMissed = new Date();
+    if (lastMissed.getUTCHours() < 13) {
+        lastMissed.setUTCDate(lastMissed.getUTCDate() - 1);
+    }
+    lastMissed.setUTCHours(13, 0, 0, 0);
+    assert.strictEqual(latest.scheduled_for, lastMissed.toISOString());
+    console.log('Caught up the runs missed since', lastScheduled.toISOString());
+
+    console.log('\n--- Test 4: Runs never overlap ---');
+    const first = scheduler.runNow('test_job');
+    await new Promise(resolve => setImmediate(resolve));
+    const second = await scheduler.runNow('test_job');
+    assert.strictEqual(second.status, 'skipped');
+    release();
+    assert.strictEqual((await first).status, 'succeeded');
+    assert.strictEqual(triggers.length, 2);
+    console.log('Overlapping run was skipped');
+
+    console.log('\n--- Test 5: Failures and next runs are reported ---');
+    fail = true;
+    const failed = await scheduler.runNow('test_job');
+    assert.strictEqual(failed.status, 'failed');
+    assert.strictEqual(failed.error, 'boom');
+    const job = (await scheduler.getJobs()).find(status => status.name === 'test_job')!;
+    assert.strictEqual(job.enabled, true);
+    assert.strictEqual(job.nextRunAt, new CronExpression('0 13 * * *', 'UTC').next(new Date()).toISOString());
+    assert.strictEqual(job.lastRun?.status, 'failed');
+    const history = await scheduler.getHistory('test_job', 10);
+    assert.deepStrictEqual(history.map(run => run.status).sort(), ['failed', 'skipped', 'succeeded', 'succeeded', 'succeeded']);
+    console.log('Next run:', job.nextRunAt);
+
+    scheduler.stop();
+    console.log('\nScheduler tests passed');
+}
+
+// Run the test
+testScheduler().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Scheduler test failed:', error);
+    process.exit(1);
+});
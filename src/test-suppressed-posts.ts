@@ -0,0 +1,89 @@
+import assert from 'assert';
+import { config } from '../config';
+import { EngagementService, EngagementMetric } from '../services/engagement/EngagementService';
+import { LLMService } from '../services/llm/LLMService';
+import { SuppressedPostService } from '../services/suppression/SuppressedPostService';
+import { startMockX, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+
+/**
+ * Test script for suppressed posts
+ * Checks that a failed generation posts nothing, is recorded,
+ * and is retried until it posts or is routed to review, against the local mock X API server
+ */
+async function testSuppressedPosts() {
+    const { server } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+
+    try {
+        const repositories = useInMemoryRepositories();
+
+        // A provider that fails until told otherwise
+        let providerUp = false;
+        useStubProvider(async () => {
+            if (!providerUp) {
+                throw new Error('overloaded');
+            }
+            return 'Static hums back at you.';
+        }, ['mention_reply']);
+        const llmService = LLMService.getInstance();
+        const postedTexts = () => server.getPostedTweets().map(tweet => tweet.text);
+
+        const engagementService = EngagementService.getInstance();
+        const mention: EngagementMetric = {
+            user_id: 'u1',
+            username: 'fan_one',
+            engagement_type: 'mention',
+            tweet_id: 't1',
+            tweet_content: '@marvin what is glitch art?'
+        };
+
+        console.log('\n--- Test 1: A failed reply is suppressed, not posted ---');
+        await engagementService.logEngagement(mention);
+        assert.deepStrictEqual(postedTexts(), []);
+        let [record] = await repositories.suppressedPosts.list(undefined, 10);
+        assert.strictEqual(record.content_type, 'mention_reply');
+        assert.strictEqual(record.status, 'pending_retry');
+        assert.strictEqual(record.payload?.engagement.tweet_id, 't1');
+        console.log('Suppressed:', record.reason);
+
+        console.log('\n--- Test 2: Retries run out and route to review ---');
+        for (let i = 0; i < config.generationFailures.maxRetries; i++) {
+            await engagementService.retrySuppressedReplies();
+        }
+        record = (await repositories.suppressedPosts.getById(record.id!))!;
+        assert.strictEqual(record.status, 'pending_review');
+        assert.strictEqual(record.attempts, config.generationFailures.maxRetries + 1);
+        assert.deepStrictEqual(postedTexts(), []);
+        let [health] = llmService.getProviderHealth().filter(provider => provider.provider === 'anthropic');
+        assert.strictEqual(health.consecutiveFailures, record.attempts);
+        assert.strictEqual(health.lastError, 'overloaded');
+        console.log(`Routed to review after ${record.attempts} attempts`);
+
+        console.log('\n--- Test 3: A successful retry posts and resolves ---');
+        await engagementService.logEngagement({ ...mention, tweet_id: 't2' });
+        providerUp = true;
+        assert.strictEqual(await engagementService.retrySuppressedReplies(), 1);
+        assert.deepStrictEqual(postedTexts(), ['Static hums back at you.']);
+        const resolved = await repositories.suppressedPosts.list('resolved', 10);
+        assert.strictEqual(resolved.length, 1);
+        const job = (await repositories.postJobs.getById(resolved[0].payload?.post_job_id))!;
+        assert.strictEqual(job.status, 'completed');
+        assert.strictEqual(job.result?.tweet_id, server.getPostedTweets()[0].id);
+        [health] = llmService.getProviderHealth().filter(provider => provider.provider === 'anthropic');
+        assert.strictEqual(health.consecutiveFailures, 0);
+        assert.ok(health.lastSuccessAt);
+        assert.deepStrictEqual(await SuppressedPostService.getInstance().getDepths(), { pending_retry: 0, pending_review: 1 });
+        console.log('Retried reply posted and resolved');
+
+        console.log('\nSuppressed post tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testSuppressedPosts().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Suppressed post test failed:', error);
+    process.exit(1);
+});
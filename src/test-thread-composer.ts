@@ -0,0 +1,154 @@
+import assert from 'assert';
+import { TweetData } from '../services/twitter/TwitterClient';
+import { fitsInTweet } from '../services/twitter/TweetText';
+import { parseBlogMarkdown } from '../services/content/BlogMarkdown';
+import { ThreadComposer } from '../services/content/ThreadComposer';
+import { LLMRequest } from '../services/llm/LLMProvider';
+import { BlogPostRecord } from '../services/repositories';
+import { blogPostScheduler } from './blog-post-scheduler';
+import { startMockX, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+
+/**
+ * Test script for the blog thread composer
+ * Parses blog markdown, lays a blog post out as a thread and posts it with its images
+ * against the local mock X API server
+ */
+async function testThreadComposer() {
+    const { server, baseUrl } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+
+    try {
+        useInMemoryRepositories();
+
+        // A provider that writes hooks until it is told to fail
+        let hookFails = false;
+        const requests: LLMRequest[] = [];
+        useStubProvider(async request => {
+            requests.push(request);
+            if (hookFails) {
+                throw new Error('provider down');
+            }
+            return 'Every wall is a letter to the city. Here is mine.';
+        }, ['thread_hook']);
+
+        const asset = (name: string) => `${baseUrl}/__mock/assets/${name}.png`;
+        const post: BlogPostRecord = {
+            id: 'b1',
+            title: 'Walls That Remember',
+            markdown: [
+                '# Walls That Remember',
+                '',
+                'Paint fades, but **walls** remember. I spent a month with the [Leake Street tunnel](https://example.com/leake_street) crew.',
+                '',
+                `![The tunnel at night](${asset('tunnel')})`,
+                '',
+                '## What they taught me',
+                '',
+                '- Layer *everything*',
+                '- Sign nothing',
+                '- Come back at dawn',
+                '',
+                '> The wall is never finished.',
+                '',
+                '```',
+                'while (wall) { paint(); }',
+                '```',
+                '',
+                '## The long version',
+                '',
+                'Every night the crew came back. '.repeat(20).trim(),
+                '',
+                '![Dawn](dawn.png)'
+            ].join('\n'),
+            status: 'ready_to_tweet',
+            post_url: 'https://example.com/blog/walls',
+            created_at: '2025-01-01T00:00:00Z'
+        };
+
+        console.log('\n--- Test 1: Markdown is parsed into blocks, keeping links and code ---');
+        const blocks = parseBlogMarkdown(post.markdown);
+        assert.deepStrictEqual(blocks.map(block => block.kind), ['heading', 'paragraph', 'heading', 'list', 'paragraph', 'code', 'heading', 'paragraph']);
+        assert.strictEqual(blocks[1].text, 'Paint fades, but walls remember. I spent a month with the Leake Street tunnel (https://example.com/leake_street) crew.');
+        assert.deepStrictEqual(blocks[1].images, [{ url: asset('tunnel'), alt: 'The tunnel at night' }]);
+        assert.deepStrictEqual(blocks[3].items, ['• Layer everything', '• Sign nothing', '• Come back at dawn']);
+        assert.strictEqual(blocks[4].text, 'The wall is never finished.');
+        assert.strictEqual(blocks[5].text, 'while (wall) { paint(); }');
+        assert.deepStrictEqual(blocks[7].images, [{ url: 'dawn.png', alt: 'Dawn' }]);
+        console.log(`Parsed ${blocks.length} blocks`);
+
+        console.log('\n--- Test 2: Headings start tweets, lists stay together, images go with their text ---');
+        const plan = await ThreadComposer.getInstance().compose(post, { hook: false });
+        assert.strictEqual(plan.opening, 'title');
+        assert.deepStrictEqual(plan.warnings, []);
+        const texts = plan.tweets.map(tweet => tweet.text);
+        texts.forEach((text, index) => {
+            assert.ok(text.endsWith(` (${index + 1}/${texts.length})`));
+            assert.ok(fitsInTweet(text));
+            assert.strictEqual(plan.tweets[index].length <= 280, true);
+        });
+        assert.ok(texts[0].startsWith('Walls That Remember\n\nPaint fades, but walls remember.'));
+        assert.ok(texts[0].includes('https://example.com/leake_street'));
+        assert.deepStrictEqual(plan.tweets[0].images.map(image => image.alt), ['The tunnel at night']);
+        assert.ok(texts[1].startsWith('What they taught me\n\n• Layer everything\n• Sign nothing\n• Come back at dawn'));
+        assert.ok(texts[1].includes('while (wall) { paint(); }'));
+        assert.ok(texts[2].startsWith('The long version\n\nEvery night'));
+        const dawn = plan.tweets.find(tweet => tweet.images.some(image => image.alt === 'Dawn'))!;
+        assert.deepStrictEqual(dawn.images, [{ url: 'https://example.com/blog/dawn.png', alt: 'Dawn' }]);
+        assert.ok(texts[texts.length - 1].includes('Read the full post: https://example.com/blog/walls'));
+        console.log(texts.join('\n---\n'));
+
+        console.log('\n--- Test 3: Long lists split between items and extra images move on ---');
+        const items = Array.from({ length: 12 }, (_, i) => `${i + 1}. Step ${i + 1}: find a wall, read what is already on it, then add one line.`);
+        const images = Array.from({ length: 6 }, (_, i) => `![Step ${i + 1}](${asset(`step${i + 1}`)})`);
+        const listPlan = await ThreadComposer.getInstance().compose({
+            ...post,
+            id: 'b2',
+            markdown: `## Steps\n\n${items.join('\n')}\n\n${images.join('\n')}`,
+            post_url: null
+        }, { hook: false });
+        const listTweets = listPlan.tweets.slice(1);
+        assert.ok(listTweets.length > 1);
+        assert.ok(listTweets[0].text.startsWith('Steps\n\n1. Step 1:'));
+        for (const tweet of listTweets) {
+            assert.ok(tweet.text.split(' (')[0].split('\n').filter(line => /^\d+\. /.test(line)).every(line => line.endsWith('add one line.')));
+        }
+        assert.strictEqual(listPlan.tweets.reduce((count, tweet) => count + tweet.images.length, 0), 6);
+        assert.ok(listPlan.tweets.every(tweet => tweet.images.length <= 4));
+        console.log(`${items.length} items over ${listTweets.length} tweets, 6 images spread at most 4 a tweet`);
+
+        console.log('\n--- Test 4: An LLM hook opens the thread, and the title does when it fails ---');
+        const hooked = await ThreadComposer.getInstance().compose(post, { hook: true });
+        assert.strictEqual(hooked.opening, 'hook');
+        assert.strictEqual(hooked.tweets[0].text, `Every wall is a letter to the city. Here is mine. (1/${hooked.tweets.length})`);
+        assert.ok(hooked.tweets[1].text.startsWith('Walls That Remember'));
+        assert.ok(requests[requests.length - 1].messages[0].content.includes('"Walls That Remember"'));
+
+        hookFails = true;
+        const fallback = await ThreadComposer.getInstance().compose(post, { hook: true });
+        assert.strictEqual(fallback.opening, 'title');
+        assert.deepStrictEqual(fallback.tweets.map(tweet => tweet.text), texts);
+        console.log('Hooked thread opens with the hook; without one it opens with the title');
+
+        console.log('\n--- Test 5: The thread is posted with each image on its tweet ---');
+        const result = await (blogPostScheduler as any).postAsThread({ ...post, post_url: null, markdown: post.markdown.replace('dawn.png', asset('dawn')) });
+        assert.strictEqual(result.success, true);
+        const posted = result.allTweetIds.map((id: string) => server.getTweet(id)) as Array<TweetData & { media_ids?: string[] }>;
+        assert.strictEqual(posted.length, 5);
+        assert.deepStrictEqual(posted.map(tweet => (tweet.media_ids || []).length), [1, 0, 1, 0, 0]);
+        for (let i = 1; i < posted.length; i++) {
+            assert.deepStrictEqual(posted[i].referenced_tweets, [{ type: 'replied_to', id: posted[i - 1].id }]);
+        }
+        console.log(`Posted ${posted.length} tweets with 2 images`);
+
+        console.log('\nThread composer tests passed');
+    } finally {
+        await server.stop();
+    }
+}
+
+// Run the test
+testThreadComposer().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Thread composer test failed:', error);
+    process.exit(1);
+});
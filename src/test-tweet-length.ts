@@ -0,0 +1,124 @@
+import assert from 'assert';
+import { extractUrls, fitsInTweet, graphemes, splitIntoThread, splitIntoTweets, truncateTweet, tweetLength } from '../services/twitter/TweetText';
+import { startMockX } from './fixtures/testHarness';
+
+/**
+ * Test script for tweet length
+ * Counts a corpus of tricky strings the way X does, and checks that truncation and
+ * splitting keep every tweet within the limit without breaking graphemes or URLs
+ */
+async function testTweetLength() {
+    const family = '👩‍👩‍👧‍👦';
+    const hasLoneSurrogate = (text: string) => /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/.test(text);
+
+    console.log('\n--- Test 1: The corpus is counted as X counts it ---');
+    const corpus: Array<[string, number]> = [
+        ['Hello, world!', 13],
+        ['https://example.com/a/very/long/path?with=query&and=more#fragment', 23],
+        ['Read https://marvin.art/blog/walls.', 29],
+        ['(see https://example.com/x) now', 5 + 23 + 5],
+        ['see example.com now', 31],
+        ['mail me at marvin@example.com', 29],
+        ['日本語', 6],
+        ['한국어', 6],
+        ['caf\u00e9', 4],
+        ['cafe\u0301', 4],
+        ['“quoted” — done…', 17],
+        ['👍', 2],
+        ['👍🏽', 2],
+        [family, 2],
+        ['🇯🇵', 2],
+        ['1️⃣', 2],
+        ['❤️', 2],
+        ['#art 🎨', 7]
+    ];
+    for (const [text, expected] of corpus) {
+        assert.strictEqual(tweetLength(text), expected, `length of ${JSON.stringify(text)}`);
+    }
+    assert.deepStrictEqual(extractUrls('(see https://example.com/x) and www.marvin.art, not a@b.com'), ['https://example.com/x', 'www.marvin.art']);
+    assert.deepStrictEqual(graphemes(`a${family}🇯🇵`), ['a', family, '🇯🇵']);
+
+    assert.ok(fitsInTweet('x'.repeat(280)));
+    assert.ok(!fitsInTweet('x'.repeat(281)));
+    assert.ok(fitsInTweet('日'.repeat(140)));
+    assert.ok(!fitsInTweet('日'.repeat(141)));
+    assert.ok(fitsInTweet('😀'.repeat(140)));
+    assert.ok(fitsInTweet(`${'x'.repeat(256)} https://example.com/${'y'.repeat(500)}`));
+    console.log(`${corpus.length} strings counted`);
+
+    console.log('\n--- Test 2: Truncation keeps whole graphemes and URLs ---');
+    assert.strictEqual(truncateTweet('Short and sweet'), 'Short and sweet');
+    assert.strictEqual(truncateTweet('x'.repeat(300)), `${'x'.repeat(277)}...`);
+
+    const emoji = truncateTweet('😀'.repeat(200));
+    assert.strictEqual(emoji, `${'😀'.repeat(138)}...`);
+    assert.ok(!hasLoneSurrogate(emoji));
+
+    const families = truncateTweet(family.repeat(200));
+    assert.ok(fitsInTweet(families));
+    assert.ok(graphemes(families.slice(0, -3)).every(grapheme => grapheme === family));
+
+    const cjk = truncateTweet('日本語'.repeat(100));
+    assert.strictEqual(tweetLength(cjk), 279);
+    assert.ok(cjk.startsWith('日本語'.repeat(46)));
+
+    const withUrl = truncateTweet(`${'a'.repeat(260)} https://example.com/long`);
+    assert.strictEqual(withUrl, `${'a'.repeat(260)}...`);
+    assert.strictEqual(truncateTweet('cafe\u0301 '.repeat(100)), truncateTweet('caf\u00e9 '.repeat(100)));
+    console.log('Emoji, ZWJ families, CJK and URLs survive truncation');
+
+    console.log('\n--- Test 3: Splitting prefers paragraphs, sentences, then words ---');
+    assert.deepStrictEqual(splitIntoTweets(`${'A'.repeat(200)}\n\n${'B'.repeat(200)}`), ['A'.repeat(200), 'B'.repeat(200)]);
+
+    const sentences = 'Walls remember everything. '.repeat(30).trim();
+    const sentenceChunks = splitIntoTweets(sentences);
+    assert.ok(sentenceChunks.every(chunk => fitsInTweet(chunk) && chunk.endsWith('everything.')));
+    assert.strictEqual(sentenceChunks.join(' '), sentences);
+
+    const cjkChunks = splitIntoTweets('日本語の文章です'.repeat(40));
+    assert.ok(cjkChunks.every(chunk => tweetLength(chunk) === 280 || chunk === cjkChunks[cjkChunks.length - 1]));
+    assert.strictEqual(cjkChunks.join(''), '日本語の文章です'.repeat(40));
+
+    const familyChunks = splitIntoTweets(family.repeat(300));
+    assert.ok(familyChunks.every(chunk => graphemes(chunk).every(grapheme => grapheme === family)));
+    assert.strictEqual(familyChunks.join(''), family.repeat(300));
+
+    const url = `https://marvin.art/${'walls/'.repeat(60)}`;
+    const urlChunks = splitIntoTweets(`${'word '.repeat(52)}${url} more words after it`);
+    assert.ok(urlChunks.some(chunk => chunk.includes(url)));
+    assert.ok(urlChunks.every(chunk => fitsInTweet(chunk)));
+    console.log('Chunks break at paragraphs and sentences and never split a grapheme or URL');
+
+    console.log('\n--- Test 4: Threads number their tweets and every tweet fits ---');
+    const thread = splitIntoThread(`Walls\n\n${'Paint fades but walls remember. 🎨 '.repeat(100)}`);
+    assert.ok(thread.length >= 10);
+    thread.forEach((tweet, index) => {
+        assert.ok(tweet.endsWith(` (${index + 1}/${thread.length})`));
+        assert.ok(fitsInTweet(tweet), `tweet ${index + 1} is ${tweetLength(tweet)} long`);
+        assert.ok(!hasLoneSurrogate(tweet));
+    });
+    assert.deepStrictEqual(splitIntoThread('One short tweet'), ['One short tweet (1/1)']);
+    console.log(`Split into ${thread.length} numbered tweets`);
+
+    console.log('\n--- Test 5: The mock X API counts tweets the same way ---');
+    const { server, client } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z') });
+    try {
+        await client.tweet({ text: '日'.repeat(140) });
+        await client.tweet({ text: `${'x'.repeat(250)} https://example.com/${'y'.repeat(100)}` });
+        await assert.rejects(client.tweet({ text: '日'.repeat(141) }));
+        assert.strictEqual(server.getPostedTweets().length, 2);
+        console.log('The mock accepted 280 weighted characters and rejected 282');
+    } finally {
+        await server.stop();
+    }
+
+    console.log('\nTweet length tests passed');
+}
+
+// Run the test
+testTweetLength().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Tweet length test failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,184 @@
+import assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MockXApiServer } from '../services/twitter/MockXApiServer';
+import { HttpTwitterClient } from '../services/twitter/HttpTwitterClient';
+import { TwitterService } from '../services/twitter/TwitterService';
+import { MP4 } from '../services/media/MediaType';
+import { ApprovalService } from '../services/approval/ApprovalService';
+import { VideoTweetService } from '../services/content/VideoTweetService';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { TweetData } from '../services/twitter/TwitterClient';
+import { VideoRecord } from '../services/repositories';
+import { config } from '../config';
+import { startMockX, useInMemoryRepositories, useStubProvider } from './fixtures/testHarness';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', 'images', name));
+
+/**
+ * An MP4 file of the given size: an ftyp box, then filler. The mock X API only checks the file type.
+ */
+function mp4(bytes: number): Buffer {
+    const data = Buffer.alloc(bytes);
+    data.writeUInt32BE(24, 0);
+    data.write('ftypisom', 4, 'latin1');
+    data.write('isomiso2avc1mp41', 8 + 4, 'latin1');
+    for (let i = 24; i < bytes; i++) {
+        data[i] = (i * 31) & 0xff;
+    }
+    return data;
+}
+
+/**
+ * Test script for chunked media uploads and video tweets
+ * Uploads videos and GIFs in chunks and posts them, against in-memory storage and the local mock X API server
+ */
+async function testVideoTweets() {
+    const { server, baseUrl, client } = await startMockX({ now: () => new Date('2025-01-01T12:00:00Z'), mediaProcessing: { steps: 2, checkAfterSecs: 0 } });
+    const slowServer = new MockXApiServer({ mediaProcessing: { steps: 2, checkAfterSecs: 30 } });
+    const slowBaseUrl = await slowServer.start();
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'marvin-video-test-'));
+    const limits = { ...config.media };
+
+    try {
+        const asset = (name: string) => `${baseUrl}/__mock/assets/${name}`;
+        const twitter = TwitterService.getInstance();
+        config.media.uploadChunkBytes = 64 * 1024;
+
+        console.log('\n--- Test 1: A video is uploaded in chunks and posted once X has processed it ---');
+        const clip = mp4(300 * 1024);
+        const clipPath = path.join(workDir, 'clip.mp4');
+        fs.writeFileSync(clipPath, clip);
+        const clipId = await twitter.uploadMediaChunked(clipPath, MP4, 'tweet_video');
+        assert.strictEqual(server.getMediaChunks(clipId), 5);
+        assert.ok(server.getMedia(clipId)!.equals(clip));
+        const status = await client.getMediaUploadStatus(clipId);
+        assert.deepStrictEqual([status.state, status.progressPercent], ['succeeded', 100]);
+        console.log(`300KB video uploaded as media ${clipId} in 5 chunks of 64KB`);
+
+        console.log('\n--- Test 2: Media still being processed cannot be posted, and a video goes alone ---');
+        const pendingId = await client.initMediaUpload(clip.length, MP4.mimeType, 'tweet_video');
+        await client.appendMediaChunk(pendingId, 0, clip);
+        const finalized = await client.finalizeMediaUpload(pendingId);
+        assert.deepStrictEqual([finalized.state, finalized.checkAfterSecs], ['pending', 0]);
+        await assert.rejects(client.tweet({ text: 'Too soon', mediaIds: [pendingId] }), /is not ready; its upload is pending/);
+        const imageId = await client.uploadMedia(path.join(__dirname, 'fixtures', 'images', 'signature.png'));
+        await assert.rejects(client.tweet({ text: 'Too much', mediaIds: [clipId, imageId] }), /must be the only media in a tweet/);
+
+        // A short upload, and chunks of an unknown upload, are refused
+        const shortId = await client.initMediaUpload(clip.length, MP4.mimeType, 'tweet_video');
+        await client.appendMediaChunk(shortId, 0, clip.subarray(0, 1000));
+        await assert.rejects(client.finalizeMediaUpload(shortId), /File size mismatch/);
+        await assert.rejects(client.appendMediaChunk('42', 0, clip), /Unknown media ID: 42/);
+        assert.strictEqual(server.getPostedTweets().length, 0);
+        console.log('Unprocessed media, a video with an image and short uploads refused');
+
+        console.log('\n--- Test 3: Processing failures and slow processing fail the upload ---');
+        const notAVideo = path.join(workDir, 'not-a-video.mp4');
+        fs.writeFileSync(notAVideo, fixture('signature.png'));
+        await assert.rejects(twitter.uploadMediaChunked(notAVideo, MP4, 'tweet_video'), /Media processing failed for \d+: File data could not be decoded as video\/mp4/);
+
+        twitter.setClient(new HttpTwitterClient(slowBaseUrl));
+        config.media.processingTimeoutSeconds = 10;
+        await assert.rejects(twitter.uploadMediaChunked(clipPath, MP4, 'tweet_video'), /was not processed within 10 seconds/);
+        config.media.processingTimeoutSeconds = limits.processingTimeoutSeconds;
+        twitter.setClient(client);
+        console.log('Undecodable video and a 30s check interval past a 10s timeout both refused');
+
+        console.log('\n--- Test 4: Downloaded media must be an MP4 or GIF within the size limits ---');
+        server.setAsset('clip.mp4', clip);
+        server.setAsset('animated.gif', fixture('animated.gif'));
+        server.setAsset('page.mp4', fixture('not-found.html'));
+        server.setAsset('still.mp4', fixture('signature.png'));
+        const gifId = await twitter.uploadVideoFromUrl(asset('animated.gif'));
+        assert.ok(server.getMedia(gifId)!.equals(fixture('animated.gif')));
+        await assert.rejects(twitter.uploadVideoFromUrl(asset('page.mp4')), /Unsupported media: an HTML page, not an MP4 video or GIF/);
+        await assert.rejects(twitter.uploadVideoFromUrl(asset('still.mp4')), /Unsupported media: image\/png, not an MP4 video or GIF/);
+        config.media.maxVideoBytes = 100 * 1024;
+        await assert.rejects(twitter.uploadVideoFromUrl(asset('clip.mp4')), /Failed to download media: video is over 102400 bytes/);
+        config.media.maxVideoBytes = limits.maxVideoBytes;
+        assert.deepStrictEqual(fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('marvin-video-') && name !== path.basename(workDir)), []);
+        console.log('GIF uploaded; HTML, PNG and oversized downloads refused, leaving no temporary files');
+
+        console.log('\n--- Test 5: The video_tweet job posts the oldest unposted video with a caption ---');
+        const video = (id: string, name: string, day: number): VideoRecord => ({
+            id,
+            prompt_id: 'p1',
+            video_url: asset(name),
+            x_posted: false,
+            created_at: `2025-01-0${day}T00:00:00Z`
+        });
+        const repositories = useInMemoryRepositories({
+            prompts: [{ id: 'p1', text: 'A mural coming to life' }],
+            videos: [video('v2', 'animated.gif', 2), video('v1', 'clip.mp4', 1), video('v3', 'page.mp4', 3), video('v4', 'clip.mp4', 4)]
+        });
+
+        let captions = 0;
+        useStubProvider(async () => `The wall starts to move, take ${++captions} 🎨`, ['image_caption']);
+        config.approval.required = { daily_tweet: false, image_caption: false, engagement_reply: false, blog_thread: false };
+
+        const videoTweets = VideoTweetService.getInstance();
+        assert.strictEqual(await videoTweets.generateAndPostVideoTweet(), true);
+        const [first] = server.getPostedTweets() as Array<TweetData & { media_ids?: string[] }>;
+        assert.strictEqual(first.text, 'The wall starts to move, take 1 🎨');
+        assert.strictEqual(first.media_ids!.length, 1);
+        assert.ok(server.getMedia(first.media_ids![0])!.equals(clip));
+        const posted = (await repositories.videos.getById('v1'))!;
+        assert.deepStrictEqual([posted.x_posted, posted.tweet_id], [true, first.id]);
+        const [job] = await repositories.postJobs.list({ type: 'video_tweet', status: 'completed' }, 10);
+        assert.deepStrictEqual(job.result, { tweet_id: first.id, video_id: 'v1' });
+
+        // The GIF is next, uploaded as one
+        assert.strictEqual(await videoTweets.generateAndPostVideoTweet(), true);
+        assert.strictEqual((await repositories.videos.getById('v2'))!.tweet_id, server.getPostedTweets()[1].id);
+        console.log(`v1 posted in tweet ${first.id}, then the v2 GIF`);
+
+        console.log('\n--- Test 6: A video that cannot be posted fails its job and is passed over afterwards ---');
+        assert.strictEqual(await videoTweets.generateAndPostVideoTweet(), false);
+        const [failed] = await repositories.postJobs.list({ type: 'video_tweet', status: 'failed' }, 10);
+        assert.strictEqual(failed.payload.video_id, 'v3');
+        assert.match(failed.last_error!, /Unsupported media: an HTML page/);
+        assert.strictEqual((await repositories.videos.getById('v3'))!.x_posted, false);
+        assert.strictEqual(server.getPostedTweets().length, 2);
+
+        // A job for a video posted in the meantime does not post it again
+        const queue = PostJobQueue.getInstance();
+        const repeat = await queue.enqueueAndRun({
+            type: 'video_tweet',
+            idempotencyKey: 'video_tweet:v1:again',
+            payload: { video_id: 'v1', content: { text: 'Once more', platform: 'twitter' }, persona: 'marvin' }
+        });
+        assert.deepStrictEqual(repeat.result, { skipped: 'already_posted', tweet_id: first.id });
+        console.log('v3 failed as an HTML page and stays unposted; v1 not posted twice');
+
+        console.log('\n--- Test 7: In review mode, the caption waits for a reviewer and is posted once approved ---');
+        config.approval.required.image_caption = true;
+        assert.strictEqual(await videoTweets.generateAndPostVideoTweet(), true);
+        const [approval] = await ApprovalService.getInstance().list({ status: 'pending' });
+        assert.deepStrictEqual([approval.job_type, approval.payload.video_id], ['video_tweet', 'v4']);
+        assert.strictEqual(await videoTweets.generateAndPostVideoTweet(), false); // v4 is waiting; nothing else to post
+        assert.strictEqual(server.getPostedTweets().length, 2);
+
+        await ApprovalService.getInstance().approve(approval.id!, 'reviewer@example.com');
+        await queue.processDue();
+        assert.strictEqual((await repositories.videos.getById('v4'))!.tweet_id, server.getPostedTweets()[2].id);
+        config.approval.required.image_caption = false;
+        console.log('v4 posted after approval');
+
+        console.log('\nVideo tweet tests passed');
+    } finally {
+        Object.assign(config.media, limits);
+        fs.rmSync(workDir, { recursive: true, force: true });
+        await server.stop();
+        await slowServer.stop();
+    }
+}
+
+// Run the test
+testVideoTweets().then(() => {
+    process.exit(0);
+}).catch(error => {
+    console.error('Video tweet test failed:', error);
+    process.exit(1);
+});
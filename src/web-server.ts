@@ -1,9 +1,23 @@
 import express, { Request, Response } from 'express';
 import path from 'path';
 import basicAuth from 'express-basic-auth';
+import { config } from '../config';
 import { TwitterService } from '../services/twitter/TwitterService';
 import { ContentGenerator } from '../services/content/ContentGenerator';
 import { EngagementService } from '../services/engagement/EngagementService';
+import { SuppressedPostService } from '../services/suppression/SuppressedPostService';
+import { PostJobQueue } from '../services/queue/PostJobQueue';
+import { LLMService } from '../services/llm/LLMService';
+import { SchedulerService } from '../services/scheduler/SchedulerService';
+import { CharacterService } from '../services/character/CharacterService';
+import { PersonaRegistry } from '../services/persona/PersonaRegistry';
+import { ThreadComposer } from '../services/content/ThreadComposer';
+import { BlogThreadService } from '../services/content/BlogThreadService';
+import { BLOG_POST_TRANSITIONS, BlogPostLifecycleService } from '../services/content/BlogPostLifecycleService';
+import { ApprovalService } from '../services/approval/ApprovalService';
+import { ModerationService } from '../services/moderation/ModerationService';
+import { ImageSelector } from '../services/content/ImageSelector';
+import { ApprovalContentType, ApprovalStatus, BlogPostStatus, ModerationContentType, PostJobStatus, PostJobType, SuppressedPostStatus } from '../services/repositories';
 
 export function startWebServer() {
   const app = express();
@@ -36,12 +50,27 @@ export function startWebServer() {
   });
   app.use(express.json());
   
+  // The persona a request is for: ?persona= or "persona" in the body, the default persona otherwise
+  const personaOf = (req: Request) => PersonaRegistry.getInstance().get((req.query.persona as string) || req.body?.persona);
+  
   // API endpoints
+  app.get('/api/personas', (req: Request, res: Response) => {
+    const personas = PersonaRegistry.getInstance();
+    res.json({
+      personas: personas.list().map(persona => ({
+        name: persona.name,
+        agentName: persona.agentName,
+        isDefault: personas.isDefault(persona.name)
+      }))
+    });
+  });
+  
   app.post('/api/test-tweet', async (req: Request, res: Response) => {
     try {
       const category = req.body.category || 'Toolbox';
-      const twitterService = TwitterService.getInstance();
-      const contentGenerator = ContentGenerator.getInstance();
+      const persona = personaOf(req);
+      const twitterService = TwitterService.getInstance(persona.name);
+      const contentGenerator = ContentGenerator.getInstance(persona.name);
       
       await contentGenerator.initialize();
       const tweetContent = await contentGenerator.generateTweet(category);
@@ -56,6 +85,17 @@ export function startWebServer() {
         });
       }
       
+      // Test tweets have no review; one that moderation blocked is not posted
+      const moderation = await ModerationService.getInstance().moderate([formattedContent.text], { contentType: 'test_tweet', persona: persona.name });
+      if (!moderation.allowed) {
+        return res.json({
+          success: false,
+          message: `Blocked by moderation: ${ModerationService.getInstance().describe(moderation.issues)}`,
+          content: formattedContent,
+          issues: moderation.issues
+        });
+      }
+      
       // Post the tweet
       const postResult = await twitterService.postTweet(formattedContent);
       
@@ -86,37 +126,60 @@ export function startWebServer() {
     res.json({ categories });
   });
   
-  // Status endpoint
-  app.get('/api/status', (req: Request, res: Response) => {
-    const now = new Date();
-    const morningTime = new Date(now);
-    morningTime.setHours(9, 0, 0, 0);
-    
-    const eveningTime = new Date(now);
-    eveningTime.setHours(17, 0, 0, 0);
-    
-    let nextTweetTime: Date;
-    if (now < morningTime) {
-      nextTweetTime = morningTime;
-    } else if (now < eveningTime) {
-      nextTweetTime = eveningTime;
-    } else {
-      nextTweetTime = new Date(morningTime);
-      nextTweetTime.setDate(nextTweetTime.getDate() + 1);
+  // Status endpoint: what the scheduler will do next, and the health of everything it depends on
+  app.get('/api/status', async (req: Request, res: Response) => {
+    try {
+      const now = new Date();
+      const persona = personaOf(req);
+      const scheduler = SchedulerService.getInstance();
+      const nextTweetTime = scheduler.getNextRun(PersonaRegistry.getInstance().scope('image_tweet', persona.name));
+      const [jobs, postJobs, suppressedPosts, approvals] = await Promise.all([
+        scheduler.getJobs(),
+        PostJobQueue.getInstance().getDepths(),
+        SuppressedPostService.getInstance().getDepths(),
+        ApprovalService.getInstance().getDepths()
+      ]);
+      
+      res.json({
+        status: 'running',
+        persona: persona.name,
+        currentTime: now.toISOString(),
+        nextScheduledTweet: nextTweetTime ? nextTweetTime.toISOString() : null,
+        timeUntilNextTweet: nextTweetTime ? nextTweetTime.getTime() - now.getTime() : null,
+        jobs,
+        queues: { postJobs, suppressedPosts, approvals },
+        llmProviders: LLMService.getInstance().getProviderHealth(),
+        twitterRateLimits: TwitterService.getInstance(persona.name).getRateLimits()
+      });
+    } catch (error: unknown) {
+      console.error('Error getting status:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Scheduled job run history
+  app.get('/api/scheduler/runs', async (req: Request, res: Response) => {
+    try {
+      const job = req.query.job as string | undefined;
+      const limit = parseInt((req.query.limit as string) || '50', 10);
+      const runs = await SchedulerService.getInstance().getHistory(job, limit);
+      res.json({ runs });
+    } catch (error: unknown) {
+      console.error('Error listing scheduled job runs:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
     }
-    
-    res.json({
-      status: 'running',
-      currentTime: now.toISOString(),
-      nextScheduledTweet: nextTweetTime.toISOString(),
-      timeUntilNextTweet: nextTweetTime.getTime() - now.getTime()
-    });
   });
   
   // Engagement rules endpoints
   app.get('/api/engagement/rules', (req: Request, res: Response) => {
     try {
-      const engagementService = EngagementService.getInstance();
+      const engagementService = EngagementService.getInstance(personaOf(req).name);
       res.json({ rules: engagementService.getRules() });
     } catch (error: unknown) {
       console.error('Error getting engagement rules:', error);
@@ -129,7 +192,7 @@ export function startWebServer() {
   
   app.post('/api/engagement/rules', express.json(), (req: Request, res: Response) => {
     try {
-      const engagementService = EngagementService.getInstance();
+      const engagementService = EngagementService.getInstance(personaOf(req).name);
       engagementService.updateRules(req.body.rules);
       res.json({ success: true, message: 'Rules updated successfully' });
     } catch (error: unknown) {
@@ -141,6 +204,493 @@ export function startWebServer() {
     }
   });
   
+  // Character version endpoints
+  app.get('/api/character/versions', async (req: Request, res: Response) => {
+    try {
+      const agent = (req.query.agent as string) || personaOf(req).agentName;
+      const characterService = CharacterService.getInstance();
+      const [versions, current] = await Promise.all([
+        characterService.listVersions(agent),
+        characterService.getCharacter(agent)
+      ]);
+      res.json({
+        inUse: current.version,
+        pinned: config.character.pinnedVersion,
+        versions: versions.map(({ version, is_active, created_at, updated_at }) => ({ version, is_active, created_at, updated_at }))
+      });
+    } catch (error: unknown) {
+      console.error('Error listing character versions:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.get('/api/character/versions/:version', async (req: Request, res: Response) => {
+    try {
+      const agent = (req.query.agent as string) || personaOf(req).agentName;
+      const character = await CharacterService.getInstance().getVersion(agent, parseInt(req.params.version, 10));
+      if (!character) {
+        return res.status(404).json({ success: false, message: 'Character version not found' });
+      }
+      res.json({ character });
+    } catch (error: unknown) {
+      console.error('Error getting character version:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.get('/api/character/diff', async (req: Request, res: Response) => {
+    try {
+      const agent = (req.query.agent as string) || personaOf(req).agentName;
+      const from = parseInt(req.query.from as string, 10);
+      const to = parseInt(req.query.to as string, 10);
+      if (isNaN(from) || isNaN(to)) {
+        return res.status(400).json({ success: false, message: 'from and to versions are required' });
+      }
+      const diff = await CharacterService.getInstance().diff(agent, from, to);
+      res.json({ from, to, diff });
+    } catch (error: unknown) {
+      console.error('Error comparing character versions:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/character/rollback', express.json(), async (req: Request, res: Response) => {
+    try {
+      const agent = req.body.agent || personaOf(req).agentName;
+      const version = parseInt(req.body.version, 10);
+      if (isNaN(version)) {
+        return res.status(400).json({ success: false, message: 'version is required' });
+      }
+      const character = await CharacterService.getInstance().rollback(agent, version);
+      res.json({ success: true, message: `Character rolled back to version ${character.version}` });
+    } catch (error: unknown) {
+      console.error('Error rolling back character:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/character/reload', express.json(), async (req: Request, res: Response) => {
+    try {
+      const character = await CharacterService.getInstance().reload(req.body.agent || personaOf(req).agentName);
+      res.json({ success: true, message: `Loaded character version ${character.version}` });
+    } catch (error: unknown) {
+      console.error('Error reloading character:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Blog post lifecycle endpoints: list posts and move them through their statuses
+  app.get('/api/blog-posts', async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as BlogPostStatus | undefined;
+      const persona = req.query.persona as string | undefined;
+      const limit = parseInt((req.query.limit as string) || '50', 10);
+      const posts = await BlogPostLifecycleService.getInstance().list({ status, persona }, limit);
+      res.json({ posts });
+    } catch (error: unknown) {
+      console.error('Error listing blog posts:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.get('/api/blog-posts/:id/history', async (req: Request, res: Response) => {
+    try {
+      const lifecycle = BlogPostLifecycleService.getInstance();
+      const post = await lifecycle.getById(req.params.id);
+      if (!post) {
+        return res.status(404).json({ success: false, message: 'Blog post not found' });
+      }
+      res.json({ status: post.status, transitions: await lifecycle.getHistory(post.id) });
+    } catch (error: unknown) {
+      console.error('Error getting blog post history:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/blog-posts/:id/status', express.json(), async (req: Request, res: Response) => {
+    try {
+      const status = req.body.status as BlogPostStatus;
+      if (!Object.keys(BLOG_POST_TRANSITIONS).includes(status)) {
+        return res.status(400).json({ success: false, message: `status must be one of ${Object.keys(BLOG_POST_TRANSITIONS).join(', ')}` });
+      }
+      const post = await BlogPostLifecycleService.getInstance().transition(req.params.id, status, {
+        actor: 'admin',
+        reason: req.body.reason
+      });
+      res.json({ success: true, message: `Blog post is ${post.status}` });
+    } catch (error: unknown) {
+      console.error('Error changing blog post status:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/blog-posts/:id/schedule', express.json(), async (req: Request, res: Response) => {
+    try {
+      const scheduledAt = new Date(req.body.scheduled_at);
+      if (!req.body.scheduled_at || isNaN(scheduledAt.getTime())) {
+        return res.status(400).json({ success: false, message: 'scheduled_at must be a date and time' });
+      }
+      await BlogPostLifecycleService.getInstance().schedule(req.params.id, scheduledAt, 'admin');
+      res.json({ success: true, message: `Blog post scheduled for ${scheduledAt.toISOString()}` });
+    } catch (error: unknown) {
+      console.error('Error scheduling blog post:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/blog-posts/:id/priority', express.json(), async (req: Request, res: Response) => {
+    try {
+      const priority = parseInt(req.body.priority, 10);
+      if (isNaN(priority)) {
+        return res.status(400).json({ success: false, message: 'priority is required' });
+      }
+      await BlogPostLifecycleService.getInstance().setPriority(req.params.id, priority);
+      res.json({ success: true, message: `Blog post priority set to ${priority}` });
+    } catch (error: unknown) {
+      console.error('Error setting blog post priority:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Blog post thread preview: the thread a blog post would be posted as, without posting it
+  app.get('/api/blog-posts/:id/thread-plan', async (req: Request, res: Response) => {
+    try {
+      const hook = req.query.hook !== undefined ? req.query.hook === 'true' : undefined;
+      const plan = await ThreadComposer.getInstance().preview(req.params.id, { hook });
+      if (!plan) {
+        return res.status(404).json({ success: false, message: 'Blog post not found' });
+      }
+      res.json({ plan });
+    } catch (error: unknown) {
+      console.error('Error composing blog post thread:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Unfinished blog post threads: threads stopped part way, and whether a job will finish them
+  app.get('/api/blog-posts/partial-threads', async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt((req.query.limit as string) || '50', 10);
+      const threads = await BlogThreadService.getInstance().listPartialThreads(limit);
+      res.json({ threads });
+    } catch (error: unknown) {
+      console.error('Error listing unfinished threads:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Deletes the posted parts of a blog post's unfinished thread
+  app.post('/api/blog-posts/:id/cleanup-thread', async (req: Request, res: Response) => {
+    try {
+      const deleted = await BlogThreadService.getInstance().cleanupPartialThread(req.params.id);
+      res.json({ success: true, message: `Deleted ${deleted} tweets` });
+    } catch (error: unknown) {
+      console.error('Error cleaning up unfinished thread:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Suppressed post endpoints: posts that were not published because generation failed
+  app.get('/api/suppressed-posts', async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as SuppressedPostStatus | undefined;
+      const limit = parseInt((req.query.limit as string) || '50', 10);
+      const posts = await SuppressedPostService.getInstance().list(status, limit);
+      res.json({ posts });
+    } catch (error: unknown) {
+      console.error('Error listing suppressed posts:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/suppressed-posts/:id/resolve', express.json(), async (req: Request, res: Response) => {
+    try {
+      await SuppressedPostService.getInstance().resolve(req.params.id, { resolution: req.body.note || 'reviewed' });
+      res.json({ success: true, message: 'Suppressed post resolved' });
+    } catch (error: unknown) {
+      console.error('Error resolving suppressed post:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/suppressed-posts/:id/dismiss', async (req: Request, res: Response) => {
+    try {
+      await SuppressedPostService.getInstance().dismiss(req.params.id);
+      res.json({ success: true, message: 'Suppressed post dismissed' });
+    } catch (error: unknown) {
+      console.error('Error dismissing suppressed post:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Review queue endpoints: generated posts waiting for approval
+  app.get('/api/approvals', async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as ApprovalStatus | undefined;
+      const contentType = req.query.content_type as ApprovalContentType | undefined;
+      const persona = req.query.persona as string | undefined;
+      const limit = parseInt((req.query.limit as string) || '50', 10);
+      const approvals = await ApprovalService.getInstance().list({ status, content_type: contentType, persona }, limit);
+      res.json({ approvals });
+    } catch (error: unknown) {
+      console.error('Error listing posts under review:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.get('/api/approvals/:id', async (req: Request, res: Response) => {
+    try {
+      const approval = await ApprovalService.getInstance().getById(req.params.id);
+      if (!approval) {
+        return res.status(404).json({ success: false, message: 'Post under review not found' });
+      }
+      res.json({ approval });
+    } catch (error: unknown) {
+      console.error('Error getting post under review:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/approvals/:id/approve', express.json(), async (req: Request, res: Response) => {
+    try {
+      const job = await ApprovalService.getInstance().approve(req.params.id, req.body.reviewer || 'admin', req.body.note);
+      res.json({ success: true, message: `Post approved and queued as job ${job.id}`, job });
+    } catch (error: unknown) {
+      console.error('Error approving post:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/approvals/:id/edit', express.json(), async (req: Request, res: Response) => {
+    try {
+      const texts = Array.isArray(req.body.texts) ? req.body.texts : [req.body.text];
+      if (!texts.every((text: unknown) => typeof text === 'string')) {
+        return res.status(400).json({ success: false, message: 'text (or texts, one per tweet of a thread) is required' });
+      }
+      const approval = await ApprovalService.getInstance().edit(req.params.id, texts, req.body.reviewer || 'admin');
+      res.json({ success: true, message: 'Post edited', approval });
+    } catch (error: unknown) {
+      console.error('Error editing post:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/approvals/:id/regenerate', express.json(), async (req: Request, res: Response) => {
+    try {
+      const approval = await ApprovalService.getInstance().regenerate(req.params.id, req.body.reviewer || 'admin');
+      res.json({ success: true, message: 'Post regenerated', approval });
+    } catch (error: unknown) {
+      console.error('Error regenerating post:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/approvals/:id/reject', express.json(), async (req: Request, res: Response) => {
+    try {
+      await ApprovalService.getInstance().reject(req.params.id, req.body.reviewer || 'admin', req.body.reason);
+      res.json({ success: true, message: 'Post rejected' });
+    } catch (error: unknown) {
+      console.error('Error rejecting post:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Moderation endpoints: the verdict recorded for each checked post
+  app.get('/api/moderation/verdicts', async (req: Request, res: Response) => {
+    try {
+      const allowed = req.query.allowed === undefined ? undefined : req.query.allowed === 'true';
+      const contentType = req.query.content_type as ModerationContentType | undefined;
+      const persona = req.query.persona as string | undefined;
+      const limit = parseInt((req.query.limit as string) || '50', 10);
+      const moderation = ModerationService.getInstance();
+      const verdicts = await moderation.listVerdicts({ allowed, content_type: contentType, persona }, limit);
+      res.json({ rules: moderation.getRuleNames(), verdicts });
+    } catch (error: unknown) {
+      console.error('Error listing moderation verdicts:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Image selection endpoints: a dry run of the next image tweet's pick, and pins for a date
+  app.get('/api/images/selection', async (req: Request, res: Response) => {
+    try {
+      const persona = personaOf(req);
+      const selection = await ImageSelector.getInstance().select(persona.name, { job: req.query.job as string | undefined });
+      res.json({ dryRun: true, strategies: ImageSelector.getInstance().getStrategyNames(), selection });
+    } catch (error: unknown) {
+      console.error('Error running image selection:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/images/:id/pin', express.json(), async (req: Request, res: Response) => {
+    try {
+      const date = req.body.date;
+      const parsed = new Date(`${date}T00:00:00Z`);
+      if (typeof date !== 'string' || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+        return res.status(400).json({ success: false, message: 'date must be a date, YYYY-MM-DD' });
+      }
+      const image = await ImageSelector.getInstance().pin(req.params.id, date);
+      if (!image) {
+        return res.status(404).json({ success: false, message: 'Image not found' });
+      }
+      res.json({ success: true, message: `Image pinned for ${date}` });
+    } catch (error: unknown) {
+      console.error('Error pinning image:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.delete('/api/images/:id/pin', async (req: Request, res: Response) => {
+    try {
+      const image = await ImageSelector.getInstance().pin(req.params.id, null);
+      if (!image) {
+        return res.status(404).json({ success: false, message: 'Image not found' });
+      }
+      res.json({ success: true, message: 'Image unpinned' });
+    } catch (error: unknown) {
+      console.error('Error unpinning image:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  // Post job queue endpoints
+  app.get('/api/jobs', async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as PostJobStatus | undefined;
+      const type = req.query.type as PostJobType | undefined;
+      const limit = parseInt((req.query.limit as string) || '50', 10);
+      const jobs = await PostJobQueue.getInstance().list({ status, type }, limit);
+      res.json({ jobs });
+    } catch (error: unknown) {
+      console.error('Error listing post jobs:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.get('/api/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const job = await PostJobQueue.getInstance().getById(req.params.id);
+      if (!job) {
+        return res.status(404).json({ success: false, message: 'Post job not found' });
+      }
+      res.json({ job });
+    } catch (error: unknown) {
+      console.error('Error getting post job:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/jobs/:id/requeue', async (req: Request, res: Response) => {
+    try {
+      await PostJobQueue.getInstance().requeue(req.params.id);
+      res.json({ success: true, message: 'Post job requeued' });
+    } catch (error: unknown) {
+      console.error('Error requeueing post job:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
+  app.post('/api/jobs/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      await PostJobQueue.getInstance().cancel(req.params.id);
+      res.json({ success: true, message: 'Post job cancelled' });
+    } catch (error: unknown) {
+      console.error('Error cancelling post job:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  });
+  
   // Main HTML page
   app.get('/', (req: Request, res: Response) => {
     res.sendFile(path.join(publicDir, 'index.html'));
@@ -1,3 +1,6 @@
+import { LLMChainEntry, LLMProviderName, LLMUseCase } from '../services/llm/LLMProvider';
+import { ApprovalContentType, SuppressionAction } from '../services/repositories/types';
+
 export interface PostContent {
     text: string;
     hashtags?: string[];
@@ -12,6 +15,19 @@ export interface TwitterConfig {
     accessToken: string;
     accessTokenSecret: string;
     bearerToken?: string;
+    apiBaseUrl?: string; // Base URL of a mock X API server; unset to use the real API
+}
+
+export interface PersonaConfig {
+    name: string; // Scopes the persona's stored rows, scheduled jobs and posts; lowercase
+    agentName: string; // The character_files agent the persona speaks as
+    twitter: TwitterConfig; // The X account the persona posts from
+    watermarkPath: string | null; // Signature image added to the corner of the persona's uploaded images; none if null
+}
+
+export interface PersonasConfig {
+    defaultPersona: string; // Owns rows stored before personas existed; its jobs keep their unprefixed names
+    personas: PersonaConfig[]; // The default persona first
 }
 
 export interface SocialMediaPost {
@@ -27,9 +43,92 @@ export interface BlogPostSchedulerConfig {
     scheduleHour: number;
     scheduleMinute: number;
     useXArticles: boolean;
+    postAsThread: boolean; // Post the whole blog post as a thread instead of a single teaser tweet
+    threadHook: boolean; // Open threads with an LLM-written hook tweet instead of the title
     dryRun: boolean;
     updateStatusInDryRun: boolean;
     notifications: {
         enabled: boolean;
     };
 }
+
+export interface ConversationConfig {
+    maxContextTurns: number; // Earlier tweets of a thread sent to the model with a reply
+    maxDepth: number; // Marvin stops replying in threads with more tweets than this above the reply
+    maxRepliesPerThread: number; // Marvin stops replying in a thread after this many replies
+    hostileTerms: string[]; // Marvin stops replying once a user in the thread uses one of these
+}
+
+export interface CharacterConfig {
+    pinnedVersion: number | null; // Use this version of the character instead of the active one
+    reloadSeconds: number; // How long a loaded character is used before it is loaded again
+}
+
+export interface ScheduledJobConfig {
+    cron: string | null; // 5-field cron expression, or null when the job is turned off
+    timezone: string; // IANA time zone the cron expression is evaluated in
+    catchUp: 'skip' | 'run_once'; // What to do on startup about runs missed while the process was down
+    runOnStart: boolean; // Also run once as soon as the scheduler starts
+}
+
+export interface SchedulerConfig {
+    timezone: string; // Default time zone for jobs
+    jobs: Record<string, ScheduledJobConfig>;
+    historyRetentionDays: number; // Run history older than this is deleted
+}
+
+export interface StorageConfig {
+    backend: 'supabase' | 'memory';
+    seedFile?: string; // JSON file with initial rows for the in-memory backend
+}
+
+export interface LLMConfig {
+    models: Record<LLMProviderName, string>; // Default model per provider
+    chains: Record<LLMUseCase, LLMChainEntry[]>;
+}
+
+export interface GenerationFailureConfig {
+    actions: Record<LLMUseCase, SuppressionAction>; // What to do when generation fails, per use case
+    maxRetries: number; // Retries before a 'retry' post is routed to review
+}
+
+export interface JobQueueConfig {
+    batchSize: number; // Jobs run per poll, to stay under rate limits
+    maxAttempts: number; // Delivery attempts before a job fails
+    initialDelaySeconds: number; // Base of the exponential backoff between attempts
+    runningTimeoutSeconds: number; // A job running for longer than this was left by a worker that stopped, and is put back in the queue
+    imageLeaseSeconds: number; // An image claimed for posting longer ago than this is reconciled: marked posted if it went out, released if not
+}
+
+export interface ApprovalConfig {
+    required: Record<ApprovalContentType, boolean>; // Hold generated posts of this type for review instead of posting them
+    expiryHours: number; // Posts nobody reviewed within this time are dropped
+}
+
+export interface ModerationConfig {
+    enabled: boolean; // Check outbound text before it is queued or posted
+    blocklist: string[]; // Words and phrases never posted, matched case-insensitively as whole words
+    blockPatterns: string[]; // Regular expressions never posted, matched case-insensitively
+    maxHashtags: number;
+    maxMentions: number;
+    classifier: boolean; // Also ask the moderation LLM chain whether the text is safe to post
+}
+
+export interface ImageSelectionConfig {
+    strategy: string; // Name of the image selection strategy: random_recent, fifo, weighted_tags or a registered one
+    candidates: number; // How many unposted images the strategy chooses from
+    avoidRepeatDays: number; // Skip images whose prompt or style was posted within this many days; 0 turns it off
+    tagWeights: Record<string, number>; // Prompt tag weights for weighted_tags; unlisted tags weigh 1
+    maxImages: number; // Images per tweet, 1 to 4: the pick, then unposted images from the same prompt
+}
+
+export interface MediaConfig {
+    maxImageBytes: number; // Larger images are recompressed as JPEG and scaled down until they fit; X rejects them
+    maxImageDimension: number; // Images with a longer side are scaled down to it, in pixels
+    maxDownloadBytes: number; // Larger downloads are refused rather than processed
+    cacheDir: string; // Processed images are kept here by image ID until they are posted
+    watermarkOpacity: number; // 0 to 1
+    uploadChunkBytes: number; // Videos and GIFs are uploaded in chunks of this size, at most 5MB
+    maxVideoBytes: number; // Larger videos are refused rather than downloaded; X takes up to 512MB
+    processingTimeoutSeconds: number; // How long to wait for X to process an uploaded video or GIF
+}